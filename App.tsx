@@ -1,18 +1,89 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { LoadingSpinner } from './components/LoadingSpinner';
-import { generateLook, analyzeLookWithThinking, editImage, generateImageFromText } from './services/geminiService';
-import type { UploadedFile, AppTab, AspectRatio } from './types';
+import { VersionHistory } from './components/VersionHistory';
+import { Gallery } from './components/Gallery';
+import { BatchTryOn } from './components/BatchTryOn';
+import { MaskCanvas, type MaskCanvasHandle } from './components/MaskCanvas';
+import { AnalysisReport } from './components/AnalysisReport';
+import { CompareView } from './components/CompareView';
+import { Wardrobe } from './components/Wardrobe';
+import { ErrorNotice } from './components/ErrorNotice';
+import { VariantPicker } from './components/VariantPicker';
+import { ExportDialog } from './components/ExportDialog';
+import { SceneBuilder } from './components/SceneBuilder';
+import { SettingsPanel } from './components/SettingsPanel';
+import { TryOnItems } from './components/TryOnItems';
+import { FidelityChecklist } from './components/FidelityChecklist';
+import { IdentityCheckNotice } from './components/IdentityCheckNotice';
+import { StylistChat } from './components/StylistChat';
+import { StyleMe } from './components/StyleMe';
+import { ColorPaletteCard } from './components/ColorPaletteCard';
+import { Dialog } from './components/Dialog';
+import { useImageHistory } from './hooks/useImageHistory';
+import { useBatchTryOn } from './hooks/useBatchTryOn';
+import { useRequestManager } from './hooks/useRequestManager';
+import { useImageDescriptions } from './hooks/useImageDescriptions';
+import { useStylistChats } from './hooks/useStylistChats';
+import { generateLook, generateLookVariations, analyzeLookWithThinking, editImage, editImageRegion, generateImageFromText, compareLooks, classifyItemRoles, verifyLookFidelity, checkIdentity, askStylist, recommendOutfits, analyzePersonalColors, type ServiceOptions, type TryOnOptions } from './services/geminiService';
+import { saveGalleryEntry } from './services/galleryStore';
+import { StorageBlockedError, StorageQuotaError } from './services/studioDb';
+import { toStudioError } from './services/errors';
+import { createLookRecipe, parseLookRecipe, resolveRecipeImages } from './services/lookRecipe';
+import { EMPTY_SCENE, composeScenePrompt } from './services/scenePresets';
+import { roleForWardrobeCategory } from './services/itemRoles';
+import { MAX_FIDELITY_RETRIES, countMissingItems } from './services/fidelity';
+import { MAX_IDENTITY_REFERENCES, MAX_IDENTITY_RETRIES, hasIdentityDrift } from './services/identity';
+import { MAX_ITEM_IMAGES, MAX_POOL_ITEMS } from './services/proxyProtocol';
+import { tryOnLimitProblem } from './services/requestLimits';
+import { downloadBase64Image, downloadJson } from './utils/download';
+import { dominantColors } from './utils/colorSampling';
+import { t, tPlural, formatDate, getLocale, setLocale, applyDocumentLocale, localeInfo, LOCALES, type Locale, type MessageKey } from './i18n';
+import type { UploadedFile, AppTab, AspectRatio, GalleryEntry, ImageVersionSource, BatchJob, FashionAnalysis, PinnedLook, LookComparison, WardrobeItem, LookExportData, LookRecipe, SceneSettings, FidelityReport, IdentityCheck, ChatMessage, SuggestedEdit, StyledOutfit, PersonalPalette } from './types';
 
-const Header: React.FC = () => (
-    <header className="text-center py-12">
+const Header: React.FC<{ locale: Locale; localeSaved: boolean; onLocaleChange: (locale: Locale) => void; onOpenSettings: () => void }> = ({ locale, localeSaved, onLocaleChange, onOpenSettings }) => (
+    <header className="relative text-center py-12">
+        <select
+            value={locale}
+            onChange={e => onLocaleChange(e.target.value as Locale)}
+            className="absolute top-4 start-4 p-2 text-sm rounded-lg border border-gray-200 bg-white text-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-800"
+            aria-label={t('header.language')}
+        >
+            {LOCALES.map(({ code, nativeName }) => <option key={code} value={code} lang={code}>{nativeName}</option>)}
+        </select>
+        {!localeSaved && <p role="status" className="absolute top-16 start-4 max-w-xs text-start text-xs text-amber-600">{t('locale.notSaved')}</p>}
+        <button
+            onClick={onOpenSettings}
+            className="absolute top-4 end-4 p-2 rounded-full text-gray-500 hover:text-gray-900 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-800"
+            aria-label={t('header.settings')}
+            title={t('header.settings')}
+        >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9.594 3.94c.09-.542.56-.94 1.11-.94h2.593c.55 0 1.02.398 1.11.94l.213 1.281c.063.374.313.686.645.87.074.04.147.083.22.127.325.196.72.257 1.075.124l1.217-.456a1.125 1.125 0 011.37.49l1.296 2.247a1.125 1.125 0 01-.26 1.431l-1.003.827c-.293.241-.438.613-.43.992a7.723 7.723 0 010 .255c-.008.378.137.75.43.991l1.004.827c.424.35.534.955.26 1.43l-1.298 2.247a1.125 1.125 0 01-1.369.491l-1.217-.456c-.355-.133-.75-.072-1.076.124a6.47 6.47 0 01-.22.128c-.331.183-.581.495-.644.869l-.213 1.281c-.09.543-.56.94-1.11.94h-2.594c-.55 0-1.019-.398-1.11-.94l-.213-1.281c-.062-.374-.312-.686-.644-.87a6.52 6.52 0 01-.22-.127c-.325-.196-.72-.257-1.076-.124l-1.217.456a1.125 1.125 0 01-1.369-.49l-1.297-2.247a1.125 1.125 0 01.26-1.431l1.004-.827c.292-.24.437-.613.43-.991a6.932 6.932 0 010-.255c.007-.38-.138-.751-.43-.992l-1.004-.827a1.125 1.125 0 01-.26-1.43l1.297-2.247a1.125 1.125 0 011.37-.491l1.216.456c.356.133.751.072 1.076-.124.072-.044.146-.086.22-.128.332-.183.582-.495.644-.869l.214-1.28z" />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+        </button>
         <h1 className="text-5xl font-normal tracking-wide text-gray-900">StyleMix Studio</h1>
-        <p className="text-gray-600 mt-3 text-lg font-light">Craft Your Signature Look with AI</p>
+        <p className="text-gray-600 mt-3 text-lg font-light">{t('header.tagline')}</p>
     </header>
 );
 
-const TabButton: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+const TABS: { id: AppTab; label: MessageKey }[] = [
+    { id: 'tryon', label: 'tabs.tryon' },
+    { id: 'generate', label: 'tabs.generate' },
+    { id: 'edit', label: 'tabs.edit' },
+    { id: 'wardrobe', label: 'tabs.wardrobe' },
+    { id: 'gallery', label: 'tabs.gallery' },
+];
+
+const TabButton: React.FC<{ id: AppTab; active: boolean; onClick: () => void; children: React.ReactNode }> = ({ id, active, onClick, children }) => (
     <button
+        id={`tab-${id}`}
+        role="tab"
+        aria-selected={active}
+        aria-controls={`panel-${id}`}
+        // Only the active tab is in the Tab order; the arrow keys move between tabs.
+        tabIndex={active ? 0 : -1}
         onClick={onClick}
         className={`px-6 py-3 text-sm font-medium rounded-lg transition-all duration-300 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-800 ${
             active 
@@ -24,35 +95,118 @@ const TabButton: React.FC<{ active: boolean; onClick: () => void; children: Reac
     </button>
 );
 
+// Arrow keys, Home and End move to another tab and select it, following the ARIA tabs pattern.
+// In right-to-left languages the tabs run right to left, so the arrow keys swap.
+const TabBar: React.FC<{ active: AppTab; onChange: (tab: AppTab) => void }> = ({ active, onChange }) => {
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        const index = TABS.findIndex(tab => tab.id === active);
+        const [forward, back] = localeInfo(getLocale()).dir === 'rtl' ? ['ArrowLeft', 'ArrowRight'] : ['ArrowRight', 'ArrowLeft'];
+        const targets: Record<string, number> = {
+            [forward]: (index + 1) % TABS.length,
+            [back]: (index - 1 + TABS.length) % TABS.length,
+            Home: 0,
+            End: TABS.length - 1,
+        };
+        if (!(e.key in targets)) return;
+        e.preventDefault();
+        const next = TABS[targets[e.key]].id;
+        onChange(next);
+        document.getElementById(`tab-${next}`)?.focus();
+    };
+
+    return (
+        <div role="tablist" aria-label={t('tabs.label')} onKeyDown={handleKeyDown} className="flex gap-4 p-2 bg-gray-100 rounded-xl">
+            {TABS.map(tab => (
+                <TabButton key={tab.id} id={tab.id} active={active === tab.id} onClick={() => onChange(tab.id)}>{t(tab.label)}</TabButton>
+            ))}
+        </div>
+    );
+};
+
 const SparkleIcon: React.FC = () => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6 text-gray-800">
       <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904L9 18.75l-.813-2.846a4.5 4.5 0 00-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 003.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 003.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 00-3.09 3.09zM18.259 8.715L18 9.75l-.259-1.035a3.375 3.375 0 00-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 002.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 002.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 00-2.456 2.456zM16.898 20.624l-.219.932-.219-.932a2.25 2.25 0 00-1.53-1.53l-.932-.219.932-.219a2.25 2.25 0 001.53-1.53l.219-.932.219.932a2.25 2.25 0 001.53 1.53l.932.219-.932.219a2.25 2.25 0 00-1.53 1.53z" />
     </svg>
 );
 
-// A simple markdown to HTML converter for the analysis output
-const formatAnalysis = (text: string): string => {
-    let processedText = text
-      .replace(/^## (.*$)/gim, '<h3>$1</h3>')
-      .replace(/^# (.*$)/gim, '<h2>$1</h2>')
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-  
-    processedText = processedText.replace(/((?:(?:^|\n)[*-] (.*))+)/g, (match) => {
-      const listItems = match.trim().split('\n').map(item => `<li>${item.substring(2)}</li>`).join('');
-      return `<ul>${listItems}</ul>`;
-    });
-  
-    return processedText.replace(/\n/g, '<br />');
+type TryOnMode = 'single' | 'batch' | 'styleMe';
+
+const TRY_ON_MODE_LABELS: Record<TryOnMode, MessageKey> = {
+    single: 'tryOnMode.single',
+    batch: 'tryOnMode.batch',
+    styleMe: 'tryOnMode.styleMe',
+};
+
+interface LookInputs {
+    sceneDescription: string;
+    itemImages: File[];
+    userImage: File | null;
+}
+
+const MAX_PINNED_LOOKS = 4;
+
+const toUploadedFile = (file: File): UploadedFile => ({
+    id: `${file.name}-${Date.now()}`,
+    file,
+    preview: URL.createObjectURL(file),
+});
+
+// Cancelling is the user's choice, so it is not reported as an error.
+const isCancelled = (error: unknown) => toStudioError(error).kind === 'cancelled';
+
+// Checks run on a try-on result after generation; null where the check was not requested.
+interface LookAssessment {
+    report: FidelityReport | null;
+    identity: IdentityCheck | null;
+}
+
+const missingItemCount = (assessment: LookAssessment) => assessment.report ? countMissingItems(assessment.report) : 0;
+
+// Fewer missing items wins; a closer likeness breaks ties.
+const isBetterAssessment = (next: LookAssessment, current: LookAssessment) => {
+    if (missingItemCount(next) !== missingItemCount(current)) return missingItemCount(next) < missingItemCount(current);
+    return (next.identity?.similarity ?? 0) > (current.identity?.similarity ?? 0);
 };
 
 const App: React.FC = () => {
     const [activeTab, setActiveTab] = useState<AppTab>('tryon');
+    // Messages are looked up at render time, so switching language re-renders the tree.
+    const [locale, setActiveLocale] = useState<Locale>(getLocale);
+    const [localeSaved, setLocaleSaved] = useState(true);
     
     // Try-on state
     const [itemImages, setItemImages] = useState<UploadedFile[]>([]);
     const [userImage, setUserImage] = useState<UploadedFile | null>(null);
     const [sceneDescription, setSceneDescription] = useState<string>('');
+    const [sceneSettings, setSceneSettings] = useState<SceneSettings>(EMPTY_SCENE);
     const [useThinkingMode, setUseThinkingMode] = useState<boolean>(false);
+    const [tryOnMode, setTryOnMode] = useState<TryOnMode>('single');
+    const [removeItemBackgrounds, setRemoveItemBackgrounds] = useState<boolean>(false);
+    const [autoDetectRoles, setAutoDetectRoles] = useState<boolean>(true);
+    const [verifyFidelity, setVerifyFidelity] = useState<boolean>(false);
+    const [autoRegenerate, setAutoRegenerate] = useState<boolean>(false);
+    // The latest item check, tied to the image it was run on so it hides once that image is no longer shown.
+    const [fidelity, setFidelity] = useState<{ image: string; items: UploadedFile[]; report: FidelityReport } | null>(null);
+    // Identity preservation for try-ons on the user's own photo, with extra photos of the same person.
+    const [preserveIdentity, setPreserveIdentity] = useState<boolean>(false);
+    const [identityPhotos, setIdentityPhotos] = useState<UploadedFile[]>([]);
+    const [autoRetryIdentity, setAutoRetryIdentity] = useState<boolean>(false);
+    const [identity, setIdentity] = useState<{ image: string; check: IdentityCheck } | null>(null);
+    // Personal color analysis of the user photo it was run on, and dominant colors per try-on item id.
+    const [personalPalette, setPersonalPalette] = useState<{ photoId: string; palette: PersonalPalette } | null>(null);
+    const [itemColors, setItemColors] = useState<Record<string, string[]>>({});
+    // Items whose colors are sampled or being sampled, so each is sampled only once.
+    const sampledItemIds = useRef(new Set<string>());
+    const activePalette = personalPalette && personalPalette.photoId === userImage?.id ? personalPalette.palette : null;
+    // "Style me" proposals, with the item pool they index into as it was when they were suggested.
+    const [styleMe, setStyleMe] = useState<{ pool: UploadedFile[]; outfits: StyledOutfit[] } | null>(null);
+    const [outfitCount, setOutfitCount] = useState<number>(3);
+    // A recipe whose inputs were loaded and whose generation and edits can be replayed.
+    const [loadedRecipe, setLoadedRecipe] = useState<{ recipe: LookRecipe; missing: string[] } | null>(null);
+    const [embedRecipeImages, setEmbedRecipeImages] = useState<boolean>(true);
+    // Item ids that came from the wardrobe; recipes reference these instead of requiring embedding.
+    const wardrobeItemIds = useRef(new Set<string>());
+    const recipeInputRef = useRef<HTMLInputElement>(null);
     
     // Generate state
     const [generatePrompt, setGeneratePrompt] = useState<string>('');
@@ -60,242 +214,1071 @@ const App: React.FC = () => {
     
     // Edit state
     const [editPrompt, setEditPrompt] = useState<string>('');
+    const [isMasking, setIsMasking] = useState<boolean>(false);
+    const [isErasing, setIsErasing] = useState<boolean>(false);
+    const [brushSize, setBrushSize] = useState<number>(32);
+    const [hasMask, setHasMask] = useState<boolean>(false);
+    const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+    const maskRef = useRef<MaskCanvasHandle>(null);
 
     // Shared state
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-    const [analysisResult, setAnalysisResult] = useState<string>('');
-    const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [error, setError] = useState<string | null>(null);
+    const [variationCount, setVariationCount] = useState<number>(1);
+    // Candidates from the latest generation; the active one is tracked in the history.
+    const [variants, setVariants] = useState<{ images: string[]; prompt: string; source: ImageVersionSource; aspectRatio: AspectRatio | null } | null>(null);
+    const history = useImageHistory();
+    const generatedImage = history.current?.image ?? null;
+    const [analysisResult, setAnalysisResult] = useState<FashionAnalysis | null>(null);
+    const requests = useRequestManager();
+    const mainRequest = requests.get('main');
+    const isLoading = !!mainRequest;
+    const chats = useStylistChats();
+    const isChatReplying = !!requests.get('chat');
+    const [chatError, setChatError] = useState<string | null>(null);
+    // Validation messages are plain strings; service failures keep their typed error.
+    const [error, setError] = useState<Error | string | null>(null);
+    const retryActionRef = useRef<(() => void) | null>(null);
     const [isZoomModalOpen, setIsZoomModalOpen] = useState<boolean>(false);
+    const [exportData, setExportData] = useState<LookExportData | null>(null);
+    const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+
+    // Compare state
+    const [pinnedLooks, setPinnedLooks] = useState<PinnedLook[]>([]);
+    const [isCompareOpen, setIsCompareOpen] = useState<boolean>(false);
+    const [comparison, setComparison] = useState<LookComparison | null>(null);
+    const isComparing = !!requests.get('compare');
+    const [compareError, setCompareError] = useState<string | null>(null);
+
+    // Wardrobe state
+    const [wardrobeIncoming, setWardrobeIncoming] = useState<File[]>([]);
+
+    // Gallery state
+    const [galleryRefreshKey, setGalleryRefreshKey] = useState<number>(0);
+    const [galleryNotice, setGalleryNotice] = useState<string | null>(null);
+    // Shown when uploads or wardrobe picks were skipped because the item list is full.
+    const [itemNotice, setItemNotice] = useState<string | null>(null);
 
+    // Uploads stop at the largest pool any mode can send; a single try-on's lower limit is checked before generating.
     const handleItemFiles = useCallback((files: File[]) => {
-        const newUploadedFiles: UploadedFile[] = files.map(file => ({
-            id: `${file.name}-${Date.now()}`,
-            file,
-            preview: URL.createObjectURL(file),
-        }));
+        const room = Math.max(0, MAX_POOL_ITEMS - itemImages.length);
+        setItemNotice(files.length > room ? t('limits.itemsSkipped', { max: MAX_POOL_ITEMS }) : null);
+        const newUploadedFiles: UploadedFile[] = files.slice(0, room).map(toUploadedFile);
         setItemImages(prev => [...prev, ...newUploadedFiles]);
-    }, []);
+    }, [itemImages.length]);
 
     const handleUserFile = useCallback((files: File[]) => {
         if (files.length > 0) {
-            setUserImage({
-                id: `${files[0].name}-${Date.now()}`,
-                file: files[0],
-                preview: URL.createObjectURL(files[0]),
-            });
+            setUserImage(toUploadedFile(files[0]));
         }
     }, []);
     
+    const handleIdentityFiles = useCallback((files: File[]) => {
+        setIdentityPhotos(prev => [...prev, ...files.map(toUploadedFile)].slice(0, MAX_IDENTITY_REFERENCES));
+    }, []);
+
+    const removeIdentityPhoto = (id: string) => {
+        setIdentityPhotos(prev => prev.filter(photo => photo.id !== id));
+    };
+
+    const handleAnalyzeColors = async () => {
+        if (!userImage) return;
+        const photo = userImage;
+        setError(null);
+        try {
+            await requests.run('main', t('request.colorAnalysis'), 'coloring', async ({ signal, setStage }) => {
+                setPersonalPalette({ photoId: photo.id, palette: await analyzePersonalColors(photo.file, { signal, onStage: setStage }) });
+            });
+        } catch (e) {
+            if (isCancelled(e)) return;
+            console.error(e);
+            retryActionRef.current = handleAnalyzeColors;
+            setError(toStudioError(e));
+        }
+    };
+
+    // Items are sampled once each, and only once there is a palette to compare them with.
+    useEffect(() => {
+        if (!activePalette) return;
+        const sampled = sampledItemIds.current;
+        const pending = itemImages.filter(item => !sampled.has(item.id));
+        if (pending.length === 0) return;
+        pending.forEach(item => sampled.add(item.id));
+        let cancelled = false;
+        let finished = false;
+        Promise.all(pending.map(async item => [item.id, await dominantColors(item.file).catch(() => [])] as const)).then(entries => {
+            if (cancelled) return;
+            finished = true;
+            setItemColors(prev => ({ ...prev, ...Object.fromEntries(entries) }));
+        });
+        return () => {
+            cancelled = true;
+            // Items interrupted mid-sampling are sampled again by the next run.
+            if (!finished) pending.forEach(item => sampled.delete(item.id));
+        };
+    }, [activePalette, itemImages]);
+
+    // Builder choices are composed into the scene description, which stays editable by hand.
+    const handleSceneSettingsChange = useCallback((settings: SceneSettings) => {
+        setSceneSettings(settings);
+        setSceneDescription(composeScenePrompt(settings));
+    }, []);
+
     const removeItem = (id: string) => {
         setItemImages(prev => prev.filter(item => item.id !== id));
     };
 
+    const updateItem = useCallback((id: string, patch: Pick<UploadedFile, 'role' | 'notes'>) => {
+        setItemImages(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+    }, []);
+
+    // Asks the vision model what each unlabeled item is and records the answers on the items,
+    // so the user can see and correct them. Returns the items with the detected roles applied.
+    const detectMissingRoles = async (items: UploadedFile[], options: ServiceOptions): Promise<UploadedFile[]> => {
+        const unlabeled = items.filter(item => !item.role);
+        if (unlabeled.length === 0) return items;
+        const roles = await classifyItemRoles(unlabeled.map(item => item.file), options);
+        const detected = new Map(unlabeled.map((item, i) => [item.id, roles[i] ?? undefined]));
+        const withRole = (item: UploadedFile) => !item.role && detected.get(item.id) ? { ...item, role: detected.get(item.id) } : item;
+        setItemImages(prev => prev.map(withRole));
+        return items.map(withRole);
+    };
+
+    const handleDetectRoles = async () => {
+        setError(null);
+        try {
+            await requests.run('main', t('request.itemRoles'), 'classifying', ({ signal, setStage }) =>
+                detectMissingRoles(itemImages, { signal, onStage: setStage }));
+        } catch (e) {
+            if (isCancelled(e)) return;
+            console.error(e);
+            retryActionRef.current = handleDetectRoles;
+            setError(toStudioError(e));
+        }
+    };
+
+    const handleUseWardrobeItem = useCallback((item: WardrobeItem) => {
+        if (itemImages.some(existing => existing.id === item.id)) return;
+        if (itemImages.length >= MAX_POOL_ITEMS) {
+            setItemNotice(t('limits.itemsSkipped', { max: MAX_POOL_ITEMS }));
+            return;
+        }
+        wardrobeItemIds.current.add(item.id);
+        setItemImages(prev => [...prev, { id: item.id, file: item.file, preview: URL.createObjectURL(item.file), role: roleForWardrobeCategory(item.category) }]);
+    }, [itemImages]);
+
+    const handleSendToWardrobe = (item: UploadedFile) => {
+        setWardrobeIncoming(prev => [...prev, item.file]);
+        setActiveTab('wardrobe');
+    };
+
+    const handleWardrobeIncomingConsumed = useCallback(() => setWardrobeIncoming([]), []);
+
+    // Every generated or edited image is saved automatically. Saving the same id
+    // again (e.g. once the analysis arrives) updates the existing entry.
+    const saveToGallery = async (
+        id: string,
+        image: string,
+        source: ImageVersionSource,
+        prompt: string,
+        analysis: FashionAnalysis | null = null,
+        inputs: LookInputs = {
+            sceneDescription,
+            itemImages: itemImages.map(f => f.file),
+            userImage: userImage?.file ?? null,
+        }
+    ) => {
+        const isGenerate = source === 'generate';
+        try {
+            await saveGalleryEntry({
+                id,
+                createdAt: Date.now(),
+                source,
+                image,
+                prompt,
+                sceneDescription: isGenerate ? '' : inputs.sceneDescription,
+                aspectRatio: isGenerate ? aspectRatio : null,
+                analysis,
+                itemImages: isGenerate ? [] : inputs.itemImages,
+                userImage: isGenerate ? null : inputs.userImage,
+            });
+            setGalleryNotice(null);
+            setGalleryRefreshKey(key => key + 1);
+        } catch (e) {
+            console.error(e);
+            setGalleryNotice(e instanceof StorageQuotaError ? e.message
+                : e instanceof StorageBlockedError ? t('error.galleryBlocked')
+                : t('error.gallerySave'));
+        }
+    };
+
+    const batch = useBatchTryOn({
+        onJobDone: (job, input) => {
+            saveToGallery(crypto.randomUUID(), job.image!, 'tryon', job.scene, null, {
+                sceneDescription: input.scene,
+                itemImages: input.items.map(item => item.file),
+                userImage: input.userImage,
+            });
+        },
+    });
+
+    // Looks get model-written alt text in the background: the open one at once, thumbnails once seen.
+    const { altText, describeOnView } = useImageDescriptions(generatedImage);
+    // Read out by screen readers whenever a new look is shown, with its description once it arrives.
+    const lookDescription = generatedImage ? altText(generatedImage, '') : '';
+    const lookAnnouncement = generatedImage && !isLoading
+        ? lookDescription ? t('output.lookReadyDescribed', { description: lookDescription }) : t('output.lookReady')
+        : '';
+
+    const { addOutfit } = batch;
+    const handleAddOutfitFiles = useCallback((files: File[]) => {
+        addOutfit(files.map(toUploadedFile));
+    }, [addOutfit]);
+
+    const handleOpenBatchResult = (job: BatchJob) => {
+        history.push(job.image!, job.scene, 'tryon');
+        setAnalysisResult(null);
+        setError(null);
+    };
+
+    const handleOpenFromGallery = (entry: GalleryEntry, tab: 'tryon' | 'edit') => {
+        history.reset();
+        setVariants(null);
+        history.push(entry.image, entry.prompt, entry.source, entry.source === 'edit' ? {} : {
+            generation: { prompt: entry.prompt, aspectRatio: entry.aspectRatio },
+        });
+        setAnalysisResult(entry.analysis);
+        setError(null);
+        if (tab === 'tryon') {
+            setItemImages(entry.itemImages.map(toUploadedFile));
+            setUserImage(entry.userImage ? toUploadedFile(entry.userImage) : null);
+            setSceneDescription(entry.sceneDescription);
+        }
+        setActiveTab(tab);
+    };
+
+    // What the proxy would reject about the try-on as set up now. Style me sends its whole pool
+    // to pick from; batch runs check each outfit themselves.
+    const tryOnLimit = tryOnMode === 'batch' ? null : tryOnLimitProblem(
+        itemImages.map(item => item.file),
+        userImage ? [userImage.file, ...(preserveIdentity ? identityPhotos.map(photo => photo.file) : [])] : [],
+        tryOnMode === 'styleMe' ? MAX_POOL_ITEMS : MAX_ITEM_IMAGES
+    );
+
     const handleGenerateLook = async () => {
         if (itemImages.length === 0 || !sceneDescription) {
-            setError('Please upload at least one item and describe the scene.');
+            setError(t('error.tryOnInputs'));
+            return;
+        }
+        if (tryOnLimit) {
+            setError(tryOnLimit);
             return;
         }
-        setIsLoading(true);
         setError(null);
-        setGeneratedImage(null);
-        setAnalysisResult('');
+        setAnalysisResult(null);
 
         try {
-            const imageBase64 = await generateLook(
-                itemImages.map(f => f.file),
-                userImage?.file ?? null,
-                sceneDescription
-            );
-            setGeneratedImage(imageBase64);
-            
-            if (useThinkingMode) {
-                const analysis = await analyzeLookWithThinking(imageBase64, sceneDescription);
-                setAnalysisResult(analysis);
-            }
+            await requests.run('main', t('request.tryOn'), 'uploading', async ({ signal, setStage, setAnalysisProgress }) => {
+                // Detection only improves placement, so a failure falls back to the items as labeled.
+                const items = autoDetectRoles
+                    ? await detectMissingRoles(itemImages, { signal, onStage: setStage }).catch(e => {
+                        if (isCancelled(e)) throw e;
+                        console.error(e);
+                        return itemImages;
+                    })
+                    : itemImages;
+                const checkLikeness = !!userImage && preserveIdentity;
+                const tryOnOptions: TryOnOptions = {
+                    signal,
+                    onStage: setStage,
+                    preserveIdentity: checkLikeness,
+                    identityReferences: identityPhotos.map(photo => photo.file),
+                };
+                const images = await generateLookVariations(
+                    items,
+                    userImage?.file ?? null,
+                    sceneDescription,
+                    variationCount,
+                    tryOnOptions
+                );
+                let imageBase64 = images[0];
+                history.push(imageBase64, sceneDescription, 'tryon');
+                setVariants(images.length > 1 ? { images, prompt: sceneDescription, source: 'tryon', aspectRatio: null } : null);
+                let galleryId = crypto.randomUUID();
+                await saveToGallery(galleryId, imageBase64, 'tryon', sceneDescription);
+                for (const variant of images.slice(1)) {
+                    await saveToGallery(crypto.randomUUID(), variant, 'tryon', sceneDescription);
+                }
+
+                const assess = async (image: string): Promise<LookAssessment> => ({
+                    report: verifyFidelity ? await verifyLookFidelity(image, items, { signal, onStage: setStage }) : null,
+                    identity: checkLikeness
+                        ? await checkIdentity(image, [userImage!.file, ...identityPhotos.map(photo => photo.file)], { signal, onStage: setStage })
+                        : null,
+                });
+                const showAssessment = (image: string, { report, identity: check }: LookAssessment) => {
+                    setFidelity(report ? { image, items, report } : null);
+                    setIdentity(check ? { image, check } : null);
+                };
+                const needsRetry = ({ report, identity: check }: LookAssessment) =>
+                    (autoRegenerate && !!report && countMissingItems(report) > 0) || (autoRetryIdentity && !!check && hasIdentityDrift(check));
+                const maxRetries = Math.max(autoRegenerate ? MAX_FIDELITY_RETRIES : 0, autoRetryIdentity ? MAX_IDENTITY_RETRIES : 0);
+
+                if (verifyFidelity || checkLikeness) {
+                    let assessment = await assess(imageBase64);
+                    showAssessment(imageBase64, assessment);
+                    // Each retry is kept in the gallery, but only replaces the shown look if it checks out better.
+                    for (let attempt = 0; needsRetry(assessment) && attempt < maxRetries; attempt++) {
+                        const retryImage = await generateLook(items, userImage?.file ?? null, sceneDescription, tryOnOptions);
+                        const retryGalleryId = crypto.randomUUID();
+                        await saveToGallery(retryGalleryId, retryImage, 'tryon', sceneDescription);
+                        const retryAssessment = await assess(retryImage);
+                        if (!isBetterAssessment(retryAssessment, assessment)) continue;
+                        history.push(retryImage, sceneDescription, 'tryon');
+                        imageBase64 = retryImage;
+                        galleryId = retryGalleryId;
+                        assessment = retryAssessment;
+                        showAssessment(imageBase64, assessment);
+                    }
+                }
+
+                if (useThinkingMode) {
+                    const analysis = await analyzeLookWithThinking(imageBase64, sceneDescription, { signal, onStage: setStage, onProgress: setAnalysisProgress, palette: activePalette });
+                    setAnalysisResult(analysis);
+                    await saveToGallery(galleryId, imageBase64, 'tryon', sceneDescription, analysis);
+                }
+            });
         } catch (e) {
+            if (isCancelled(e)) return;
             console.error(e);
-            setError(e instanceof Error ? e.message : 'An unknown error occurred.');
-        } finally {
-            setIsLoading(false);
+            retryActionRef.current = handleGenerateLook;
+            setError(toStudioError(e));
         }
     };
     
+    const handleSuggestOutfits = async () => {
+        if (itemImages.length < 2 || !sceneDescription) {
+            setError(t('error.styleMeInputs'));
+            return;
+        }
+        const pool = itemImages;
+        setError(null);
+        try {
+            await requests.run('main', t('request.styleMe'), 'styling', async ({ signal, setStage }) => {
+                const proposals = await recommendOutfits(pool, sceneDescription, outfitCount, { signal, onStage: setStage });
+                setStyleMe({
+                    pool,
+                    outfits: proposals.map((proposal, index) => ({
+                        ...proposal,
+                        title: proposal.title || t('styleMe.untitled', { number: index + 1 }),
+                        id: crypto.randomUUID(),
+                        selected: true,
+                        image: null,
+                        error: null,
+                    })),
+                });
+            });
+        } catch (e) {
+            if (isCancelled(e)) return;
+            console.error(e);
+            retryActionRef.current = handleSuggestOutfits;
+            setError(toStudioError(e));
+        }
+    };
+
+    const updateStyledOutfit = (id: string, patch: Partial<StyledOutfit>) => {
+        setStyleMe(prev => prev && { ...prev, outfits: prev.outfits.map(outfit => outfit.id === id ? { ...outfit, ...patch } : outfit) });
+    };
+
+    const toggleStyledOutfit = (id: string) => {
+        setStyleMe(prev => prev && { ...prev, outfits: prev.outfits.map(outfit => outfit.id === id ? { ...outfit, selected: !outfit.selected } : outfit) });
+    };
+
+    // Generates a try-on per chosen outfit, one at a time. A failed outfit is marked and the rest still run;
+    // the first success is shown in the output.
+    const handleGenerateStyledOutfits = async () => {
+        if (!styleMe) return;
+        const { pool } = styleMe;
+        const chosen = styleMe.outfits.filter(outfit => outfit.selected);
+        setError(null);
+        try {
+            await requests.run('main', t('request.styleMe'), 'uploading', async ({ signal, setStage }) => {
+                let shown = false;
+                for (const outfit of chosen) {
+                    const items = outfit.itemIndexes.map(index => pool[index]);
+                    try {
+                        const image = await generateLook(items, userImage?.file ?? null, sceneDescription, {
+                            signal,
+                            onStage: setStage,
+                            preserveIdentity: !!userImage && preserveIdentity,
+                            identityReferences: identityPhotos.map(photo => photo.file),
+                        });
+                        updateStyledOutfit(outfit.id, { image, error: null });
+                        if (!shown) {
+                            history.push(image, sceneDescription, 'tryon');
+                            setAnalysisResult(null);
+                            shown = true;
+                        }
+                        await saveToGallery(crypto.randomUUID(), image, 'tryon', sceneDescription, null, {
+                            sceneDescription,
+                            itemImages: items.map(item => item.file),
+                            userImage: userImage?.file ?? null,
+                        });
+                    } catch (e) {
+                        if (isCancelled(e)) throw e;
+                        console.error(e);
+                        updateStyledOutfit(outfit.id, { error: toStudioError(e).message });
+                    }
+                }
+            });
+        } catch (e) {
+            if (isCancelled(e)) return;
+            console.error(e);
+            setError(toStudioError(e));
+        }
+    };
+
+    const handleOpenStyledOutfit = (outfit: StyledOutfit) => {
+        history.push(outfit.image!, sceneDescription, 'tryon');
+        setAnalysisResult(null);
+        setError(null);
+    };
+
     const handleGenerateImage = async () => {
         if (!generatePrompt) {
-            setError('Please enter a prompt to generate an image.');
+            setError(t('error.generatePrompt'));
             return;
         }
-        setIsLoading(true);
         setError(null);
-        setGeneratedImage(null);
-        setAnalysisResult('');
+        setAnalysisResult(null);
         try {
-            const imageBase64 = await generateImageFromText(generatePrompt, aspectRatio);
-            setGeneratedImage(imageBase64);
+            await requests.run('main', t('request.generate'), 'generating', async ({ signal, setStage }) => {
+                const images = await generateImageFromText(generatePrompt, aspectRatio, variationCount, { signal, onStage: setStage });
+                history.push(images[0], generatePrompt, 'generate', { generation: { prompt: generatePrompt, aspectRatio } });
+                setVariants(images.length > 1 ? { images, prompt: generatePrompt, source: 'generate', aspectRatio } : null);
+                for (const image of images) {
+                    await saveToGallery(crypto.randomUUID(), image, 'generate', generatePrompt);
+                }
+            });
         } catch(e) {
+            if (isCancelled(e)) return;
             console.error(e);
-            setError(e instanceof Error ? e.message : 'An unknown error occurred.');
-        } finally {
-            setIsLoading(false);
+            retryActionRef.current = handleGenerateImage;
+            setError(toStudioError(e));
+        }
+    };
+
+    // Makes a variation the active image, reusing its history entry if it was picked before.
+    const handleSelectVariant = (image: string) => {
+        if (!variants || image === generatedImage) return;
+        const existing = history.versions.find(v => v.parentId === null && v.image === image);
+        if (existing) {
+            history.select(existing.id);
+        } else {
+            history.push(image, variants.prompt, variants.source, { generation: { prompt: variants.prompt, aspectRatio: variants.aspectRatio } });
+        }
+        setAnalysisResult(null);
+        setError(null);
+    };
+
+    const handleAnalyzeCurrent = async () => {
+        const current = history.current;
+        if (!current) return;
+        setError(null);
+        try {
+            await requests.run('main', t('request.analysis'), 'analyzing', async ({ signal, setStage, setAnalysisProgress }) => {
+                setAnalysisResult(await analyzeLookWithThinking(
+                    current.image,
+                    current.source === 'generate' ? current.prompt : sceneDescription,
+                    { signal, onStage: setStage, onProgress: setAnalysisProgress, palette: current.source === 'generate' ? null : activePalette }
+                ));
+            });
+        } catch (e) {
+            if (isCancelled(e)) return;
+            console.error(e);
+            retryActionRef.current = handleAnalyzeCurrent;
+            setError(toStudioError(e));
+        }
+    };
+
+    const handleCheckFidelity = async () => {
+        const current = history.current;
+        if (!current || itemImages.length === 0) return;
+        const items = itemImages;
+        setError(null);
+        try {
+            await requests.run('main', t('request.itemCheck'), 'verifying', async ({ signal, setStage }) => {
+                setFidelity({ image: current.image, items, report: await verifyLookFidelity(current.image, items, { signal, onStage: setStage }) });
+            });
+        } catch (e) {
+            if (isCancelled(e)) return;
+            console.error(e);
+            retryActionRef.current = handleCheckFidelity;
+            setError(toStudioError(e));
         }
     };
 
     const handleEditImage = async () => {
         if (!generatedImage || !editPrompt) {
-            setError('Please generate an image first and enter an edit prompt.');
+            setError(t('error.editInputs'));
+            return;
+        }
+        const mask = isMasking ? maskRef.current?.getMask() : null;
+        if (isMasking && !mask) {
+            setError(t('error.emptyMask'));
             return;
         }
-        setIsLoading(true);
         setError(null);
         try {
-            const imageBase64 = await editImage(generatedImage, editPrompt);
-            setGeneratedImage(imageBase64);
-            setEditPrompt('');
+            await requests.run('main', t('request.edit'), 'editing', async ({ signal, setStage }) => {
+                const imageBase64 = mask
+                    ? await editImageRegion(generatedImage, mask, editPrompt, { signal, onStage: setStage })
+                    : await editImage(generatedImage, editPrompt, { signal, onStage: setStage });
+                history.push(imageBase64, editPrompt, 'edit', { mask: mask ?? undefined });
+                await saveToGallery(crypto.randomUUID(), imageBase64, 'edit', editPrompt);
+                setEditPrompt('');
+            });
         } catch(e) {
+            if (isCancelled(e)) return;
             console.error(e);
-            setError(e instanceof Error ? e.message : 'An unknown error occurred.');
-        } finally {
-            setIsLoading(false);
+            retryActionRef.current = handleEditImage;
+            setError(toStudioError(e));
         }
     };
 
+    const handleSendChatMessage = async (text: string) => {
+        const current = history.current;
+        const lookId = history.lookId;
+        if (!current || !lookId) return;
+        const root = history.versions.find(version => version.id === lookId)!;
+        const existing = chats.get(lookId);
+        // The first message fixes what the conversation is about: the look's items and the scene it was made for.
+        const context = existing ?? {
+            items: root.source === 'generate' ? [] : itemImages,
+            sceneDescription: root.source === 'edit' ? sceneDescription : root.prompt,
+        };
+        const message: ChatMessage = { id: crypto.randomUUID(), role: 'user', text, edits: [], appliedEdits: [], createdAt: Date.now() };
+        chats.append(lookId, context, message);
+        setChatError(null);
+        try {
+            const reply = await requests.run('chat', t('request.chat'), 'chatting', ({ signal, setStage }) => askStylist(
+                { imageBase64: current.image, items: context.items, sceneDescription: context.sceneDescription },
+                [...(existing?.messages ?? []), message].map(({ role, text }) => ({ role, text })),
+                { signal, onStage: setStage }
+            ));
+            chats.append(lookId, context, { id: crypto.randomUUID(), role: 'stylist', text: reply.text, edits: reply.edits, appliedEdits: [], createdAt: Date.now() });
+        } catch (e) {
+            if (isCancelled(e)) return;
+            console.error(e);
+            setChatError(toStudioError(e).message);
+        }
+    };
+
+    // Applies a stylist suggestion as an ordinary edit, so it joins the version history and the gallery.
+    const handleApplyStylistEdit = async (messageId: string, edit: SuggestedEdit) => {
+        const lookId = history.lookId;
+        if (!generatedImage || !lookId) return;
+        setError(null);
+        try {
+            await requests.run('main', t('request.stylistEdit'), 'editing', async ({ signal, setStage }) => {
+                const imageBase64 = await editImage(generatedImage, edit.prompt, { signal, onStage: setStage });
+                history.push(imageBase64, edit.prompt, 'edit');
+                await saveToGallery(crypto.randomUUID(), imageBase64, 'edit', edit.prompt);
+                chats.markApplied(lookId, messageId, edit.prompt);
+            });
+        } catch (e) {
+            if (isCancelled(e)) return;
+            console.error(e);
+            retryActionRef.current = () => handleApplyStylistEdit(messageId, edit);
+            setError(toStudioError(e));
+        }
+    };
+
+    // Undo/redo shortcuts for the edit history. Form controls, editable content and open dialogs
+    // keep their own keys.
+    const { undo, redo } = history;
+    useEffect(() => {
+        if (activeTab !== 'edit') return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable || target.closest('[role="dialog"]')) return;
+            if (!(e.metaKey || e.ctrlKey)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [activeTab, undo, redo]);
+
     const handleDownloadImage = () => {
         if (!generatedImage) return;
-        const link = document.createElement('a');
-        link.href = `data:image/jpeg;base64,${generatedImage}`;
-        link.download = `stylemix-studio-${Date.now()}.jpeg`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        downloadBase64Image(generatedImage);
+    };
+
+    // The generation and every edit that led to the active image, oldest first.
+    const currentLineage = (): LookExportData['lineage'] => {
+        const lineage: LookExportData['lineage'] = [];
+        for (let version = history.current ?? undefined; version; version = history.versions.find(v => v.id === version!.parentId)) {
+            lineage.unshift({ source: version.source, prompt: version.prompt, mask: version.mask });
+        }
+        return lineage;
+    };
+
+    // Snapshots the active look for the export dialog.
+    const handleOpenExport = () => {
+        const current = history.current;
+        if (!current) return;
+        const lineage = currentLineage();
+        const isGenerate = lineage[0].source === 'generate';
+        setExportData({
+            image: current.image,
+            source: current.source,
+            prompt: current.prompt,
+            sceneDescription: isGenerate ? '' : sceneDescription,
+            aspectRatio: isGenerate ? aspectRatio : null,
+            itemImages: isGenerate ? [] : itemImages.map(f => f.file),
+            userImage: isGenerate ? null : userImage?.file ?? null,
+            analysis: analysisResult,
+            lineage,
+            createdAt: current.createdAt,
+        });
+    };
+
+    const handleCloseExport = useCallback(() => setExportData(null), []);
+    const handleCloseSettings = useCallback(() => setIsSettingsOpen(false), []);
+
+    const handleLocaleChange = (next: Locale) => {
+        setLocaleSaved(setLocale(next));
+        setActiveLocale(next);
+    };
+
+    useEffect(() => {
+        applyDocumentLocale(locale);
+    }, [locale]);
+    const handleCloseZoom = useCallback(() => setIsZoomModalOpen(false), []);
+
+    const handleSaveRecipe = async () => {
+        if (!history.current) return;
+        try {
+            const root = history.versions.find(version => version.id === history.lookId);
+            const recipe = await createLookRecipe(
+                { generation: root?.generation, lineage: currentLineage() },
+                itemImages.map(item => ({ file: item.file, wardrobeId: wardrobeItemIds.current.has(item.id) ? item.id : undefined, role: item.role, notes: item.notes })),
+                userImage ? { file: userImage.file } : null,
+                { embedImages: embedRecipeImages }
+            );
+            downloadJson(recipe, `stylemix-recipe-${Date.now()}.json`);
+        } catch (e) {
+            console.error(e);
+            setError(toStudioError(e));
+        }
+    };
+
+    // Loads a recipe's inputs into the matching tab. The look itself is only regenerated on replay,
+    // so the inputs can be remixed first.
+    const handleImportRecipe = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const recipe = parseLookRecipe(await file.text());
+            const resolved = await resolveRecipeImages(recipe);
+            if (recipe.source === 'generate') {
+                setGeneratePrompt(recipe.prompt);
+                setAspectRatio(recipe.aspectRatio ?? '1:1');
+                setActiveTab('generate');
+            } else {
+                for (const item of resolved.itemImages) {
+                    if (item.fromWardrobe) wardrobeItemIds.current.add(item.id);
+                }
+                setItemImages(resolved.itemImages.map(({ id, file, role, notes }) => ({ id, file, preview: URL.createObjectURL(file), role, notes })));
+                setUserImage(resolved.userImage ? toUploadedFile(resolved.userImage) : null);
+                setSceneDescription(recipe.prompt);
+                setTryOnMode('single');
+            }
+            setLoadedRecipe({ recipe, missing: resolved.missing });
+            setError(null);
+        } catch (err) {
+            console.error(err);
+            setError(toStudioError(err));
+        }
+    };
+
+    // Regenerates the look from the loaded inputs and reapplies the recipe's edits in order.
+    const handleReplayRecipe = async () => {
+        if (!loadedRecipe) return;
+        const { recipe } = loadedRecipe;
+        if (recipe.source === 'tryon' && itemImages.length === 0) {
+            setError(t('error.recipeItems'));
+            return;
+        }
+        setError(null);
+        setAnalysisResult(null);
+        setVariants(null);
+        try {
+            await requests.run('main', t('request.replay'), 'generating', async ({ signal, setStage }) => {
+                const requestOptions = { signal, onStage: setStage };
+                let image = recipe.source === 'generate'
+                    ? (await generateImageFromText(recipe.prompt, recipe.aspectRatio ?? '1:1', 1, requestOptions))[0]
+                    : await generateLook(itemImages, userImage?.file ?? null, recipe.prompt, requestOptions);
+                history.reset();
+                history.push(image, recipe.prompt, recipe.source, { generation: { prompt: recipe.prompt, aspectRatio: recipe.aspectRatio } });
+                await saveToGallery(crypto.randomUUID(), image, recipe.source, recipe.prompt);
+                for (const edit of recipe.edits) {
+                    image = edit.mask
+                        ? await editImageRegion(image, edit.mask, edit.prompt, requestOptions)
+                        : await editImage(image, edit.prompt, requestOptions);
+                    history.push(image, edit.prompt, 'edit', { mask: edit.mask });
+                    await saveToGallery(crypto.randomUUID(), image, 'edit', edit.prompt);
+                }
+                setLoadedRecipe(null);
+            });
+        } catch (e) {
+            if (isCancelled(e)) return;
+            console.error(e);
+            retryActionRef.current = handleReplayRecipe;
+            setError(toStudioError(e));
+        }
     };
     
+    const isCurrentPinned = !!history.current && pinnedLooks.some(look => look.id === history.current!.id);
+
+    const handlePinCurrent = () => {
+        const current = history.current;
+        if (!current || isCurrentPinned || pinnedLooks.length >= MAX_PINNED_LOOKS) return;
+        setPinnedLooks(prev => [...prev, {
+            id: current.id,
+            image: current.image,
+            prompt: current.prompt,
+            sceneDescription: current.source === 'generate' ? '' : sceneDescription,
+            source: current.source,
+            analysis: analysisResult,
+        }]);
+        setComparison(null);
+    };
+
+    const handleUnpin = useCallback((id: string) => {
+        setPinnedLooks(prev => prev.filter(look => look.id !== id));
+        setComparison(null);
+        setCompareError(null);
+    }, []);
+
+    const handleCloseCompare = useCallback(() => setIsCompareOpen(false), []);
+
+    const handleRequestVerdict = async () => {
+        setCompareError(null);
+        try {
+            await requests.run('compare', t('request.verdict'), 'comparing', async ({ signal, setStage }) => {
+                setComparison(await compareLooks(pinnedLooks.map(look => ({
+                    imageBase64: look.image,
+                    sceneDescription: look.sceneDescription || look.prompt,
+                })), { signal, onStage: setStage }));
+            });
+        } catch (e) {
+            if (isCancelled(e)) return;
+            console.error(e);
+            setCompareError(toStudioError(e).message);
+        }
+    };
+
     const resetTryOn = () => {
         setItemImages([]);
         setUserImage(null);
         setSceneDescription('');
-        setGeneratedImage(null);
-        setAnalysisResult('');
+        setSceneSettings(EMPTY_SCENE);
+        history.reset();
+        setAnalysisResult(null);
+        setFidelity(null);
+        setIdentity(null);
+        setIdentityPhotos([]);
+        setPreserveIdentity(false);
+        setStyleMe(null);
+        setPersonalPalette(null);
+        setItemColors({});
+        sampledItemIds.current.clear();
+        chats.reset();
+        setChatError(null);
         setError(null);
         setUseThinkingMode(false);
+        setVariants(null);
+        batch.reset();
+        setLoadedRecipe(null);
     }
     
     const resetGenerate = () => {
         setGeneratePrompt('');
         setAspectRatio('1:1');
-        setGeneratedImage(null);
+        setVariants(null);
+        setLoadedRecipe(null);
+        history.reset();
+        chats.reset();
+        setChatError(null);
         setError(null);
     }
 
+    const renderVariationControl = () => (
+        <label className="flex items-center justify-between p-3 rounded-lg hover:bg-gray-100 text-sm text-gray-700">
+            <span>{t('variations.label')}</span>
+            <select
+                value={variationCount}
+                onChange={e => setVariationCount(Number(e.target.value))}
+                className="p-1 border border-gray-300 rounded-md bg-white"
+            >
+                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+        </label>
+    );
+
+    const renderRecipeBanner = () => loadedRecipe && (
+        <div className="p-4 rounded-xl border border-gray-200 bg-gray-50 text-sm text-gray-700">
+            <p className="font-medium text-gray-900">{t('recipe.loaded')}</p>
+            <p className="mt-1 text-xs text-gray-500">
+                {t('recipe.madeWith', { date: formatDate(loadedRecipe.recipe.createdAt), model: loadedRecipe.recipe.models.generation })}
+                {loadedRecipe.recipe.edits.length > 0 && ` · ${tPlural('recipe.editsToReplay', loadedRecipe.recipe.edits.length)}`}
+            </p>
+            {loadedRecipe.missing.length > 0 && (
+                <p className="mt-2 text-xs text-amber-600">{t('recipe.missing', { names: loadedRecipe.missing.join(', ') })}</p>
+            )}
+            <div className="mt-3 flex gap-2">
+                <button onClick={handleReplayRecipe} disabled={isLoading} className="px-3 py-1.5 text-xs rounded-md bg-gray-900 text-white hover:bg-gray-700 disabled:opacity-40">{t('recipe.replay')}</button>
+                <button onClick={() => setLoadedRecipe(null)} className="px-3 py-1.5 text-xs rounded-md border border-gray-300 text-gray-600 hover:bg-gray-100">{t('common.dismiss')}</button>
+            </div>
+        </div>
+    );
+
     const renderTryOnInputs = () => (
         <div className="space-y-8">
+            <div className="flex p-1 bg-gray-100 rounded-lg text-sm">
+                {(Object.keys(TRY_ON_MODE_LABELS) as TryOnMode[]).map(mode => (
+                    <button
+                        key={mode}
+                        onClick={() => setTryOnMode(mode)}
+                        aria-pressed={tryOnMode === mode}
+                        className={`flex-1 py-2 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-gray-800 ${tryOnMode === mode ? 'bg-white shadow-sm text-gray-900 font-medium' : 'text-gray-500 hover:text-gray-900'}`}
+                    >
+                        {t(TRY_ON_MODE_LABELS[mode])}
+                    </button>
+                ))}
+            </div>
+            <div className="-mt-5 flex justify-end">
+                <button onClick={() => recipeInputRef.current?.click()} className="text-xs text-gray-500 hover:text-black">{t('recipe.import')}</button>
+                <input ref={recipeInputRef} type="file" accept="application/json,.json" onChange={handleImportRecipe} className="hidden" />
+            </div>
+            {loadedRecipe?.recipe.source === 'tryon' && renderRecipeBanner()}
             <section>
-                <div className="flex items-center space-x-3 mb-4">
+                <div className="flex items-center gap-3 mb-4">
                     <span className="flex items-center justify-center w-8 h-8 rounded-full bg-gray-900 text-white font-bold">1</span>
-                    <h2 className="text-xl font-semibold text-gray-900">Upload Your Items</h2>
+                    <h2 className="text-xl font-semibold text-gray-900">{t('tryon.itemsTitle')}</h2>
                 </div>
                 <FileUpload 
                     onFilesChange={handleItemFiles} 
                     multiple 
-                    label="Upload images of your items: a dress, shoes, a handbag..."
+                    label={t('tryon.itemsLabel')}
+                    preprocess={{ removeBackground: removeItemBackgrounds }}
                 />
+                <label className="mt-2 flex items-center gap-2 cursor-pointer text-xs text-gray-600">
+                    <input type="checkbox" checked={removeItemBackgrounds} onChange={e => setRemoveItemBackgrounds(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-black focus:ring-black" />
+                    <span>{t('tryon.removeBackgrounds')}</span>
+                </label>
                 {itemImages.length > 0 && (
-                    <div className="mt-4 grid grid-cols-4 sm:grid-cols-5 gap-3">
-                        {itemImages.map(item => (
-                            <div key={item.id} className="relative group aspect-square">
-                                <img src={item.preview} alt="item preview" className="w-full h-full object-cover rounded-lg" />
-                                <button onClick={() => removeItem(item.id)} className="absolute -top-1 -right-1 bg-black bg-opacity-70 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100">&times;</button>
-                            </div>
-                        ))}
-                    </div>
+                    <TryOnItems
+                        items={itemImages}
+                        onChange={updateItem}
+                        onRemove={removeItem}
+                        onSendToWardrobe={handleSendToWardrobe}
+                        onDetectRoles={handleDetectRoles}
+                        disabled={isLoading}
+                        colors={activePalette ? itemColors : undefined}
+                        palette={activePalette}
+                    />
                 )}
+                {itemNotice && <p className="mt-2 text-xs text-amber-600" role="status">{itemNotice}</p>}
+                {tryOnLimit && <p className="mt-2 text-xs text-red-500" role="alert">{tryOnLimit}</p>}
             </section>
             <section>
-                 <div className="flex items-center space-x-3 mb-4">
+                 <div className="flex items-center gap-3 mb-4">
                     <span className="flex items-center justify-center w-8 h-8 rounded-full bg-gray-900 text-white font-bold">2</span>
-                    <h2 className="text-xl font-semibold text-gray-900">Upload Your Photo <span className="text-gray-400 font-light">(Optional)</span></h2>
+                    <h2 className="text-xl font-semibold text-gray-900">{t('tryon.photoTitle')} <span className="text-gray-400 font-light">{t('common.optional')}</span></h2>
                 </div>
                 <FileUpload 
                     onFilesChange={handleUserFile} 
-                    label="Want to try it on yourself? Upload a full-body photo." 
-                    note="If you skip this, we will generate a realistic AI model for you."
+                    label={t('tryon.photoLabel')}
+                    note={t('tryon.photoNote')}
                 />
                 {userImage && (
-                    <div className="mt-4">
-                        <img src={userImage.preview} alt="user preview" className="w-24 h-24 object-cover rounded-lg" />
+                    <div className="mt-4 space-y-3">
+                        <div className="flex flex-wrap gap-3">
+                            <img src={userImage.preview} alt={t('tryon.photoAlt')} className="w-24 h-24 object-cover rounded-lg" />
+                            {preserveIdentity && identityPhotos.map((photo, index) => (
+                                <div key={photo.id} className="relative">
+                                    <img src={photo.preview} alt={t('tryon.referenceAlt', { number: index + 1 })} className="w-24 h-24 object-cover rounded-lg" />
+                                    <button onClick={() => removeIdentityPhoto(photo.id)} className="absolute -top-2 -end-2 bg-black bg-opacity-80 text-white rounded-full w-6 h-6 flex items-center justify-center text-sm hover:bg-opacity-100 focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-gray-800" aria-label={t('tryon.removeReference', { number: index + 1 })}>&times;</button>
+                                </div>
+                            ))}
+                        </div>
+                        {activePalette ? (
+                            <ColorPaletteCard palette={activePalette} />
+                        ) : (
+                            <button onClick={handleAnalyzeColors} disabled={isLoading} className="text-sm text-gray-600 hover:text-black disabled:opacity-40">
+                                {t('tryon.analyzeColors')}
+                            </button>
+                        )}
+                        <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-700">
+                            <input type="checkbox" checked={preserveIdentity} onChange={e => setPreserveIdentity(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-black focus:ring-black" />
+                            <span>{t('tryon.preserveIdentity')}</span>
+                        </label>
+                        {preserveIdentity && (
+                            <>
+                                {identityPhotos.length < MAX_IDENTITY_REFERENCES && (
+                                    <FileUpload
+                                        onFilesChange={handleIdentityFiles}
+                                        multiple
+                                        label={tPlural('tryon.identityPhotosLabel', MAX_IDENTITY_REFERENCES - identityPhotos.length)}
+                                        note={t('tryon.identityPhotosNote')}
+                                    />
+                                )}
+                                <label className="flex items-center gap-2 cursor-pointer text-xs text-gray-600">
+                                    <input type="checkbox" checked={autoRetryIdentity} onChange={e => setAutoRetryIdentity(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-black focus:ring-black" />
+                                    <span>{tPlural('tryon.autoRetryIdentity', MAX_IDENTITY_RETRIES)}</span>
+                                </label>
+                            </>
+                        )}
                     </div>
                 )}
             </section>
-            <section>
-                 <div className="flex items-center space-x-3 mb-4">
-                    <span className="flex items-center justify-center w-8 h-8 rounded-full bg-gray-900 text-white font-bold">3</span>
-                    <h2 className="text-xl font-semibold text-gray-900">Describe the Scene</h2>
-                </div>
-                <textarea
-                    value={sceneDescription}
-                    onChange={e => setSceneDescription(e.target.value)}
-                    placeholder="e.g., 'walking in a park at sunset,' 'coffee shop on a rainy day,' 'rooftop party at night'."
-                    className="w-full h-32 p-3 border border-gray-300 rounded-lg focus:ring-1 focus:ring-black focus:border-black transition-shadow bg-gray-50"
-                />
-            </section>
-            <section>
-                 <label className="flex items-center space-x-3 cursor-pointer p-3 rounded-lg hover:bg-gray-100">
-                    <input type="checkbox" checked={useThinkingMode} onChange={(e) => setUseThinkingMode(e.target.checked)} className="h-5 w-5 rounded border-gray-300 text-black focus:ring-black" />
-                    <span className="text-sm text-gray-700">Enable Pro Fashion Analysis</span>
-                </label>
-            </section>
-            <div className="pt-4 space-y-3">
-                <button 
-                    onClick={handleGenerateLook} 
-                    className="w-full bg-[#111111] text-white px-8 py-4 rounded-lg font-semibold hover:bg-gray-800 transition-colors transform hover:scale-[1.02]"
-                    disabled={isLoading}
-                >
-                    Generate My Look
-                </button>
-                {generatedImage && <button onClick={resetTryOn} className="w-full text-sm text-gray-500 hover:text-black py-2">Start Over</button>}
-            </div>
+            {tryOnMode === 'batch' ? (
+                <>
+                    <BatchTryOn
+                        batch={batch}
+                        baseItems={itemImages}
+                        userImage={userImage}
+                        onAddOutfitFiles={handleAddOutfitFiles}
+                        onOpenResult={handleOpenBatchResult}
+                        altText={altText}
+                        describeOnView={describeOnView}
+                    />
+                    {(generatedImage || batch.jobs.length > 0) && <button onClick={resetTryOn} className="w-full text-sm text-gray-500 hover:text-black py-2">{t('common.startOver')}</button>}
+                </>
+            ) : (
+                <>
+                    <section>
+                         <div className="flex items-center gap-3 mb-4">
+                            <span className="flex items-center justify-center w-8 h-8 rounded-full bg-gray-900 text-white font-bold">3</span>
+                            <h2 className="text-xl font-semibold text-gray-900">{t('tryon.sceneTitle')}</h2>
+                        </div>
+                        <SceneBuilder settings={sceneSettings} onChange={handleSceneSettingsChange} />
+                        <textarea
+                            value={sceneDescription}
+                            onChange={e => setSceneDescription(e.target.value)}
+                            placeholder={t('tryon.scenePlaceholder')}
+                            className="w-full h-32 p-3 border border-gray-300 rounded-lg focus:ring-1 focus:ring-black focus:border-black transition-shadow bg-gray-50"
+                        />
+                    </section>
+                    {tryOnMode === 'styleMe' ? (
+                        <>
+                            <StyleMe
+                                pool={styleMe?.pool ?? itemImages}
+                                outfits={styleMe?.outfits ?? null}
+                                outfitCount={outfitCount}
+                                onOutfitCountChange={setOutfitCount}
+                                onSuggest={handleSuggestOutfits}
+                                onToggle={toggleStyledOutfit}
+                                onGenerate={handleGenerateStyledOutfits}
+                                onOpen={handleOpenStyledOutfit}
+                                disabled={isLoading || !!tryOnLimit}
+                                altText={altText}
+                                describeOnView={describeOnView}
+                            />
+                            {(generatedImage || styleMe) && <button onClick={resetTryOn} className="w-full text-sm text-gray-500 hover:text-black py-2">{t('common.startOver')}</button>}
+                        </>
+                    ) : (
+                        <>
+                            <section>
+                                 <label className="flex items-center gap-3 cursor-pointer p-3 rounded-lg hover:bg-gray-100">
+                                    <input type="checkbox" checked={useThinkingMode} onChange={(e) => setUseThinkingMode(e.target.checked)} className="h-5 w-5 rounded border-gray-300 text-black focus:ring-black" />
+                                    <span className="text-sm text-gray-700">{t('tryon.proAnalysis')}</span>
+                                </label>
+                                <label className="flex items-center gap-3 cursor-pointer p-3 rounded-lg hover:bg-gray-100">
+                                    <input type="checkbox" checked={autoDetectRoles} onChange={(e) => setAutoDetectRoles(e.target.checked)} className="h-5 w-5 rounded border-gray-300 text-black focus:ring-black" />
+                                    <span className="text-sm text-gray-700">{t('tryon.detectRoles')}</span>
+                                </label>
+                                <label className="flex items-center gap-3 cursor-pointer p-3 rounded-lg hover:bg-gray-100">
+                                    <input type="checkbox" checked={verifyFidelity} onChange={(e) => setVerifyFidelity(e.target.checked)} className="h-5 w-5 rounded border-gray-300 text-black focus:ring-black" />
+                                    <span className="text-sm text-gray-700">{t('tryon.verifyFidelity')}</span>
+                                </label>
+                                {verifyFidelity && (
+                                    <label className="flex items-center gap-3 cursor-pointer p-3 ps-11 rounded-lg hover:bg-gray-100">
+                                        <input type="checkbox" checked={autoRegenerate} onChange={(e) => setAutoRegenerate(e.target.checked)} className="h-5 w-5 rounded border-gray-300 text-black focus:ring-black" />
+                                        <span className="text-sm text-gray-700">{tPlural('tryon.autoRegenerate', MAX_FIDELITY_RETRIES)}</span>
+                                    </label>
+                                )}
+                                {renderVariationControl()}
+                            </section>
+                            <div className="pt-4 space-y-3">
+                                <button 
+                                    onClick={handleGenerateLook} 
+                                    className="w-full bg-[#111111] text-white px-8 py-4 rounded-lg font-semibold hover:bg-gray-800 transition-colors transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+                                    disabled={isLoading || !!tryOnLimit}
+                                >
+                                    {t('tryon.submit')}
+                                </button>
+                                {generatedImage && <button onClick={resetTryOn} className="w-full text-sm text-gray-500 hover:text-black py-2">{t('common.startOver')}</button>}
+                            </div>
+                        </>
+                    )}
+                </>
+            )}
         </div>
     );
 
     const renderGenerateInputs = () => (
         <div className="space-y-8">
+            {loadedRecipe?.recipe.source === 'generate' && renderRecipeBanner()}
              <section>
-                <div className="flex items-center space-x-3 mb-4">
+                <div className="flex items-center gap-3 mb-4">
                     <span className="flex items-center justify-center w-8 h-8 rounded-full bg-gray-900 text-white font-bold">1</span>
-                    <h2 className="text-xl font-semibold text-gray-900">Describe Your Image</h2>
+                    <h2 className="text-xl font-semibold text-gray-900">{t('generate.promptTitle')}</h2>
                 </div>
                 <textarea
                     value={generatePrompt}
                     onChange={e => setGeneratePrompt(e.target.value)}
-                    placeholder="e.g., 'A photorealistic image of an astronaut riding a horse on Mars.'"
+                    placeholder={t('generate.promptPlaceholder')}
                     className="w-full h-40 p-3 border border-gray-300 rounded-lg focus:ring-1 focus:ring-black focus:border-black transition-shadow bg-gray-50"
                 />
             </section>
              <section>
-                 <div className="flex items-center space-x-3 mb-4">
+                 <div className="flex items-center gap-3 mb-4">
                     <span className="flex items-center justify-center w-8 h-8 rounded-full bg-gray-900 text-white font-bold">2</span>
-                    <h2 className="text-xl font-semibold text-gray-900">Choose Aspect Ratio</h2>
+                    <h2 className="text-xl font-semibold text-gray-900">{t('generate.aspectTitle')}</h2>
                 </div>
                 <select
                     value={aspectRatio}
                     onChange={e => setAspectRatio(e.target.value as AspectRatio)}
                     className="w-full p-3 border border-gray-300 rounded-lg focus:ring-1 focus:ring-black focus:border-black transition-shadow bg-white appearance-none"
                 >
-                    <option value="1:1">Square (1:1)</option>
-                    <option value="16:9">Landscape (16:9)</option>
-                    <option value="9:16">Portrait (9:16)</option>
-                    <option value="4:3">Standard (4:3)</option>
-                    <option value="3:4">Tall (3:4)</option>
+                    <option value="1:1">{t('generate.aspect.square')}</option>
+                    <option value="16:9">{t('generate.aspect.landscape')}</option>
+                    <option value="9:16">{t('generate.aspect.portrait')}</option>
+                    <option value="4:3">{t('generate.aspect.standard')}</option>
+                    <option value="3:4">{t('generate.aspect.tall')}</option>
                 </select>
             </section>
+            <section>
+                {renderVariationControl()}
+            </section>
             <div className="pt-4 space-y-3">
                 <button 
                     onClick={handleGenerateImage} 
-                    className="w-full bg-[#111111] text-white px-8 py-4 rounded-lg font-semibold hover:bg-gray-800 transition-colors transform hover:scale-[1.02]"
+                    className="w-full bg-[#111111] text-white px-8 py-4 rounded-lg font-semibold hover:bg-gray-800 transition-colors transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+                    disabled={isLoading}
                 >
-                    Generate Image
+                    {t('generate.submit')}
                 </button>
-                 {generatedImage && <button onClick={resetGenerate} className="w-full text-sm text-gray-500 hover:text-black py-2">Start Over</button>}
+                 {generatedImage && <button onClick={resetGenerate} className="w-full text-sm text-gray-500 hover:text-black py-2">{t('common.startOver')}</button>}
             </div>
         </div>
     );
@@ -305,9 +1288,9 @@ const App: React.FC = () => {
             <svg xmlns="http://www.w3.org/2000/svg" className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L15.232 5.232z" />
             </svg>
-            <h3 className="mt-4 text-lg font-medium text-gray-900">Image Editing</h3>
+            <h3 className="mt-4 text-lg font-medium text-gray-900">{t('tabs.edit')}</h3>
             <p className="mt-1 text-sm text-gray-500">
-                To start editing, first create an image using the 'Virtual Try-On' or 'Image Generation' tabs. Your active image will appear in the panel on the right, along with the editing controls.
+                {t('editIntro.body')}
             </p>
         </div>
     );
@@ -315,32 +1298,45 @@ const App: React.FC = () => {
     const renderOutputArea = () => (
         <div className="w-full">
             <div className="sticky top-8">
-                 <h2 className="text-xl font-semibold text-gray-900 mb-4 lg:hidden">Your Creation</h2>
+                 <h2 className="text-xl font-semibold text-gray-900 mb-4 lg:hidden">{t('output.title')}</h2>
                 <div className="group relative w-full aspect-square bg-black/5 rounded-2xl flex items-center justify-center border border-gray-200/50 overflow-hidden shadow-xl shadow-gray-200">
-                    {isLoading && <LoadingSpinner />}
-                    {!isLoading && error && (
-                        <div className="text-center text-red-500 px-4">
-                            <h3 className="font-semibold">Error</h3>
-                            <p>{error}</p>
-                        </div>
+                    {isLoading && <LoadingSpinner request={mainRequest} onCancel={() => requests.cancel('main')} />}
+                    {!isLoading && error && !generatedImage && (
+                        <ErrorNotice error={error} onRetry={() => retryActionRef.current?.()} />
                     )}
                     {!isLoading && !error && !generatedImage && (
                         <div className="text-center text-gray-400 flex flex-col items-center justify-center p-4">
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 text-gray-300 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1}>
                               <path strokeLinecap="round" strokeLinejoin="round" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                             </svg>
-                            <h3 className="text-lg font-medium text-gray-500">Your masterpiece awaits</h3>
-                            <p className="text-sm text-gray-400 mt-1">Results will be displayed here.</p>
+                            <h3 className="text-lg font-medium text-gray-500">{t('output.emptyTitle')}</h3>
+                            <p className="text-sm text-gray-400 mt-1">{t('output.emptyBody')}</p>
                         </div>
                     )}
                     {generatedImage && (
                         <>
-                            <img src={`data:image/jpeg;base64,${generatedImage}`} alt="Generated look" className="w-full h-full object-contain" />
-                            <div className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center space-x-4 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                            <img
+                                src={`data:image/jpeg;base64,${generatedImage}`}
+                                alt={altText(generatedImage, t('output.imageAlt'))}
+                                className="w-full h-full object-contain"
+                                onLoad={e => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                            />
+                            {activeTab === 'edit' && isMasking && imageSize && (
+                                <MaskCanvas
+                                    key={history.current?.id}
+                                    ref={maskRef}
+                                    width={imageSize.width}
+                                    height={imageSize.height}
+                                    brushSize={brushSize}
+                                    erase={isErasing}
+                                    onChange={setHasMask}
+                                />
+                            )}
+                            {!(activeTab === 'edit' && isMasking) && <div className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center gap-4 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity duration-300">
                                 <button
                                     onClick={() => setIsZoomModalOpen(true)}
                                     className="p-3 bg-white/20 text-white rounded-full hover:bg-white/30 transition-colors"
-                                    aria-label="Zoom in"
+                                    aria-label={t('output.zoom')}
                                 >
                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
@@ -349,44 +1345,150 @@ const App: React.FC = () => {
                                 <button
                                     onClick={handleDownloadImage}
                                     className="p-3 bg-white/20 text-white rounded-full hover:bg-white/30 transition-colors"
-                                    aria-label="Download image"
+                                    aria-label={t('output.download')}
                                 >
                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                                     </svg>
                                 </button>
-                            </div>
+                                <button
+                                    onClick={handleOpenExport}
+                                    className="p-3 bg-white/20 text-white rounded-full hover:bg-white/30 transition-colors"
+                                    aria-label={t('output.export')}
+                                    title={t('output.exportHint')}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                                    </svg>
+                                </button>
+                                <button
+                                    onClick={handlePinCurrent}
+                                    disabled={isCurrentPinned || pinnedLooks.length >= MAX_PINNED_LOOKS}
+                                    className="p-3 bg-white/20 text-white rounded-full hover:bg-white/30 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                    aria-label={isCurrentPinned ? t('output.pinned') : t('output.pin')}
+                                    title={pinnedLooks.length >= MAX_PINNED_LOOKS ? t('output.pinLimit', { count: MAX_PINNED_LOOKS }) : undefined}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                                    </svg>
+                                </button>
+                            </div>}
+                            {!isLoading && error && (
+                                <ErrorNotice error={error} overlay onRetry={() => retryActionRef.current?.()} onDismiss={() => setError(null)} />
+                            )}
                         </>
                     )}
                 </div>
+                {variants && (
+                    <VariantPicker variants={variants.images} activeImage={generatedImage} onSelect={handleSelectVariant} altText={altText} describeOnView={describeOnView} />
+                )}
+                {generatedImage && !isLoading && (
+                    <div className="mt-3 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-600">
+                        {!analysisResult && (
+                            <button onClick={handleAnalyzeCurrent} className="flex items-center gap-2 hover:text-black">
+                                <SparkleIcon />
+                                {t('output.runAnalysis')}
+                            </button>
+                        )}
+                        {activeTab === 'tryon' && itemImages.length > 0 && fidelity?.image !== generatedImage && (
+                            <button onClick={handleCheckFidelity} className="hover:text-black">{t('output.checkFidelity')}</button>
+                        )}
+                        <span className="flex items-center gap-3">
+                            <button onClick={handleSaveRecipe} className="hover:text-black">{t('output.saveRecipe')}</button>
+                            <label className="flex items-center gap-1.5 text-xs text-gray-500 cursor-pointer" title={t('output.embedImagesHint')}>
+                                <input type="checkbox" checked={embedRecipeImages} onChange={e => setEmbedRecipeImages(e.target.checked)} className="h-3.5 w-3.5 rounded border-gray-300 text-black focus:ring-black" />
+                                {t('output.embedImages')}
+                            </label>
+                        </span>
+                    </div>
+                )}
+                {galleryNotice && <p className="mt-3 text-xs text-amber-600">{galleryNotice}</p>}
+                {pinnedLooks.length > 0 && (
+                    <div className="mt-4 flex items-center gap-3 p-3 rounded-xl bg-white border border-gray-200/80">
+                        <div className="flex -space-x-2 rtl:space-x-reverse">
+                            {pinnedLooks.map(look => (
+                                <img key={look.id} ref={describeOnView(look.image)} src={`data:image/jpeg;base64,${look.image}`} alt={altText(look.image, look.prompt)} className="w-10 h-10 object-cover rounded-lg border-2 border-white" />
+                            ))}
+                        </div>
+                        <span className="text-sm text-gray-600 flex-1">{t('compare.pinnedCount', { count: pinnedLooks.length, max: MAX_PINNED_LOOKS })}</span>
+                        <button onClick={() => setIsCompareOpen(true)} className="px-4 py-2 text-sm rounded-lg bg-[#111111] text-white hover:bg-gray-800">{t('compare.open')}</button>
+                    </div>
+                )}
+                {identity && identity.image === generatedImage && !isLoading && (
+                    <IdentityCheckNotice check={identity.check} onRetry={handleGenerateLook} />
+                )}
+                {fidelity && fidelity.image === generatedImage && (
+                    <FidelityChecklist report={fidelity.report} items={fidelity.items} onRegenerate={isLoading ? undefined : handleGenerateLook} />
+                )}
                 {analysisResult && (
                      <div className="mt-6 p-6 rounded-2xl bg-white shadow-sm border border-gray-200/80">
                          <div className="flex items-center gap-3 mb-4">
                             <SparkleIcon />
-                            <h3 className="font-semibold text-lg text-gray-900">Pro Analysis</h3>
+                            <h3 className="font-semibold text-lg text-gray-900">{t('output.analysisTitle')}</h3>
                          </div>
-                         <div
-                            className="text-gray-700 font-light prose prose-sm max-w-none prose-headings:font-semibold prose-headings:text-gray-800 prose-strong:text-gray-800 prose-ul:list-disc prose-ul:pl-5"
-                            dangerouslySetInnerHTML={{ __html: formatAnalysis(analysisResult) }}
+                         <AnalysisReport
+                            analysis={analysisResult}
+                            onExport={() => downloadJson(analysisResult, `stylemix-analysis-${Date.now()}.json`)}
                          />
                      </div>
                 )}
+                {generatedImage && (
+                    <StylistChat
+                        messages={chats.get(history.lookId)?.messages ?? []}
+                        onSend={handleSendChatMessage}
+                        onApplyEdit={handleApplyStylistEdit}
+                        onCancel={() => requests.cancel('chat')}
+                        isReplying={isChatReplying}
+                        isBusy={isLoading}
+                        error={chatError}
+                    />
+                )}
                 {activeTab === 'edit' && generatedImage && (
                     <div className="mt-6">
-                         <h2 className="text-xl font-semibold text-gray-900 mb-4">Edit Your Image</h2>
+                         <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('edit.title')}</h2>
                           <textarea
                             value={editPrompt}
                             onChange={e => setEditPrompt(e.target.value)}
-                            placeholder="e.g., 'make the background black and white', 'add a retro filter'"
+                            placeholder={t('edit.placeholder')}
                             className="w-full h-24 p-3 border border-gray-300 rounded-lg focus:ring-1 focus:ring-black focus:border-black transition-shadow bg-gray-50"
                         />
+                        <div className="mt-2 p-3 rounded-lg border border-gray-200 space-y-3">
+                            <label className="flex items-center gap-3 cursor-pointer">
+                                <input type="checkbox" checked={isMasking} onChange={e => setIsMasking(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-black focus:ring-black" />
+                                <span className="text-sm text-gray-700">{t('edit.regionOnly')}</span>
+                            </label>
+                            {isMasking && (
+                                <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+                                    <label className="flex items-center gap-2">
+                                        {t('edit.brush')}
+                                        <input type="range" min={8} max={96} value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} />
+                                    </label>
+                                    <button onClick={() => setIsErasing(!isErasing)} className={`px-2 py-1 rounded-md border ${isErasing ? 'border-black text-black' : 'border-gray-300'}`}>
+                                        {isErasing ? t('edit.erasing') : t('edit.erase')}
+                                    </button>
+                                    <button onClick={() => maskRef.current?.clear()} disabled={!hasMask} className="px-2 py-1 rounded-md border border-gray-300 disabled:opacity-40">{t('edit.clearMask')}</button>
+                                    <span className="text-gray-400">{t('edit.maskNote')}</span>
+                                </div>
+                            )}
+                        </div>
                         <button 
                             onClick={handleEditImage} 
                             className="bg-[#111111] text-white px-8 py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors w-full mt-2"
                             disabled={isLoading}
                         >
-                            Apply Edit
+                            {t('edit.apply')}
                         </button>
+                        <VersionHistory
+                            versions={history.versions}
+                            currentId={history.current?.id ?? null}
+                            canUndo={history.canUndo}
+                            canRedo={history.canRedo}
+                            onSelect={history.select}
+                            onUndo={history.undo}
+                            onRedo={history.redo}
+                            altText={altText}
+                            describeOnView={describeOnView}
+                        />
                     </div>
                 )}
             </div>
@@ -395,41 +1497,63 @@ const App: React.FC = () => {
 
     const renderZoomModal = () => (
         isZoomModalOpen && generatedImage && (
-            <div 
+            <Dialog
+                onClose={handleCloseZoom}
+                label={t('zoom.label')}
                 className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4 animate-fade-in"
-                onClick={() => setIsZoomModalOpen(false)}
+                panelClassName="relative max-w-5xl max-h-[90vh]"
             >
+                <img src={`data:image/jpeg;base64,${generatedImage}`} alt={altText(generatedImage, t('zoom.imageAlt'))} className="w-auto h-auto max-w-full max-h-[90vh] object-contain rounded-lg" />
                 <button 
-                    onClick={() => setIsZoomModalOpen(false)} 
-                    className="absolute top-4 right-4 bg-white/20 text-white rounded-full w-10 h-10 flex items-center justify-center text-2xl hover:bg-white/30 transition-colors"
-                    aria-label="Close zoom"
+                    onClick={handleCloseZoom} 
+                    className="absolute top-2 end-2 bg-black/50 text-white rounded-full w-10 h-10 flex items-center justify-center text-2xl hover:bg-black/70 transition-colors focus:outline-none focus:ring-2 focus:ring-white"
+                    aria-label={t('zoom.close')}
                 >&times;</button>
-                <div className="relative max-w-5xl max-h-[90vh]" onClick={(e) => e.stopPropagation()}>
-                    <img src={`data:image/jpeg;base64,${generatedImage}`} alt="Zoomed generated look" className="w-auto h-auto max-w-full max-h-[90vh] object-contain rounded-lg" />
-                </div>
-            </div>
+            </Dialog>
         )
     );
     
 
     return (
         <div className="min-h-screen bg-gray-50 text-gray-800">
+            <div className="sr-only" role="status" aria-live="polite">{lookAnnouncement}</div>
             {renderZoomModal()}
-            <Header />
+            {exportData && <ExportDialog data={exportData} onClose={handleCloseExport} altText={altText} />}
+            {isSettingsOpen && <SettingsPanel onClose={handleCloseSettings} />}
+            {isCompareOpen && pinnedLooks.length > 0 && (
+                <CompareView
+                    looks={pinnedLooks}
+                    comparison={comparison}
+                    isComparing={isComparing}
+                    error={compareError}
+                    onRequestVerdict={handleRequestVerdict}
+                    onCancelVerdict={() => requests.cancel('compare')}
+                    onUnpin={handleUnpin}
+                    onClose={handleCloseCompare}
+                    altText={altText}
+                    describeOnView={describeOnView}
+                />
+            )}
+            <Header locale={locale} localeSaved={localeSaved} onLocaleChange={handleLocaleChange} onOpenSettings={() => setIsSettingsOpen(true)} />
             <main className="container mx-auto px-4 py-8">
                 <div className="flex justify-center mb-10">
-                    <div className="flex space-x-4 p-2 bg-gray-100 rounded-xl">
-                        <TabButton active={activeTab === 'tryon'} onClick={() => setActiveTab('tryon')}>Virtual Try-On</TabButton>
-                        <TabButton active={activeTab === 'generate'} onClick={() => setActiveTab('generate')}>Image Generation</TabButton>
-                        <TabButton active={activeTab === 'edit'} onClick={() => setActiveTab('edit')} >Image Editing</TabButton>
-                    </div>
+                    <TabBar active={activeTab} onChange={setActiveTab} />
                 </div>
                 
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
-                   <div className="bg-white p-8 rounded-2xl shadow-sm border border-gray-200/80">
+                   <div id={`panel-${activeTab}`} role="tabpanel" aria-labelledby={`tab-${activeTab}`} className="bg-white p-8 rounded-2xl shadow-sm border border-gray-200/80">
                        {activeTab === 'tryon' && renderTryOnInputs()}
                        {activeTab === 'generate' && renderGenerateInputs()}
                        {activeTab === 'edit' && renderEditInputs()}
+                       {activeTab === 'wardrobe' && (
+                           <Wardrobe
+                               incomingFiles={wardrobeIncoming}
+                               onIncomingConsumed={handleWardrobeIncomingConsumed}
+                               usedIds={itemImages.map(item => item.id)}
+                               onUseItem={handleUseWardrobeItem}
+                           />
+                       )}
+                       {activeTab === 'gallery' && <Gallery refreshKey={galleryRefreshKey} onOpen={handleOpenFromGallery} altText={altText} describeOnView={describeOnView} />}
                    </div>
                    {renderOutputArea()}
                 </div>
@@ -0,0 +1,116 @@
+import React from 'react';
+import { t, type MessageKey } from '../i18n';
+import type { FashionAnalysis, ImprovementCategory } from '../types';
+
+interface AnalysisReportProps {
+  analysis: FashionAnalysis;
+  onExport?: () => void;
+}
+
+const categoryLabels: Record<ImprovementCategory, MessageKey> = {
+  fit: 'analysis.category.fit',
+  color: 'analysis.category.color',
+  accessories: 'analysis.category.accessories',
+  footwear: 'analysis.category.footwear',
+  layering: 'analysis.category.layering',
+  grooming: 'analysis.category.grooming',
+  styling: 'analysis.category.styling',
+};
+
+const ScoreBar: React.FC<{ value: number; max: number }> = ({ value, max }) => (
+  <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden">
+    <div className="h-full bg-gray-800" style={{ width: `${(value / max) * 100}%` }} />
+  </div>
+);
+
+export const AnalysisReport: React.FC<AnalysisReportProps> = ({ analysis, onExport }) => {
+  const improvementsByCategory: Partial<Record<ImprovementCategory, string[]>> = {};
+  analysis.improvements.forEach(improvement => {
+    (improvementsByCategory[improvement.category] ??= []).push(improvement.suggestion);
+  });
+
+  return (
+    <div className="space-y-6 text-gray-700">
+      <div className="flex items-start gap-6">
+        <div className="flex-shrink-0 text-center">
+          <p className="text-4xl font-semibold text-gray-900">{analysis.overallScore.toFixed(1)}</p>
+          <p className="text-xs text-gray-400">{t('analysis.outOf')}</p>
+        </div>
+        <p className="text-sm font-light leading-relaxed">{analysis.summary}</p>
+      </div>
+
+      {analysis.colorPalette.length > 0 && (
+        <section>
+          <h4 className="text-sm font-semibold text-gray-800 mb-2">{t('analysis.palette')}</h4>
+          <div className="flex flex-wrap gap-3">
+            {analysis.colorPalette.map(color => (
+              <div key={`${color.name}-${color.hex}`} className="flex items-center gap-2">
+                <span className="w-8 h-8 rounded-full border border-gray-200 shadow-inner" style={{ backgroundColor: color.hex }} />
+                <span className="text-xs">
+                  <span className="block text-gray-800">{color.name}</span>
+                  <span className="block text-gray-400 font-mono">{color.hex}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {analysis.items.length > 0 && (
+        <section>
+          <h4 className="text-sm font-semibold text-gray-800 mb-2">{t('analysis.items')}</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {analysis.items.map((item, index) => (
+              <div key={`${item.name}-${index}`} className="p-3 rounded-lg border border-gray-100 bg-gray-50 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900">{item.name}</span>
+                  <span className="text-xs text-gray-500">{item.score.toFixed(1)}</span>
+                </div>
+                <ScoreBar value={item.score} max={10} />
+                <p className="text-xs font-light">{item.notes}</p>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {analysis.occasionRatings.length > 0 && (
+        <section>
+          <h4 className="text-sm font-semibold text-gray-800 mb-2">{t('analysis.occasions')}</h4>
+          <div className="space-y-3">
+            {analysis.occasionRatings.map((rating, index) => (
+              <div key={`${rating.occasion}-${index}`}>
+                <div className="flex items-center justify-between text-xs mb-1">
+                  <span className="text-gray-800">{rating.occasion}</span>
+                  <span className="text-gray-500">{t('analysis.rating', { rating: rating.rating.toFixed(0) })}</span>
+                </div>
+                <ScoreBar value={rating.rating} max={5} />
+                {rating.comment && <p className="mt-1 text-xs font-light text-gray-500">{rating.comment}</p>}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {analysis.improvements.length > 0 && (
+        <section>
+          <h4 className="text-sm font-semibold text-gray-800 mb-2">{t('analysis.improvements')}</h4>
+          <div className="space-y-2">
+            {(Object.keys(improvementsByCategory) as ImprovementCategory[]).map(category => (
+              <div key={category}>
+                <span className="inline-block text-[10px] uppercase tracking-wide px-2 py-0.5 rounded bg-gray-900 text-white mb-1">{t(categoryLabels[category])}</span>
+                <ul className="list-disc ps-5 text-sm font-light space-y-1">
+                  {improvementsByCategory[category]!.map((suggestion, index) => <li key={index}>{suggestion}</li>)}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {onExport && (
+        <button onClick={onExport} className="text-xs text-gray-500 hover:text-black">{t('analysis.export')}</button>
+      )}
+    </div>
+  );
+};
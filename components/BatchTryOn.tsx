@@ -0,0 +1,164 @@
+import React from 'react';
+import { FileUpload } from './FileUpload';
+import { parseScenes, type BatchTryOnState } from '../hooks/useBatchTryOn';
+import { downloadBase64Image, imageExtension } from '../utils/download';
+import { t, tPlural, type MessageKey } from '../i18n';
+import { tryOnLimitProblem } from '../services/requestLimits';
+import type { BatchJob, BatchJobStatus, UploadedFile, AltTextFor, DescribeOnView } from '../types';
+
+interface BatchTryOnProps {
+  batch: BatchTryOnState;
+  // The items uploaded in step 1 always form the first outfit.
+  baseItems: UploadedFile[];
+  userImage: UploadedFile | null;
+  onAddOutfitFiles: (files: File[]) => void;
+  onOpenResult: (job: BatchJob) => void;
+  altText?: AltTextFor;
+  describeOnView?: DescribeOnView;
+}
+
+const statusStyles: Record<BatchJobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-500',
+  running: 'bg-blue-50 text-blue-600',
+  done: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-600',
+  cancelled: 'bg-amber-50 text-amber-700',
+};
+
+const statusLabels: Record<BatchJobStatus, MessageKey> = {
+  queued: 'batch.status.queued',
+  running: 'batch.status.running',
+  done: 'batch.status.done',
+  failed: 'batch.status.failed',
+  cancelled: 'batch.status.cancelled',
+};
+
+export const BatchTryOn: React.FC<BatchTryOnProps> = ({ batch, baseItems, userImage, onAddOutfitFiles, onOpenResult, altText = (_, fallback) => fallback, describeOnView }) => {
+  const scenes = parseScenes(batch.scenesText);
+  const outfits = [baseItems, ...batch.extraOutfits].filter(outfit => outfit.length > 0);
+  const combinations = outfits.length * scenes.length;
+  // Every outfit is sent with the user photo in one request, which must fit the proxy's limits.
+  const limitProblem = outfits
+    .map(outfit => tryOnLimitProblem(outfit.map(item => item.file), userImage ? [userImage.file] : []))
+    .find(problem => problem !== null) ?? null;
+
+  const finished = batch.jobs.filter(job => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled').length;
+  const retryable = batch.jobs.filter(job => job.status === 'failed' || job.status === 'cancelled');
+  const results = batch.jobs.filter(job => job.status === 'done' && job.image);
+
+  const handleRun = () => {
+    batch.start(outfits, userImage?.file ?? null, scenes);
+  };
+
+  const handleDownloadAll = () => {
+    results.forEach((job, index) => downloadBase64Image(job.image!, `stylemix-batch-${index + 1}-${Date.now()}.${imageExtension(job.image!)}`));
+  };
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">{t('batch.outfitsTitle')}</h3>
+        <p className="text-xs text-gray-500 mb-3">{t('batch.outfitsHint')}</p>
+        {batch.extraOutfits.map((outfit, index) => (
+          <div key={index} className="flex items-center gap-2 mb-2">
+            <span className="text-xs font-medium text-gray-700 w-16">{t('batch.outfit', { number: index + 2 })}</span>
+            <div className="flex gap-1 flex-1 overflow-x-auto">
+              {outfit.map(item => (
+                <img key={item.id} src={item.preview} alt={t('batch.outfitItemAlt')} className="w-10 h-10 object-cover rounded" />
+              ))}
+            </div>
+            <button onClick={() => batch.removeOutfit(index)} disabled={batch.isRunning} className="text-xs text-gray-400 hover:text-red-500">{t('common.remove')}</button>
+          </div>
+        ))}
+        <FileUpload onFilesChange={onAddOutfitFiles} multiple label={t('batch.outfitUpload')} />
+      </section>
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">{t('batch.scenesTitle')}</h3>
+        <textarea
+          value={batch.scenesText}
+          onChange={e => batch.setScenesText(e.target.value)}
+          placeholder={t('batch.scenesPlaceholder')}
+          className="w-full h-32 p-3 border border-gray-300 rounded-lg focus:ring-1 focus:ring-black focus:border-black transition-shadow bg-gray-50"
+        />
+      </section>
+      <section className="flex items-center justify-between">
+        <label className="text-sm text-gray-700 flex items-center gap-2">
+          {t('batch.concurrency')}
+          <select
+            value={batch.concurrency}
+            onChange={e => batch.setConcurrency(Number(e.target.value))}
+            disabled={batch.isRunning}
+            className="p-1 border border-gray-300 rounded-md bg-white"
+          >
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <span className="text-xs text-gray-500">{t('batch.combinations', { outfits: outfits.length, scenes: scenes.length, looks: combinations })}</span>
+      </section>
+      <div className="space-y-3">
+        {batch.isRunning ? (
+          <button onClick={batch.cancel} className="w-full border border-gray-900 text-gray-900 px-8 py-4 rounded-lg font-semibold hover:bg-gray-100 transition-colors">
+            {t('batch.cancel')}
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={combinations === 0 || limitProblem !== null}
+            className="w-full bg-[#111111] text-white px-8 py-4 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {combinations > 0 ? tPlural('batch.runCount', combinations) : t('batch.run')}
+          </button>
+        )}
+        {limitProblem && <p className="text-xs text-red-500" role="alert">{limitProblem}</p>}
+      </div>
+      {batch.jobs.length > 0 && (
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm text-gray-700">{t('batch.progress', { finished, total: batch.jobs.length })}</span>
+            <div className="flex gap-3">
+              {!batch.isRunning && retryable.length > 0 && (
+                <button onClick={() => batch.retry(retryable.map(job => job.id))} className="text-xs text-gray-600 hover:text-black">{t('batch.retryFailed', { count: retryable.length })}</button>
+              )}
+              {results.length > 0 && (
+                <button onClick={handleDownloadAll} className="text-xs text-gray-600 hover:text-black">{t('batch.downloadAll')}</button>
+              )}
+            </div>
+          </div>
+          <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden mb-4">
+            <div className="h-full bg-gray-800 transition-all" style={{ width: `${(finished / batch.jobs.length) * 100}%` }} />
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {batch.jobs.map(job => (
+              <div key={job.id} className="rounded-lg border border-gray-200 overflow-hidden bg-white">
+                <div className="aspect-square bg-gray-50 flex items-center justify-center">
+                  {job.image ? (
+                    <button onClick={() => onOpenResult(job)} className="w-full h-full" title={t('batch.open')}>
+                      <img ref={describeOnView?.(job.image)} src={`data:image/jpeg;base64,${job.image}`} alt={t('batch.resultAlt', { number: job.outfitIndex + 1, description: altText(job.image, job.scene) })} className="w-full h-full object-cover" />
+                    </button>
+                  ) : job.status === 'running' ? (
+                    <div className="w-8 h-8 border-4 border-gray-200 border-t-black rounded-full animate-spin" />
+                  ) : (
+                    <p className="text-xs text-gray-400 px-2 text-center" title={job.error}>{job.error ?? t('batch.waiting')}</p>
+                  )}
+                </div>
+                <div className="p-2 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] font-medium text-gray-700">{t('batch.outfit', { number: job.outfitIndex + 1 })}</span>
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded ${statusStyles[job.status]}`}>{t(statusLabels[job.status])}</span>
+                  </div>
+                  <p className="text-xs text-gray-600 truncate" title={job.scene}>{job.scene}</p>
+                  {!batch.isRunning && (job.status === 'failed' || job.status === 'cancelled') && (
+                    <button onClick={() => batch.retry([job.id])} className="text-xs text-gray-600 hover:text-black">{t('common.retry')}</button>
+                  )}
+                  {job.image && (
+                    <button onClick={() => downloadBase64Image(job.image!)} className="text-xs text-gray-600 hover:text-black">{t('common.download')}</button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
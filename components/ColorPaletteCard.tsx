@@ -0,0 +1,41 @@
+import React from 'react';
+import { SEASON_LABELS } from '../services/colorPalette';
+import { t, type MessageKey } from '../i18n';
+import type { PersonalPalette, Undertone } from '../types';
+
+interface ColorPaletteCardProps {
+  palette: PersonalPalette;
+}
+
+const undertoneLabels: Record<Undertone, MessageKey> = {
+  warm: 'palette.undertone.warm',
+  cool: 'palette.undertone.cool',
+  neutral: 'palette.undertone.neutral',
+};
+
+const Swatch: React.FC<{ hex: string; name: string; size?: string }> = ({ hex, name, size = 'w-6 h-6' }) => (
+  <span className={`inline-block ${size} rounded-full border border-gray-200`} style={{ backgroundColor: hex }} title={`${name} ${hex}`} />
+);
+
+// The user's personal color analysis: their tones, season, and the colors that flatter or clash.
+export const ColorPaletteCard: React.FC<ColorPaletteCardProps> = ({ palette }) => (
+  <div className="p-4 rounded-xl bg-white border border-gray-200/80 space-y-3">
+    <div className="flex items-center justify-between">
+      <h3 className="text-sm font-semibold text-gray-900">{t('palette.title', { season: t(SEASON_LABELS[palette.season]) })} <span className="font-normal text-gray-500">· {t(undertoneLabels[palette.undertone])}</span></h3>
+      <div className="flex items-center gap-1.5">
+        <Swatch hex={palette.skinTone} name={t('palette.skin')} size="w-4 h-4" />
+        <Swatch hex={palette.hairColor} name={t('palette.hair')} size="w-4 h-4" />
+        <Swatch hex={palette.eyeColor} name={t('palette.eyes')} size="w-4 h-4" />
+      </div>
+    </div>
+    {palette.summary && <p className="text-xs text-gray-600">{palette.summary}</p>}
+    <div>
+      <p className="text-xs text-gray-500 mb-1">{t('palette.wear')}</p>
+      <div className="flex flex-wrap gap-1.5">{palette.bestColors.map(color => <Swatch key={color.hex} {...color} />)}</div>
+    </div>
+    <div>
+      <p className="text-xs text-gray-500 mb-1">{t('palette.avoid')}</p>
+      <div className="flex flex-wrap gap-1.5">{palette.avoidColors.map(color => <Swatch key={color.hex} {...color} />)}</div>
+    </div>
+  </div>
+);
@@ -0,0 +1,186 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Dialog } from './Dialog';
+import { t } from '../i18n';
+import type { PinnedLook, LookComparison, AltTextFor, DescribeOnView } from '../types';
+
+interface CompareViewProps {
+  looks: PinnedLook[];
+  comparison: LookComparison | null;
+  isComparing: boolean;
+  error: string | null;
+  onRequestVerdict: () => void;
+  onCancelVerdict: () => void;
+  onUnpin: (id: string) => void;
+  onClose: () => void;
+  altText?: AltTextFor;
+  describeOnView?: DescribeOnView;
+}
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const identity: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+// Every pane shares one transform, so zooming or panning any image moves them all.
+const useSharedTransform = () => {
+  const [transform, setTransform] = useState<ViewTransform>(identity);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  // Wheel listeners must be non-passive to stop the page from scrolling while zooming.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setTransform(prev => {
+        const scale = Math.min(6, Math.max(1, prev.scale * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+        return scale === 1 ? identity : { ...prev, scale };
+      });
+    };
+    container.addEventListener('wheel', onWheel, { passive: false });
+    return () => container.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const paneHandlers = {
+    onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, x: transform.x, y: transform.y };
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => {
+      const start = dragStart.current;
+      if (!start || transform.scale === 1) return;
+      setTransform(prev => ({ ...prev, x: start.x + e.clientX - start.pointerX, y: start.y + e.clientY - start.pointerY }));
+    },
+    onPointerUp: () => {
+      dragStart.current = null;
+    },
+    onDoubleClick: () => setTransform(identity),
+  };
+
+  const style: React.CSSProperties = {
+    transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+    transformOrigin: 'center',
+  };
+
+  return { containerRef, paneHandlers, style, transform, reset: () => setTransform(identity) };
+};
+
+export const CompareView: React.FC<CompareViewProps> = ({ looks, comparison, isComparing, error, onRequestVerdict, onCancelVerdict, onUnpin, onClose, altText = (_, fallback) => fallback, describeOnView }) => {
+  const [mode, setMode] = useState<'grid' | 'slider'>('grid');
+  const [sliderPosition, setSliderPosition] = useState(50);
+  const { containerRef, paneHandlers, style, transform, reset } = useSharedTransform();
+
+  useEffect(() => {
+    if (looks.length !== 2 && mode === 'slider') setMode('grid');
+  }, [looks.length, mode]);
+
+  const label = (index: number) => t('common.look', { number: index + 1 });
+
+  return (
+    <Dialog
+      onClose={onClose}
+      labelledBy="compare-title"
+      className="fixed inset-0 bg-black bg-opacity-90 z-50 flex flex-col p-4 animate-fade-in"
+      panelClassName="flex-1 min-h-0 flex flex-col"
+      closeOnBackdrop={false}
+    >
+      <div className="flex items-center justify-between text-white mb-4">
+        <div className="flex items-center gap-3">
+          <h2 id="compare-title" className="text-lg font-semibold">{t('compare.title')}</h2>
+          {looks.length === 2 && (
+            <div className="flex p-1 bg-white/10 rounded-lg text-xs">
+              {(['grid', 'slider'] as const).map(m => (
+                <button key={m} onClick={() => setMode(m)} className={`px-3 py-1 rounded-md ${mode === m ? 'bg-white text-gray-900' : 'text-white/70 hover:text-white'}`}>
+                  {m === 'grid' ? t('compare.grid') : t('compare.slider')}
+                </button>
+              ))}
+            </div>
+          )}
+          {transform.scale > 1 && (
+            <button onClick={reset} className="text-xs text-white/70 hover:text-white">{t('compare.resetZoom', { scale: transform.scale.toFixed(1) })}</button>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onRequestVerdict}
+            disabled={isComparing || looks.length < 2}
+            className="px-4 py-2 text-sm rounded-lg bg-white text-gray-900 font-medium hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isComparing ? t('compare.comparing') : t('compare.requestVerdict')}
+          </button>
+          {isComparing && (
+            <button onClick={onCancelVerdict} className="px-4 py-2 text-sm rounded-lg border border-white/40 text-white hover:bg-white/10">{t('common.cancel')}</button>
+          )}
+          <button onClick={onClose} className="bg-white/20 text-white rounded-full w-10 h-10 flex items-center justify-center text-2xl hover:bg-white/30 transition-colors" aria-label={t('compare.close')}>&times;</button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="flex-1 min-h-0">
+        {mode === 'slider' && looks.length === 2 ? (
+          <div dir="ltr" className="relative h-full overflow-hidden rounded-lg bg-black touch-none cursor-grab" {...paneHandlers}>
+            <img ref={describeOnView?.(looks[1].image)} src={`data:image/jpeg;base64,${looks[1].image}`} alt={altText(looks[1].image, label(1))} className="absolute inset-0 w-full h-full object-contain select-none pointer-events-none" style={style} />
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}>
+              <img ref={describeOnView?.(looks[0].image)} src={`data:image/jpeg;base64,${looks[0].image}`} alt={altText(looks[0].image, label(0))} className="absolute inset-0 w-full h-full object-contain select-none pointer-events-none" style={style} />
+            </div>
+            <div className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none" style={{ left: `${sliderPosition}%` }} />
+            <span className="absolute top-3 left-3 text-xs text-white bg-black/60 px-2 py-1 rounded">{label(0)}</span>
+            <span className="absolute top-3 right-3 text-xs text-white bg-black/60 px-2 py-1 rounded">{label(1)}</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={sliderPosition}
+              onChange={e => setSliderPosition(Number(e.target.value))}
+              onPointerDown={e => e.stopPropagation()}
+              className="absolute bottom-4 left-1/2 -translate-x-1/2 w-1/2"
+              aria-label={t('compare.sliderPosition')}
+            />
+          </div>
+        ) : (
+          <div className={`grid gap-3 h-full ${looks.length > 2 ? 'grid-cols-2 grid-rows-2' : looks.length === 2 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+            {looks.map((look, index) => {
+              const ranking = comparison?.rankings.find(r => r.index === index);
+              return (
+                <div key={look.id} className="relative min-h-0 overflow-hidden rounded-lg bg-black touch-none cursor-grab" {...paneHandlers}>
+                  <img ref={describeOnView?.(look.image)} src={`data:image/jpeg;base64,${look.image}`} alt={t('compare.lookAlt', { number: index + 1, description: altText(look.image, look.prompt) })} className="w-full h-full object-contain select-none pointer-events-none" style={style} />
+                  <div className="absolute top-0 inset-x-0 p-3 bg-gradient-to-b from-black/70 to-transparent text-white flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">
+                        {label(index)}
+                        {comparison?.winnerIndex === index && <span className="ms-2 text-[10px] uppercase tracking-wide bg-white text-gray-900 px-1.5 py-0.5 rounded">{t('compare.winner')}</span>}
+                      </p>
+                      <p className="text-xs text-white/70 truncate" title={look.sceneDescription || look.prompt}>{look.sceneDescription || look.prompt}</p>
+                      {look.analysis && <p className="text-xs text-white/70">{t('compare.analysisScore', { score: look.analysis.overallScore.toFixed(1) })}</p>}
+                      {ranking && <p className="text-xs text-white/90">{t('compare.verdictScore', { score: ranking.score.toFixed(1), reason: ranking.reason })}</p>}
+                    </div>
+                    <button
+                      onClick={() => onUnpin(look.id)}
+                      onPointerDown={e => e.stopPropagation()}
+                      className="flex-shrink-0 text-xs text-white/70 hover:text-white"
+                    >
+                      {t('compare.unpin')}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {(comparison || error) && (
+        <div className="mt-4 p-4 rounded-lg bg-white text-gray-800 max-h-40 overflow-y-auto">
+          {error ? (
+            <p role="alert" className="text-sm text-red-500">{error}</p>
+          ) : (
+            <p className="text-sm font-light"><span className="font-semibold">{t('compare.verdict')} </span>{comparison!.verdict}</p>
+          )}
+        </div>
+      )}
+    </Dialog>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef } from 'react';
+
+interface DialogProps {
+  onClose: () => void;
+  // The id of the dialog's visible title, or a label when it has none.
+  labelledBy?: string;
+  label?: string;
+  // Classes for the full-screen backdrop and for the dialog inside it.
+  className?: string;
+  panelClassName?: string;
+  // Clicking the backdrop outside the dialog closes it.
+  closeOnBackdrop?: boolean;
+  children: React.ReactNode;
+}
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+const focusableIn = (element: HTMLElement) =>
+  Array.from(element.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(el => el.offsetParent !== null || el === document.activeElement);
+
+// A modal dialog: focus moves into it on open, Tab cycles within it, Escape closes it,
+// and focus returns to whatever opened it once it is gone.
+export const Dialog: React.FC<DialogProps> = ({
+  onClose,
+  labelledBy,
+  label,
+  className = 'fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4 animate-fade-in',
+  panelClassName,
+  closeOnBackdrop = true,
+  children,
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    const panel = panelRef.current;
+    if (panel) (focusableIn(panel)[0] ?? panel).focus();
+    return () => opener?.focus?.();
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const panel = panelRef.current;
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      } else if (e.key === 'Tab' && panel) {
+        const focusable = focusableIn(panel);
+        if (focusable.length === 0) {
+          e.preventDefault();
+          panel.focus();
+          return;
+        }
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        const outside = !panel.contains(document.activeElement);
+        if (e.shiftKey && (outside || document.activeElement === first || document.activeElement === panel)) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && (outside || document.activeElement === last)) {
+          e.preventDefault();
+          first.focus();
+        }
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className={className} onClick={e => { if (closeOnBackdrop && e.target === e.currentTarget) onClose(); }}>
+      <div
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={labelledBy}
+        aria-label={labelledBy ? undefined : label}
+        tabIndex={-1}
+        className={`focus:outline-none ${panelClassName ?? ''}`}
+      >
+        {children}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { describeError, toStudioError } from '../services/errors';
+import { t } from '../i18n';
+
+interface ErrorNoticeProps {
+  // A validation message, or anything thrown by the service layer.
+  error: Error | string;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  // Renders as a card over an image instead of filling the empty output area.
+  overlay?: boolean;
+}
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onDismiss, overlay = false }) => {
+  const { title, message, action } = describeError(error);
+  const canRetry = !!onRetry && typeof error !== 'string' && toStudioError(error).retryable;
+
+  return (
+    <div
+      role="alert"
+      className={overlay
+        ? 'absolute inset-x-4 bottom-4 z-20 p-4 rounded-xl bg-white/95 shadow-lg border border-red-100 text-start'
+        : 'text-center px-6'}
+    >
+      <h3 className="font-semibold text-red-600">{t(title)}</h3>
+      <p className="mt-1 text-sm text-red-500">{message}</p>
+      {action && <p className="mt-2 text-xs text-gray-500">{t(action)}</p>}
+      {(canRetry || onDismiss) && (
+        <div className={`mt-3 flex gap-2 ${overlay ? '' : 'justify-center'}`}>
+          {canRetry && (
+            <button onClick={onRetry} className="px-3 py-1 text-xs rounded-md bg-gray-900 text-white hover:bg-gray-700">{t('common.tryAgain')}</button>
+          )}
+          {onDismiss && (
+            <button onClick={onDismiss} className="px-3 py-1 text-xs rounded-md border border-gray-300 text-gray-600 hover:bg-gray-100">{t('common.dismiss')}</button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Dialog } from './Dialog';
+import { t, type MessageKey } from '../i18n';
+import type { LookExportData, AltTextFor } from '../types';
+import { buildLookbookPdf, buildContactSheet, buildLookSidecar, canBuildLookbookPdf, exportBaseName } from '../utils/lookExport';
+import { downloadBlob, downloadJson } from '../utils/download';
+
+interface ExportDialogProps {
+  data: LookExportData;
+  onClose: () => void;
+  altText?: AltTextFor;
+}
+
+type ExportFormat = 'pdf' | 'png' | 'json';
+
+const formats: { id: ExportFormat; label: MessageKey; description: MessageKey }[] = [
+  { id: 'pdf', label: 'export.pdf', description: 'export.pdfDescription' },
+  { id: 'png', label: 'export.png', description: 'export.pngDescription' },
+  { id: 'json', label: 'export.json', description: 'export.jsonDescription' },
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ data, onClose, altText = (_, fallback) => fallback }) => {
+  const [selected, setSelected] = useState<Set<ExportFormat>>(new Set(['pdf', 'json']));
+  const [includeAnalysis, setIncludeAnalysis] = useState<boolean>(!!data.analysis);
+  const [includeItems, setIncludeItems] = useState<boolean>(true);
+  const [embedImages, setEmbedImages] = useState<boolean>(false);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (format: ExportFormat) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (!next.delete(format)) next.add(format);
+      return next;
+    });
+  };
+
+  const hasSources = data.itemImages.length > 0 || !!data.userImage;
+  const content = { includeAnalysis: includeAnalysis && !!data.analysis, includeItems };
+  const pdfAvailable = canBuildLookbookPdf(data, content);
+  const isChosen = (format: ExportFormat) => selected.has(format) && (format !== 'pdf' || pdfAvailable);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    const baseName = exportBaseName(data);
+    try {
+      if (isChosen('pdf')) downloadBlob(await buildLookbookPdf(data, content), `${baseName}.pdf`);
+      if (isChosen('png')) downloadBlob(await buildContactSheet(data, content), `${baseName}.png`);
+      if (isChosen('json')) downloadJson(await buildLookSidecar(data, embedImages), `${baseName}.json`);
+      onClose();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : t('export.failed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog onClose={onClose} labelledBy="export-title" panelClassName="w-full max-w-lg bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 id="export-title" className="text-lg font-semibold text-gray-900">{t('export.title')}</h2>
+          <p className="text-sm text-gray-500">{t('export.intro')}</p>
+        </div>
+        <button onClick={onClose} className="text-2xl leading-none text-gray-400 hover:text-gray-900" aria-label={t('export.close')}>&times;</button>
+      </div>
+
+      <div className="flex gap-4 mb-5">
+        <img src={`data:image/jpeg;base64,${data.image}`} alt={altText(data.image, t('export.imageAlt'))} className="w-24 h-24 object-cover rounded-lg border border-gray-200" />
+        <p className="text-sm text-gray-600 line-clamp-4">{data.sceneDescription || data.prompt}</p>
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-semibold text-gray-800 mb-2">{t('export.formats')}</legend>
+        {formats.map(format => {
+          const unavailable = format.id === 'pdf' && !pdfAvailable;
+          return (
+            <label key={format.id} className={`flex items-start gap-3 p-3 rounded-lg border border-gray-200 ${unavailable ? '' : 'hover:bg-gray-50 cursor-pointer'}`}>
+              <input type="checkbox" checked={isChosen(format.id)} disabled={unavailable} onChange={() => toggle(format.id)} className="mt-0.5 h-4 w-4 rounded border-gray-300 text-black focus:ring-black" />
+              <span>
+                <span className={`block text-sm font-medium ${unavailable ? 'text-gray-400' : 'text-gray-900'}`}>{t(format.label)}</span>
+                <span className="block text-xs text-gray-500">{unavailable ? t('export.pdfUnavailable') : t(format.description)}</span>
+              </span>
+            </label>
+          );
+        })}
+      </fieldset>
+
+      <fieldset className="mt-5 space-y-2 text-sm text-gray-700">
+        <legend className="text-sm font-semibold text-gray-800 mb-2">{t('export.contents')}</legend>
+        <label className="flex items-center gap-3">
+          <input type="checkbox" checked={includeAnalysis && !!data.analysis} disabled={!data.analysis} onChange={e => setIncludeAnalysis(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-black focus:ring-black" />
+          <span className={data.analysis ? '' : 'text-gray-400'}>{data.analysis ? t('export.includeAnalysis') : t('export.includeAnalysisUnavailable')}</span>
+        </label>
+        <label className="flex items-center gap-3">
+          <input type="checkbox" checked={includeItems && hasSources} disabled={!hasSources} onChange={e => setIncludeItems(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-black focus:ring-black" />
+          <span className={hasSources ? '' : 'text-gray-400'}>{t('export.includeItems')}</span>
+        </label>
+        <label className="flex items-center gap-3">
+          <input type="checkbox" checked={embedImages} disabled={!selected.has('json')} onChange={e => setEmbedImages(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-black focus:ring-black" />
+          <span className={selected.has('json') ? '' : 'text-gray-400'}>{t('export.embedImages')}</span>
+        </label>
+      </fieldset>
+
+      {error && <p role="alert" className="mt-4 text-sm text-red-500">{error}</p>}
+
+      <div className="mt-6 flex justify-end gap-3">
+        <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100">{t('common.cancel')}</button>
+        <button
+          onClick={handleExport}
+          disabled={isExporting || !formats.some(format => isChosen(format.id))}
+          className="px-4 py-2 text-sm rounded-lg bg-[#111111] text-white font-medium hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isExporting ? t('export.exporting') : t('export.submit')}
+        </button>
+      </div>
+    </Dialog>
+  );
+};
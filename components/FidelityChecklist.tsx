@@ -0,0 +1,68 @@
+import React from 'react';
+import { fidelityStatus, countMissingItems, type FidelityStatus } from '../services/fidelity';
+import { ITEM_ROLES } from '../services/itemRoles';
+import { t, type MessageKey } from '../i18n';
+import type { FidelityReport, UploadedFile } from '../types';
+
+interface FidelityChecklistProps {
+  report: FidelityReport;
+  // The items the checked look was generated from, in the same order as the checks.
+  items: UploadedFile[];
+  onRegenerate?: () => void;
+}
+
+const statusStyles: Record<FidelityStatus, { icon: string; label: MessageKey; className: string }> = {
+  faithful: { icon: '✓', label: 'fidelity.faithful', className: 'bg-green-100 text-green-700' },
+  partial: { icon: '~', label: 'fidelity.partial', className: 'bg-amber-100 text-amber-700' },
+  missing: { icon: '✕', label: 'fidelity.missing', className: 'bg-red-100 text-red-600' },
+};
+
+const roleLabel = (item: UploadedFile | undefined, index: number) => {
+  const label = ITEM_ROLES.find(({ role }) => role === item?.role)?.label;
+  return label ? t(label) : t('common.item', { number: index + 1 });
+};
+
+const mismatches = (check: FidelityReport['checks'][number]) =>
+  [!check.colorMatch && t('fidelity.color'), !check.patternMatch && t('fidelity.pattern'), !check.shapeMatch && t('fidelity.shape')].filter(Boolean).join(', ');
+
+export const FidelityChecklist: React.FC<FidelityChecklistProps> = ({ report, items, onRegenerate }) => {
+  const missing = countMissingItems(report);
+
+  return (
+    <div className="mt-6 p-6 rounded-2xl bg-white shadow-sm border border-gray-200/80">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-lg text-gray-900">{t('fidelity.title')}</h3>
+        <span className={`text-sm ${missing > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+          {t('fidelity.found', { found: report.checks.length - missing, total: report.checks.length })}
+        </span>
+      </div>
+      <ul className="space-y-3">
+        {report.checks.map(check => {
+          const item = items[check.index];
+          const status = statusStyles[fidelityStatus(check)];
+          return (
+            <li key={check.index} className="flex items-start gap-3">
+              {item && <img src={item.preview} alt={roleLabel(item, check.index)} className="w-12 h-12 object-cover rounded-md border border-gray-200 flex-shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+                    <span aria-hidden="true">{status.icon}</span>{t(status.label)}
+                  </span>
+                  <span className="text-sm font-medium text-gray-900">{roleLabel(item, check.index)}</span>
+                  <span className="ms-auto text-xs text-gray-400 tabular-nums" title={t('fidelity.confidence')}>{Math.round(check.confidence * 100)}%</span>
+                </div>
+                {check.present && mismatches(check) && <p className="mt-1 text-xs text-amber-700">{t('fidelity.differsIn', { aspects: mismatches(check) })}</p>}
+                {check.unreported
+                  ? <p className="mt-1 text-xs text-gray-500">{t('fidelity.unreported')}</p>
+                  : check.notes && <p className="mt-1 text-xs text-gray-500">{check.notes}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {missing > 0 && onRegenerate && (
+        <button onClick={onRegenerate} className="mt-4 px-4 py-2 text-sm rounded-lg bg-[#111111] text-white hover:bg-gray-800">{t('fidelity.regenerate')}</button>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,21 @@
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useId } from 'react';
+import { preprocessImage, canDecodeHeic, DEFAULT_PREPROCESS_OPTIONS, type PreprocessOptions } from '../services/imagePreprocessing';
+import { t } from '../i18n';
 
 interface FileUploadProps {
   onFilesChange: (files: File[]) => void;
   multiple?: boolean;
   label: string;
   note?: string;
+  // Overrides for the preprocessing pipeline, or false to pass files through untouched.
+  preprocess?: Partial<PreprocessOptions> | false;
+}
+
+interface FileReport {
+  name: string;
+  warnings: string[];
+  error?: string;
 }
 
 const UploadIcon: React.FC = () => (
@@ -14,9 +24,38 @@ const UploadIcon: React.FC = () => (
   </svg>
 );
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, multiple = false, label, note }) => {
+export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, multiple = false, label, note, preprocess = {} }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [reports, setReports] = useState<FileReport[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const descriptionId = useId();
+
+  // Runs every file through the preprocessing pipeline, reporting warnings per file.
+  // Files that fail are left out; the rest are handed to the parent.
+  const processFiles = useCallback(async (files: File[]) => {
+    if (preprocess === false) {
+      onFilesChange(files);
+      return;
+    }
+    setIsProcessing(true);
+    const options = { ...DEFAULT_PREPROCESS_OPTIONS, ...preprocess };
+    const results = await Promise.all(files.map(async file => {
+      try {
+        const { file: processed, warnings } = await preprocessImage(file, options);
+        return { processed, report: { name: file.name, warnings } };
+      } catch (e) {
+        console.error(e);
+        return { processed: null, report: { name: file.name, warnings: [], error: e instanceof Error ? e.message : t('upload.processFailed') } };
+      }
+    }));
+    setIsProcessing(false);
+    setReports(results.map(r => r.report).filter(r => r.error || r.warnings.length > 0));
+    const accepted = results.map(r => r.processed).filter((f): f is File => f !== null);
+    if (accepted.length > 0) {
+      onFilesChange(accepted);
+    }
+  }, [onFilesChange, preprocess]);
 
   const handleDrag = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -34,21 +73,29 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, multiple
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
       const newFiles = Array.from(e.dataTransfer.files);
-      onFilesChange(newFiles);
+      processFiles(newFiles);
     }
-  }, [onFilesChange]);
+  }, [processFiles]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       const newFiles = Array.from(e.target.files);
-      onFilesChange(newFiles);
+      processFiles(newFiles);
     }
+    // Allow picking the same file again after it was removed.
+    e.target.value = '';
   };
   
   const handleClick = () => {
     fileInputRef.current?.click();
   };
 
+  // The zone itself is for pointer users; keyboard and screen reader users get the browse button inside it.
+  const handleBrowse = (e: React.MouseEvent<HTMLButtonElement>) => {
+    e.stopPropagation();
+    handleClick();
+  };
+
   return (
     <div className="w-full">
       <div 
@@ -62,10 +109,18 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, multiple
         <div className="flex flex-col items-center justify-center pt-5 pb-6 text-center px-4">
           <UploadIcon />
           <p className="mb-2 text-sm text-gray-500">
-            <span className="font-semibold">Click to upload</span> or drag and drop
+            <button
+              type="button"
+              onClick={handleBrowse}
+              className="font-semibold text-gray-800 underline underline-offset-2 rounded focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-800"
+              aria-describedby={descriptionId}
+            >
+              {multiple ? t('upload.chooseFiles') : t('upload.chooseFile')}
+            </button>
+            {' '}{t('upload.dragAndDrop')}
           </p>
-          <p className="text-xs text-gray-500">{label}</p>
-          {note && <p className="text-xs text-gray-400 mt-1">{note}</p>}
+          <p id={descriptionId} className="text-xs text-gray-500">{label}{note && <span className="block text-gray-400 mt-1">{note}</span>}</p>
+          <p className="text-xs text-gray-500 mt-2" role="status">{isProcessing ? t('upload.preparing') : ''}</p>
         </div>
         <input 
             ref={fileInputRef}
@@ -73,9 +128,20 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, multiple
             className="hidden" 
             multiple={multiple} 
             onChange={handleChange}
-            accept="image/*"
+            accept={canDecodeHeic() ? 'image/*,.heic,.heif' : 'image/*'}
+            tabIndex={-1}
+            aria-hidden="true"
         />
       </div>
+      {reports.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs" aria-live="polite">
+          {reports.map((report, index) => (
+            <li key={`${report.name}-${index}`} className={report.error ? 'text-red-500' : 'text-amber-600'}>
+              <span className="font-medium">{report.name}:</span> {report.error ?? report.warnings.join(' ')}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
@@ -0,0 +1,107 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { GalleryEntry, AltTextFor, DescribeOnView } from '../types';
+import { listGalleryEntries, deleteGalleryEntry, searchGalleryEntries } from '../services/galleryStore';
+import { getStorageUsage, type StorageUsage } from '../services/studioDb';
+import { t, formatDateTime, getLocale } from '../i18n';
+
+interface GalleryProps {
+  // Incremented by the parent whenever a new look is saved, so the list reloads.
+  refreshKey: number;
+  onOpen: (entry: GalleryEntry, tab: 'tryon' | 'edit') => void;
+  altText?: AltTextFor;
+  describeOnView?: DescribeOnView;
+}
+
+const formatBytes = (bytes: number) => {
+  const [value, unit, digits] = bytes < 1024 * 1024 ? [bytes / 1024, 'kilobyte', 0]
+    : bytes < 1024 * 1024 * 1024 ? [bytes / (1024 * 1024), 'megabyte', 1]
+    : [bytes / (1024 * 1024 * 1024), 'gigabyte', 1];
+  return new Intl.NumberFormat(getLocale(), { style: 'unit', unit, maximumFractionDigits: digits }).format(value);
+};
+
+export const Gallery: React.FC<GalleryProps> = ({ refreshKey, onOpen, altText = (_, fallback) => fallback, describeOnView }) => {
+  const [entries, setEntries] = useState<GalleryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setEntries(await listGalleryEntries());
+      setUsage(await getStorageUsage());
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : t('gallery.loadFailed'));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteGalleryEntry(id);
+      await load();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : t('gallery.deleteFailed'));
+    }
+  };
+
+  const visible = searchGalleryEntries(entries, query);
+  const usageRatio = usage && usage.quota > 0 ? usage.usage / usage.quota : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-900">{t('gallery.title')}</h2>
+        <span className="text-sm text-gray-500">{t('gallery.count', { count: entries.length.toLocaleString(getLocale()) })}</span>
+      </div>
+      <input
+        type="search"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder={t('gallery.search')}
+        className="w-full p-3 border border-gray-300 rounded-lg focus:ring-1 focus:ring-black focus:border-black transition-shadow bg-gray-50"
+      />
+      {usage && usage.quota > 0 && (
+        <div>
+          <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden">
+            <div className={`h-full ${usageRatio > 0.9 ? 'bg-red-500' : 'bg-gray-800'}`} style={{ width: `${Math.min(usageRatio * 100, 100)}%` }} />
+          </div>
+          <p className="mt-1 text-xs text-gray-400">
+            {t('gallery.usage', { used: formatBytes(usage.usage), quota: formatBytes(usage.quota) })}
+            {usageRatio > 0.9 && t('gallery.usageFull')}
+          </p>
+        </div>
+      )}
+      {error && <p role="alert" className="text-sm text-red-500">{error}</p>}
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-12">
+          {entries.length === 0 ? t('gallery.empty') : t('gallery.noMatches')}
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+          {visible.map(entry => (
+            <div key={entry.id} className="rounded-lg border border-gray-200 overflow-hidden bg-white">
+              <img ref={describeOnView?.(entry.image)} src={`data:image/jpeg;base64,${entry.image}`} alt={altText(entry.image, entry.prompt || t('gallery.savedLook'))} className="w-full aspect-square object-cover" />
+              <div className="p-2 space-y-2">
+                <p className="text-xs text-gray-700 line-clamp-2" title={entry.prompt}>{entry.prompt || entry.sceneDescription}</p>
+                <p className="text-[10px] text-gray-400">{formatDateTime(entry.createdAt)}</p>
+                <div className="flex flex-wrap gap-1">
+                  {entry.itemImages.length > 0 && (
+                    <button onClick={() => onOpen(entry, 'tryon')} className="px-2 py-1 text-xs rounded-md bg-gray-900 text-white hover:bg-gray-700">{t('gallery.tryOn')}</button>
+                  )}
+                  <button onClick={() => onOpen(entry, 'edit')} className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100">{t('gallery.edit')}</button>
+                  <button onClick={() => handleDelete(entry.id)} className="px-2 py-1 text-xs rounded-md text-red-500 hover:bg-red-50">{t('common.delete')}</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { hasIdentityDrift } from '../services/identity';
+import { t } from '../i18n';
+import type { IdentityCheck } from '../types';
+
+interface IdentityCheckNoticeProps {
+  check: IdentityCheck;
+  onRetry?: () => void;
+}
+
+// Shows how closely a try-on on the user's own photo kept their likeness, with a warning when it drifted.
+export const IdentityCheckNotice: React.FC<IdentityCheckNoticeProps> = ({ check, onRetry }) => {
+  const likeness = t('identity.likeness', { percent: Math.round(check.similarity * 100) });
+
+  if (!check.faceVisible) {
+    return <p className="mt-3 text-xs text-gray-500">{t('identity.faceNotVisible')}</p>;
+  }
+
+  if (!hasIdentityDrift(check)) {
+    return <p className="mt-3 text-xs text-green-700">{t('identity.looksLikeYou', { likeness })}</p>;
+  }
+
+  return (
+    <div role="alert" className="mt-4 flex items-start gap-3 p-4 rounded-xl bg-amber-50 border border-amber-200 text-sm text-amber-800">
+      <div className="flex-1">
+        <p className="font-medium">{t('identity.drift', { likeness })}</p>
+        {check.differences.length > 0 && <p className="mt-1 text-xs">{t('identity.changed', { differences: check.differences.join(', ') })}</p>}
+      </div>
+      {onRetry && (
+        <button onClick={onRetry} className="px-3 py-1.5 text-xs rounded-lg bg-amber-600 text-white hover:bg-amber-700 flex-shrink-0">{t('common.tryAgain')}</button>
+      )}
+    </div>
+  );
+};
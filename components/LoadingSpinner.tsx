@@ -1,17 +1,49 @@
 
 import React from 'react';
+import { t, getLocale, type MessageKey } from '../i18n';
+import type { ActiveRequest, RequestStage } from '../types';
 
-const messages = [
-  "Mixing the styles...",
-  "Warming up the AI stylist...",
-  "Draping the fabrics...",
-  "Adjusting the lighting...",
-  "Perfecting the final look...",
-  "This can take a minute, great style is worth the wait!"
+const messages: MessageKey[] = [
+  'loading.mixing',
+  'loading.warmingUp',
+  'loading.draping',
+  'loading.lighting',
+  'loading.perfecting',
+  'loading.patience',
 ];
 
-export const LoadingSpinner: React.FC = () => {
+const stageLabels: Record<RequestStage, MessageKey> = {
+  classifying: 'stage.classifying',
+  uploading: 'stage.uploading',
+  generating: 'stage.generating',
+  verifying: 'stage.verifying',
+  matching: 'stage.matching',
+  editing: 'stage.editing',
+  analyzing: 'stage.analyzing',
+  comparing: 'stage.comparing',
+  chatting: 'stage.chatting',
+  styling: 'stage.styling',
+  coloring: 'stage.coloring',
+};
+
+interface LoadingSpinnerProps {
+  // The request being waited on; without one only the rotating messages are shown.
+  request?: ActiveRequest | null;
+  onCancel?: () => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Thought summaries arrive as markdown; bold headings are the only markup worth stripping.
+const plainText = (markdown: string) => markdown.replace(/\*\*/g, '').trim();
+
+export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ request, onCancel }) => {
     const [message, setMessage] = React.useState(messages[0]);
+    const [now, setNow] = React.useState(Date.now());
+    const streamRef = React.useRef<HTMLDivElement>(null);
 
     React.useEffect(() => {
         let index = 0;
@@ -23,10 +55,48 @@ export const LoadingSpinner: React.FC = () => {
         return () => clearInterval(intervalId);
     }, []);
 
+    const startedAt = request?.startedAt;
+    React.useEffect(() => {
+        if (startedAt == null) return;
+        const intervalId = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(intervalId);
+    }, [startedAt]);
+
+    const progress = request?.analysisProgress;
+    const thoughts = progress ? plainText(progress.thoughts) : '';
+
+    // Keep the newest streamed text in view.
+    React.useEffect(() => {
+        streamRef.current?.scrollTo({ top: streamRef.current.scrollHeight });
+    }, [thoughts]);
+
   return (
-    <div className="absolute inset-0 bg-white bg-opacity-80 flex flex-col items-center justify-center z-50 backdrop-blur-sm">
+    <div className="absolute inset-0 bg-white bg-opacity-80 flex flex-col items-center justify-center z-50 backdrop-blur-sm p-6">
         <div className="w-16 h-16 border-4 border-t-4 border-gray-200 border-t-black rounded-full animate-spin"></div>
-        <p className="mt-4 text-lg text-gray-700 font-light">{message}</p>
+        {request ? (
+            <div className="mt-4 text-center">
+                {/* The elapsed time stays out of the live region, or it would be read out every second. */}
+                <div role="status">
+                    <p className="text-lg text-gray-800">{t(stageLabels[request.stage])}</p>
+                    <p className="text-sm text-gray-500 font-light">{request.label}</p>
+                </div>
+                <p className="text-sm text-gray-500 font-light tabular-nums" aria-hidden="true">{formatElapsed(Math.max(0, now - request.startedAt))}</p>
+            </div>
+        ) : (
+            <p className="mt-4 text-lg text-gray-700 font-light">{t(message)}</p>
+        )}
+        {request?.stage === 'analyzing' && progress && (
+            <div ref={streamRef} className="mt-4 w-full max-w-md max-h-40 overflow-y-auto rounded-lg bg-white/90 border border-gray-200 p-3 text-start text-xs text-gray-600 whitespace-pre-wrap">
+                {thoughts || t('loading.thinking')}
+                {progress.answer && <p className="mt-2 text-gray-400">{t('loading.writingReport', { count: progress.answer.length.toLocaleString(getLocale()) })}</p>}
+            </div>
+        )}
+        {request && request.stage !== 'analyzing' && <p className="mt-2 text-sm text-gray-500 font-light">{t(message)}</p>}
+        {onCancel && (
+            <button onClick={onCancel} className="mt-5 px-4 py-2 text-sm rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-100">
+                {t('common.cancel')}
+            </button>
+        )}
     </div>
   );
 };
@@ -0,0 +1,104 @@
+import React, { useRef, useEffect, useImperativeHandle, forwardRef, useState } from 'react';
+
+interface MaskCanvasProps {
+  // Natural size of the image being masked; the canvas matches it pixel for pixel.
+  width: number;
+  height: number;
+  brushSize: number;
+  erase?: boolean;
+  onChange?: (hasMask: boolean) => void;
+}
+
+export interface MaskCanvasHandle {
+  // Base64 PNG of the painted region, or null when nothing is painted.
+  getMask: () => string | null;
+  clear: () => void;
+}
+
+// A paintable overlay laid over an `object-contain` image. Strokes are stored in
+// image coordinates so the mask lines up with the full-resolution picture.
+export const MaskCanvas = forwardRef<MaskCanvasHandle, MaskCanvasProps>(({ width, height, brushSize, erase = false, onChange }, ref) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [hasMask, setHasMask] = useState(false);
+
+  useEffect(() => {
+    onChange?.(hasMask);
+  }, [hasMask, onChange]);
+
+  useImperativeHandle(ref, () => ({
+    getMask: () => hasMask && canvasRef.current ? canvasRef.current.toDataURL('image/png').split(',')[1] : null,
+    clear: () => {
+      const canvas = canvasRef.current;
+      canvas?.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+      setHasMask(false);
+    },
+  }), [hasMask]);
+
+  // Maps a pointer position to image pixels, accounting for letterboxing.
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = Math.min(rect.width / width, rect.height / height);
+    const offsetX = (rect.width - width * scale) / 2;
+    const offsetY = (rect.height - height * scale) / 2;
+    return {
+      x: (e.clientX - rect.left - offsetX) / scale,
+      y: (e.clientY - rect.top - offsetY) / scale,
+      scale,
+    };
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current!.getContext('2d')!;
+    const { x, y, scale } = toImagePoint(e);
+    const from = lastPoint.current ?? { x, y };
+    ctx.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = 'rgba(236, 72, 153, 1)';
+    ctx.lineWidth = brushSize / scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPoint.current = { x, y };
+    if (!erase) setHasMask(true);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = null;
+    paint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.buttons !== 1) return;
+    paint(e);
+  };
+
+  // Erasing can clear the whole mask, so the flag is recomputed from the canvas once a stroke ends.
+  const handlePointerUp = () => {
+    lastPoint.current = null;
+    if (!erase) return;
+    const canvas = canvasRef.current!;
+    const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+    let painted = false;
+    for (let i = 3; i < data.length && !painted; i += 4) painted = data[i] > 0;
+    setHasMask(painted);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className="absolute inset-0 w-full h-full object-contain opacity-50 cursor-crosshair touch-none z-10"
+    />
+  );
+});
+
+MaskCanvas.displayName = 'MaskCanvas';
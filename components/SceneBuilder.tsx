@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  SCENE_ASPECTS,
+  BUILT_IN_PRESETS,
+  EMPTY_SCENE,
+  isEmptyScene,
+  listScenePresets,
+  saveScenePreset,
+  deleteScenePreset,
+  toScenePresetFile,
+  parseScenePresetFile,
+} from '../services/scenePresets';
+import { downloadJson } from '../utils/download';
+import { t, type MessageKey } from '../i18n';
+import type { ScenePreset, SceneSettings } from '../types';
+
+interface SceneBuilderProps {
+  settings: SceneSettings;
+  onChange: (settings: SceneSettings) => void;
+}
+
+const inputClass = 'w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-black focus:border-black bg-white';
+
+// Built-in presets keep their English names in data; only the label shown is translated.
+const builtInNames: Record<string, MessageKey> = {
+  'builtin-catalog-white': 'scene.preset.catalogWhite',
+  'builtin-catalog-detail': 'scene.preset.catalogDetail',
+  'builtin-street-style': 'scene.preset.streetStyle',
+  'builtin-golden-hour': 'scene.preset.goldenHour',
+  'builtin-evening': 'scene.preset.evening',
+  'builtin-resort': 'scene.preset.resort',
+};
+
+const presetLabel = (preset: ScenePreset) => preset.builtIn && builtInNames[preset.id] ? t(builtInNames[preset.id]) : preset.name;
+
+const sameSettings = (a: SceneSettings, b: SceneSettings) =>
+  (Object.keys(EMPTY_SCENE) as (keyof SceneSettings)[]).every(key => a[key] === b[key]);
+
+export const SceneBuilder: React.FC<SceneBuilderProps> = ({ settings, onChange }) => {
+  const [userPresets, setUserPresets] = useState<ScenePreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setUserPresets(await listScenePresets());
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : t('scene.loadFailed'));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const update = (key: keyof SceneSettings, value: string) => onChange({ ...settings, [key]: value });
+
+  const handleSave = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setError(null);
+    try {
+      await saveScenePreset({ id: crypto.randomUUID(), name, settings, createdAt: Date.now() });
+      setPresetName('');
+      await load();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : t('scene.saveFailed'));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteScenePreset(id);
+      await load();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : t('scene.deleteFailed'));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const presets = parseScenePresetFile(await file.text());
+      for (const preset of presets) await saveScenePreset(preset);
+      await load();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : t('scene.importFailed'));
+    }
+  };
+
+  const presetButton = (preset: ScenePreset) => {
+    const isActive = sameSettings(preset.settings, settings);
+    return (
+      <span key={preset.id} className={`inline-flex items-center rounded-full border text-xs ${isActive ? 'border-black bg-black text-white' : 'border-gray-300 text-gray-700 hover:border-gray-500'}`}>
+        <button onClick={() => onChange(preset.settings)} className="px-3 py-1" aria-pressed={isActive}>{presetLabel(preset)}</button>
+        {!preset.builtIn && (
+          <button onClick={() => handleDelete(preset.id)} className={`pe-2 ${isActive ? 'text-white/70 hover:text-white' : 'text-gray-400 hover:text-black'}`} aria-label={t('scene.deletePreset', { name: preset.name })}>&times;</button>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {BUILT_IN_PRESETS.map(presetButton)}
+        {userPresets.map(presetButton)}
+      </div>
+
+      <button onClick={() => setIsOpen(!isOpen)} className="text-xs text-gray-500 hover:text-black" aria-expanded={isOpen}>
+        {isOpen ? t('scene.hideBuilder') : t('scene.showBuilder')}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 rounded-lg border border-gray-200 bg-gray-50 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {SCENE_ASPECTS.map(({ aspect, label, options }) => (
+              <label key={aspect} className="block text-xs text-gray-600">
+                {t(label)}
+                <select value={settings[aspect]} onChange={e => update(aspect, e.target.value)} className={`mt-1 ${inputClass}`}>
+                  <option value="">{t('scene.any')}</option>
+                  {/* Imported presets may use wording that is not in the curated list. */}
+                  {settings[aspect] && !options.some(option => option.value === settings[aspect]) && <option value={settings[aspect]}>{settings[aspect]}</option>}
+                  {options.map(option => <option key={option.value} value={option.value}>{t(option.label)}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+          <label className="block text-xs text-gray-600">
+            {t('scene.details')}
+            <input value={settings.details} onChange={e => update('details', e.target.value)} placeholder={t('scene.detailsPlaceholder')} className={`mt-1 ${inputClass}`} />
+          </label>
+
+          <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-gray-200">
+            <input value={presetName} onChange={e => setPresetName(e.target.value)} placeholder={t('scene.presetName')} className={`flex-1 min-w-[8rem] ${inputClass}`} />
+            <button onClick={handleSave} disabled={!presetName.trim() || isEmptyScene(settings)} className="px-3 py-2 text-xs rounded-md bg-gray-900 text-white hover:bg-gray-700 disabled:opacity-40">{t('scene.savePreset')}</button>
+            <button onClick={() => onChange(EMPTY_SCENE)} className="px-3 py-2 text-xs rounded-md border border-gray-300 text-gray-600 hover:bg-gray-100">{t('scene.clear')}</button>
+          </div>
+          <div className="flex gap-4 text-xs text-gray-500">
+            <button onClick={() => downloadJson(toScenePresetFile(userPresets), `stylemix-scene-presets-${Date.now()}.json`)} disabled={userPresets.length === 0} className="hover:text-black disabled:opacity-40">{t('scene.share')}</button>
+            <button onClick={() => importInputRef.current?.click()} className="hover:text-black">{t('scene.import')}</button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </div>
+        </div>
+      )}
+
+      {error && <p role="alert" className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Dialog } from './Dialog';
+import {
+  MODEL_OPERATIONS,
+  OUTPUT_MIME_TYPES,
+  MAX_THINKING_BUDGET,
+  DEFAULT_GENERATION_SETTINGS,
+  getGenerationSettings,
+  saveGenerationSettings,
+} from '../services/generationSettings';
+import { minThinkingBudget } from '../services/models';
+import { t } from '../i18n';
+import type { GenerationSettings, ModelOperation } from '../types';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const inputClass = 'w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-black focus:border-black bg-white';
+
+const NEGATIVE_PROMPT_SUGGESTIONS = ['blurry', 'distorted hands', 'extra limbs', 'watermark', 'text', 'oversaturated colors'];
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
+  const [draft, setDraft] = useState<GenerationSettings>(getGenerationSettings);
+
+  const update = (patch: Partial<GenerationSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+  const updateModel = (operation: ModelOperation, model: string) =>
+    setDraft(prev => ({ ...prev, models: { ...prev.models, [operation]: model } }));
+
+  const isDynamicBudget = draft.thinkingBudget === -1;
+  const minBudget = minThinkingBudget(draft.models.analysis);
+  const negativeTerms = draft.negativePrompt.split(',').map(term => term.trim()).filter(Boolean);
+
+  const addNegativeTerm = (term: string) => {
+    if (negativeTerms.includes(term)) return;
+    update({ negativePrompt: [...negativeTerms, term].join(', ') });
+  };
+
+  const handleSave = () => {
+    saveGenerationSettings(draft);
+    onClose();
+  };
+
+  return (
+    <Dialog onClose={onClose} labelledBy="settings-title" panelClassName="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 id="settings-title" className="text-lg font-semibold text-gray-900">{t('settings.title')}</h2>
+          <p className="text-sm text-gray-500">{t('settings.intro')}</p>
+        </div>
+        <button onClick={onClose} className="text-2xl leading-none text-gray-400 hover:text-gray-900" aria-label={t('settings.close')}>&times;</button>
+      </div>
+
+      <fieldset className="space-y-3">
+        <legend className="text-sm font-semibold text-gray-800 mb-2">{t('settings.models')}</legend>
+        {MODEL_OPERATIONS.map(({ operation, label, suggestions }) => (
+          <label key={operation} className="block text-xs text-gray-600">
+            {t(label)}
+            <input
+              value={draft.models[operation]}
+              onChange={e => updateModel(operation, e.target.value)}
+              list={`models-${operation}`}
+              placeholder={DEFAULT_GENERATION_SETTINGS.models[operation]}
+              spellCheck={false}
+              className={`mt-1 font-mono ${inputClass}`}
+            />
+            <datalist id={`models-${operation}`}>
+              {suggestions.map(model => <option key={model} value={model} />)}
+            </datalist>
+          </label>
+        ))}
+      </fieldset>
+
+      <fieldset className="mt-5 space-y-3 text-sm text-gray-700">
+        <legend className="text-sm font-semibold text-gray-800 mb-2">{t('settings.analysis')}</legend>
+        <div className="flex items-center gap-3">
+          <label className="flex-1 text-xs text-gray-600">
+            {t('settings.thinkingBudget')}
+            <input
+              type="number"
+              min={minBudget}
+              max={MAX_THINKING_BUDGET}
+              step={1024}
+              value={isDynamicBudget ? '' : draft.thinkingBudget}
+              disabled={isDynamicBudget}
+              onChange={e => update({ thinkingBudget: Math.min(MAX_THINKING_BUDGET, Math.max(minBudget, Math.round(Number(e.target.value) || 0))) })}
+              className={`mt-1 ${inputClass} disabled:bg-gray-100`}
+            />
+          </label>
+          <label className="flex items-center gap-2 mt-5 text-xs">
+            <input
+              type="checkbox"
+              checked={isDynamicBudget}
+              onChange={e => update({ thinkingBudget: e.target.checked ? -1 : DEFAULT_GENERATION_SETTINGS.thinkingBudget })}
+              className="h-4 w-4 rounded border-gray-300 text-black focus:ring-black"
+            />
+            {t('settings.dynamicBudget')}
+          </label>
+        </div>
+        {minBudget > 0 && (
+          <span className="block text-xs text-gray-400">{t('settings.minBudget', { count: minBudget })}</span>
+        )}
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={draft.localizedOutput}
+            onChange={e => update({ localizedOutput: e.target.checked })}
+            className="h-4 w-4 rounded border-gray-300 text-black focus:ring-black"
+          />
+          {t('settings.localizedOutput')}
+        </label>
+      </fieldset>
+
+      <fieldset className="mt-5 space-y-3 text-sm text-gray-700">
+        <legend className="text-sm font-semibold text-gray-800 mb-2">{t('settings.imageOutput')}</legend>
+        <label className="block text-xs text-gray-600">
+          {t('settings.outputFormat')}
+          <select value={draft.outputMimeType} onChange={e => update({ outputMimeType: e.target.value as GenerationSettings['outputMimeType'] })} className={`mt-1 ${inputClass}`}>
+            {OUTPUT_MIME_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+          <span className="block mt-1 text-gray-400">{t('settings.outputFormatNote')}</span>
+        </label>
+
+        <div className="text-xs text-gray-600">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.seed !== null}
+              onChange={e => update({ seed: e.target.checked ? randomSeed() : null })}
+              className="h-4 w-4 rounded border-gray-300 text-black focus:ring-black"
+            />
+            {t('settings.fixedSeed')}
+          </label>
+          {draft.seed !== null && (
+            <div className="flex gap-2 mt-2">
+              <input
+                type="number"
+                min={0}
+                max={2 ** 31 - 1}
+                value={draft.seed}
+                onChange={e => update({ seed: Math.min(2 ** 31 - 1, Math.max(0, Math.round(Number(e.target.value) || 0))) })}
+                className={`font-mono ${inputClass}`}
+                aria-label={t('settings.seed')}
+              />
+              <button onClick={() => update({ seed: randomSeed() })} className="px-3 py-2 text-xs rounded-md border border-gray-300 text-gray-600 hover:bg-gray-100">{t('settings.randomize')}</button>
+            </div>
+          )}
+          <span className="block mt-1 text-gray-400">{t('settings.seedNote')}</span>
+        </div>
+
+        <label className="block text-xs text-gray-600">
+          {t('settings.negativePrompt')}
+          <textarea
+            value={draft.negativePrompt}
+            onChange={e => update({ negativePrompt: e.target.value })}
+            rows={2}
+            placeholder={t('settings.negativePromptPlaceholder')}
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {NEGATIVE_PROMPT_SUGGESTIONS.filter(term => !negativeTerms.includes(term)).map(term => (
+            <button key={term} onClick={() => addNegativeTerm(term)} className="px-2 py-1 text-xs rounded-full border border-gray-300 text-gray-600 hover:border-gray-500">+ {term}</button>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="mt-6 flex items-center justify-between gap-3">
+        <button onClick={() => setDraft(DEFAULT_GENERATION_SETTINGS)} className="text-sm text-gray-500 hover:text-black">{t('settings.reset')}</button>
+        <div className="flex gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100">{t('common.cancel')}</button>
+          <button onClick={handleSave} className="px-4 py-2 text-sm rounded-lg bg-[#111111] text-white font-medium hover:bg-gray-800">{t('common.save')}</button>
+        </div>
+      </div>
+    </Dialog>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { t, tPlural } from '../i18n';
+import type { StyledOutfit, UploadedFile, AltTextFor, DescribeOnView } from '../types';
+
+interface StyleMeProps {
+  // The items uploaded in step 1, which outfits are picked from.
+  pool: UploadedFile[];
+  outfits: StyledOutfit[] | null;
+  outfitCount: number;
+  onOutfitCountChange: (count: number) => void;
+  onSuggest: () => void;
+  onToggle: (id: string) => void;
+  onGenerate: () => void;
+  onOpen: (outfit: StyledOutfit) => void;
+  disabled?: boolean;
+  altText?: AltTextFor;
+  describeOnView?: DescribeOnView;
+}
+
+// "Style me": the stylist picks outfits from the uploaded items, then a try-on is generated for each chosen one.
+export const StyleMe: React.FC<StyleMeProps> = ({ pool, outfits, outfitCount, onOutfitCountChange, onSuggest, onToggle, onGenerate, onOpen, disabled = false, altText = (_, fallback) => fallback, describeOnView }) => {
+  const selectedCount = outfits?.filter(outfit => outfit.selected).length ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <section className="flex items-center justify-between gap-4">
+        <label className="text-sm text-gray-700 flex items-center gap-2">
+          {t('styleMe.count')}
+          <select
+            value={outfitCount}
+            onChange={e => onOutfitCountChange(Number(e.target.value))}
+            disabled={disabled}
+            className="p-1 border border-gray-300 rounded-md bg-white"
+          >
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <span className="text-xs text-gray-500">{tPlural('styleMe.pool', pool.length)}</span>
+      </section>
+      <button
+        onClick={onSuggest}
+        disabled={disabled}
+        className="w-full bg-[#111111] text-white px-8 py-4 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {outfits ? t('styleMe.suggestAgain') : t('styleMe.suggest')}
+      </button>
+
+      {outfits && (
+        <section className="space-y-3">
+          {outfits.map(outfit => (
+            <div key={outfit.id} className={`p-4 rounded-xl border ${outfit.selected ? 'border-gray-900 bg-white' : 'border-gray-200 bg-gray-50'}`}>
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={outfit.selected}
+                  onChange={() => onToggle(outfit.id)}
+                  disabled={disabled}
+                  className="mt-1 h-4 w-4 rounded border-gray-300 text-black focus:ring-black"
+                  aria-label={t('styleMe.select', { title: outfit.title })}
+                />
+                <div className="flex-1 min-w-0">
+                  <h3 className="text-sm font-semibold text-gray-900">{outfit.title}</h3>
+                  <div className="mt-2 flex gap-1 overflow-x-auto">
+                    {outfit.itemIndexes.map(index => pool[index] && (
+                      <img key={index} src={pool[index].preview} alt={t('common.item', { number: index + 1 })} className="w-10 h-10 object-cover rounded" />
+                    ))}
+                  </div>
+                  <p className="mt-2 text-xs text-gray-600">{outfit.reasoning}</p>
+                  {outfit.error && <p role="alert" className="mt-2 text-xs text-red-500">{outfit.error}</p>}
+                </div>
+                {outfit.image && (
+                  <button onClick={() => onOpen(outfit)} className="flex-shrink-0 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-800" title={t('styleMe.show')}>
+                    <img ref={describeOnView?.(outfit.image)} src={`data:image/jpeg;base64,${outfit.image}`} alt={altText(outfit.image, outfit.title)} className="w-16 h-20 object-cover rounded-lg border border-gray-200 hover:border-gray-900" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={onGenerate}
+            disabled={disabled || selectedCount === 0}
+            className="w-full px-4 py-3 text-sm rounded-lg border border-gray-900 text-gray-900 font-medium hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {tPlural('styleMe.generate', selectedCount)}
+          </button>
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { t, type MessageKey } from '../i18n';
+import type { ChatMessage, SuggestedEdit } from '../types';
+
+interface StylistChatProps {
+  messages: ChatMessage[];
+  onSend: (text: string) => void;
+  onApplyEdit: (messageId: string, edit: SuggestedEdit) => void;
+  onCancel: () => void;
+  isReplying: boolean;
+  // True while the look itself is being generated or edited; edits cannot be applied then.
+  isBusy: boolean;
+  error: string | null;
+}
+
+const STARTER_QUESTIONS: MessageKey[] = [
+  'chat.starter.shoes',
+  'chat.starter.blackTie',
+  'chat.starter.casual',
+];
+
+// Follow-up questions about the look on screen. Stylist replies can carry edits that are applied with one click.
+export const StylistChat: React.FC<StylistChatProps> = ({ messages, onSend, onApplyEdit, onCancel, isReplying, isBusy, error }) => {
+  const [draft, setDraft] = useState('');
+  const logRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight });
+  }, [messages.length, isReplying]);
+
+  const send = (text: string) => {
+    if (!text.trim() || isReplying) return;
+    onSend(text.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="mt-6 p-6 rounded-2xl bg-white shadow-sm border border-gray-200/80">
+      <h3 className="font-semibold text-lg text-gray-900 mb-1">{t('chat.title')}</h3>
+      <p className="text-sm text-gray-500 mb-4">{t('chat.intro')}</p>
+
+      {messages.length > 0 && (
+        <div ref={logRef} className="max-h-80 overflow-y-auto space-y-3 mb-4" aria-live="polite">
+          {messages.map(message => (
+            <div key={message.id} className={message.role === 'user' ? 'flex justify-end' : ''}>
+              <div className={`max-w-[85%] px-3 py-2 rounded-xl text-sm whitespace-pre-wrap ${message.role === 'user' ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-800'}`}>
+                {message.text}
+              </div>
+              {message.edits.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {message.edits.map(edit => {
+                    const applied = message.appliedEdits.includes(edit.prompt);
+                    return (
+                      <button
+                        key={edit.prompt}
+                        onClick={() => onApplyEdit(message.id, edit)}
+                        disabled={applied || isBusy}
+                        title={edit.prompt}
+                        className="px-3 py-1 text-xs rounded-full border border-gray-300 text-gray-700 hover:border-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {applied ? `✓ ${edit.label}` : t('chat.apply', { label: edit.label })}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+          {isReplying && (
+            <div className="flex items-center gap-3 text-sm text-gray-500">
+              <span>{t('chat.thinking')}</span>
+              <button onClick={onCancel} className="text-xs underline hover:text-black">{t('common.cancel')}</button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {messages.length === 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {STARTER_QUESTIONS.map(key => t(key)).map(question => (
+            <button key={question} onClick={() => send(question)} disabled={isReplying} className="px-3 py-1 text-xs rounded-full border border-gray-300 text-gray-600 hover:border-gray-500 disabled:opacity-50">
+              {question}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p role="alert" className="mb-3 text-sm text-red-500">{error}</p>}
+
+      <form onSubmit={e => { e.preventDefault(); send(draft); }} className="flex gap-2">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder={t('chat.placeholder')}
+          maxLength={1000}
+          className="flex-1 p-2 text-sm border border-gray-300 rounded-lg focus:ring-1 focus:ring-black focus:border-black bg-gray-50"
+          aria-label={t('chat.inputLabel')}
+        />
+        <button type="submit" disabled={!draft.trim() || isReplying} className="px-4 py-2 text-sm rounded-lg bg-[#111111] text-white hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed">{t('chat.send')}</button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { ITEM_ROLES, isItemRole } from '../services/itemRoles';
+import { clashingColors } from '../services/colorPalette';
+import { t, tPlural } from '../i18n';
+import type { PersonalPalette, UploadedFile } from '../types';
+
+interface TryOnItemsProps {
+  items: UploadedFile[];
+  onChange: (id: string, patch: Pick<UploadedFile, 'role' | 'notes'>) => void;
+  onRemove: (id: string) => void;
+  onSendToWardrobe: (item: UploadedFile) => void;
+  onDetectRoles: () => void;
+  disabled?: boolean;
+  // Dominant colors per item id, shown as swatches and checked against the palette when there is one.
+  colors?: Record<string, string[]>;
+  palette?: PersonalPalette | null;
+}
+
+const fieldClass = 'w-full px-1.5 py-1 text-xs border border-gray-300 rounded-md focus:ring-1 focus:ring-black focus:border-black bg-white';
+
+// The try-on item grid. Each item carries a role and optional notes that the prompt refers to it by.
+export const TryOnItems: React.FC<TryOnItemsProps> = ({ items, onChange, onRemove, onSendToWardrobe, onDetectRoles, disabled = false, colors = {}, palette = null }) => {
+  const unlabeledCount = items.filter(item => !item.role).length;
+
+  const renderSwatches = (itemColors: string[]) => {
+    const clashes = palette ? clashingColors(itemColors, palette) : [];
+    return (
+      <div className="flex items-center gap-1">
+        {itemColors.map(color => (
+          <span
+            key={color}
+            className={`w-3.5 h-3.5 rounded-full border ${clashes.includes(color) ? 'border-red-500 ring-1 ring-red-500' : 'border-gray-200'}`}
+            style={{ backgroundColor: color }}
+            title={color}
+          />
+        ))}
+        {clashes.length > 0 && <span className="ms-1 text-[10px] text-red-600">{t('items.clashes')}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {items.map((item, index) => (
+          <div key={item.id} className="space-y-1.5">
+            <div className="relative aspect-square">
+              <img src={item.preview} alt={t('common.item', { number: index + 1 })} className="w-full h-full object-cover rounded-lg" />
+              <button onClick={() => onRemove(item.id)} className="absolute -top-2 -end-2 bg-black bg-opacity-80 text-white rounded-full w-6 h-6 flex items-center justify-center text-sm hover:bg-opacity-100 focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-gray-800" aria-label={t('items.remove', { number: index + 1 })}>&times;</button>
+              <button onClick={() => onSendToWardrobe(item)} className="absolute bottom-1 start-1 bg-black bg-opacity-70 text-white rounded px-1.5 py-0.5 text-[10px] hover:bg-opacity-100 focus:outline-none focus:ring-2 focus:ring-gray-800" title={t('items.saveHint')} aria-label={t('items.saveLabel', { number: index + 1 })}>{t('common.save')}</button>
+            </div>
+            {colors[item.id] && renderSwatches(colors[item.id])}
+            <select
+              value={item.role ?? ''}
+              onChange={e => onChange(item.id, { role: isItemRole(e.target.value) ? e.target.value : undefined, notes: item.notes })}
+              className={fieldClass}
+              aria-label={t('items.roleLabel', { number: index + 1 })}
+            >
+              <option value="">{t('items.roleAuto')}</option>
+              {ITEM_ROLES.map(({ role, label }) => <option key={role} value={role}>{t(label)}</option>)}
+            </select>
+            <input
+              value={item.notes ?? ''}
+              onChange={e => onChange(item.id, { role: item.role, notes: e.target.value })}
+              placeholder={t('items.notesPlaceholder')}
+              maxLength={200}
+              className={fieldClass}
+              aria-label={t('items.notesLabel', { number: index + 1 })}
+            />
+          </div>
+        ))}
+      </div>
+      {unlabeledCount > 0 && (
+        <button onClick={onDetectRoles} disabled={disabled} className="mt-3 text-xs text-gray-500 hover:text-black disabled:opacity-40">
+          {tPlural('items.detectRoles', unlabeledCount)}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { t } from '../i18n';
+import type { AltTextFor, DescribeOnView } from '../types';
+
+interface VariantPickerProps {
+  variants: string[];
+  activeImage: string | null;
+  onSelect: (image: string) => void;
+  altText?: AltTextFor;
+  describeOnView?: DescribeOnView;
+}
+
+// Strip of candidate images from one generation; picking one makes it the active image.
+export const VariantPicker: React.FC<VariantPickerProps> = ({ variants, activeImage, onSelect, altText = (_, fallback) => fallback, describeOnView }) => (
+  <div className="mt-4">
+    <p className="text-xs text-gray-500 mb-2">{t('variants.hint', { count: variants.length })}</p>
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {variants.map((variant, index) => {
+        const isActive = variant === activeImage;
+        return (
+          <button
+            key={index}
+            onClick={() => onSelect(variant)}
+            className={`flex-shrink-0 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-800 ${isActive ? '' : 'opacity-70 hover:opacity-100'}`}
+            aria-pressed={isActive}
+          >
+            <img
+              ref={describeOnView?.(variant)}
+              src={`data:image/jpeg;base64,${variant}`}
+              alt={t('variants.imageAlt', { number: index + 1, description: altText(variant, t('output.imageAlt')) })}
+              className={`w-20 h-20 object-cover rounded-lg border-2 ${isActive ? 'border-black' : 'border-transparent'}`}
+            />
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
@@ -0,0 +1,92 @@
+import React from 'react';
+import { t, type MessageKey } from '../i18n';
+import type { ImageVersion, AltTextFor, DescribeOnView } from '../types';
+
+interface VersionHistoryProps {
+  versions: ImageVersion[];
+  currentId: string | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  onSelect: (id: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  altText?: AltTextFor;
+  describeOnView?: DescribeOnView;
+}
+
+const sourceLabels: Record<ImageVersion['source'], MessageKey> = {
+  tryon: 'versions.tryon',
+  generate: 'versions.generate',
+  edit: 'versions.edit',
+};
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, currentId, canUndo, canRedo, onSelect, onUndo, onRedo, altText = (_, fallback) => fallback, describeOnView }) => {
+  const labels = new Map<string, string>(versions.map((v, index) => [v.id, `v${index + 1}`]));
+
+  // Versions on the path from the root to the current one are highlighted.
+  const lineage = new Set<string>();
+  let cursor = versions.find(v => v.id === currentId);
+  while (cursor) {
+    lineage.add(cursor.id);
+    cursor = versions.find(v => v.id === cursor!.parentId);
+  }
+
+  const current = versions.find(v => v.id === currentId);
+  const isBranching = !!current && versions.some(v => v.parentId === current.id);
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900">{t('versions.title')}</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="px-3 py-1 text-xs rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+            title={t('versions.undoHint')}
+          >
+            {t('versions.undo')}
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="px-3 py-1 text-xs rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+            title={t('versions.redoHint')}
+          >
+            {t('versions.redo')}
+          </button>
+        </div>
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {versions.map(version => {
+          const isCurrent = version.id === currentId;
+          const parentLabel = version.parentId ? labels.get(version.parentId) : null;
+          return (
+            <button
+              key={version.id}
+              onClick={() => onSelect(version.id)}
+              title={version.prompt}
+              className={`flex-shrink-0 w-20 text-start focus:outline-none focus:ring-2 focus:ring-gray-800 rounded-lg ${lineage.has(version.id) ? '' : 'opacity-50 hover:opacity-100'}`}
+            >
+              <img
+                ref={describeOnView?.(version.image)}
+                src={`data:image/jpeg;base64,${version.image}`}
+                alt={`${labels.get(version.id)}: ${altText(version.image, version.prompt)}`}
+                className={`w-20 h-20 object-cover rounded-lg border-2 ${isCurrent ? 'border-black' : 'border-transparent'}`}
+              />
+              <p className="mt-1 text-xs font-medium text-gray-800">
+                {labels.get(version.id)} <span className="font-light text-gray-500">{t(sourceLabels[version.source])}</span>
+              </p>
+              {parentLabel && <p className="text-[10px] text-gray-400">{t('versions.from', { version: parentLabel })}</p>}
+            </button>
+          );
+        })}
+      </div>
+      {isBranching && (
+        <p className="mt-1 text-xs text-gray-500">
+          {t('versions.branching', { version: labels.get(currentId!)! })}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { FileUpload } from './FileUpload';
+import { WARDROBE_CATEGORIES, listWardrobeItems, saveWardrobeItem, deleteWardrobeItem, filterWardrobeItems, parseTags } from '../services/wardrobeStore';
+import { t, tPlural, type MessageKey } from '../i18n';
+import type { UploadedFile, WardrobeCategory, WardrobeItem } from '../types';
+
+interface WardrobeProps {
+  // Files handed over from elsewhere (e.g. the try-on tab) to be tagged and saved.
+  incomingFiles: File[];
+  onIncomingConsumed: () => void;
+  // Ids of wardrobe items already in the current try-on.
+  usedIds: string[];
+  onUseItem: (item: WardrobeItem) => void;
+}
+
+interface Draft extends UploadedFile {
+  name: string;
+  category: WardrobeCategory;
+  color: string;
+  brand: string;
+  tagsText: string;
+}
+
+const categoryLabels: Record<WardrobeCategory, MessageKey> = {
+  top: 'wardrobe.category.top',
+  bottom: 'wardrobe.category.bottom',
+  shoes: 'wardrobe.category.shoes',
+  accessory: 'wardrobe.category.accessory',
+};
+
+const toDraft = (file: File): Draft => ({
+  id: crypto.randomUUID(),
+  file,
+  preview: URL.createObjectURL(file),
+  name: file.name.replace(/\.[^.]+$/, ''),
+  category: 'top',
+  color: '',
+  brand: '',
+  tagsText: '',
+});
+
+const inputClass = 'w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-black focus:border-black bg-white';
+
+export const Wardrobe: React.FC<WardrobeProps> = ({ incomingFiles, onIncomingConsumed, usedIds, onUseItem }) => {
+  const [items, setItems] = useState<WardrobeItem[]>([]);
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<WardrobeCategory | 'all'>('all');
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setItems(await listWardrobeItems());
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : t('wardrobe.loadFailed'));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (incomingFiles.length === 0) return;
+    setDrafts(prev => [...prev, ...incomingFiles.map(toDraft)]);
+    onIncomingConsumed();
+  }, [incomingFiles, onIncomingConsumed]);
+
+  // Object URLs for saved items are created once per load and released afterwards.
+  const previews = useMemo(() => new Map(items.map(item => [item.id, URL.createObjectURL(item.file)])), [items]);
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  const handleFiles = useCallback((files: File[]) => {
+    setDrafts(prev => [...prev, ...files.map(toDraft)]);
+  }, []);
+
+  const updateDraft = (id: string, patch: Partial<Draft>) => {
+    setDrafts(prev => prev.map(draft => draft.id === id ? { ...draft, ...patch } : draft));
+  };
+
+  const handleSaveDrafts = async () => {
+    try {
+      for (const draft of drafts) {
+        await saveWardrobeItem({
+          id: draft.id,
+          file: draft.file,
+          name: draft.name.trim() || draft.file.name,
+          category: draft.category,
+          color: draft.color.trim(),
+          brand: draft.brand.trim(),
+          tags: parseTags(draft.tagsText),
+          createdAt: Date.now(),
+        });
+      }
+      setDrafts([]);
+      setError(null);
+      await load();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : t('wardrobe.saveFailed'));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteWardrobeItem(id);
+      await load();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : t('wardrobe.deleteFailed'));
+    }
+  };
+
+  const visible = filterWardrobeItems(items, { query, category });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-900">{t('wardrobe.title')}</h2>
+        <span className="text-sm text-gray-500">{tPlural('wardrobe.count', items.length)}</span>
+      </div>
+
+      <FileUpload onFilesChange={handleFiles} multiple label={t('wardrobe.upload')} />
+
+      {drafts.length > 0 && (
+        <section className="space-y-3">
+          {drafts.map(draft => (
+            <div key={draft.id} className="flex gap-3 p-3 rounded-lg border border-gray-200">
+              <img src={draft.preview} alt={t('wardrobe.newItemAlt')} className="w-20 h-20 object-cover rounded-lg flex-shrink-0" />
+              <div className="grid grid-cols-2 gap-2 flex-1">
+                <input value={draft.name} onChange={e => updateDraft(draft.id, { name: e.target.value })} placeholder={t('wardrobe.name')} className={inputClass} />
+                <select value={draft.category} onChange={e => updateDraft(draft.id, { category: e.target.value as WardrobeCategory })} className={inputClass}>
+                  {WARDROBE_CATEGORIES.map(c => <option key={c} value={c}>{t(categoryLabels[c])}</option>)}
+                </select>
+                <input value={draft.color} onChange={e => updateDraft(draft.id, { color: e.target.value })} placeholder={t('wardrobe.color')} className={inputClass} />
+                <input value={draft.brand} onChange={e => updateDraft(draft.id, { brand: e.target.value })} placeholder={t('wardrobe.brand')} className={inputClass} />
+                <input value={draft.tagsText} onChange={e => updateDraft(draft.id, { tagsText: e.target.value })} placeholder={t('wardrobe.tags')} className={`${inputClass} col-span-2`} />
+              </div>
+              <button onClick={() => setDrafts(prev => prev.filter(d => d.id !== draft.id))} className="self-start text-gray-400 hover:text-black" aria-label={t('wardrobe.discard')}>&times;</button>
+            </div>
+          ))}
+          <button onClick={handleSaveDrafts} className="w-full bg-[#111111] text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors">
+            {t('wardrobe.saveDrafts', { count: drafts.length })}
+          </button>
+        </section>
+      )}
+
+      {error && <p role="alert" className="text-sm text-red-500">{error}</p>}
+
+      <div className="space-y-3">
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={t('wardrobe.search')}
+          className="w-full p-3 border border-gray-300 rounded-lg focus:ring-1 focus:ring-black focus:border-black transition-shadow bg-gray-50"
+        />
+        <div className="flex flex-wrap gap-2">
+          {(['all', ...WARDROBE_CATEGORIES] as const).map(c => (
+            <button
+              key={c}
+              onClick={() => setCategory(c)}
+              className={`px-3 py-1 text-xs rounded-full border ${category === c ? 'bg-gray-900 text-white border-gray-900' : 'border-gray-300 text-gray-600 hover:border-gray-900'}`}
+            >
+              {c === 'all' ? t('wardrobe.all') : t(categoryLabels[c])}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-12">
+          {items.length === 0 ? t('wardrobe.empty') : t('wardrobe.noMatches')}
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+          {visible.map(item => {
+            const isUsed = usedIds.includes(item.id);
+            return (
+              <div key={item.id} className="rounded-lg border border-gray-200 overflow-hidden bg-white">
+                <img src={previews.get(item.id)} alt={item.name} className="w-full aspect-square object-cover" />
+                <div className="p-2 space-y-1">
+                  <p className="text-sm font-medium text-gray-900 truncate" title={item.name}>{item.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{[t(categoryLabels[item.category]), item.color, item.brand].filter(Boolean).join(' · ')}</p>
+                  {item.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {item.tags.map(tag => <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">{tag}</span>)}
+                    </div>
+                  )}
+                  <div className="flex gap-1 pt-1">
+                    <button
+                      onClick={() => onUseItem(item)}
+                      disabled={isUsed}
+                      className="px-2 py-1 text-xs rounded-md bg-gray-900 text-white hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      {isUsed ? t('wardrobe.inTryOn') : t('wardrobe.use')}
+                    </button>
+                    <button onClick={() => handleDelete(item.id)} className="px-2 py-1 text-xs rounded-md text-red-500 hover:bg-red-50">{t('common.delete')}</button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
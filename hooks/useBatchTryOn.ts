@@ -0,0 +1,143 @@
+import { useState, useCallback, useRef } from 'react';
+import { generateLook } from '../services/geminiService';
+import { toStudioError } from '../services/errors';
+import type { BatchJob, LookItem, UploadedFile } from '../types';
+
+interface JobInput {
+  items: LookItem[];
+  userImage: File | null;
+  scene: string;
+}
+
+interface BatchOptions {
+  // Called for every job that finishes successfully, e.g. to save it to the gallery.
+  onJobDone?: (job: BatchJob, input: JobInput) => void;
+}
+
+export const parseScenes = (text: string): string[] =>
+  text.split('\n').map(line => line.trim()).filter(Boolean);
+
+export const useBatchTryOn = ({ onJobDone }: BatchOptions = {}) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [scenesText, setScenesText] = useState<string>('');
+  // Outfit sets in addition to the items already uploaded in the try-on tab.
+  const [extraOutfits, setExtraOutfits] = useState<UploadedFile[][]>([]);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+
+  const inputsRef = useRef(new Map<string, JobInput>());
+  const runRef = useRef<{ cancelled: boolean; controller: AbortController } | null>(null);
+  const onJobDoneRef = useRef(onJobDone);
+  onJobDoneRef.current = onJobDone;
+
+  const updateJob = (id: string, patch: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+  };
+
+  const runQueue = useCallback(async (queue: BatchJob[], limit: number) => {
+    const run = { cancelled: false, controller: new AbortController() };
+    runRef.current = run;
+    setIsRunning(true);
+    const pending = [...queue];
+
+    const worker = async () => {
+      while (!run.cancelled && pending.length > 0) {
+        const job = pending.shift()!;
+        const input = inputsRef.current.get(job.id)!;
+        updateJob(job.id, { status: 'running', error: undefined });
+        try {
+          const image = await generateLook(input.items, input.userImage, input.scene, { signal: run.controller.signal });
+          if (run.cancelled) {
+            updateJob(job.id, { status: 'cancelled' });
+            return;
+          }
+          updateJob(job.id, { status: 'done', image });
+          onJobDoneRef.current?.({ ...job, status: 'done', image }, input);
+        } catch (e) {
+          console.error(e);
+          updateJob(job.id, {
+            status: run.cancelled ? 'cancelled' : 'failed',
+            error: toStudioError(e).message,
+          });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, pending.length) }, worker));
+    if (run.cancelled) {
+      const skipped = new Set(pending.map(job => job.id));
+      setJobs(prev => prev.map(job => skipped.has(job.id) ? { ...job, status: 'cancelled' } : job));
+    }
+    if (runRef.current === run) {
+      runRef.current = null;
+      setIsRunning(false);
+    }
+  }, []);
+
+  // Queues one job per outfit × scene combination and starts processing them.
+  const start = useCallback((outfits: LookItem[][], userImage: File | null, scenes: string[]) => {
+    inputsRef.current.clear();
+    const queue: BatchJob[] = [];
+    outfits.forEach((items, outfitIndex) => {
+      scenes.forEach(scene => {
+        const job: BatchJob = { id: crypto.randomUUID(), outfitIndex, scene, status: 'queued' };
+        inputsRef.current.set(job.id, { items, userImage, scene });
+        queue.push(job);
+      });
+    });
+    setJobs(queue);
+    runQueue(queue, concurrency);
+  }, [concurrency, runQueue]);
+
+  // Stops scheduling new jobs and aborts the ones in flight.
+  const cancel = useCallback(() => {
+    if (runRef.current) {
+      runRef.current.cancelled = true;
+      runRef.current.controller.abort();
+      runRef.current = null;
+    }
+    setIsRunning(false);
+    setJobs(prev => prev.map(job => job.status === 'queued' || job.status === 'running' ? { ...job, status: 'cancelled' } : job));
+  }, []);
+
+  const retry = useCallback((ids: string[]) => {
+    const retryable = new Set(ids);
+    const queue = jobs.filter(job => retryable.has(job.id) && (job.status === 'failed' || job.status === 'cancelled'));
+    if (queue.length === 0) return;
+    setJobs(prev => prev.map(job => retryable.has(job.id) ? { ...job, status: 'queued', error: undefined } : job));
+    runQueue(queue, concurrency);
+  }, [jobs, concurrency, runQueue]);
+
+  const addOutfit = useCallback((outfit: UploadedFile[]) => {
+    setExtraOutfits(prev => [...prev, outfit]);
+  }, []);
+
+  const removeOutfit = useCallback((index: number) => {
+    setExtraOutfits(prev => prev.filter((_, i) => i !== index));
+  }, []);
+
+  const reset = useCallback(() => {
+    cancel();
+    setJobs([]);
+    setScenesText('');
+    setExtraOutfits([]);
+  }, [cancel]);
+
+  return {
+    jobs,
+    scenesText,
+    setScenesText,
+    extraOutfits,
+    addOutfit,
+    removeOutfit,
+    concurrency,
+    setConcurrency,
+    isRunning,
+    start,
+    cancel,
+    retry,
+    reset,
+  };
+};
+
+export type BatchTryOnState = ReturnType<typeof useBatchTryOn>;
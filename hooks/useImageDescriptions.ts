@@ -0,0 +1,90 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { describeImage } from '../services/geminiService';
+
+// Model-written alt text for generated images, keyed by the image data. The image open in the output
+// panel is described right away. Thumbnails (variants, batch results, history, gallery) are described
+// once they scroll into view, one at a time, since each description is a model call that shares the
+// proxy's rate limit with generations.
+// Descriptions are best effort; until one arrives (or if it fails) callers use their own fallback.
+export const useImageDescriptions = (activeImage: string | null) => {
+  const [descriptions, setDescriptions] = useState<Map<string, string>>(() => new Map());
+  // Images with a description requested or received, so each is only sent once.
+  const requested = useRef(new Set<string>());
+  // Thumbnails that came into view, waiting for the one in flight to finish.
+  const queue = useRef<string[]>([]);
+  const draining = useRef(false);
+  const observer = useRef<IntersectionObserver | null>(null);
+  const observed = useRef(new WeakMap<Element, string>());
+  // Aborted on unmount, cancelling the queued thumbnail descriptions.
+  const lifetime = useRef(new AbortController());
+
+  useEffect(() => {
+    if (!activeImage || requested.current.has(activeImage)) return;
+    requested.current.add(activeImage);
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const description = await describeImage(activeImage, { signal: controller.signal });
+        setDescriptions(prev => new Map(prev).set(activeImage, description));
+      } catch (e) {
+        // A look left before its description arrived is described again if it is opened again.
+        if (controller.signal.aborted) {
+          requested.current.delete(activeImage);
+        } else {
+          console.error(e);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [activeImage]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    lifetime.current = controller;
+    return () => {
+      controller.abort();
+      observer.current?.disconnect();
+      observer.current = null;
+    };
+  }, []);
+
+  const drainQueue = useCallback(async () => {
+    if (draining.current) return;
+    draining.current = true;
+    const { signal } = lifetime.current;
+    while (queue.current.length > 0 && !signal.aborted) {
+      const image = queue.current.shift()!;
+      try {
+        const description = await describeImage(image, { signal });
+        setDescriptions(prev => new Map(prev).set(image, description));
+      } catch (e) {
+        if (!signal.aborted) console.error(e);
+      }
+    }
+    draining.current = false;
+  }, []);
+
+  // Ref callback for a thumbnail of `image`: queues its description the first time it is visible.
+  const describeOnView = useCallback((image: string) => (element: HTMLElement | null) => {
+    if (!element || requested.current.has(image) || typeof IntersectionObserver === 'undefined') return;
+    observer.current ??= new IntersectionObserver(entries => {
+      for (const entry of entries) {
+        const seen = observed.current.get(entry.target);
+        if (!entry.isIntersecting || !seen) continue;
+        observer.current!.unobserve(entry.target);
+        if (requested.current.has(seen)) continue;
+        requested.current.add(seen);
+        queue.current.push(seen);
+      }
+      drainQueue();
+    });
+    const target = observer.current;
+    observed.current.set(element, image);
+    target.observe(element);
+    return () => target.unobserve(element);
+  }, [drainQueue]);
+
+  const altText = useCallback((image: string, fallback: string) => descriptions.get(image) ?? fallback, [descriptions]);
+
+  return { altText, describeOnView };
+};
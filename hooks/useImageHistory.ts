@@ -0,0 +1,94 @@
+import { useState, useCallback, useMemo } from 'react';
+import type { ImageVersion, ImageVersionSource } from '../types';
+
+interface HistoryState {
+  versions: ImageVersion[];
+  currentId: string | null;
+  // Remembers which child to return to when redoing from a given version.
+  redoTargets: Record<string, string>;
+}
+
+const emptyHistory: HistoryState = { versions: [], currentId: null, redoTargets: {} };
+
+export const useImageHistory = () => {
+  const [state, setState] = useState<HistoryState>(emptyHistory);
+
+  const current = useMemo(
+    () => state.versions.find(v => v.id === state.currentId) ?? null,
+    [state]
+  );
+
+  // Adds a version as a child of the current one (edits) or as a new root (generations).
+  // Try-ons are made from their prompt alone; text-to-image generations pass their aspect ratio too.
+  const push = useCallback((image: string, prompt: string, source: ImageVersionSource, extra: Pick<ImageVersion, 'mask' | 'generation'> = {}) => {
+    setState(prev => {
+      const version: ImageVersion = {
+        id: crypto.randomUUID(),
+        parentId: source === 'edit' ? prev.currentId : null,
+        image,
+        prompt,
+        source,
+        mask: extra.mask,
+        generation: extra.generation ?? (source === 'edit' ? undefined : { prompt, aspectRatio: null }),
+        createdAt: Date.now(),
+      };
+      return {
+        versions: [...prev.versions, version],
+        currentId: version.id,
+        redoTargets: version.parentId
+          ? { ...prev.redoTargets, [version.parentId]: version.id }
+          : prev.redoTargets,
+      };
+    });
+  }, []);
+
+  const select = useCallback((id: string) => {
+    setState(prev => prev.versions.some(v => v.id === id) ? { ...prev, currentId: id } : prev);
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => {
+      const node = prev.versions.find(v => v.id === prev.currentId);
+      if (!node?.parentId) return prev;
+      return {
+        ...prev,
+        currentId: node.parentId,
+        redoTargets: { ...prev.redoTargets, [node.parentId]: node.id },
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => {
+      if (!prev.currentId) return prev;
+      const target = prev.redoTargets[prev.currentId]
+        ?? prev.versions.filter(v => v.parentId === prev.currentId).pop()?.id;
+      return target ? { ...prev, currentId: target } : prev;
+    });
+  }, []);
+
+  const reset = useCallback(() => setState(emptyHistory), []);
+
+  // The generation at the root of the current version's lineage; every edit on screen descends from it.
+  const lookId = useMemo(() => {
+    let node = current;
+    while (node?.parentId) node = state.versions.find(v => v.id === node!.parentId) ?? null;
+    return node?.id ?? null;
+  }, [current, state.versions]);
+
+  const canUndo = !!current?.parentId;
+  const canRedo = !!current && state.versions.some(v => v.parentId === current.id);
+
+  return {
+    versions: state.versions,
+    current,
+    lookId,
+    canUndo,
+    canRedo,
+    push,
+    select,
+    undo,
+    redo,
+    reset,
+  };
+};
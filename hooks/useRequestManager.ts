@@ -0,0 +1,58 @@
+import { useState, useCallback, useRef } from 'react';
+import type { ActiveRequest, AnalysisProgress, RequestStage } from '../types';
+
+// Handed to each operation so it can honour cancellation and report its progress.
+export interface RequestControl {
+  signal: AbortSignal;
+  setStage: (stage: RequestStage) => void;
+  setAnalysisProgress: (progress: AnalysisProgress) => void;
+}
+
+// Tracks in-flight operations by key, e.g. 'main' for the output panel and 'compare' for the
+// comparison view. Each key runs one request at a time; starting another aborts the previous one.
+export const useRequestManager = () => {
+  const [requests, setRequests] = useState<ActiveRequest[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  // Updates are dropped once a request has been replaced, so a late callback cannot revive it.
+  const update = useCallback((key: string, controller: AbortController, patch: Partial<ActiveRequest>) => {
+    if (controllersRef.current.get(key) !== controller) return;
+    setRequests(prev => prev.map(request => request.key === key ? { ...request, ...patch } : request));
+  }, []);
+
+  const run = useCallback(async <T>(
+    key: string,
+    label: string,
+    stage: RequestStage,
+    operation: (control: RequestControl) => Promise<T>
+  ): Promise<T> => {
+    controllersRef.current.get(key)?.abort();
+    const controller = new AbortController();
+    controllersRef.current.set(key, controller);
+    setRequests(prev => [
+      ...prev.filter(request => request.key !== key),
+      { key, label, stage, startedAt: Date.now(), analysisProgress: null },
+    ]);
+    try {
+      return await operation({
+        signal: controller.signal,
+        setStage: next => update(key, controller, { stage: next }),
+        setAnalysisProgress: progress => update(key, controller, { analysisProgress: progress }),
+      });
+    } finally {
+      if (controllersRef.current.get(key) === controller) {
+        controllersRef.current.delete(key);
+        setRequests(prev => prev.filter(request => request.key !== key));
+      }
+    }
+  }, [update]);
+
+  // Aborts the underlying call; the operation then rejects with a CancelledError.
+  const cancel = useCallback((key: string) => {
+    controllersRef.current.get(key)?.abort();
+  }, []);
+
+  const get = (key: string): ActiveRequest | null => requests.find(request => request.key === key) ?? null;
+
+  return { requests, run, cancel, get };
+};
@@ -0,0 +1,45 @@
+import { useState, useCallback } from 'react';
+import type { ChatMessage, UploadedFile } from '../types';
+
+// A conversation about one look, with the inputs the look was made from so later turns keep the same context.
+export interface StylistConversation {
+  items: UploadedFile[];
+  sceneDescription: string;
+  messages: ChatMessage[];
+}
+
+// Conversations keyed by look (the root of an image lineage), so edits applied from the chat
+// continue the same conversation and switching to another look switches the conversation with it.
+export const useStylistChats = () => {
+  const [conversations, setConversations] = useState<Record<string, StylistConversation>>({});
+
+  // Starts the conversation with `context` if this is the first message about the look.
+  const append = useCallback((lookId: string, context: Omit<StylistConversation, 'messages'>, message: ChatMessage) => {
+    setConversations(prev => {
+      const conversation = prev[lookId] ?? { ...context, messages: [] };
+      return { ...prev, [lookId]: { ...conversation, messages: [...conversation.messages, message] } };
+    });
+  }, []);
+
+  const markApplied = useCallback((lookId: string, messageId: string, prompt: string) => {
+    setConversations(prev => {
+      const conversation = prev[lookId];
+      if (!conversation) return prev;
+      return {
+        ...prev,
+        [lookId]: {
+          ...conversation,
+          messages: conversation.messages.map(message => message.id === messageId
+            ? { ...message, appliedEdits: [...message.appliedEdits, prompt] }
+            : message),
+        },
+      };
+    });
+  }, []);
+
+  const reset = useCallback(() => setConversations({}), []);
+
+  const get = (lookId: string | null): StylistConversation | null => lookId ? conversations[lookId] ?? null : null;
+
+  return { get, append, markApplied, reset };
+};
@@ -0,0 +1,84 @@
+import { en, type MessageKey } from './messages/en';
+import { es } from './messages/es';
+import { fr } from './messages/fr';
+import { ar } from './messages/ar';
+import { DEFAULT_LOCALE, LOCALES, isLocale, localeInfo, type Locale } from './locales';
+
+export { LOCALES, DEFAULT_LOCALE, isLocale, localeInfo, type Locale, type MessageKey };
+
+// Keys with plural forms, without the `.one`/`.other` suffix.
+type PluralBase<K> = K extends `${infer Base}.other` ? Base : never;
+export type PluralKey = PluralBase<MessageKey>;
+
+// A translation of every key, plus any extra plural forms the language needs.
+export type MessageCatalog = Record<MessageKey, string> & Partial<Record<`${PluralKey}.${Intl.LDMLPluralRule}`, string>>;
+
+const CATALOGS: Record<Locale, MessageCatalog> = { en, es, fr, ar };
+
+const STORAGE_KEY = 'stylemix-locale';
+
+export type MessageParams = Record<string, string | number>;
+
+// The first browser language the studio is offered in, so first-time visitors need not pick one.
+const browserLocale = (): Locale => {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  const match = languages.map(language => language.split('-')[0].toLowerCase()).find(isLocale);
+  return match ?? DEFAULT_LOCALE;
+};
+
+let current: Locale | null = null;
+
+export const getLocale = (): Locale => {
+  if (!current) {
+    try {
+      const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
+      current = isLocale(stored) ? stored : browserLocale();
+    } catch {
+      current = browserLocale();
+    }
+  }
+  return current;
+};
+
+// Takes effect for the next render; the caller re-renders the tree. Returns false when the choice
+// could not be remembered (e.g. storage is disabled), in which case it applies to this page only.
+export const setLocale = (locale: Locale): boolean => {
+  current = locale;
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+    return true;
+  } catch (e) {
+    console.error(e);
+    return false;
+  }
+};
+
+// Sets the page language and direction, so screen readers pronounce the text correctly and
+// right-to-left languages lay out mirrored.
+export const applyDocumentLocale = (locale: Locale = getLocale()) => {
+  document.documentElement.lang = locale;
+  document.documentElement.dir = localeInfo(locale).dir;
+};
+
+const interpolate = (message: string, params?: MessageParams) => params
+  ? message.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in params ? String(params[name]) : placeholder)
+  : message;
+
+export const isMessageKey = (key: unknown): key is MessageKey => typeof key === 'string' && Object.hasOwn(en, key);
+
+// The message for `key` in the current locale, falling back to English.
+export const t = (key: MessageKey, params?: MessageParams): string =>
+  interpolate(CATALOGS[getLocale()][key] ?? en[key], params);
+
+// The plural form of `key` for `count`, which is available to the message as `{count}`.
+export const tPlural = (key: PluralKey, count: number, params?: MessageParams): string => {
+  const locale = getLocale();
+  const catalog = CATALOGS[locale];
+  const form = new Intl.PluralRules(locale).select(count);
+  const message = catalog[`${key}.${form}`] ?? catalog[`${key}.other`] ?? en[`${key}.other`];
+  return interpolate(message, { count: count.toLocaleString(locale), ...params });
+};
+
+export const formatDate = (timestamp: number): string => new Date(timestamp).toLocaleDateString(getLocale());
+
+export const formatDateTime = (timestamp: number): string => new Date(timestamp).toLocaleString(getLocale());
@@ -0,0 +1,30 @@
+// The languages the studio is offered in. Dependency-free, so the proxy server can validate
+// requested output languages against the same list.
+
+export type Locale = 'en' | 'es' | 'fr' | 'ar';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleInfo {
+  code: Locale;
+  // Shown in the language picker, so speakers can find their own language.
+  nativeName: string;
+  // Used in prompts, which are written in English.
+  englishName: string;
+  dir: TextDirection;
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { code: 'en', nativeName: 'English', englishName: 'English', dir: 'ltr' },
+  { code: 'es', nativeName: 'Español', englishName: 'Spanish', dir: 'ltr' },
+  { code: 'fr', nativeName: 'Français', englishName: 'French', dir: 'ltr' },
+  { code: 'ar', nativeName: 'العربية', englishName: 'Arabic', dir: 'rtl' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.some(({ code }) => code === value);
+
+export const localeInfo = (locale: Locale): LocaleInfo =>
+  LOCALES.find(({ code }) => code === locale)!;
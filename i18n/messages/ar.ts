@@ -0,0 +1,565 @@
+import type { MessageCatalog } from '../index';
+
+export const ar: MessageCatalog = {
+  'header.tagline': 'اصنع إطلالتك المميزة بالذكاء الاصطناعي',
+  'header.settings': 'إعدادات الإنشاء',
+  'header.language': 'اللغة',
+
+  'tabs.label': 'أقسام الاستوديو',
+  'tabs.tryon': 'القياس الافتراضي',
+  'tabs.generate': 'إنشاء الصور',
+  'tabs.edit': 'تعديل الصور',
+  'tabs.wardrobe': 'خزانة الملابس',
+  'tabs.gallery': 'المعرض',
+
+  'tryOnMode.single': 'إطلالة واحدة',
+  'tryOnMode.batch': 'دفعة / كتالوج',
+  'tryOnMode.styleMe': 'نسّق لي',
+
+  'request.colorAnalysis': 'تحليل الألوان',
+  'request.itemRoles': 'أنواع القطع',
+  'request.tryOn': 'القياس الافتراضي',
+  'request.styleMe': 'نسّق لي',
+  'request.generate': 'إنشاء صورة',
+  'request.analysis': 'التحليل الاحترافي',
+  'request.itemCheck': 'التحقق من القطع',
+  'request.edit': 'تعديل الصورة',
+  'request.chat': 'محادثة المنسّق',
+  'request.stylistEdit': 'تعديل المنسّق',
+  'request.replay': 'إعادة تنفيذ الوصفة',
+  'request.verdict': 'الحكم الاحترافي',
+
+  'error.tryOnInputs': 'يُرجى رفع قطعة واحدة على الأقل ووصف المشهد.',
+  'error.styleMeInputs': 'ارفع قطعتين على الأقل وصِف المناسبة، ليكون هناك ما يُختار منه.',
+  'error.generatePrompt': 'يُرجى إدخال وصف لإنشاء صورة.',
+  'error.editInputs': 'أنشئ صورة أولًا ثم أدخل وصف التعديل.',
+  'error.emptyMask': 'لوّن المنطقة التي تريد تغييرها، أو أوقف تعديل المنطقة المحددة.',
+  'error.recipeItems': 'تحتاج الوصفة إلى قطعة واحدة على الأقل لإعادة تنفيذها.',
+  'error.gallerySave': 'تعذّر حفظ هذه الإطلالة في معرضك.',
+  'error.galleryBlocked': 'لم تُحفظ هذه الإطلالة: علامة تبويب أخرى من StyleMix Studio تستخدم نسخة أقدم من بياناتك المحفوظة. أغلقها ثم حاول مجددًا.',
+  'error.storageFull': 'مساحة تخزين المتصفح ممتلئة. احذف بعض الإطلالات المحفوظة لتحرير مساحة.',
+  'error.storageBlocked': 'علامة تبويب أخرى من StyleMix Studio تستخدم نسخة أقدم من بياناتك المحفوظة. أغلقها ثم حاول مجددًا.',
+  'error.storageUnavailable': 'IndexedDB غير متاح في هذا المتصفح.',
+  'error.imageDecode': 'تعذّر فك ترميز الصورة.',
+
+  'common.startOver': 'البدء من جديد',
+  'common.dismiss': 'تجاهل',
+  'common.optional': '(اختياري)',
+  'common.cancel': 'إلغاء',
+  'common.save': 'حفظ',
+  'common.delete': 'حذف',
+  'common.remove': 'إزالة',
+  'common.retry': 'إعادة المحاولة',
+  'common.tryAgain': 'حاول مرة أخرى',
+  'common.download': 'تنزيل',
+  'common.item': 'القطعة {number}',
+  'common.look': 'الإطلالة {number}',
+
+  'locale.notSaved': 'ستبقى اللغة التي اخترتها حتى تغلق الصفحة؛ لم يسمح لنا هذا المتصفح بحفظها.',
+
+  'loading.mixing': 'جارٍ مزج الأنماط...',
+  'loading.warmingUp': 'جارٍ تجهيز منسّق الأزياء الذكي...',
+  'loading.draping': 'جارٍ تنسيق الأقمشة...',
+  'loading.lighting': 'جارٍ ضبط الإضاءة...',
+  'loading.perfecting': 'جارٍ وضع اللمسات الأخيرة على الإطلالة...',
+  'loading.patience': 'قد يستغرق هذا دقيقة، فالأناقة تستحق الانتظار!',
+  'loading.thinking': 'جارٍ التفكير...',
+  'loading.writingReport': 'جارٍ كتابة التقرير ({count} حرفًا حتى الآن)...',
+
+  'stage.classifying': 'جارٍ تحديد أنواع القطع',
+  'stage.uploading': 'جارٍ رفع القطع',
+  'stage.generating': 'جارٍ الإنشاء',
+  'stage.verifying': 'جارٍ التحقق من ظهور كل قطعة',
+  'stage.matching': 'جارٍ التحقق من الشبه',
+  'stage.editing': 'جارٍ تطبيق التعديل',
+  'stage.analyzing': 'جارٍ تحليل الإطلالة',
+  'stage.comparing': 'جارٍ مقارنة الإطلالات',
+  'stage.chatting': 'جارٍ سؤال منسّقك',
+  'stage.styling': 'جارٍ تنسيق الأزياء',
+  'stage.coloring': 'جارٍ تحديد ألوانك',
+
+  'failure.input.title': 'بيانات ناقصة',
+  'failure.missingApiKey.title': 'مفتاح API مطلوب',
+  'failure.missingApiKey.message': 'لم يُضبط مفتاح API صالح لـ Gemini.',
+  'failure.missingApiKey.action': 'أضف GEMINI_API_KEY إلى ملف .env.local وأعد تشغيل خادم الوكيل، أو اضبط IMAGE_PROVIDER=mock للعمل دون اتصال.',
+  'failure.rateLimit.title': 'تم بلوغ حد الطلبات',
+  'failure.rateLimit.message': 'تم تجاوز حصة API أو حد الطلبات.',
+  'failure.rateLimit.action': 'انتظر دقيقة قبل المحاولة مرة أخرى، أو تحقّق من الحصة في خطة API الخاصة بك.',
+  'failure.network.title': 'مشكلة في الاتصال',
+  'failure.network.message': 'تعذّر الوصول إلى خدمة الذكاء الاصطناعي.',
+  'failure.network.action': 'تحقّق من اتصالك بالإنترنت وحاول مرة أخرى.',
+  'failure.serviceUnavailable.title': 'الخدمة غير متاحة',
+  'failure.serviceUnavailable.message': 'خدمة الذكاء الاصطناعي غير متاحة مؤقتًا.',
+  'failure.serviceUnavailable.action': 'الخدمة مشغولة. حاول مرة أخرى بعد لحظات.',
+  'failure.safetyBlock.title': 'حُظر بواسطة فلتر الأمان',
+  'failure.safetyBlock.message': 'حظر فلتر الأمان الطلب ({reason}).',
+  'failure.safetyBlock.action': 'أعد صياغة الوصف أو استخدم صورًا أخرى، ثم حاول مرة أخرى.',
+  'failure.emptyResponse.title': 'لا توجد نتيجة',
+  'failure.emptyResponse.message': 'لم يُرجع النموذج أي نتيجة.',
+  'failure.emptyResponse.action': 'جرّب إعادة صياغة الوصف أو تبسيطه.',
+  'failure.malformedResponse.title': 'استجابة غير متوقعة',
+  'failure.malformedResponse.message': 'أرجع النموذج ردًا بتنسيق غير متوقع.',
+  'failure.malformedResponse.action': 'حاول مرة أخرى؛ عادةً ما يكون هذا مؤقتًا.',
+  'failure.timeout.title': 'انتهت مهلة الطلب',
+  'failure.timeout.message': 'لم يكتمل الطلب خلال {seconds} ثانية.',
+  'failure.timeout.action': 'حاول مرة أخرى، أو بسّط الطلب.',
+  'failure.cancelled.title': 'أُلغي',
+  'failure.cancelled.message': 'أُلغي الطلب.',
+  'failure.invalidRequest.title': 'طلب غير صالح',
+  'failure.invalidRequest.message': 'كانت في الطلب حقول مطلوبة ناقصة أو قيم غير صالحة.',
+  'failure.invalidRequest.action': 'تحقّق من مدخلاتك وحاول مرة أخرى.',
+  'failure.payloadTooLarge.title': 'الملفات المرفوعة كبيرة جدًا',
+  'failure.payloadTooLarge.message': 'تجاوز الطلب حد الرفع البالغ {limit} ميغابايت.',
+  'failure.payloadTooLarge.action': 'استخدم صورًا أقل عددًا أو أصغر حجمًا، ثم حاول مرة أخرى.',
+  'failure.unknown.title': 'حدث خطأ ما',
+  'failure.unknown.message': 'حدث خطأ غير معروف.',
+  'failure.unknown.action': 'حاول مرة أخرى. إذا استمرت المشكلة، فأعد تحميل الصفحة.',
+  'failure.proxyStatus': 'ردّ الخادم الوسيط برمز HTTP {status}.',
+
+  'variations.label': 'عدد التنويعات',
+
+  'recipe.import': 'استيراد وصفة إطلالة…',
+  'recipe.loaded': 'تم تحميل الوصفة',
+  'recipe.madeWith': 'أُنشئت في {date} باستخدام {model}',
+  'recipe.editsToReplay.one': 'تعديل واحد لإعادة تطبيقه',
+  'recipe.editsToReplay.two': 'تعديلان لإعادة تطبيقهما',
+  'recipe.editsToReplay.few': '{count} تعديلات لإعادة تطبيقها',
+  'recipe.editsToReplay.many': '{count} تعديلًا لإعادة تطبيقها',
+  'recipe.editsToReplay.other': '{count} تعديل لإعادة تطبيقها',
+  'recipe.missing': 'غير موجودة في خزانتك وغير مضمّنة: {names}',
+  'recipe.replay': 'إعادة تنفيذ الوصفة',
+  'recipe.notJson': 'الملف ليس بتنسيق JSON صالح.',
+  'recipe.notRecipe': 'هذا ليس ملف وصفة إطلالة من StyleMix.',
+  'recipe.newerVersion': 'أُنشئت هذه الوصفة بإصدار أحدث من StyleMix (إصدار التنسيق {version}).',
+  'recipe.noPrompt': 'لا تحتوي الوصفة على وصف مشهد أو موجّه.',
+  'recipe.noItems': 'لا تحتوي الوصفة على أي قطع ملابس.',
+  'recipe.itemField': 'القطعة {number}',
+  'recipe.modelPhotoField': 'صورة العارض',
+  'recipe.imageUnnamed': '{field}: الاسم أو النوع مفقود.',
+  'recipe.imageMissing': '{field}: ليست مضمّنة ولا مشارًا إليها.',
+  'recipe.readFailed': 'تعذّرت قراءة {name}.',
+
+  'tryon.itemsTitle': 'ارفع قطعك',
+  'tryon.itemsLabel': 'ارفع صور قطعك: فستان، حذاء، حقيبة يد...',
+  'tryon.removeBackgrounds': 'إزالة الخلفيات السادة من صور المنتجات',
+  'limits.tooManyItems': 'استخدم {max} قطع على الأكثر هنا. أزل بعضها للمتابعة.',
+  'limits.tooLarge': 'يتجاوز حجم هذه الصور {max} ميغابايت، وهو الحد الأقصى للطلب الواحد. أزل بعضها أو استخدم صورًا أصغر.',
+  'limits.itemsSkipped': 'لا يمكن إضافة أكثر من {max} قطع، لذا تم تخطي الباقي.',
+  'tryon.photoTitle': 'ارفع صورتك',
+  'tryon.photoLabel': 'تريد تجربتها بنفسك؟ ارفع صورة لكامل الجسم.',
+  'tryon.photoNote': 'إذا تخطيت هذه الخطوة، سننشئ لك عارضًا واقعيًا بالذكاء الاصطناعي.',
+  'tryon.photoAlt': 'صورتك',
+  'tryon.referenceAlt': 'الصورة المرجعية {number}',
+  'tryon.removeReference': 'إزالة الصورة المرجعية {number}',
+  'tryon.analyzeColors': 'حلّل ألواني لاكتشاف القطع التي لا تناسب ألواني',
+  'tryon.preserveIdentity': 'الحفاظ على ملامحي (الوجه وشكل الجسم ولون البشرة)',
+  'tryon.identityPhotosLabel.one': 'أضف صورة واحدة أخرى لك كحد أقصى.',
+  'tryon.identityPhotosLabel.two': 'أضف حتى صورتين أخريين لك.',
+  'tryon.identityPhotosLabel.few': 'أضف حتى {count} صور أخرى لك.',
+  'tryon.identityPhotosLabel.other': 'أضف حتى {count} صورة أخرى لك.',
+  'tryon.identityPhotosNote': 'تساعد الزوايا المختلفة ورؤية وجهك بوضوح على أن تشبهك النتيجة.',
+  'tryon.autoRetryIdentity.one': 'أعد المحاولة تلقائيًا إذا لم تشبهني النتيجة (محاولة إضافية واحدة كحد أقصى)',
+  'tryon.autoRetryIdentity.two': 'أعد المحاولة تلقائيًا إذا لم تشبهني النتيجة (حتى محاولتين إضافيتين)',
+  'tryon.autoRetryIdentity.few': 'أعد المحاولة تلقائيًا إذا لم تشبهني النتيجة (حتى {count} محاولات إضافية)',
+  'tryon.autoRetryIdentity.other': 'أعد المحاولة تلقائيًا إذا لم تشبهني النتيجة (حتى {count} محاولة إضافية)',
+  'tryon.sceneTitle': 'صِف المشهد',
+  'tryon.scenePlaceholder': 'مثال: «نزهة في حديقة عند الغروب»، «مقهى في يوم ممطر»، «حفلة على سطح مبنى ليلًا».',
+  'tryon.proAnalysis': 'تفعيل تحليل الأزياء الاحترافي',
+  'tryon.detectRoles': 'تحديد نوع القطع غير المصنّفة قبل الإنشاء',
+  'tryon.verifyFidelity': 'التحقق من ظهور كل قطعة في النتيجة',
+  'tryon.autoRegenerate.one': 'أعد الإنشاء تلقائيًا عند غياب قطع (محاولة إضافية واحدة كحد أقصى)',
+  'tryon.autoRegenerate.two': 'أعد الإنشاء تلقائيًا عند غياب قطع (حتى محاولتين إضافيتين)',
+  'tryon.autoRegenerate.few': 'أعد الإنشاء تلقائيًا عند غياب قطع (حتى {count} محاولات إضافية)',
+  'tryon.autoRegenerate.other': 'أعد الإنشاء تلقائيًا عند غياب قطع (حتى {count} محاولة إضافية)',
+  'tryon.submit': 'أنشئ إطلالتي',
+
+  'scene.aspect.location': 'المكان',
+  'scene.aspect.timeOfDay': 'وقت اليوم',
+  'scene.aspect.lighting': 'الإضاءة',
+  'scene.aspect.framing': 'تأطير الكاميرا',
+  'scene.aspect.pose': 'الوضعية',
+  'scene.aspect.style': 'أسلوب التصوير',
+  'scene.option.location.studioWhite': 'استوديو بخلفية بيضاء',
+  'scene.option.location.studioGrey': 'استوديو بخلفية رمادية فاتحة',
+  'scene.option.location.cityStreet': 'شارع مزدحم في المدينة',
+  'scene.option.location.oldTown': 'شارع مرصوف في بلدة أوروبية قديمة',
+  'scene.option.location.interior': 'ديكور داخلي عصري بسيط',
+  'scene.option.location.cafe': 'مقهى دافئ',
+  'scene.option.location.rooftop': 'سطح يطل على المدينة',
+  'scene.option.location.park': 'حديقة عامة خضراء',
+  'scene.option.location.beach': 'شاطئ رملي',
+  'scene.option.location.eveningVenue': 'مكان سهرة أنيق',
+  'scene.option.location.runway': 'منصة عرض أزياء',
+  'scene.option.timeOfDay.earlyMorning': 'الصباح الباكر',
+  'scene.option.timeOfDay.midday': 'منتصف النهار',
+  'scene.option.timeOfDay.goldenHour': 'الساعة الذهبية',
+  'scene.option.timeOfDay.blueHour': 'الساعة الزرقاء',
+  'scene.option.timeOfDay.night': 'الليل',
+  'scene.option.lighting.studio': 'إضاءة استوديو متساوية بلا ظلال',
+  'scene.option.lighting.natural': 'ضوء طبيعي ناعم ومنتشر',
+  'scene.option.lighting.side': 'إضاءة جانبية درامية بظلال عميقة',
+  'scene.option.lighting.backlight': 'إضاءة خلفية دافئة بهالة خفيفة',
+  'scene.option.lighting.highKey': 'إضاءة ساطعة عالية المفتاح',
+  'scene.option.lighting.lowKey': 'إضاءة خافتة منخفضة المفتاح',
+  'scene.option.lighting.neon': 'أضواء النيون والمدينة',
+  'scene.option.framing.fullBody': 'لقطة كاملة من الرأس إلى القدمين',
+  'scene.option.framing.threeQuarter': 'لقطة من الركبتين إلى الأعلى',
+  'scene.option.framing.waistUp': 'لقطة من الخصر إلى الأعلى',
+  'scene.option.framing.closeUp': 'لقطة قريبة لتفاصيل الإطلالة',
+  'scene.option.framing.wide': 'لقطة واسعة تُظهر المحيط',
+  'scene.option.pose.facingCamera': 'وقوف مستقيم مواجه للكاميرا',
+  'scene.option.pose.threeQuarterTurn': 'وقوف مسترخٍ بزاوية ثلاثة أرباع',
+  'scene.option.pose.walking': 'مشي نحو الكاميرا',
+  'scene.option.pose.midStride': 'في منتصف الخطوة أثناء الحركة',
+  'scene.option.pose.seated': 'جلوس بشكل عفوي',
+  'scene.option.pose.leaning': 'الاستناد إلى جدار',
+  'scene.option.pose.overShoulder': 'النظر من فوق الكتف',
+  'scene.option.style.catalog': 'تصوير كتالوج متجر إلكتروني نظيف',
+  'scene.option.style.editorial': 'تصوير تحريري لمجلة أزياء',
+  'scene.option.style.streetStyle': 'تصوير عفوي لأزياء الشارع',
+  'scene.option.style.cinematic': 'لقطة سينمائية بعمق ميدان ضحل',
+  'scene.option.style.vintage': 'مظهر فيلم 35 مم عتيق',
+  'scene.option.style.luxury': 'حملة إعلانية فاخرة',
+  'scene.preset.catalogWhite': 'كتالوج – أبيض',
+  'scene.preset.catalogDetail': 'كتالوج – تفاصيل',
+  'scene.preset.streetStyle': 'أزياء الشارع',
+  'scene.preset.goldenHour': 'جلسة تصوير في الساعة الذهبية',
+  'scene.preset.evening': 'مناسبة مسائية',
+  'scene.preset.resort': 'منتجع',
+  'scene.deletePreset': 'حذف الإعداد المسبق {name}',
+  'scene.showBuilder': 'خصّص باستخدام منشئ الوصف',
+  'scene.hideBuilder': 'إخفاء منشئ الوصف',
+  'scene.any': 'أي',
+  'scene.details': 'تفاصيل إضافية',
+  'scene.detailsPlaceholder': 'مثال: «بلا إكسسوارات، بألوان أقمشة مطابقة للواقع»',
+  'scene.presetName': 'اسم الإعداد المسبق',
+  'scene.savePreset': 'حفظ الإعداد المسبق',
+  'scene.clear': 'مسح',
+  'scene.share': 'مشاركة إعداداتي المسبقة',
+  'scene.import': 'استيراد إعدادات مسبقة',
+  'scene.loadFailed': 'تعذّر تحميل إعداداتك المسبقة.',
+  'scene.saveFailed': 'تعذّر حفظ الإعداد المسبق.',
+  'scene.deleteFailed': 'تعذّر حذف الإعداد المسبق.',
+  'scene.importFailed': 'تعذّر استيراد الإعدادات المسبقة.',
+  'scene.invalidFile': 'هذا ليس ملف إعدادات مسبقة للمشاهد من StyleMix.',
+  'scene.notJson': 'الملف ليس بتنسيق JSON صالح.',
+  'scene.newerVersion': 'أُنشئت هذه الإعدادات المسبقة بإصدار أحدث من StyleMix.',
+
+  'generate.promptTitle': 'صِف صورتك',
+  'generate.promptPlaceholder': 'مثال: «صورة واقعية لرائد فضاء يمتطي حصانًا على المريخ.»',
+  'generate.aspectTitle': 'اختر نسبة العرض إلى الارتفاع',
+  'generate.aspect.square': 'مربعة (1:1)',
+  'generate.aspect.landscape': 'أفقية (16:9)',
+  'generate.aspect.portrait': 'عمودية (9:16)',
+  'generate.aspect.standard': 'قياسية (4:3)',
+  'generate.aspect.tall': 'طويلة (3:4)',
+  'generate.submit': 'أنشئ الصورة',
+
+  'editIntro.body': 'لبدء التعديل، أنشئ صورة أولًا من تبويب «القياس الافتراضي» أو «إنشاء الصور». ستظهر صورتك الحالية في لوحة النتائج مع أدوات التعديل.',
+
+  'output.title': 'إبداعك',
+  'output.emptyTitle': 'تحفتك في الانتظار',
+  'output.emptyBody': 'ستظهر النتائج هنا.',
+  'output.imageAlt': 'الإطلالة المُنشأة',
+  'output.zoom': 'تكبير',
+  'output.download': 'تنزيل الصورة',
+  'output.export': 'تصدير الإطلالة',
+  'output.exportHint': 'تصدير كتالوج أو لوحة مصغّرات أو ملف المعاملات',
+  'output.pin': 'تثبيت للمقارنة',
+  'output.pinned': 'مثبّتة للمقارنة',
+  'output.pinLimit': 'يمكنك مقارنة {count} إطلالات كحد أقصى',
+  'output.runAnalysis': 'تشغيل التحليل الاحترافي لهذه الصورة',
+  'output.checkFidelity': 'التحقق من القطع',
+  'output.saveRecipe': 'حفظ وصفة الإطلالة',
+  'output.embedImages': 'تضمين الصور',
+  'output.embedImagesHint': 'يُشار إلى قطع الخزانة بمعرّفها في جميع الأحوال',
+  'output.lookReady': 'الإطلالة جاهزة.',
+  'output.lookReadyDescribed': 'الإطلالة جاهزة. {description}',
+  'output.analysisTitle': 'التحليل الاحترافي',
+
+  'analysis.outOf': 'من 10',
+  'analysis.palette': 'لوحة الألوان',
+  'analysis.items': 'القطع',
+  'analysis.occasions': 'الملاءمة للمناسبات',
+  'analysis.rating': '{rating} / 5',
+  'analysis.improvements': 'تحسينات مقترحة',
+  'analysis.category.fit': 'المقاس',
+  'analysis.category.color': 'اللون',
+  'analysis.category.accessories': 'الإكسسوارات',
+  'analysis.category.footwear': 'الأحذية',
+  'analysis.category.layering': 'الطبقات',
+  'analysis.category.grooming': 'العناية الشخصية',
+  'analysis.category.styling': 'التنسيق',
+  'analysis.export': 'تصدير التحليل بصيغة JSON',
+
+  'zoom.label': 'الإطلالة مكبّرة',
+  'zoom.imageAlt': 'الإطلالة المُنشأة مكبّرة',
+  'zoom.close': 'إغلاق التكبير',
+
+  'compare.pinnedCount': '{count} من {max} مثبّتة',
+  'compare.open': 'قارن',
+
+  'compare.title': 'مقارنة الإطلالات',
+  'compare.grid': 'جنبًا إلى جنب',
+  'compare.slider': 'شريط تمرير A/B',
+  'compare.resetZoom': 'إعادة ضبط التكبير ({scale}×)',
+  'compare.requestVerdict': 'احصل على الحكم الاحترافي',
+  'compare.comparing': 'جارٍ المقارنة...',
+  'compare.close': 'إغلاق المقارنة',
+  'compare.sliderPosition': 'موضع شريط تمرير A/B',
+  'compare.lookAlt': 'الإطلالة {number}: {description}',
+  'compare.winner': 'الفائزة',
+  'compare.analysisScore': 'درجة التحليل {score}',
+  'compare.verdictScore': 'درجة الحكم {score} — {reason}',
+  'compare.unpin': 'إلغاء التثبيت',
+  'compare.verdict': 'الحكم:',
+
+  'edit.title': 'عدّل صورتك',
+  'edit.placeholder': 'مثال: «اجعل الخلفية بالأبيض والأسود»، «أضف فلترًا كلاسيكيًا»',
+  'edit.regionOnly': 'تعديل منطقة ملوّنة فقط',
+  'edit.brush': 'الفرشاة',
+  'edit.erase': 'مسح',
+  'edit.erasing': 'جارٍ المسح',
+  'edit.clearMask': 'مسح القناع',
+  'edit.maskNote': 'يبقى كل ما هو خارج المنطقة الملوّنة كما هو تمامًا.',
+  'edit.apply': 'تطبيق التعديل',
+
+  'identity.likeness': 'نسبة الشبه {percent}٪',
+  'identity.faceNotVisible': 'الوجه غير واضح بما يكفي في النتيجة للتحقق من الشبه.',
+  'identity.looksLikeYou': 'تشبهك · {likeness}',
+  'identity.drift': 'قد لا تشبهك هذه النتيجة ({likeness}).',
+  'identity.changed': 'تغيّر: {differences}.',
+
+  'palette.title': 'لوحة {season}',
+  'palette.undertone.warm': 'درجة بشرة دافئة',
+  'palette.undertone.cool': 'درجة بشرة باردة',
+  'palette.undertone.neutral': 'درجة بشرة محايدة',
+  'palette.skin': 'البشرة',
+  'palette.hair': 'الشعر',
+  'palette.eyes': 'العينان',
+  'palette.wear': 'ارتدِ',
+  'palette.avoid': 'تجنّب',
+  'season.spring': 'الربيع',
+  'season.summer': 'الصيف',
+  'season.autumn': 'الخريف',
+  'season.winter': 'الشتاء',
+
+  'variants.hint': 'عدد النسخ: {count} — اختر واحدة لتعديلها أو تنزيلها أو تحليلها',
+  'variants.imageAlt': 'النسخة {number}: {description}',
+
+  'role.top': 'قطعة علوية',
+  'role.bottom': 'قطعة سفلية',
+  'role.dress': 'فستان',
+  'role.outerwear': 'سترة أو معطف',
+  'role.shoes': 'حذاء',
+  'role.bag': 'حقيبة',
+  'role.jewelry': 'مجوهرات',
+  'role.hat': 'قبعة',
+
+  'items.clashes': 'تتعارض مع لوحة ألوانك',
+  'items.remove': 'إزالة القطعة {number}',
+  'items.saveHint': 'حفظ في الخزانة',
+  'items.saveLabel': 'حفظ القطعة {number} في الخزانة',
+  'items.roleLabel': 'نوع القطعة {number}',
+  'items.roleAuto': 'النوع: تلقائي',
+  'items.notesPlaceholder': 'ملاحظات، مثل «تُلبس مفتوحة»',
+  'items.notesLabel': 'ملاحظات القطعة {number}',
+  'items.detectRoles.one': 'تحديد نوع قطعة واحدة غير مصنّفة',
+  'items.detectRoles.two': 'تحديد نوع قطعتين غير مصنّفتين',
+  'items.detectRoles.few': 'تحديد نوع {count} قطع غير مصنّفة',
+  'items.detectRoles.many': 'تحديد نوع {count} قطعة غير مصنّفة',
+  'items.detectRoles.other': 'تحديد نوع {count} قطعة غير مصنّفة',
+
+  'fidelity.title': 'التحقق من القطع',
+  'fidelity.found': 'وُجدت {found} من {total} قطع',
+  'fidelity.faithful': 'مطابقة',
+  'fidelity.partial': 'مختلفة',
+  'fidelity.missing': 'مفقودة',
+  'fidelity.confidence': 'ثقة أداة التحقق',
+  'fidelity.differsIn': 'تختلف في {aspects}',
+  'fidelity.color': 'اللون',
+  'fidelity.pattern': 'النقشة',
+  'fidelity.shape': 'الشكل',
+  'fidelity.regenerate': 'أعد إنشاء الإطلالة',
+  'fidelity.unreported': 'لم يقدّم المدقّق تقريرًا عن هذه القطعة.',
+
+  'styleMe.count': 'عدد الأزياء المقترحة',
+  'styleMe.pool.one': 'الاختيار من قطعة واحدة',
+  'styleMe.pool.two': 'الاختيار من قطعتين',
+  'styleMe.pool.few': 'الاختيار من {count} قطع',
+  'styleMe.pool.many': 'الاختيار من {count} قطعة',
+  'styleMe.pool.other': 'الاختيار من {count} قطعة',
+  'styleMe.suggest': 'نسّق لي',
+  'styleMe.suggestAgain': 'اقترح أزياء مختلفة',
+  'styleMe.select': 'إنشاء قياس لـ {title}',
+  'styleMe.untitled': 'الزيّ {number}',
+  'styleMe.show': 'عرض هذه الإطلالة',
+  'styleMe.generate.one': 'إنشاء قياس لزيّ واحد',
+  'styleMe.generate.two': 'إنشاء قياس لزيّين',
+  'styleMe.generate.few': 'إنشاء قياس لـ {count} أزياء',
+  'styleMe.generate.many': 'إنشاء قياس لـ {count} زيًّا',
+  'styleMe.generate.other': 'إنشاء قياس لـ {count} زيّ',
+
+  'versions.title': 'سجل النسخ',
+  'versions.tryon': 'قياس',
+  'versions.generate': 'مُنشأة',
+  'versions.edit': 'تعديل',
+  'versions.undo': 'تراجع',
+  'versions.undoHint': 'تراجع (Ctrl+Z)',
+  'versions.redo': 'إعادة',
+  'versions.redoHint': 'إعادة (Ctrl+Shift+Z)',
+  'versions.from': 'من {version}',
+  'versions.branching': 'أنت تعرض نسخة سابقة. سيبدأ أي تعديل جديد فرعًا من {version} مع الاحتفاظ بالنسخ اللاحقة.',
+
+  'gallery.title': 'معرضك',
+  'gallery.count': 'المحفوظ: {count}',
+  'gallery.search': 'ابحث حسب المشهد أو الوصف...',
+  'gallery.usage': 'المستخدم من مساحة تخزين المتصفح: {used} من {quota}',
+  'gallery.usageFull': ' — احذف الإطلالات القديمة لمواصلة حفظ الجديدة.',
+  'gallery.empty': 'تُحفظ هنا تلقائيًا الإطلالات التي تنشئها أو تعدّلها.',
+  'gallery.noMatches': 'لا توجد إطلالات محفوظة تطابق بحثك.',
+  'gallery.savedLook': 'إطلالة محفوظة',
+  'gallery.tryOn': 'قياس',
+  'gallery.edit': 'تعديل',
+  'gallery.loadFailed': 'تعذّر تحميل المعرض.',
+  'gallery.deleteFailed': 'تعذّر حذف الإطلالة.',
+
+  'batch.outfitsTitle': 'أزياء إضافية',
+  'batch.outfitsHint': 'يستخدم الزي 1 القطع الواردة أعلاه. يصبح كل رفع أدناه زيًّا آخر.',
+  'batch.outfit': 'الزي {number}',
+  'batch.outfitItemAlt': 'قطعة من الزي',
+  'batch.outfitUpload': 'ارفع جميع قطع زيّ آخر دفعة واحدة.',
+  'batch.scenesTitle': 'المشاهد',
+  'batch.scenesPlaceholder': 'مشهد واحد في كل سطر، مثل:\nنزهة في حديقة عند الغروب\nمقهى في يوم ممطر',
+  'batch.concurrency': 'الطلبات المتوازية',
+  'batch.combinations': 'الأزياء × المشاهد: {outfits} × {scenes} = {looks} إطلالة',
+  'batch.cancel': 'إلغاء الدفعة',
+  'batch.run': 'إنشاء الإطلالات',
+  'batch.runCount.one': 'إنشاء إطلالة واحدة',
+  'batch.runCount.two': 'إنشاء إطلالتين',
+  'batch.runCount.few': 'إنشاء {count} إطلالات',
+  'batch.runCount.many': 'إنشاء {count} إطلالة',
+  'batch.runCount.other': 'إنشاء {count} إطلالة',
+  'batch.progress': 'اكتمل {finished} من {total}',
+  'batch.retryFailed': 'إعادة محاولة الفاشلة ({count})',
+  'batch.downloadAll': 'تنزيل الكل',
+  'batch.open': 'فتح في لوحة النتائج',
+  'batch.resultAlt': 'الزي {number}: {description}',
+  'batch.waiting': 'في الانتظار...',
+  'batch.status.queued': 'في الطابور',
+  'batch.status.running': 'قيد التنفيذ',
+  'batch.status.done': 'اكتمل',
+  'batch.status.failed': 'فشل',
+  'batch.status.cancelled': 'أُلغي',
+
+  'wardrobe.title': 'خزانتك',
+  'wardrobe.count.one': 'قطعة واحدة',
+  'wardrobe.count.two': 'قطعتان',
+  'wardrobe.count.few': '{count} قطع',
+  'wardrobe.count.many': '{count} قطعة',
+  'wardrobe.count.other': '{count} قطعة',
+  'wardrobe.upload': 'أضف الملابس والأحذية والإكسسوارات التي تستخدمها مرارًا.',
+  'wardrobe.newItemAlt': 'قطعة جديدة في الخزانة',
+  'wardrobe.name': 'الاسم',
+  'wardrobe.color': 'اللون',
+  'wardrobe.brand': 'العلامة التجارية',
+  'wardrobe.tags': 'وسوم، مفصولة بفواصل',
+  'wardrobe.discard': 'تجاهل القطعة',
+  'wardrobe.saveDrafts': 'حفظ في الخزانة ({count})',
+  'wardrobe.search': 'ابحث بالاسم أو اللون أو العلامة التجارية أو الوسم...',
+  'wardrobe.all': 'الكل',
+  'wardrobe.category.top': 'قطع علوية',
+  'wardrobe.category.bottom': 'قطع سفلية',
+  'wardrobe.category.shoes': 'أحذية',
+  'wardrobe.category.accessory': 'إكسسوارات',
+  'wardrobe.empty': 'تبقى القطع التي تحفظها هنا متاحة في كل الجلسات.',
+  'wardrobe.noMatches': 'لا توجد قطع تطابق عوامل التصفية.',
+  'wardrobe.inTryOn': 'في القياس',
+  'wardrobe.use': 'استخدام في القياس',
+  'wardrobe.loadFailed': 'تعذّر تحميل خزانتك.',
+  'wardrobe.saveFailed': 'تعذّر الحفظ في خزانتك.',
+  'wardrobe.deleteFailed': 'تعذّر حذف القطعة.',
+
+  'chat.title': 'اسأل منسّقك',
+  'chat.intro': 'تبقى الأسئلة والتعديلات المقترحة مع هذه الإطلالة، حتى بعد تطبيقها.',
+  'chat.starter.shoes': 'ما الأحذية الأنسب لهذه الإطلالة؟',
+  'chat.starter.blackTie': 'هل تناسب حفل زفاف رسميًا؟',
+  'chat.starter.casual': 'كيف أجعلها أكثر بساطة؟',
+  'chat.apply': 'تطبيق: {label}',
+  'chat.thinking': 'منسّقك يفكّر...',
+  'chat.placeholder': 'اسأل عن هذه الإطلالة...',
+  'chat.inputLabel': 'رسالة إلى منسّقك',
+  'chat.send': 'إرسال',
+
+  'export.title': 'تصدير الإطلالة',
+  'export.intro': 'شارك الإطلالة مع عملائك أو احتفظ بسجل يمكن إعادة إنتاجه.',
+  'export.close': 'إغلاق التصدير',
+  'export.imageAlt': 'الإطلالة المراد تصديرها',
+  'export.formats': 'الصيغ',
+  'export.pdf': 'كتيّب إطلالات PDF',
+  'export.pdfDescription': 'الإطلالة ومشهدها والقطع الأصلية والتحليل الاحترافي في صفحات قابلة للطباعة.',
+  'export.pdfUnavailable': 'غير متاح لهذه الإطلالة: لا يعرض ملف PDF إلا النصوص بالحروف اللاتينية. صدّر ورقة المعاينة PNG بدلًا منه.',
+  'export.png': 'ورقة معاينة PNG',
+  'export.pngDescription': 'صورة واحدة تضم الإطلالة والصور المصغّرة للمصادر وأبرز نقاط التحليل.',
+  'export.json': 'ملف JSON مرافق',
+  'export.jsonDescription': 'جميع معاملات الإنشاء، لإعادة إنتاج الإطلالة لاحقًا.',
+  'export.contents': 'المحتوى',
+  'export.includeAnalysis': 'تضمين التحليل الاحترافي',
+  'export.includeAnalysisUnavailable': 'تضمين التحليل الاحترافي (شغّل تحليلًا أولًا)',
+  'export.includeItems': 'تضمين الصور المصغّرة للقطع الأصلية',
+  'export.embedImages': 'تضمين الصور في ملف JSON المرافق',
+  'export.submit': 'تصدير',
+  'export.exporting': 'جارٍ التصدير...',
+  'export.failed': 'فشل التصدير.',
+  'lookbook.title': 'دليل إطلالات StyleMix',
+  'lookbook.sheetTitle': 'إطلالة StyleMix',
+  'lookbook.prompt': 'الموجّه',
+  'lookbook.scene': 'المشهد',
+  'lookbook.edits': 'التعديلات',
+  'lookbook.sourceItems': 'القطع الأصلية',
+  'lookbook.modelPhoto': 'صورة العارض',
+  'lookbook.readFailed': 'تعذّرت قراءة الملف.',
+  'lookbook.encodeFailed': 'تعذّر ترميز الصورة لملف PDF.',
+  'lookbook.renderFailed': 'تعذّر إنشاء ورقة المعاينة.',
+
+  'settings.title': 'إعدادات الإنشاء',
+  'settings.intro': 'تُحفظ في هذا المتصفح وتُطبَّق على كل طلب جديد.',
+  'settings.close': 'إغلاق الإعدادات',
+  'settings.models': 'النماذج',
+  'settings.model.tryOn': 'القياس الافتراضي',
+  'settings.model.edit': 'تعديل الصور',
+  'settings.model.textToImage': 'تحويل النص إلى صورة',
+  'settings.model.analysis': 'التحليل الاحترافي والتحققات ومحادثة المنسّق',
+  'settings.model.classify': 'تحديد أنواع القطع والنص البديل',
+  'settings.analysis': 'التحليل',
+  'settings.thinkingBudget': 'ميزانية التفكير (رموز)',
+  'settings.dynamicBudget': 'دع النموذج يقرر',
+  'settings.minBudget': 'لا يمكن لهذا النموذج إيقاف التفكير؛ أصغر ميزانية يقبلها هي {count} رمز.',
+  'settings.localizedOutput': 'اكتب التحليل الاحترافي وردود المنسّق والنص البديل بلغة الواجهة',
+  'settings.imageOutput': 'مخرجات الصور',
+  'settings.outputFormat': 'صيغة المخرجات',
+  'settings.outputFormatNote': 'تلتزم نماذج تحويل النص إلى صورة بهذا الخيار مباشرةً؛ وقد تتجاهله نماذج القياس والتعديل.',
+  'settings.fixedSeed': 'استخدم بذرة ثابتة لنتائج قابلة للتكرار',
+  'settings.seed': 'البذرة',
+  'settings.randomize': 'عشوائية',
+  'settings.seedNote': 'تظل النسخ مختلفة عن بعضها؛ إذ تحصل كل واحدة على إزاحة بذرة خاصة بها.',
+  'settings.negativePrompt': 'تجنّب في الصور المُنشأة',
+  'settings.negativePromptPlaceholder': 'مثال: «ضبابية، علامة مائية، أيدٍ مشوّهة»',
+  'settings.reset': 'استعادة الإعدادات الافتراضية',
+
+  'upload.chooseFile': 'اختر ملفًا',
+  'upload.chooseFiles': 'اختر ملفات',
+  'upload.dragAndDrop': 'أو اسحبها وأفلتها هنا',
+  'upload.preparing': 'جارٍ تجهيز الصور...',
+  'upload.processFailed': 'تعذّرت معالجة هذا الملف.',
+  'upload.notImage': '{name} ليس صورة.',
+  'upload.heicUnsupported': '{name}: لا يستطيع هذا المتصفح فتح صور HEIC. افتحها في Safari أو صدّرها بصيغة JPEG أولًا (على iPhone: الإعدادات › الكاميرا › التنسيقات › الأكثر توافقًا).',
+  'upload.typeUnsupported': '{name}: لا يستطيع متصفحك قراءة صور {type}. حوّلها إلى JPEG أو PNG أولًا.',
+  'upload.unknownType': 'غير معروف',
+  'upload.encodeFailed': 'تعذّرت إعادة ترميز {name}.',
+  'upload.downscaled': 'صُغّرت من {from} إلى {to}.',
+  'upload.converted': 'حُوّلت من {from} إلى {to}.',
+  'upload.backgroundReplaced': 'استُبدلت الخلفية بلون أبيض سادة.',
+  'upload.backgroundKept': 'لم تكن الخلفية متجانسة بما يكفي لإزالتها تلقائيًا.',
+  'upload.exifRemoved': 'أُزيلت بيانات EXIF الوصفية (تفاصيل الكاميرا وموقع GPS).',
+};
@@ -0,0 +1,544 @@
+// The source catalog: every UI message key with its English text. Other catalogs translate these keys.
+// `{name}` marks a value filled in at runtime. Keys ending in `.one`/`.other` are plural forms picked by
+// count; catalogs may add the other CLDR forms (`.zero`, `.two`, `.few`, `.many`) their language needs.
+export const en = {
+  'header.tagline': 'Craft Your Signature Look with AI',
+  'header.settings': 'Generation settings',
+  'header.language': 'Language',
+
+  'tabs.label': 'Studio sections',
+  'tabs.tryon': 'Virtual Try-On',
+  'tabs.generate': 'Image Generation',
+  'tabs.edit': 'Image Editing',
+  'tabs.wardrobe': 'Wardrobe',
+  'tabs.gallery': 'Gallery',
+
+  'tryOnMode.single': 'Single Look',
+  'tryOnMode.batch': 'Batch / Lookbook',
+  'tryOnMode.styleMe': 'Style Me',
+
+  'request.colorAnalysis': 'Color analysis',
+  'request.itemRoles': 'Item roles',
+  'request.tryOn': 'Virtual try-on',
+  'request.styleMe': 'Style me',
+  'request.generate': 'Image generation',
+  'request.analysis': 'Pro analysis',
+  'request.itemCheck': 'Item check',
+  'request.edit': 'Image edit',
+  'request.chat': 'Stylist chat',
+  'request.stylistEdit': 'Stylist edit',
+  'request.replay': 'Recipe replay',
+  'request.verdict': 'Pro verdict',
+
+  'error.tryOnInputs': 'Please upload at least one item and describe the scene.',
+  'error.styleMeInputs': 'Upload at least two items and describe the occasion, so there is something to choose from.',
+  'error.generatePrompt': 'Please enter a prompt to generate an image.',
+  'error.editInputs': 'Please generate an image first and enter an edit prompt.',
+  'error.emptyMask': 'Paint over the area you want to change, or turn off region editing.',
+  'error.recipeItems': 'The recipe needs at least one item to replay.',
+  'error.gallerySave': 'This look could not be saved to your gallery.',
+  'error.galleryBlocked': 'This look was not saved: another StyleMix Studio tab is using an older version of your saved data. Close it and try again.',
+  'error.storageFull': 'Browser storage is full. Delete some saved looks to free up space.',
+  'error.storageBlocked': 'Another StyleMix Studio tab is using an older version of your saved data. Close it and try again.',
+  'error.storageUnavailable': 'IndexedDB is not available in this browser.',
+  'error.imageDecode': 'Could not decode image.',
+
+  'common.startOver': 'Start Over',
+  'common.dismiss': 'Dismiss',
+  'common.optional': '(Optional)',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+  'common.remove': 'Remove',
+  'common.retry': 'Retry',
+  'common.tryAgain': 'Try again',
+  'common.download': 'Download',
+  'common.item': 'Item {number}',
+  'common.look': 'Look {number}',
+
+  'locale.notSaved': 'Your language choice applies until you close the page; this browser did not let us save it.',
+
+  'loading.mixing': 'Mixing the styles...',
+  'loading.warmingUp': 'Warming up the AI stylist...',
+  'loading.draping': 'Draping the fabrics...',
+  'loading.lighting': 'Adjusting the lighting...',
+  'loading.perfecting': 'Perfecting the final look...',
+  'loading.patience': 'This can take a minute, great style is worth the wait!',
+  'loading.thinking': 'Thinking...',
+  'loading.writingReport': 'Writing the report ({count} characters so far)...',
+
+  'stage.classifying': 'Detecting item roles',
+  'stage.uploading': 'Uploading items',
+  'stage.generating': 'Generating',
+  'stage.verifying': 'Checking every item made it in',
+  'stage.matching': 'Checking the likeness',
+  'stage.editing': 'Applying your edit',
+  'stage.analyzing': 'Analyzing the look',
+  'stage.comparing': 'Comparing looks',
+  'stage.chatting': 'Asking your stylist',
+  'stage.styling': 'Putting outfits together',
+  'stage.coloring': 'Finding your colors',
+
+  'failure.input.title': 'Missing input',
+  'failure.missingApiKey.title': 'API key required',
+  'failure.missingApiKey.message': 'No valid Gemini API key is configured.',
+  'failure.missingApiKey.action': 'Add GEMINI_API_KEY to .env.local and restart the proxy server, or set IMAGE_PROVIDER=mock to work offline.',
+  'failure.rateLimit.title': 'Rate limit reached',
+  'failure.rateLimit.message': 'The API quota or rate limit was exceeded.',
+  'failure.rateLimit.action': 'Wait a minute before trying again, or check the quota on your API plan.',
+  'failure.network.title': 'Connection problem',
+  'failure.network.message': 'The AI service could not be reached.',
+  'failure.network.action': 'Check your internet connection and try again.',
+  'failure.serviceUnavailable.title': 'Service unavailable',
+  'failure.serviceUnavailable.message': 'The AI service is temporarily unavailable.',
+  'failure.serviceUnavailable.action': 'The service is busy. Try again in a few moments.',
+  'failure.safetyBlock.title': 'Blocked by safety filter',
+  'failure.safetyBlock.message': 'The request was blocked by the safety filter ({reason}).',
+  'failure.safetyBlock.action': 'Rephrase the prompt or use different images, then try again.',
+  'failure.emptyResponse.title': 'No result',
+  'failure.emptyResponse.message': 'The model did not return a result.',
+  'failure.emptyResponse.action': 'Try rephrasing or simplifying your prompt.',
+  'failure.malformedResponse.title': 'Unexpected response',
+  'failure.malformedResponse.message': 'The model returned a response in an unexpected format.',
+  'failure.malformedResponse.action': 'Try again; this is usually temporary.',
+  'failure.timeout.title': 'Request timed out',
+  'failure.timeout.message': 'The request did not finish within {seconds} seconds.',
+  'failure.timeout.action': 'Try again, or simplify the request.',
+  'failure.cancelled.title': 'Cancelled',
+  'failure.cancelled.message': 'The request was cancelled.',
+  'failure.invalidRequest.title': 'Invalid request',
+  'failure.invalidRequest.message': 'The request was missing required fields or had invalid values.',
+  'failure.invalidRequest.action': 'Check your inputs and try again.',
+  'failure.payloadTooLarge.title': 'Upload too large',
+  'failure.payloadTooLarge.message': 'The request exceeded the {limit} MB upload limit.',
+  'failure.payloadTooLarge.action': 'Use fewer or smaller images, then try again.',
+  'failure.unknown.title': 'Something went wrong',
+  'failure.unknown.message': 'An unknown error occurred.',
+  'failure.unknown.action': 'Try again. If the problem persists, reload the page.',
+  'failure.proxyStatus': 'The proxy server responded with HTTP {status}.',
+
+  'variations.label': 'Number of variations',
+
+  'recipe.import': 'Import look recipe…',
+  'recipe.loaded': 'Recipe loaded',
+  'recipe.madeWith': 'Made {date} with {model}',
+  'recipe.editsToReplay.one': '{count} edit to replay',
+  'recipe.editsToReplay.other': '{count} edits to replay',
+  'recipe.missing': 'Not found in your wardrobe and not embedded: {names}',
+  'recipe.replay': 'Replay recipe',
+  'recipe.notJson': 'The file is not valid JSON.',
+  'recipe.notRecipe': 'This is not a StyleMix look recipe.',
+  'recipe.newerVersion': 'This recipe was made by a newer version of StyleMix (format version {version}).',
+  'recipe.noPrompt': 'The recipe has no scene description or prompt.',
+  'recipe.noItems': 'The recipe has no clothing items.',
+  'recipe.itemField': 'Item {number}',
+  'recipe.modelPhotoField': 'The model photo',
+  'recipe.imageUnnamed': '{field} is missing its name or type.',
+  'recipe.imageMissing': '{field} is neither embedded nor referenced.',
+  'recipe.readFailed': 'Could not read {name}.',
+
+  'tryon.itemsTitle': 'Upload Your Items',
+  'tryon.itemsLabel': 'Upload images of your items: a dress, shoes, a handbag...',
+  'tryon.removeBackgrounds': 'Remove plain backgrounds from product shots',
+  'limits.tooManyItems': 'Use at most {max} items here. Remove some to continue.',
+  'limits.tooLarge': 'These photos add up to more than the {max} MB one request can carry. Remove some or use smaller photos.',
+  'limits.itemsSkipped': 'Only {max} items can be added, so the rest were skipped.',
+  'tryon.photoTitle': 'Upload Your Photo',
+  'tryon.photoLabel': 'Want to try it on yourself? Upload a full-body photo.',
+  'tryon.photoNote': 'If you skip this, we will generate a realistic AI model for you.',
+  'tryon.photoAlt': 'Your photo',
+  'tryon.referenceAlt': 'Reference photo {number}',
+  'tryon.removeReference': 'Remove reference photo {number}',
+  'tryon.analyzeColors': 'Analyze my colors to spot items that clash with my coloring',
+  'tryon.preserveIdentity': 'Preserve my likeness (face, body shape and skin tone)',
+  'tryon.identityPhotosLabel.one': 'Add up to {count} more photo of yourself.',
+  'tryon.identityPhotosLabel.other': 'Add up to {count} more photos of yourself.',
+  'tryon.identityPhotosNote': 'Different angles and a clear view of your face help the result look like you.',
+  'tryon.autoRetryIdentity.one': "Retry automatically when the result doesn't look like me (up to {count} more try)",
+  'tryon.autoRetryIdentity.other': "Retry automatically when the result doesn't look like me (up to {count} more tries)",
+  'tryon.sceneTitle': 'Describe the Scene',
+  'tryon.scenePlaceholder': "e.g., 'walking in a park at sunset,' 'coffee shop on a rainy day,' 'rooftop party at night'.",
+  'tryon.proAnalysis': 'Enable Pro Fashion Analysis',
+  'tryon.detectRoles': 'Detect roles for unlabeled items before generating',
+  'tryon.verifyFidelity': 'Verify every item appears in the result',
+  'tryon.autoRegenerate.one': 'Regenerate automatically when items are missing (up to {count} more try)',
+  'tryon.autoRegenerate.other': 'Regenerate automatically when items are missing (up to {count} more tries)',
+  'tryon.submit': 'Generate My Look',
+
+  'scene.aspect.location': 'Location',
+  'scene.aspect.timeOfDay': 'Time of day',
+  'scene.aspect.lighting': 'Lighting',
+  'scene.aspect.framing': 'Camera framing',
+  'scene.aspect.pose': 'Pose',
+  'scene.aspect.style': 'Photographic style',
+  'scene.option.location.studioWhite': 'Studio, white backdrop',
+  'scene.option.location.studioGrey': 'Studio, light grey backdrop',
+  'scene.option.location.cityStreet': 'Busy city street',
+  'scene.option.location.oldTown': 'Cobblestone street in an old European town',
+  'scene.option.location.interior': 'Minimalist modern interior',
+  'scene.option.location.cafe': 'Cosy café',
+  'scene.option.location.rooftop': 'Rooftop terrace over the city',
+  'scene.option.location.park': 'Lush public park',
+  'scene.option.location.beach': 'Sandy beach',
+  'scene.option.location.eveningVenue': 'Elegant evening venue',
+  'scene.option.location.runway': 'Fashion show runway',
+  'scene.option.timeOfDay.earlyMorning': 'Early morning',
+  'scene.option.timeOfDay.midday': 'Midday',
+  'scene.option.timeOfDay.goldenHour': 'Golden hour',
+  'scene.option.timeOfDay.blueHour': 'Blue hour',
+  'scene.option.timeOfDay.night': 'Night',
+  'scene.option.lighting.studio': 'Even studio lighting, no shadows',
+  'scene.option.lighting.natural': 'Soft, diffused natural light',
+  'scene.option.lighting.side': 'Dramatic side lighting, deep shadows',
+  'scene.option.lighting.backlight': 'Warm backlight with a soft rim glow',
+  'scene.option.lighting.highKey': 'Bright high-key lighting',
+  'scene.option.lighting.lowKey': 'Moody low-key lighting',
+  'scene.option.lighting.neon': 'Neon and city lights',
+  'scene.option.framing.fullBody': 'Full body, head to toe',
+  'scene.option.framing.threeQuarter': 'Three-quarter, from the knees up',
+  'scene.option.framing.waistUp': 'Waist up',
+  'scene.option.framing.closeUp': 'Close-up on outfit details',
+  'scene.option.framing.wide': 'Wide shot with the surroundings',
+  'scene.option.pose.facingCamera': 'Standing, facing the camera',
+  'scene.option.pose.threeQuarterTurn': 'Standing in a relaxed three-quarter turn',
+  'scene.option.pose.walking': 'Walking towards the camera',
+  'scene.option.pose.midStride': 'Mid-stride, in motion',
+  'scene.option.pose.seated': 'Seated casually',
+  'scene.option.pose.leaning': 'Leaning against a wall',
+  'scene.option.pose.overShoulder': 'Looking over the shoulder',
+  'scene.option.style.catalog': 'Clean e-commerce catalog',
+  'scene.option.style.editorial': 'Fashion magazine editorial',
+  'scene.option.style.streetStyle': 'Candid street style',
+  'scene.option.style.cinematic': 'Cinematic still, shallow depth of field',
+  'scene.option.style.vintage': 'Vintage 35mm film',
+  'scene.option.style.luxury': 'Luxury campaign',
+  'scene.preset.catalogWhite': 'Catalog – white',
+  'scene.preset.catalogDetail': 'Catalog – detail',
+  'scene.preset.streetStyle': 'Street style',
+  'scene.preset.goldenHour': 'Golden hour editorial',
+  'scene.preset.evening': 'Evening event',
+  'scene.preset.resort': 'Resort',
+  'scene.deletePreset': 'Delete preset {name}',
+  'scene.showBuilder': 'Customize with the prompt builder',
+  'scene.hideBuilder': 'Hide prompt builder',
+  'scene.any': 'Any',
+  'scene.details': 'Extra details',
+  'scene.detailsPlaceholder': "e.g. 'no props, true-to-life fabric colors'",
+  'scene.presetName': 'Preset name',
+  'scene.savePreset': 'Save preset',
+  'scene.clear': 'Clear',
+  'scene.share': 'Share my presets',
+  'scene.import': 'Import presets',
+  'scene.loadFailed': 'Could not load your presets.',
+  'scene.saveFailed': 'Could not save the preset.',
+  'scene.deleteFailed': 'Could not delete the preset.',
+  'scene.importFailed': 'Could not import the presets.',
+  'scene.invalidFile': 'This is not a StyleMix scene preset file.',
+  'scene.notJson': 'The file is not valid JSON.',
+  'scene.newerVersion': 'These presets were made by a newer version of StyleMix.',
+
+  'generate.promptTitle': 'Describe Your Image',
+  'generate.promptPlaceholder': "e.g., 'A photorealistic image of an astronaut riding a horse on Mars.'",
+  'generate.aspectTitle': 'Choose Aspect Ratio',
+  'generate.aspect.square': 'Square (1:1)',
+  'generate.aspect.landscape': 'Landscape (16:9)',
+  'generate.aspect.portrait': 'Portrait (9:16)',
+  'generate.aspect.standard': 'Standard (4:3)',
+  'generate.aspect.tall': 'Tall (3:4)',
+  'generate.submit': 'Generate Image',
+
+  'editIntro.body': "To start editing, first create an image using the 'Virtual Try-On' or 'Image Generation' tabs. Your active image will appear in the results panel, along with the editing controls.",
+
+  'output.title': 'Your Creation',
+  'output.emptyTitle': 'Your masterpiece awaits',
+  'output.emptyBody': 'Results will be displayed here.',
+  'output.imageAlt': 'Generated look',
+  'output.zoom': 'Zoom in',
+  'output.download': 'Download image',
+  'output.export': 'Export look',
+  'output.exportHint': 'Export lookbook, contact sheet or sidecar',
+  'output.pin': 'Pin for comparison',
+  'output.pinned': 'Pinned for comparison',
+  'output.pinLimit': 'You can compare up to {count} looks',
+  'output.runAnalysis': 'Run Pro Analysis on this image',
+  'output.checkFidelity': 'Check item fidelity',
+  'output.saveRecipe': 'Save look recipe',
+  'output.embedImages': 'embed images',
+  'output.embedImagesHint': 'Wardrobe items are referenced by id either way',
+  'output.lookReady': 'Look ready.',
+  'output.lookReadyDescribed': 'Look ready. {description}',
+  'output.analysisTitle': 'Pro Analysis',
+
+  'analysis.outOf': 'out of 10',
+  'analysis.palette': 'Color Palette',
+  'analysis.items': 'Items',
+  'analysis.occasions': 'Occasion Suitability',
+  'analysis.rating': '{rating} / 5',
+  'analysis.improvements': 'Suggested Improvements',
+  'analysis.category.fit': 'Fit',
+  'analysis.category.color': 'Color',
+  'analysis.category.accessories': 'Accessories',
+  'analysis.category.footwear': 'Footwear',
+  'analysis.category.layering': 'Layering',
+  'analysis.category.grooming': 'Grooming',
+  'analysis.category.styling': 'Styling',
+  'analysis.export': 'Export analysis as JSON',
+
+  'zoom.label': 'Zoomed look',
+  'zoom.imageAlt': 'Zoomed generated look',
+  'zoom.close': 'Close zoom',
+
+  'compare.pinnedCount': '{count} of {max} pinned',
+  'compare.open': 'Compare',
+
+  'compare.title': 'Compare Looks',
+  'compare.grid': 'Side by side',
+  'compare.slider': 'A/B slider',
+  'compare.resetZoom': 'Reset zoom ({scale}×)',
+  'compare.requestVerdict': 'Get Pro Verdict',
+  'compare.comparing': 'Comparing...',
+  'compare.close': 'Close comparison',
+  'compare.sliderPosition': 'A/B slider position',
+  'compare.lookAlt': 'Look {number}: {description}',
+  'compare.winner': 'Winner',
+  'compare.analysisScore': 'Analysis score {score}',
+  'compare.verdictScore': 'Verdict score {score} — {reason}',
+  'compare.unpin': 'Unpin',
+  'compare.verdict': 'Verdict:',
+
+  'edit.title': 'Edit Your Image',
+  'edit.placeholder': "e.g., 'make the background black and white', 'add a retro filter'",
+  'edit.regionOnly': 'Only edit a painted region',
+  'edit.brush': 'Brush',
+  'edit.erase': 'Erase',
+  'edit.erasing': 'Erasing',
+  'edit.clearMask': 'Clear mask',
+  'edit.maskNote': 'Everything outside the painted area is kept pixel for pixel.',
+  'edit.apply': 'Apply Edit',
+
+  'identity.likeness': '{percent}% likeness',
+  'identity.faceNotVisible': 'The face is not clear enough in the result to check the likeness.',
+  'identity.looksLikeYou': 'Looks like you · {likeness}',
+  'identity.drift': 'This result may not look like you ({likeness}).',
+  'identity.changed': 'Changed: {differences}.',
+
+  'palette.title': '{season} palette',
+  'palette.undertone.warm': 'warm undertone',
+  'palette.undertone.cool': 'cool undertone',
+  'palette.undertone.neutral': 'neutral undertone',
+  'palette.skin': 'Skin',
+  'palette.hair': 'Hair',
+  'palette.eyes': 'Eyes',
+  'palette.wear': 'Wear',
+  'palette.avoid': 'Avoid',
+  'season.spring': 'Spring',
+  'season.summer': 'Summer',
+  'season.autumn': 'Autumn',
+  'season.winter': 'Winter',
+
+  'variants.hint': '{count} variations — pick one to edit, download or analyze',
+  'variants.imageAlt': 'Variation {number}: {description}',
+
+  'role.top': 'Top',
+  'role.bottom': 'Bottom',
+  'role.dress': 'Dress',
+  'role.outerwear': 'Outerwear',
+  'role.shoes': 'Shoes',
+  'role.bag': 'Bag',
+  'role.jewelry': 'Jewelry',
+  'role.hat': 'Hat',
+
+  'items.clashes': 'Clashes with your palette',
+  'items.remove': 'Remove item {number}',
+  'items.saveHint': 'Save to wardrobe',
+  'items.saveLabel': 'Save item {number} to wardrobe',
+  'items.roleLabel': 'Role of item {number}',
+  'items.roleAuto': 'Role: auto',
+  'items.notesPlaceholder': "Notes, e.g. 'worn open'",
+  'items.notesLabel': 'Notes for item {number}',
+  'items.detectRoles.one': 'Detect roles for {count} unlabeled item',
+  'items.detectRoles.other': 'Detect roles for {count} unlabeled items',
+
+  'fidelity.title': 'Item Check',
+  'fidelity.found': '{found} of {total} items found',
+  'fidelity.faithful': 'Faithful',
+  'fidelity.partial': 'Differs',
+  'fidelity.missing': 'Missing',
+  'fidelity.confidence': 'Verifier confidence',
+  'fidelity.differsIn': 'Differs in {aspects}',
+  'fidelity.color': 'color',
+  'fidelity.pattern': 'pattern',
+  'fidelity.shape': 'shape',
+  'fidelity.regenerate': 'Regenerate the look',
+  'fidelity.unreported': 'The verifier did not report on this item.',
+
+  'styleMe.count': 'Outfits to suggest',
+  'styleMe.pool.one': 'Picking from {count} item',
+  'styleMe.pool.other': 'Picking from {count} items',
+  'styleMe.suggest': 'Style Me',
+  'styleMe.suggestAgain': 'Suggest Different Outfits',
+  'styleMe.select': 'Generate a try-on for {title}',
+  'styleMe.untitled': 'Outfit {number}',
+  'styleMe.show': 'Show this look',
+  'styleMe.generate.one': 'Generate try-ons for {count} outfit',
+  'styleMe.generate.other': 'Generate try-ons for {count} outfits',
+
+  'versions.title': 'Version History',
+  'versions.tryon': 'Try-on',
+  'versions.generate': 'Generated',
+  'versions.edit': 'Edit',
+  'versions.undo': 'Undo',
+  'versions.undoHint': 'Undo (Ctrl+Z)',
+  'versions.redo': 'Redo',
+  'versions.redoHint': 'Redo (Ctrl+Shift+Z)',
+  'versions.from': 'from {version}',
+  'versions.branching': 'You are viewing an earlier version. A new edit will start a branch from {version} and keep the later versions.',
+
+  'gallery.title': 'Your Gallery',
+  'gallery.count': '{count} saved',
+  'gallery.search': 'Search by scene or prompt...',
+  'gallery.usage': '{used} of {quota} browser storage used',
+  'gallery.usageFull': ' — delete older looks to keep saving new ones.',
+  'gallery.empty': 'Looks you generate or edit are saved here automatically.',
+  'gallery.noMatches': 'No saved looks match your search.',
+  'gallery.savedLook': 'Saved look',
+  'gallery.tryOn': 'Try-On',
+  'gallery.edit': 'Edit',
+  'gallery.loadFailed': 'Could not load the gallery.',
+  'gallery.deleteFailed': 'Could not delete the look.',
+
+  'batch.outfitsTitle': 'Additional Outfits',
+  'batch.outfitsHint': 'Outfit 1 uses the items above. Each upload below becomes another outfit.',
+  'batch.outfit': 'Outfit {number}',
+  'batch.outfitItemAlt': 'Outfit item',
+  'batch.outfitUpload': 'Upload all items of another outfit at once.',
+  'batch.scenesTitle': 'Scenes',
+  'batch.scenesPlaceholder': 'One scene per line, e.g.\nwalking in a park at sunset\ncoffee shop on a rainy day',
+  'batch.concurrency': 'Parallel requests',
+  'batch.combinations': 'Outfits × scenes: {outfits} × {scenes} = {looks} looks',
+  'batch.cancel': 'Cancel Batch',
+  'batch.run': 'Generate Looks',
+  'batch.runCount.one': 'Generate {count} Look',
+  'batch.runCount.other': 'Generate {count} Looks',
+  'batch.progress': '{finished} of {total} finished',
+  'batch.retryFailed': 'Retry {count} failed',
+  'batch.downloadAll': 'Download all',
+  'batch.open': 'Open in the output panel',
+  'batch.resultAlt': 'Outfit {number}: {description}',
+  'batch.waiting': 'Waiting...',
+  'batch.status.queued': 'queued',
+  'batch.status.running': 'running',
+  'batch.status.done': 'done',
+  'batch.status.failed': 'failed',
+  'batch.status.cancelled': 'cancelled',
+
+  'wardrobe.title': 'Your Wardrobe',
+  'wardrobe.count.one': '{count} item',
+  'wardrobe.count.other': '{count} items',
+  'wardrobe.upload': 'Add garments, shoes and accessories you reuse.',
+  'wardrobe.newItemAlt': 'New wardrobe item',
+  'wardrobe.name': 'Name',
+  'wardrobe.color': 'Color',
+  'wardrobe.brand': 'Brand',
+  'wardrobe.tags': 'Tags, comma separated',
+  'wardrobe.discard': 'Discard item',
+  'wardrobe.saveDrafts': 'Save {count} to Wardrobe',
+  'wardrobe.search': 'Search by name, color, brand or tag...',
+  'wardrobe.all': 'All',
+  'wardrobe.category.top': 'Tops',
+  'wardrobe.category.bottom': 'Bottoms',
+  'wardrobe.category.shoes': 'Shoes',
+  'wardrobe.category.accessory': 'Accessories',
+  'wardrobe.empty': 'Items you save here stay available across sessions.',
+  'wardrobe.noMatches': 'No items match your filters.',
+  'wardrobe.inTryOn': 'In try-on',
+  'wardrobe.use': 'Use in try-on',
+  'wardrobe.loadFailed': 'Could not load your wardrobe.',
+  'wardrobe.saveFailed': 'Could not save to your wardrobe.',
+  'wardrobe.deleteFailed': 'Could not delete the item.',
+
+  'chat.title': 'Ask Your Stylist',
+  'chat.intro': 'Questions and suggested edits stay with this look, including after you apply them.',
+  'chat.starter.shoes': 'What shoes would work better?',
+  'chat.starter.blackTie': 'Is this OK for a black-tie wedding?',
+  'chat.starter.casual': 'How could I make this more casual?',
+  'chat.apply': 'Apply: {label}',
+  'chat.thinking': 'Your stylist is thinking...',
+  'chat.placeholder': 'Ask about this look...',
+  'chat.inputLabel': 'Message your stylist',
+  'chat.send': 'Send',
+
+  'export.title': 'Export Look',
+  'export.intro': 'Share the look with clients or keep a reproducible record.',
+  'export.close': 'Close export',
+  'export.imageAlt': 'Look to export',
+  'export.formats': 'Formats',
+  'export.pdf': 'Lookbook PDF',
+  'export.pdfDescription': 'The look, its scene, source items and the Pro analysis on printable pages.',
+  'export.pdfUnavailable': 'Not available for this look: the PDF can only show Latin-script text. Export the PNG contact sheet instead.',
+  'export.png': 'Contact sheet PNG',
+  'export.pngDescription': 'A single image with the look, source thumbnails and key analysis points.',
+  'export.json': 'JSON sidecar',
+  'export.jsonDescription': 'All generation parameters, so the look can be reproduced later.',
+  'export.contents': 'Contents',
+  'export.includeAnalysis': 'Include Pro analysis',
+  'export.includeAnalysisUnavailable': 'Include Pro analysis (run an analysis first)',
+  'export.includeItems': 'Include source item thumbnails',
+  'export.embedImages': 'Embed images in the JSON sidecar',
+  'export.submit': 'Export',
+  'export.exporting': 'Exporting...',
+  'export.failed': 'The export failed.',
+  'lookbook.title': 'StyleMix Lookbook',
+  'lookbook.sheetTitle': 'StyleMix Look',
+  'lookbook.prompt': 'Prompt',
+  'lookbook.scene': 'Scene',
+  'lookbook.edits': 'Edits',
+  'lookbook.sourceItems': 'Source items',
+  'lookbook.modelPhoto': 'Model photo',
+  'lookbook.readFailed': 'Could not read file.',
+  'lookbook.encodeFailed': 'Could not encode image for the PDF.',
+  'lookbook.renderFailed': 'Could not render the contact sheet.',
+
+  'settings.title': 'Generation Settings',
+  'settings.intro': 'Saved in this browser and applied to every new request.',
+  'settings.close': 'Close settings',
+  'settings.models': 'Models',
+  'settings.model.tryOn': 'Virtual try-on',
+  'settings.model.edit': 'Image editing',
+  'settings.model.textToImage': 'Text to image',
+  'settings.model.analysis': 'Pro analysis, checks and stylist chat',
+  'settings.model.classify': 'Item role detection and alt text',
+  'settings.analysis': 'Analysis',
+  'settings.thinkingBudget': 'Thinking budget (tokens)',
+  'settings.dynamicBudget': 'Let the model decide',
+  'settings.minBudget': 'This model cannot turn thinking off; the smallest budget it takes is {count} tokens.',
+  'settings.localizedOutput': 'Write Pro analysis, stylist replies and alt text in the interface language',
+  'settings.imageOutput': 'Image output',
+  'settings.outputFormat': 'Output format',
+  'settings.outputFormatNote': 'Text-to-image models honor this directly; try-on and edit models may ignore it.',
+  'settings.fixedSeed': 'Use a fixed seed for repeatable results',
+  'settings.seed': 'Seed',
+  'settings.randomize': 'Randomize',
+  'settings.seedNote': 'Variations still differ from each other; each one gets its own seed offset.',
+  'settings.negativePrompt': 'Avoid in generated images',
+  'settings.negativePromptPlaceholder': "e.g. 'blurry, watermark, distorted hands'",
+  'settings.reset': 'Reset to defaults',
+
+  'upload.chooseFile': 'Choose a file',
+  'upload.chooseFiles': 'Choose files',
+  'upload.dragAndDrop': 'or drag and drop',
+  'upload.preparing': 'Preparing images...',
+  'upload.processFailed': 'Could not process this file.',
+  'upload.notImage': '{name} is not an image.',
+  'upload.heicUnsupported': '{name}: this browser cannot open HEIC photos. Open it in Safari, or export it as JPEG first (on iPhone: Settings › Camera › Formats › Most Compatible).',
+  'upload.typeUnsupported': '{name}: your browser cannot read {type} images. Please convert it to JPEG or PNG first.',
+  'upload.unknownType': 'unknown',
+  'upload.encodeFailed': '{name} could not be re-encoded.',
+  'upload.downscaled': 'Downscaled from {from} to {to}.',
+  'upload.converted': 'Converted {from} to {to}.',
+  'upload.backgroundReplaced': 'Background replaced with plain white.',
+  'upload.backgroundKept': 'Background was not uniform enough to remove automatically.',
+  'upload.exifRemoved': 'Removed EXIF metadata (camera details and GPS location).',
+};
+
+export type MessageKey = keyof typeof en;
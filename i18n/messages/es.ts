@@ -0,0 +1,541 @@
+import type { MessageCatalog } from '../index';
+
+export const es: MessageCatalog = {
+  'header.tagline': 'Crea tu look característico con IA',
+  'header.settings': 'Ajustes de generación',
+  'header.language': 'Idioma',
+
+  'tabs.label': 'Secciones del estudio',
+  'tabs.tryon': 'Probador virtual',
+  'tabs.generate': 'Generar imagen',
+  'tabs.edit': 'Editar imagen',
+  'tabs.wardrobe': 'Armario',
+  'tabs.gallery': 'Galería',
+
+  'tryOnMode.single': 'Un look',
+  'tryOnMode.batch': 'Lote / Lookbook',
+  'tryOnMode.styleMe': 'Estilízame',
+
+  'request.colorAnalysis': 'Análisis de color',
+  'request.itemRoles': 'Tipos de prenda',
+  'request.tryOn': 'Prueba virtual',
+  'request.styleMe': 'Estilízame',
+  'request.generate': 'Generación de imagen',
+  'request.analysis': 'Análisis Pro',
+  'request.itemCheck': 'Comprobación de prendas',
+  'request.edit': 'Edición de imagen',
+  'request.chat': 'Chat con el estilista',
+  'request.stylistEdit': 'Edición del estilista',
+  'request.replay': 'Reproducción de receta',
+  'request.verdict': 'Veredicto Pro',
+
+  'error.tryOnInputs': 'Sube al menos una prenda y describe la escena.',
+  'error.styleMeInputs': 'Sube al menos dos prendas y describe la ocasión, para que haya algo entre lo que elegir.',
+  'error.generatePrompt': 'Escribe una descripción para generar una imagen.',
+  'error.editInputs': 'Primero genera una imagen y escribe qué quieres cambiar.',
+  'error.emptyMask': 'Pinta la zona que quieres cambiar o desactiva la edición por zonas.',
+  'error.recipeItems': 'La receta necesita al menos una prenda para reproducirse.',
+  'error.gallerySave': 'No se ha podido guardar este look en tu galería.',
+  'error.galleryBlocked': 'No se ha guardado este look: otra pestaña de StyleMix Studio usa una versión anterior de tus datos guardados. Ciérrala y vuelve a intentarlo.',
+  'error.storageFull': 'El almacenamiento del navegador está lleno. Elimina algunos looks guardados para liberar espacio.',
+  'error.storageBlocked': 'Otra pestaña de StyleMix Studio usa una versión anterior de tus datos guardados. Ciérrala y vuelve a intentarlo.',
+  'error.storageUnavailable': 'IndexedDB no está disponible en este navegador.',
+  'error.imageDecode': 'No se ha podido decodificar la imagen.',
+
+  'common.startOver': 'Empezar de nuevo',
+  'common.dismiss': 'Descartar',
+  'common.optional': '(Opcional)',
+  'common.cancel': 'Cancelar',
+  'common.save': 'Guardar',
+  'common.delete': 'Eliminar',
+  'common.remove': 'Quitar',
+  'common.retry': 'Reintentar',
+  'common.tryAgain': 'Intentar de nuevo',
+  'common.download': 'Descargar',
+  'common.item': 'Prenda {number}',
+  'common.look': 'Look {number}',
+
+  'locale.notSaved': 'Tu idioma se mantiene hasta que cierres la página; este navegador no nos permitió guardarlo.',
+
+  'loading.mixing': 'Combinando estilos...',
+  'loading.warmingUp': 'Preparando al estilista de IA...',
+  'loading.draping': 'Ajustando las telas...',
+  'loading.lighting': 'Ajustando la iluminación...',
+  'loading.perfecting': 'Perfeccionando el look final...',
+  'loading.patience': 'Esto puede tardar un minuto, ¡el buen estilo merece la espera!',
+  'loading.thinking': 'Pensando...',
+  'loading.writingReport': 'Redactando el informe ({count} caracteres por ahora)...',
+
+  'stage.classifying': 'Detectando el tipo de cada prenda',
+  'stage.uploading': 'Subiendo las prendas',
+  'stage.generating': 'Generando',
+  'stage.verifying': 'Comprobando que aparece cada prenda',
+  'stage.matching': 'Comprobando el parecido',
+  'stage.editing': 'Aplicando tu edición',
+  'stage.analyzing': 'Analizando el look',
+  'stage.comparing': 'Comparando looks',
+  'stage.chatting': 'Consultando a tu estilista',
+  'stage.styling': 'Combinando outfits',
+  'stage.coloring': 'Buscando tus colores',
+
+  'failure.input.title': 'Faltan datos',
+  'failure.missingApiKey.title': 'Se necesita una clave de API',
+  'failure.missingApiKey.message': 'No hay configurada ninguna clave de API de Gemini válida.',
+  'failure.missingApiKey.action': 'Añade GEMINI_API_KEY a .env.local y reinicia el servidor proxy, o define IMAGE_PROVIDER=mock para trabajar sin conexión.',
+  'failure.rateLimit.title': 'Límite de solicitudes alcanzado',
+  'failure.rateLimit.message': 'Se ha superado la cuota o el límite de solicitudes de la API.',
+  'failure.rateLimit.action': 'Espera un minuto antes de volver a intentarlo o revisa la cuota de tu plan de API.',
+  'failure.network.title': 'Problema de conexión',
+  'failure.network.message': 'No se ha podido conectar con el servicio de IA.',
+  'failure.network.action': 'Comprueba tu conexión a internet e inténtalo de nuevo.',
+  'failure.serviceUnavailable.title': 'Servicio no disponible',
+  'failure.serviceUnavailable.message': 'El servicio de IA no está disponible temporalmente.',
+  'failure.serviceUnavailable.action': 'El servicio está ocupado. Inténtalo de nuevo en unos momentos.',
+  'failure.safetyBlock.title': 'Bloqueado por el filtro de seguridad',
+  'failure.safetyBlock.message': 'El filtro de seguridad ha bloqueado la solicitud ({reason}).',
+  'failure.safetyBlock.action': 'Reformula la descripción o usa otras imágenes e inténtalo de nuevo.',
+  'failure.emptyResponse.title': 'Sin resultado',
+  'failure.emptyResponse.message': 'El modelo no ha devuelto ningún resultado.',
+  'failure.emptyResponse.action': 'Prueba a reformular o simplificar la descripción.',
+  'failure.malformedResponse.title': 'Respuesta inesperada',
+  'failure.malformedResponse.message': 'El modelo ha devuelto una respuesta con un formato inesperado.',
+  'failure.malformedResponse.action': 'Inténtalo de nuevo; suele ser algo temporal.',
+  'failure.timeout.title': 'La solicitud ha caducado',
+  'failure.timeout.message': 'La solicitud no ha terminado en {seconds} segundos.',
+  'failure.timeout.action': 'Inténtalo de nuevo o simplifica la solicitud.',
+  'failure.cancelled.title': 'Cancelado',
+  'failure.cancelled.message': 'Se ha cancelado la solicitud.',
+  'failure.invalidRequest.title': 'Solicitud no válida',
+  'failure.invalidRequest.message': 'A la solicitud le faltaban campos obligatorios o tenía valores no válidos.',
+  'failure.invalidRequest.action': 'Revisa los datos e inténtalo de nuevo.',
+  'failure.payloadTooLarge.title': 'Subida demasiado grande',
+  'failure.payloadTooLarge.message': 'La solicitud ha superado el límite de subida de {limit} MB.',
+  'failure.payloadTooLarge.action': 'Usa menos imágenes o imágenes más pequeñas e inténtalo de nuevo.',
+  'failure.unknown.title': 'Algo ha salido mal',
+  'failure.unknown.message': 'Se ha producido un error desconocido.',
+  'failure.unknown.action': 'Inténtalo de nuevo. Si el problema continúa, recarga la página.',
+  'failure.proxyStatus': 'El servidor proxy ha respondido con HTTP {status}.',
+
+  'variations.label': 'Número de variaciones',
+
+  'recipe.import': 'Importar receta de look…',
+  'recipe.loaded': 'Receta cargada',
+  'recipe.madeWith': 'Creada el {date} con {model}',
+  'recipe.editsToReplay.one': '{count} edición por reproducir',
+  'recipe.editsToReplay.other': '{count} ediciones por reproducir',
+  'recipe.missing': 'No está en tu armario ni incluido en la receta: {names}',
+  'recipe.replay': 'Reproducir receta',
+  'recipe.notJson': 'El archivo no es un JSON válido.',
+  'recipe.notRecipe': 'Este archivo no es una receta de look de StyleMix.',
+  'recipe.newerVersion': 'Esta receta se creó con una versión más reciente de StyleMix (versión de formato {version}).',
+  'recipe.noPrompt': 'La receta no tiene descripción de escena ni prompt.',
+  'recipe.noItems': 'La receta no tiene prendas.',
+  'recipe.itemField': 'Prenda {number}',
+  'recipe.modelPhotoField': 'Foto del modelo',
+  'recipe.imageUnnamed': '{field}: falta el nombre o el tipo.',
+  'recipe.imageMissing': '{field}: no está incrustada ni referenciada.',
+  'recipe.readFailed': 'No se ha podido leer {name}.',
+
+  'tryon.itemsTitle': 'Sube tus prendas',
+  'tryon.itemsLabel': 'Sube imágenes de tus prendas: un vestido, unos zapatos, un bolso...',
+  'tryon.removeBackgrounds': 'Quitar fondos lisos de las fotos de producto',
+  'limits.tooManyItems': 'Usa como máximo {max} prendas aquí. Quita alguna para continuar.',
+  'limits.tooLarge': 'Estas fotos superan los {max} MB que admite una solicitud. Quita alguna o usa fotos más pequeñas.',
+  'limits.itemsSkipped': 'Solo se pueden añadir {max} prendas, así que se han omitido las demás.',
+  'tryon.photoTitle': 'Sube tu foto',
+  'tryon.photoLabel': '¿Quieres probártelo tú? Sube una foto de cuerpo entero.',
+  'tryon.photoNote': 'Si te lo saltas, generaremos un modelo realista con IA.',
+  'tryon.photoAlt': 'Tu foto',
+  'tryon.referenceAlt': 'Foto de referencia {number}',
+  'tryon.removeReference': 'Quitar la foto de referencia {number}',
+  'tryon.analyzeColors': 'Analizar mis colores para detectar prendas que no me favorecen',
+  'tryon.preserveIdentity': 'Conservar mi parecido (cara, forma del cuerpo y tono de piel)',
+  'tryon.identityPhotosLabel.one': 'Añade hasta {count} foto más de ti.',
+  'tryon.identityPhotosLabel.other': 'Añade hasta {count} fotos más de ti.',
+  'tryon.identityPhotosNote': 'Distintos ángulos y una vista clara de tu cara ayudan a que el resultado se parezca a ti.',
+  'tryon.autoRetryIdentity.one': 'Reintentar automáticamente si el resultado no se parece a mí (hasta {count} intento más)',
+  'tryon.autoRetryIdentity.other': 'Reintentar automáticamente si el resultado no se parece a mí (hasta {count} intentos más)',
+  'tryon.sceneTitle': 'Describe la escena',
+  'tryon.scenePlaceholder': "p. ej., 'paseando por un parque al atardecer', 'una cafetería en un día de lluvia', 'una fiesta en una azotea por la noche'.",
+  'tryon.proAnalysis': 'Activar el análisis de moda Pro',
+  'tryon.detectRoles': 'Detectar el tipo de las prendas sin etiquetar antes de generar',
+  'tryon.verifyFidelity': 'Comprobar que todas las prendas aparecen en el resultado',
+  'tryon.autoRegenerate.one': 'Regenerar automáticamente si faltan prendas (hasta {count} intento más)',
+  'tryon.autoRegenerate.other': 'Regenerar automáticamente si faltan prendas (hasta {count} intentos más)',
+  'tryon.submit': 'Generar mi look',
+
+  'scene.aspect.location': 'Lugar',
+  'scene.aspect.timeOfDay': 'Momento del día',
+  'scene.aspect.lighting': 'Iluminación',
+  'scene.aspect.framing': 'Encuadre',
+  'scene.aspect.pose': 'Pose',
+  'scene.aspect.style': 'Estilo fotográfico',
+  'scene.option.location.studioWhite': 'Estudio, fondo blanco',
+  'scene.option.location.studioGrey': 'Estudio, fondo gris claro',
+  'scene.option.location.cityStreet': 'Calle concurrida',
+  'scene.option.location.oldTown': 'Calle empedrada de un casco antiguo europeo',
+  'scene.option.location.interior': 'Interior moderno y minimalista',
+  'scene.option.location.cafe': 'Cafetería acogedora',
+  'scene.option.location.rooftop': 'Azotea con vistas a la ciudad',
+  'scene.option.location.park': 'Parque frondoso',
+  'scene.option.location.beach': 'Playa de arena',
+  'scene.option.location.eveningVenue': 'Local elegante de noche',
+  'scene.option.location.runway': 'Pasarela de moda',
+  'scene.option.timeOfDay.earlyMorning': 'Primera hora de la mañana',
+  'scene.option.timeOfDay.midday': 'Mediodía',
+  'scene.option.timeOfDay.goldenHour': 'Hora dorada',
+  'scene.option.timeOfDay.blueHour': 'Hora azul',
+  'scene.option.timeOfDay.night': 'Noche',
+  'scene.option.lighting.studio': 'Luz de estudio uniforme, sin sombras',
+  'scene.option.lighting.natural': 'Luz natural suave y difusa',
+  'scene.option.lighting.side': 'Luz lateral dramática con sombras profundas',
+  'scene.option.lighting.backlight': 'Contraluz cálido con un suave halo',
+  'scene.option.lighting.highKey': 'Iluminación clara en clave alta',
+  'scene.option.lighting.lowKey': 'Iluminación sombría en clave baja',
+  'scene.option.lighting.neon': 'Neones y luces de la ciudad',
+  'scene.option.framing.fullBody': 'Cuerpo entero, de la cabeza a los pies',
+  'scene.option.framing.threeQuarter': 'Plano americano, de las rodillas hacia arriba',
+  'scene.option.framing.waistUp': 'De cintura para arriba',
+  'scene.option.framing.closeUp': 'Primer plano de los detalles del conjunto',
+  'scene.option.framing.wide': 'Plano general con el entorno',
+  'scene.option.pose.facingCamera': 'De pie, mirando a la cámara',
+  'scene.option.pose.threeQuarterTurn': 'De pie, en un giro relajado de tres cuartos',
+  'scene.option.pose.walking': 'Caminando hacia la cámara',
+  'scene.option.pose.midStride': 'En plena zancada, en movimiento',
+  'scene.option.pose.seated': 'Sentado con naturalidad',
+  'scene.option.pose.leaning': 'Apoyado en una pared',
+  'scene.option.pose.overShoulder': 'Mirando por encima del hombro',
+  'scene.option.style.catalog': 'Catálogo de comercio electrónico limpio',
+  'scene.option.style.editorial': 'Editorial de revista de moda',
+  'scene.option.style.streetStyle': 'Street style espontáneo',
+  'scene.option.style.cinematic': 'Fotograma cinematográfico con poca profundidad de campo',
+  'scene.option.style.vintage': 'Película de 35 mm vintage',
+  'scene.option.style.luxury': 'Campaña de lujo',
+  'scene.preset.catalogWhite': 'Catálogo – blanco',
+  'scene.preset.catalogDetail': 'Catálogo – detalle',
+  'scene.preset.streetStyle': 'Street style',
+  'scene.preset.goldenHour': 'Editorial en la hora dorada',
+  'scene.preset.evening': 'Evento de noche',
+  'scene.preset.resort': 'Vacaciones',
+  'scene.deletePreset': 'Eliminar el ajuste predefinido {name}',
+  'scene.showBuilder': 'Personalizar con el generador de descripciones',
+  'scene.hideBuilder': 'Ocultar el generador de descripciones',
+  'scene.any': 'Cualquiera',
+  'scene.details': 'Detalles adicionales',
+  'scene.detailsPlaceholder': "p. ej., 'sin accesorios, colores de tela fieles a la realidad'",
+  'scene.presetName': 'Nombre del ajuste',
+  'scene.savePreset': 'Guardar ajuste',
+  'scene.clear': 'Borrar',
+  'scene.share': 'Compartir mis ajustes',
+  'scene.import': 'Importar ajustes',
+  'scene.loadFailed': 'No se pudieron cargar tus ajustes.',
+  'scene.saveFailed': 'No se pudo guardar el ajuste.',
+  'scene.deleteFailed': 'No se pudo eliminar el ajuste.',
+  'scene.importFailed': 'No se pudieron importar los ajustes.',
+  'scene.invalidFile': 'Este archivo no es un archivo de ajustes de escena de StyleMix.',
+  'scene.notJson': 'El archivo no es un JSON válido.',
+  'scene.newerVersion': 'Estos ajustes se crearon con una versión más reciente de StyleMix.',
+
+  'generate.promptTitle': 'Describe tu imagen',
+  'generate.promptPlaceholder': "p. ej., 'Una imagen fotorrealista de un astronauta montando a caballo en Marte.'",
+  'generate.aspectTitle': 'Elige la relación de aspecto',
+  'generate.aspect.square': 'Cuadrada (1:1)',
+  'generate.aspect.landscape': 'Horizontal (16:9)',
+  'generate.aspect.portrait': 'Vertical (9:16)',
+  'generate.aspect.standard': 'Estándar (4:3)',
+  'generate.aspect.tall': 'Alta (3:4)',
+  'generate.submit': 'Generar imagen',
+
+  'editIntro.body': "Para empezar a editar, crea primero una imagen en las pestañas 'Probador virtual' o 'Generar imagen'. Tu imagen activa aparecerá en el panel de resultados, junto con los controles de edición.",
+
+  'output.title': 'Tu creación',
+  'output.emptyTitle': 'Tu obra maestra te espera',
+  'output.emptyBody': 'Los resultados aparecerán aquí.',
+  'output.imageAlt': 'Look generado',
+  'output.zoom': 'Ampliar',
+  'output.download': 'Descargar imagen',
+  'output.export': 'Exportar look',
+  'output.exportHint': 'Exportar lookbook, hoja de contactos o archivo de parámetros',
+  'output.pin': 'Fijar para comparar',
+  'output.pinned': 'Fijado para comparar',
+  'output.pinLimit': 'Puedes comparar hasta {count} looks',
+  'output.runAnalysis': 'Ejecutar el análisis Pro de esta imagen',
+  'output.checkFidelity': 'Comprobar las prendas',
+  'output.saveRecipe': 'Guardar receta del look',
+  'output.embedImages': 'incluir imágenes',
+  'output.embedImagesHint': 'Las prendas del armario se referencian por id en cualquier caso',
+  'output.lookReady': 'Look listo.',
+  'output.lookReadyDescribed': 'Look listo. {description}',
+  'output.analysisTitle': 'Análisis Pro',
+
+  'analysis.outOf': 'de 10',
+  'analysis.palette': 'Paleta de colores',
+  'analysis.items': 'Prendas',
+  'analysis.occasions': 'Adecuación a la ocasión',
+  'analysis.rating': '{rating} / 5',
+  'analysis.improvements': 'Mejoras sugeridas',
+  'analysis.category.fit': 'Ajuste',
+  'analysis.category.color': 'Color',
+  'analysis.category.accessories': 'Accesorios',
+  'analysis.category.footwear': 'Calzado',
+  'analysis.category.layering': 'Capas',
+  'analysis.category.grooming': 'Arreglo personal',
+  'analysis.category.styling': 'Estilismo',
+  'analysis.export': 'Exportar el análisis como JSON',
+
+  'zoom.label': 'Look ampliado',
+  'zoom.imageAlt': 'Look generado ampliado',
+  'zoom.close': 'Cerrar ampliación',
+
+  'compare.pinnedCount': '{count} de {max} fijados',
+  'compare.open': 'Comparar',
+
+  'compare.title': 'Comparar looks',
+  'compare.grid': 'Lado a lado',
+  'compare.slider': 'Deslizador A/B',
+  'compare.resetZoom': 'Restablecer zoom ({scale}×)',
+  'compare.requestVerdict': 'Obtener veredicto Pro',
+  'compare.comparing': 'Comparando...',
+  'compare.close': 'Cerrar comparación',
+  'compare.sliderPosition': 'Posición del deslizador A/B',
+  'compare.lookAlt': 'Look {number}: {description}',
+  'compare.winner': 'Ganador',
+  'compare.analysisScore': 'Puntuación del análisis {score}',
+  'compare.verdictScore': 'Puntuación del veredicto {score} — {reason}',
+  'compare.unpin': 'Desfijar',
+  'compare.verdict': 'Veredicto:',
+
+  'edit.title': 'Edita tu imagen',
+  'edit.placeholder': "p. ej., 'pon el fondo en blanco y negro', 'añade un filtro retro'",
+  'edit.regionOnly': 'Editar solo una zona pintada',
+  'edit.brush': 'Pincel',
+  'edit.erase': 'Borrar',
+  'edit.erasing': 'Borrando',
+  'edit.clearMask': 'Limpiar máscara',
+  'edit.maskNote': 'Todo lo que queda fuera de la zona pintada se conserva píxel a píxel.',
+  'edit.apply': 'Aplicar edición',
+
+  'identity.likeness': '{percent} % de parecido',
+  'identity.faceNotVisible': 'La cara no se ve con suficiente claridad en el resultado para comprobar el parecido.',
+  'identity.looksLikeYou': 'Se parece a ti · {likeness}',
+  'identity.drift': 'Puede que este resultado no se parezca a ti ({likeness}).',
+  'identity.changed': 'Ha cambiado: {differences}.',
+
+  'palette.title': 'Paleta {season}',
+  'palette.undertone.warm': 'subtono cálido',
+  'palette.undertone.cool': 'subtono frío',
+  'palette.undertone.neutral': 'subtono neutro',
+  'palette.skin': 'Piel',
+  'palette.hair': 'Cabello',
+  'palette.eyes': 'Ojos',
+  'palette.wear': 'Usa',
+  'palette.avoid': 'Evita',
+  'season.spring': 'primavera',
+  'season.summer': 'verano',
+  'season.autumn': 'otoño',
+  'season.winter': 'invierno',
+
+  'variants.hint': '{count} variantes: elige una para editarla, descargarla o analizarla',
+  'variants.imageAlt': 'Variante {number}: {description}',
+
+  'role.top': 'Parte de arriba',
+  'role.bottom': 'Parte de abajo',
+  'role.dress': 'Vestido',
+  'role.outerwear': 'Abrigo',
+  'role.shoes': 'Zapatos',
+  'role.bag': 'Bolso',
+  'role.jewelry': 'Joyería',
+  'role.hat': 'Sombrero',
+
+  'items.clashes': 'Choca con tu paleta',
+  'items.remove': 'Quitar la prenda {number}',
+  'items.saveHint': 'Guardar en el armario',
+  'items.saveLabel': 'Guardar la prenda {number} en el armario',
+  'items.roleLabel': 'Tipo de la prenda {number}',
+  'items.roleAuto': 'Tipo: automático',
+  'items.notesPlaceholder': "Notas, p. ej., 'abierta'",
+  'items.notesLabel': 'Notas de la prenda {number}',
+  'items.detectRoles.one': 'Detectar el tipo de {count} prenda sin etiquetar',
+  'items.detectRoles.other': 'Detectar el tipo de {count} prendas sin etiquetar',
+
+  'fidelity.title': 'Comprobación de prendas',
+  'fidelity.found': '{found} de {total} prendas encontradas',
+  'fidelity.faithful': 'Fiel',
+  'fidelity.partial': 'Difiere',
+  'fidelity.missing': 'Falta',
+  'fidelity.confidence': 'Confianza del verificador',
+  'fidelity.differsIn': 'Difiere en {aspects}',
+  'fidelity.color': 'color',
+  'fidelity.pattern': 'estampado',
+  'fidelity.shape': 'forma',
+  'fidelity.regenerate': 'Volver a generar el look',
+  'fidelity.unreported': 'El verificador no ha informado sobre esta prenda.',
+
+  'styleMe.count': 'Outfits que sugerir',
+  'styleMe.pool.one': 'Eligiendo entre {count} prenda',
+  'styleMe.pool.other': 'Eligiendo entre {count} prendas',
+  'styleMe.suggest': 'Vísteme',
+  'styleMe.suggestAgain': 'Sugerir otros outfits',
+  'styleMe.select': 'Generar una prueba de {title}',
+  'styleMe.untitled': 'Outfit {number}',
+  'styleMe.show': 'Mostrar este look',
+  'styleMe.generate.one': 'Generar pruebas de {count} outfit',
+  'styleMe.generate.other': 'Generar pruebas de {count} outfits',
+
+  'versions.title': 'Historial de versiones',
+  'versions.tryon': 'Prueba',
+  'versions.generate': 'Generada',
+  'versions.edit': 'Edición',
+  'versions.undo': 'Deshacer',
+  'versions.undoHint': 'Deshacer (Ctrl+Z)',
+  'versions.redo': 'Rehacer',
+  'versions.redoHint': 'Rehacer (Ctrl+Mayús+Z)',
+  'versions.from': 'desde {version}',
+  'versions.branching': 'Estás viendo una versión anterior. Una nueva edición creará una rama desde {version} y conservará las versiones posteriores.',
+
+  'gallery.title': 'Tu galería',
+  'gallery.count': '{count} guardados',
+  'gallery.search': 'Buscar por escena o descripción...',
+  'gallery.usage': '{used} de {quota} del almacenamiento del navegador en uso',
+  'gallery.usageFull': ' — elimina looks antiguos para seguir guardando nuevos.',
+  'gallery.empty': 'Los looks que generas o editas se guardan aquí automáticamente.',
+  'gallery.noMatches': 'Ningún look guardado coincide con tu búsqueda.',
+  'gallery.savedLook': 'Look guardado',
+  'gallery.tryOn': 'Probar',
+  'gallery.edit': 'Editar',
+  'gallery.loadFailed': 'No se pudo cargar la galería.',
+  'gallery.deleteFailed': 'No se pudo eliminar el look.',
+
+  'batch.outfitsTitle': 'Outfits adicionales',
+  'batch.outfitsHint': 'El outfit 1 usa las prendas de arriba. Cada subida de abajo se convierte en otro outfit.',
+  'batch.outfit': 'Outfit {number}',
+  'batch.outfitItemAlt': 'Prenda del outfit',
+  'batch.outfitUpload': 'Sube a la vez todas las prendas de otro outfit.',
+  'batch.scenesTitle': 'Escenas',
+  'batch.scenesPlaceholder': 'Una escena por línea, p. ej.\npaseando por un parque al atardecer\ncafetería en un día de lluvia',
+  'batch.concurrency': 'Solicitudes en paralelo',
+  'batch.combinations': 'Outfits × escenas: {outfits} × {scenes} = {looks} looks',
+  'batch.cancel': 'Cancelar el lote',
+  'batch.run': 'Generar looks',
+  'batch.runCount.one': 'Generar {count} look',
+  'batch.runCount.other': 'Generar {count} looks',
+  'batch.progress': '{finished} de {total} terminados',
+  'batch.retryFailed': 'Reintentar los fallidos ({count})',
+  'batch.downloadAll': 'Descargar todo',
+  'batch.open': 'Abrir en el panel de resultados',
+  'batch.resultAlt': 'Outfit {number}: {description}',
+  'batch.waiting': 'En espera...',
+  'batch.status.queued': 'en cola',
+  'batch.status.running': 'en curso',
+  'batch.status.done': 'listo',
+  'batch.status.failed': 'fallido',
+  'batch.status.cancelled': 'cancelado',
+
+  'wardrobe.title': 'Tu armario',
+  'wardrobe.count.one': '{count} prenda',
+  'wardrobe.count.other': '{count} prendas',
+  'wardrobe.upload': 'Añade la ropa, el calzado y los accesorios que reutilizas.',
+  'wardrobe.newItemAlt': 'Nueva prenda del armario',
+  'wardrobe.name': 'Nombre',
+  'wardrobe.color': 'Color',
+  'wardrobe.brand': 'Marca',
+  'wardrobe.tags': 'Etiquetas, separadas por comas',
+  'wardrobe.discard': 'Descartar prenda',
+  'wardrobe.saveDrafts': 'Guardar {count} en el armario',
+  'wardrobe.search': 'Buscar por nombre, color, marca o etiqueta...',
+  'wardrobe.all': 'Todo',
+  'wardrobe.category.top': 'Partes de arriba',
+  'wardrobe.category.bottom': 'Partes de abajo',
+  'wardrobe.category.shoes': 'Calzado',
+  'wardrobe.category.accessory': 'Accesorios',
+  'wardrobe.empty': 'Las prendas que guardes aquí seguirán disponibles entre sesiones.',
+  'wardrobe.noMatches': 'Ninguna prenda coincide con tus filtros.',
+  'wardrobe.inTryOn': 'En la prueba',
+  'wardrobe.use': 'Usar en la prueba',
+  'wardrobe.loadFailed': 'No se pudo cargar tu armario.',
+  'wardrobe.saveFailed': 'No se pudo guardar en tu armario.',
+  'wardrobe.deleteFailed': 'No se pudo eliminar la prenda.',
+
+  'chat.title': 'Pregunta a tu estilista',
+  'chat.intro': 'Las preguntas y las ediciones sugeridas se quedan con este look, también después de aplicarlas.',
+  'chat.starter.shoes': '¿Qué zapatos quedarían mejor?',
+  'chat.starter.blackTie': '¿Sirve para una boda de etiqueta?',
+  'chat.starter.casual': '¿Cómo podría hacerlo más informal?',
+  'chat.apply': 'Aplicar: {label}',
+  'chat.thinking': 'Tu estilista está pensando...',
+  'chat.placeholder': 'Pregunta sobre este look...',
+  'chat.inputLabel': 'Mensaje para tu estilista',
+  'chat.send': 'Enviar',
+
+  'export.title': 'Exportar look',
+  'export.intro': 'Comparte el look con tus clientes o guarda un registro reproducible.',
+  'export.close': 'Cerrar exportación',
+  'export.imageAlt': 'Look que exportar',
+  'export.formats': 'Formatos',
+  'export.pdf': 'Lookbook en PDF',
+  'export.pdfDescription': 'El look, su escena, las prendas de origen y el análisis Pro en páginas imprimibles.',
+  'export.pdfUnavailable': 'No disponible para este look: el PDF solo puede mostrar texto en alfabeto latino. Exporta la hoja de contactos PNG en su lugar.',
+  'export.png': 'Hoja de contactos PNG',
+  'export.pngDescription': 'Una sola imagen con el look, miniaturas de origen y los puntos clave del análisis.',
+  'export.json': 'Archivo JSON complementario',
+  'export.jsonDescription': 'Todos los parámetros de generación, para poder reproducir el look más adelante.',
+  'export.contents': 'Contenido',
+  'export.includeAnalysis': 'Incluir el análisis Pro',
+  'export.includeAnalysisUnavailable': 'Incluir el análisis Pro (primero ejecuta un análisis)',
+  'export.includeItems': 'Incluir miniaturas de las prendas de origen',
+  'export.embedImages': 'Incrustar las imágenes en el archivo JSON',
+  'export.submit': 'Exportar',
+  'export.exporting': 'Exportando...',
+  'export.failed': 'La exportación ha fallado.',
+  'lookbook.title': 'Lookbook de StyleMix',
+  'lookbook.sheetTitle': 'Look de StyleMix',
+  'lookbook.prompt': 'Prompt',
+  'lookbook.scene': 'Escena',
+  'lookbook.edits': 'Ediciones',
+  'lookbook.sourceItems': 'Prendas de origen',
+  'lookbook.modelPhoto': 'Foto del modelo',
+  'lookbook.readFailed': 'No se ha podido leer el archivo.',
+  'lookbook.encodeFailed': 'No se ha podido codificar la imagen para el PDF.',
+  'lookbook.renderFailed': 'No se ha podido generar la hoja de contactos.',
+
+  'settings.title': 'Ajustes de generación',
+  'settings.intro': 'Se guardan en este navegador y se aplican a cada nueva solicitud.',
+  'settings.close': 'Cerrar ajustes',
+  'settings.models': 'Modelos',
+  'settings.model.tryOn': 'Prueba virtual',
+  'settings.model.edit': 'Edición de imágenes',
+  'settings.model.textToImage': 'Texto a imagen',
+  'settings.model.analysis': 'Análisis Pro, comprobaciones y chat con el estilista',
+  'settings.model.classify': 'Detección del tipo de prenda y texto alternativo',
+  'settings.analysis': 'Análisis',
+  'settings.thinkingBudget': 'Presupuesto de razonamiento (tokens)',
+  'settings.dynamicBudget': 'Que decida el modelo',
+  'settings.minBudget': 'Este modelo no puede desactivar el razonamiento; el presupuesto mínimo que admite es de {count} tokens.',
+  'settings.localizedOutput': 'Escribir el análisis Pro, las respuestas del estilista y el texto alternativo en el idioma de la interfaz',
+  'settings.imageOutput': 'Salida de imagen',
+  'settings.outputFormat': 'Formato de salida',
+  'settings.outputFormatNote': 'Los modelos de texto a imagen lo respetan directamente; los de prueba y edición pueden ignorarlo.',
+  'settings.fixedSeed': 'Usar una semilla fija para obtener resultados repetibles',
+  'settings.seed': 'Semilla',
+  'settings.randomize': 'Aleatoria',
+  'settings.seedNote': 'Las variantes siguen siendo distintas entre sí; cada una recibe su propio desplazamiento de semilla.',
+  'settings.negativePrompt': 'Evitar en las imágenes generadas',
+  'settings.negativePromptPlaceholder': "p. ej., 'borroso, marca de agua, manos deformadas'",
+  'settings.reset': 'Restablecer valores predeterminados',
+
+  'upload.chooseFile': 'Elige un archivo',
+  'upload.chooseFiles': 'Elige archivos',
+  'upload.dragAndDrop': 'o arrástralos aquí',
+  'upload.preparing': 'Preparando imágenes...',
+  'upload.processFailed': 'No se ha podido procesar este archivo.',
+  'upload.notImage': '{name} no es una imagen.',
+  'upload.heicUnsupported': '{name}: este navegador no puede abrir fotos HEIC. Ábrela en Safari o expórtala antes como JPEG (en iPhone: Ajustes › Cámara › Formatos › Más compatible).',
+  'upload.typeUnsupported': '{name}: tu navegador no puede leer imágenes {type}. Conviértela antes a JPEG o PNG.',
+  'upload.unknownType': 'desconocido',
+  'upload.encodeFailed': 'No se ha podido volver a codificar {name}.',
+  'upload.downscaled': 'Reducida de {from} a {to}.',
+  'upload.converted': 'Convertida de {from} a {to}.',
+  'upload.backgroundReplaced': 'Fondo sustituido por blanco liso.',
+  'upload.backgroundKept': 'El fondo no era lo bastante uniforme para quitarlo automáticamente.',
+  'upload.exifRemoved': 'Metadatos EXIF eliminados (datos de la cámara y ubicación GPS).',
+};
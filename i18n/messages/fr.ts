@@ -0,0 +1,541 @@
+import type { MessageCatalog } from '../index';
+
+export const fr: MessageCatalog = {
+  'header.tagline': 'Créez votre look signature avec l’IA',
+  'header.settings': 'Paramètres de génération',
+  'header.language': 'Langue',
+
+  'tabs.label': 'Sections du studio',
+  'tabs.tryon': 'Essayage virtuel',
+  'tabs.generate': 'Génération d’images',
+  'tabs.edit': 'Retouche d’images',
+  'tabs.wardrobe': 'Garde-robe',
+  'tabs.gallery': 'Galerie',
+
+  'tryOnMode.single': 'Un look',
+  'tryOnMode.batch': 'Série / Lookbook',
+  'tryOnMode.styleMe': 'Stylise-moi',
+
+  'request.colorAnalysis': 'Analyse des couleurs',
+  'request.itemRoles': 'Types de pièces',
+  'request.tryOn': 'Essayage virtuel',
+  'request.styleMe': 'Stylise-moi',
+  'request.generate': 'Génération d’image',
+  'request.analysis': 'Analyse Pro',
+  'request.itemCheck': 'Vérification des pièces',
+  'request.edit': 'Retouche d’image',
+  'request.chat': 'Discussion avec le styliste',
+  'request.stylistEdit': 'Retouche du styliste',
+  'request.replay': 'Rejeu de la recette',
+  'request.verdict': 'Verdict Pro',
+
+  'error.tryOnInputs': 'Importez au moins une pièce et décrivez la scène.',
+  'error.styleMeInputs': 'Importez au moins deux pièces et décrivez l’occasion, pour qu’il y ait un choix à faire.',
+  'error.generatePrompt': 'Saisissez une description pour générer une image.',
+  'error.editInputs': 'Générez d’abord une image, puis décrivez la retouche.',
+  'error.emptyMask': 'Peignez la zone à modifier ou désactivez la retouche par zone.',
+  'error.recipeItems': 'La recette a besoin d’au moins une pièce pour être rejouée.',
+  'error.gallerySave': 'Ce look n’a pas pu être enregistré dans votre galerie.',
+  'error.galleryBlocked': 'Ce look n’a pas été enregistré : un autre onglet StyleMix Studio utilise une ancienne version de vos données. Fermez-le et réessayez.',
+  'error.storageFull': 'Le stockage du navigateur est plein. Supprimez des looks enregistrés pour libérer de l’espace.',
+  'error.storageBlocked': 'Un autre onglet StyleMix Studio utilise une ancienne version de vos données. Fermez-le et réessayez.',
+  'error.storageUnavailable': 'IndexedDB n’est pas disponible dans ce navigateur.',
+  'error.imageDecode': 'Impossible de décoder l’image.',
+
+  'common.startOver': 'Recommencer',
+  'common.dismiss': 'Ignorer',
+  'common.optional': '(Facultatif)',
+  'common.cancel': 'Annuler',
+  'common.save': 'Enregistrer',
+  'common.delete': 'Supprimer',
+  'common.remove': 'Retirer',
+  'common.retry': 'Réessayer',
+  'common.tryAgain': 'Réessayer',
+  'common.download': 'Télécharger',
+  'common.item': 'Pièce {number}',
+  'common.look': 'Look {number}',
+
+  'locale.notSaved': 'Votre choix de langue s’applique jusqu’à la fermeture de la page ; ce navigateur ne nous a pas permis de l’enregistrer.',
+
+  'loading.mixing': 'Mélange des styles...',
+  'loading.warmingUp': 'Le styliste IA se prépare...',
+  'loading.draping': 'Drapé des tissus...',
+  'loading.lighting': 'Réglage de l’éclairage...',
+  'loading.perfecting': 'Finitions du look...',
+  'loading.patience': 'Cela peut prendre une minute, le style mérite un peu de patience !',
+  'loading.thinking': 'Réflexion...',
+  'loading.writingReport': 'Rédaction du rapport ({count} caractères pour le moment)...',
+
+  'stage.classifying': 'Détection du type des pièces',
+  'stage.uploading': 'Envoi des pièces',
+  'stage.generating': 'Génération',
+  'stage.verifying': 'Vérification de la présence de chaque pièce',
+  'stage.matching': 'Vérification de la ressemblance',
+  'stage.editing': 'Application de votre retouche',
+  'stage.analyzing': 'Analyse du look',
+  'stage.comparing': 'Comparaison des looks',
+  'stage.chatting': 'Question à votre styliste',
+  'stage.styling': 'Composition des tenues',
+  'stage.coloring': 'Recherche de vos couleurs',
+
+  'failure.input.title': 'Informations manquantes',
+  'failure.missingApiKey.title': 'Clé d’API requise',
+  'failure.missingApiKey.message': 'Aucune clé d’API Gemini valide n’est configurée.',
+  'failure.missingApiKey.action': 'Ajoutez GEMINI_API_KEY à .env.local et redémarrez le serveur proxy, ou définissez IMAGE_PROVIDER=mock pour travailler hors ligne.',
+  'failure.rateLimit.title': 'Limite de requêtes atteinte',
+  'failure.rateLimit.message': 'Le quota ou la limite de requêtes de l’API a été dépassé.',
+  'failure.rateLimit.action': 'Patientez une minute avant de réessayer, ou vérifiez le quota de votre offre d’API.',
+  'failure.network.title': 'Problème de connexion',
+  'failure.network.message': 'Le service d’IA est injoignable.',
+  'failure.network.action': 'Vérifiez votre connexion internet et réessayez.',
+  'failure.serviceUnavailable.title': 'Service indisponible',
+  'failure.serviceUnavailable.message': 'Le service d’IA est temporairement indisponible.',
+  'failure.serviceUnavailable.action': 'Le service est saturé. Réessayez dans quelques instants.',
+  'failure.safetyBlock.title': 'Bloqué par le filtre de sécurité',
+  'failure.safetyBlock.message': 'La requête a été bloquée par le filtre de sécurité ({reason}).',
+  'failure.safetyBlock.action': 'Reformulez la description ou utilisez d’autres images, puis réessayez.',
+  'failure.emptyResponse.title': 'Aucun résultat',
+  'failure.emptyResponse.message': 'Le modèle n’a renvoyé aucun résultat.',
+  'failure.emptyResponse.action': 'Essayez de reformuler ou de simplifier votre description.',
+  'failure.malformedResponse.title': 'Réponse inattendue',
+  'failure.malformedResponse.message': 'Le modèle a renvoyé une réponse dans un format inattendu.',
+  'failure.malformedResponse.action': 'Réessayez ; c’est généralement temporaire.',
+  'failure.timeout.title': 'Délai de la requête dépassé',
+  'failure.timeout.message': 'La requête ne s’est pas terminée en {seconds} secondes.',
+  'failure.timeout.action': 'Réessayez, ou simplifiez la requête.',
+  'failure.cancelled.title': 'Annulé',
+  'failure.cancelled.message': 'La requête a été annulée.',
+  'failure.invalidRequest.title': 'Requête non valide',
+  'failure.invalidRequest.message': 'Il manquait des champs obligatoires à la requête, ou certaines valeurs n’étaient pas valides.',
+  'failure.invalidRequest.action': 'Vérifiez vos saisies et réessayez.',
+  'failure.payloadTooLarge.title': 'Envoi trop volumineux',
+  'failure.payloadTooLarge.message': 'La requête a dépassé la limite d’envoi de {limit} Mo.',
+  'failure.payloadTooLarge.action': 'Utilisez moins d’images ou des images plus petites, puis réessayez.',
+  'failure.unknown.title': 'Une erreur s’est produite',
+  'failure.unknown.message': 'Une erreur inconnue s’est produite.',
+  'failure.unknown.action': 'Réessayez. Si le problème persiste, rechargez la page.',
+  'failure.proxyStatus': 'Le serveur proxy a répondu avec le code HTTP {status}.',
+
+  'variations.label': 'Nombre de variantes',
+
+  'recipe.import': 'Importer une recette de look…',
+  'recipe.loaded': 'Recette chargée',
+  'recipe.madeWith': 'Créée le {date} avec {model}',
+  'recipe.editsToReplay.one': '{count} retouche à rejouer',
+  'recipe.editsToReplay.other': '{count} retouches à rejouer',
+  'recipe.missing': 'Introuvable dans votre garde-robe et non incluse : {names}',
+  'recipe.replay': 'Rejouer la recette',
+  'recipe.notJson': 'Le fichier n’est pas un JSON valide.',
+  'recipe.notRecipe': 'Ce fichier n’est pas une recette de look StyleMix.',
+  'recipe.newerVersion': 'Cette recette a été créée avec une version plus récente de StyleMix (version de format {version}).',
+  'recipe.noPrompt': 'La recette n’a ni description de scène ni prompt.',
+  'recipe.noItems': 'La recette ne contient aucun vêtement.',
+  'recipe.itemField': 'Pièce {number}',
+  'recipe.modelPhotoField': 'Photo du modèle',
+  'recipe.imageUnnamed': '{field} : nom ou type manquant.',
+  'recipe.imageMissing': '{field} : ni intégrée ni référencée.',
+  'recipe.readFailed': 'Impossible de lire {name}.',
+
+  'tryon.itemsTitle': 'Importez vos pièces',
+  'tryon.itemsLabel': 'Importez des images de vos pièces : une robe, des chaussures, un sac...',
+  'tryon.removeBackgrounds': 'Retirer les fonds unis des photos produit',
+  'limits.tooManyItems': 'Utilisez au maximum {max} articles ici. Retirez-en pour continuer.',
+  'limits.tooLarge': 'Ces photos dépassent les {max} Mo qu’une requête peut transporter. Retirez-en ou utilisez des photos plus légères.',
+  'limits.itemsSkipped': 'Seuls {max} articles peuvent être ajoutés ; les autres ont été ignorés.',
+  'tryon.photoTitle': 'Importez votre photo',
+  'tryon.photoLabel': 'Envie de l’essayer vous-même ? Importez une photo en pied.',
+  'tryon.photoNote': 'Sinon, nous générerons un mannequin réaliste par IA.',
+  'tryon.photoAlt': 'Votre photo',
+  'tryon.referenceAlt': 'Photo de référence {number}',
+  'tryon.removeReference': 'Retirer la photo de référence {number}',
+  'tryon.analyzeColors': 'Analyser mes couleurs pour repérer les pièces qui ne me vont pas',
+  'tryon.preserveIdentity': 'Préserver ma ressemblance (visage, silhouette et teint)',
+  'tryon.identityPhotosLabel.one': 'Ajoutez jusqu’à {count} autre photo de vous.',
+  'tryon.identityPhotosLabel.other': 'Ajoutez jusqu’à {count} autres photos de vous.',
+  'tryon.identityPhotosNote': 'Différents angles et une vue nette de votre visage aident le résultat à vous ressembler.',
+  'tryon.autoRetryIdentity.one': 'Réessayer automatiquement si le résultat ne me ressemble pas (jusqu’à {count} essai de plus)',
+  'tryon.autoRetryIdentity.other': 'Réessayer automatiquement si le résultat ne me ressemble pas (jusqu’à {count} essais de plus)',
+  'tryon.sceneTitle': 'Décrivez la scène',
+  'tryon.scenePlaceholder': 'ex. « balade dans un parc au coucher du soleil », « café par un jour de pluie », « soirée sur un toit la nuit ».',
+  'tryon.proAnalysis': 'Activer l’analyse de mode Pro',
+  'tryon.detectRoles': 'Détecter le type des pièces non étiquetées avant de générer',
+  'tryon.verifyFidelity': 'Vérifier que chaque pièce apparaît dans le résultat',
+  'tryon.autoRegenerate.one': 'Régénérer automatiquement s’il manque des pièces (jusqu’à {count} essai de plus)',
+  'tryon.autoRegenerate.other': 'Régénérer automatiquement s’il manque des pièces (jusqu’à {count} essais de plus)',
+  'tryon.submit': 'Générer mon look',
+
+  'scene.aspect.location': 'Lieu',
+  'scene.aspect.timeOfDay': 'Moment de la journée',
+  'scene.aspect.lighting': 'Éclairage',
+  'scene.aspect.framing': 'Cadrage',
+  'scene.aspect.pose': 'Pose',
+  'scene.aspect.style': 'Style photographique',
+  'scene.option.location.studioWhite': 'Studio, fond blanc',
+  'scene.option.location.studioGrey': 'Studio, fond gris clair',
+  'scene.option.location.cityStreet': 'Rue animée',
+  'scene.option.location.oldTown': 'Rue pavée d’une vieille ville européenne',
+  'scene.option.location.interior': 'Intérieur moderne et minimaliste',
+  'scene.option.location.cafe': 'Café chaleureux',
+  'scene.option.location.rooftop': 'Toit-terrasse surplombant la ville',
+  'scene.option.location.park': 'Parc verdoyant',
+  'scene.option.location.beach': 'Plage de sable',
+  'scene.option.location.eveningVenue': 'Lieu de soirée élégant',
+  'scene.option.location.runway': 'Podium de défilé',
+  'scene.option.timeOfDay.earlyMorning': 'Tôt le matin',
+  'scene.option.timeOfDay.midday': 'Midi',
+  'scene.option.timeOfDay.goldenHour': 'Heure dorée',
+  'scene.option.timeOfDay.blueHour': 'Heure bleue',
+  'scene.option.timeOfDay.night': 'Nuit',
+  'scene.option.lighting.studio': 'Éclairage studio uniforme, sans ombres',
+  'scene.option.lighting.natural': 'Lumière naturelle douce et diffuse',
+  'scene.option.lighting.side': 'Éclairage latéral dramatique, ombres profondes',
+  'scene.option.lighting.backlight': 'Contre-jour chaud avec un léger liseré lumineux',
+  'scene.option.lighting.highKey': 'Éclairage lumineux en high-key',
+  'scene.option.lighting.lowKey': 'Éclairage sombre en low-key',
+  'scene.option.lighting.neon': 'Néons et lumières de la ville',
+  'scene.option.framing.fullBody': 'En pied, de la tête aux pieds',
+  'scene.option.framing.threeQuarter': 'Plan américain, à partir des genoux',
+  'scene.option.framing.waistUp': 'À partir de la taille',
+  'scene.option.framing.closeUp': 'Gros plan sur les détails de la tenue',
+  'scene.option.framing.wide': 'Plan large avec le décor',
+  'scene.option.pose.facingCamera': 'Debout, face à l’objectif',
+  'scene.option.pose.threeQuarterTurn': 'Debout, de trois quarts, détendu',
+  'scene.option.pose.walking': 'Marchant vers l’objectif',
+  'scene.option.pose.midStride': 'En pleine foulée, en mouvement',
+  'scene.option.pose.seated': 'Assis, décontracté',
+  'scene.option.pose.leaning': 'Adossé à un mur',
+  'scene.option.pose.overShoulder': 'Regard par-dessus l’épaule',
+  'scene.option.style.catalog': 'Catalogue e-commerce épuré',
+  'scene.option.style.editorial': 'Éditorial de magazine de mode',
+  'scene.option.style.streetStyle': 'Street style pris sur le vif',
+  'scene.option.style.cinematic': 'Image de film, faible profondeur de champ',
+  'scene.option.style.vintage': 'Pellicule 35 mm vintage',
+  'scene.option.style.luxury': 'Campagne de luxe',
+  'scene.preset.catalogWhite': 'Catalogue – blanc',
+  'scene.preset.catalogDetail': 'Catalogue – détail',
+  'scene.preset.streetStyle': 'Street style',
+  'scene.preset.goldenHour': 'Éditorial à l’heure dorée',
+  'scene.preset.evening': 'Soirée',
+  'scene.preset.resort': 'Croisière',
+  'scene.deletePreset': 'Supprimer le préréglage {name}',
+  'scene.showBuilder': 'Personnaliser avec l’assistant de description',
+  'scene.hideBuilder': 'Masquer l’assistant de description',
+  'scene.any': 'Indifférent',
+  'scene.details': 'Détails supplémentaires',
+  'scene.detailsPlaceholder': 'ex. « sans accessoires, couleurs de tissu fidèles »',
+  'scene.presetName': 'Nom du préréglage',
+  'scene.savePreset': 'Enregistrer le préréglage',
+  'scene.clear': 'Effacer',
+  'scene.share': 'Partager mes préréglages',
+  'scene.import': 'Importer des préréglages',
+  'scene.loadFailed': 'Impossible de charger vos préréglages.',
+  'scene.saveFailed': 'Impossible d’enregistrer le préréglage.',
+  'scene.deleteFailed': 'Impossible de supprimer le préréglage.',
+  'scene.importFailed': 'Impossible d’importer les préréglages.',
+  'scene.invalidFile': 'Ce fichier n’est pas un fichier de préréglages de scène StyleMix.',
+  'scene.notJson': 'Le fichier n’est pas un JSON valide.',
+  'scene.newerVersion': 'Ces préréglages ont été créés avec une version plus récente de StyleMix.',
+
+  'generate.promptTitle': 'Décrivez votre image',
+  'generate.promptPlaceholder': 'ex. « Une image photoréaliste d’un astronaute à cheval sur Mars. »',
+  'generate.aspectTitle': 'Choisissez le format',
+  'generate.aspect.square': 'Carré (1:1)',
+  'generate.aspect.landscape': 'Paysage (16:9)',
+  'generate.aspect.portrait': 'Portrait (9:16)',
+  'generate.aspect.standard': 'Standard (4:3)',
+  'generate.aspect.tall': 'Haut (3:4)',
+  'generate.submit': 'Générer l’image',
+
+  'editIntro.body': 'Pour commencer, créez d’abord une image dans les onglets « Essayage virtuel » ou « Génération d’images ». Votre image active apparaîtra dans le panneau des résultats, avec les outils de retouche.',
+
+  'output.title': 'Votre création',
+  'output.emptyTitle': 'Votre chef-d’œuvre vous attend',
+  'output.emptyBody': 'Les résultats s’afficheront ici.',
+  'output.imageAlt': 'Look généré',
+  'output.zoom': 'Agrandir',
+  'output.download': 'Télécharger l’image',
+  'output.export': 'Exporter le look',
+  'output.exportHint': 'Exporter un lookbook, une planche contact ou un fichier de paramètres',
+  'output.pin': 'Épingler pour comparer',
+  'output.pinned': 'Épinglé pour comparer',
+  'output.pinLimit': 'Vous pouvez comparer jusqu’à {count} looks',
+  'output.runAnalysis': 'Lancer l’analyse Pro de cette image',
+  'output.checkFidelity': 'Vérifier les pièces',
+  'output.saveRecipe': 'Enregistrer la recette du look',
+  'output.embedImages': 'inclure les images',
+  'output.embedImagesHint': 'Les pièces de la garde-robe sont référencées par identifiant dans tous les cas',
+  'output.lookReady': 'Look prêt.',
+  'output.lookReadyDescribed': 'Look prêt. {description}',
+  'output.analysisTitle': 'Analyse Pro',
+
+  'analysis.outOf': 'sur 10',
+  'analysis.palette': 'Palette de couleurs',
+  'analysis.items': 'Pièces',
+  'analysis.occasions': 'Adéquation aux occasions',
+  'analysis.rating': '{rating} / 5',
+  'analysis.improvements': 'Pistes d’amélioration',
+  'analysis.category.fit': 'Coupe',
+  'analysis.category.color': 'Couleur',
+  'analysis.category.accessories': 'Accessoires',
+  'analysis.category.footwear': 'Chaussures',
+  'analysis.category.layering': 'Superpositions',
+  'analysis.category.grooming': 'Soin et coiffure',
+  'analysis.category.styling': 'Stylisme',
+  'analysis.export': 'Exporter l’analyse en JSON',
+
+  'zoom.label': 'Look agrandi',
+  'zoom.imageAlt': 'Look généré agrandi',
+  'zoom.close': 'Fermer l’agrandissement',
+
+  'compare.pinnedCount': '{count} sur {max} épinglés',
+  'compare.open': 'Comparer',
+
+  'compare.title': 'Comparer les looks',
+  'compare.grid': 'Côte à côte',
+  'compare.slider': 'Curseur A/B',
+  'compare.resetZoom': 'Réinitialiser le zoom ({scale}×)',
+  'compare.requestVerdict': 'Obtenir le verdict Pro',
+  'compare.comparing': 'Comparaison...',
+  'compare.close': 'Fermer la comparaison',
+  'compare.sliderPosition': 'Position du curseur A/B',
+  'compare.lookAlt': 'Look {number} : {description}',
+  'compare.winner': 'Gagnant',
+  'compare.analysisScore': 'Note de l’analyse {score}',
+  'compare.verdictScore': 'Note du verdict {score} — {reason}',
+  'compare.unpin': 'Désépingler',
+  'compare.verdict': 'Verdict :',
+
+  'edit.title': 'Retouchez votre image',
+  'edit.placeholder': 'ex. « passer le fond en noir et blanc », « ajouter un filtre rétro »',
+  'edit.regionOnly': 'Retoucher uniquement une zone peinte',
+  'edit.brush': 'Pinceau',
+  'edit.erase': 'Gommer',
+  'edit.erasing': 'Gomme active',
+  'edit.clearMask': 'Effacer le masque',
+  'edit.maskNote': 'Tout ce qui est hors de la zone peinte est conservé au pixel près.',
+  'edit.apply': 'Appliquer la retouche',
+
+  'identity.likeness': '{percent} % de ressemblance',
+  'identity.faceNotVisible': 'Le visage n’est pas assez net dans le résultat pour vérifier la ressemblance.',
+  'identity.looksLikeYou': 'Vous ressemble · {likeness}',
+  'identity.drift': 'Ce résultat ne vous ressemble peut-être pas ({likeness}).',
+  'identity.changed': 'Modifié : {differences}.',
+
+  'palette.title': 'Palette {season}',
+  'palette.undertone.warm': 'sous-ton chaud',
+  'palette.undertone.cool': 'sous-ton froid',
+  'palette.undertone.neutral': 'sous-ton neutre',
+  'palette.skin': 'Peau',
+  'palette.hair': 'Cheveux',
+  'palette.eyes': 'Yeux',
+  'palette.wear': 'À porter',
+  'palette.avoid': 'À éviter',
+  'season.spring': 'printemps',
+  'season.summer': 'été',
+  'season.autumn': 'automne',
+  'season.winter': 'hiver',
+
+  'variants.hint': '{count} variantes — choisissez-en une à retoucher, télécharger ou analyser',
+  'variants.imageAlt': 'Variante {number} : {description}',
+
+  'role.top': 'Haut',
+  'role.bottom': 'Bas',
+  'role.dress': 'Robe',
+  'role.outerwear': 'Veste ou manteau',
+  'role.shoes': 'Chaussures',
+  'role.bag': 'Sac',
+  'role.jewelry': 'Bijoux',
+  'role.hat': 'Chapeau',
+
+  'items.clashes': 'Jure avec votre palette',
+  'items.remove': 'Retirer la pièce {number}',
+  'items.saveHint': 'Enregistrer dans la garde-robe',
+  'items.saveLabel': 'Enregistrer la pièce {number} dans la garde-robe',
+  'items.roleLabel': 'Type de la pièce {number}',
+  'items.roleAuto': 'Type : automatique',
+  'items.notesPlaceholder': 'Notes, ex. « porté ouvert »',
+  'items.notesLabel': 'Notes pour la pièce {number}',
+  'items.detectRoles.one': 'Détecter le type de {count} pièce non étiquetée',
+  'items.detectRoles.other': 'Détecter le type de {count} pièces non étiquetées',
+
+  'fidelity.title': 'Vérification des pièces',
+  'fidelity.found': '{found} pièces trouvées sur {total}',
+  'fidelity.faithful': 'Fidèle',
+  'fidelity.partial': 'Diffère',
+  'fidelity.missing': 'Absente',
+  'fidelity.confidence': 'Confiance du vérificateur',
+  'fidelity.differsIn': 'Diffère par : {aspects}',
+  'fidelity.color': 'couleur',
+  'fidelity.pattern': 'motif',
+  'fidelity.shape': 'forme',
+  'fidelity.regenerate': 'Régénérer le look',
+  'fidelity.unreported': 'Le vérificateur n’a rien indiqué pour cette pièce.',
+
+  'styleMe.count': 'Tenues à proposer',
+  'styleMe.pool.one': 'Choix parmi {count} pièce',
+  'styleMe.pool.other': 'Choix parmi {count} pièces',
+  'styleMe.suggest': 'Habille-moi',
+  'styleMe.suggestAgain': 'Proposer d’autres tenues',
+  'styleMe.select': 'Générer un essayage pour {title}',
+  'styleMe.untitled': 'Tenue {number}',
+  'styleMe.show': 'Afficher ce look',
+  'styleMe.generate.one': 'Générer l’essayage de {count} tenue',
+  'styleMe.generate.other': 'Générer l’essayage de {count} tenues',
+
+  'versions.title': 'Historique des versions',
+  'versions.tryon': 'Essayage',
+  'versions.generate': 'Générée',
+  'versions.edit': 'Retouche',
+  'versions.undo': 'Annuler',
+  'versions.undoHint': 'Annuler (Ctrl+Z)',
+  'versions.redo': 'Rétablir',
+  'versions.redoHint': 'Rétablir (Ctrl+Maj+Z)',
+  'versions.from': 'depuis {version}',
+  'versions.branching': 'Vous consultez une version antérieure. Une nouvelle retouche créera une branche à partir de {version} et conservera les versions suivantes.',
+
+  'gallery.title': 'Votre galerie',
+  'gallery.count': '{count} enregistrés',
+  'gallery.search': 'Rechercher par scène ou description...',
+  'gallery.usage': '{used} sur {quota} du stockage du navigateur utilisés',
+  'gallery.usageFull': ' — supprimez des looks anciens pour continuer à en enregistrer.',
+  'gallery.empty': 'Les looks que vous générez ou retouchez sont enregistrés ici automatiquement.',
+  'gallery.noMatches': 'Aucun look enregistré ne correspond à votre recherche.',
+  'gallery.savedLook': 'Look enregistré',
+  'gallery.tryOn': 'Essayer',
+  'gallery.edit': 'Retoucher',
+  'gallery.loadFailed': 'Impossible de charger la galerie.',
+  'gallery.deleteFailed': 'Impossible de supprimer le look.',
+
+  'batch.outfitsTitle': 'Tenues supplémentaires',
+  'batch.outfitsHint': 'La tenue 1 utilise les pièces ci-dessus. Chaque import ci-dessous devient une autre tenue.',
+  'batch.outfit': 'Tenue {number}',
+  'batch.outfitItemAlt': 'Pièce de la tenue',
+  'batch.outfitUpload': 'Importez en une fois toutes les pièces d’une autre tenue.',
+  'batch.scenesTitle': 'Scènes',
+  'batch.scenesPlaceholder': 'Une scène par ligne, ex.\nen promenade dans un parc au coucher du soleil\ncafé par un jour de pluie',
+  'batch.concurrency': 'Requêtes en parallèle',
+  'batch.combinations': 'Tenues × scènes : {outfits} × {scenes} = {looks} looks',
+  'batch.cancel': 'Annuler le lot',
+  'batch.run': 'Générer les looks',
+  'batch.runCount.one': 'Générer {count} look',
+  'batch.runCount.other': 'Générer {count} looks',
+  'batch.progress': '{finished} sur {total} terminés',
+  'batch.retryFailed': 'Relancer les échecs ({count})',
+  'batch.downloadAll': 'Tout télécharger',
+  'batch.open': 'Ouvrir dans le panneau de résultat',
+  'batch.resultAlt': 'Tenue {number} : {description}',
+  'batch.waiting': 'En attente...',
+  'batch.status.queued': 'en file',
+  'batch.status.running': 'en cours',
+  'batch.status.done': 'terminé',
+  'batch.status.failed': 'échec',
+  'batch.status.cancelled': 'annulé',
+
+  'wardrobe.title': 'Votre garde-robe',
+  'wardrobe.count.one': '{count} pièce',
+  'wardrobe.count.other': '{count} pièces',
+  'wardrobe.upload': 'Ajoutez les vêtements, chaussures et accessoires que vous réutilisez.',
+  'wardrobe.newItemAlt': 'Nouvelle pièce de la garde-robe',
+  'wardrobe.name': 'Nom',
+  'wardrobe.color': 'Couleur',
+  'wardrobe.brand': 'Marque',
+  'wardrobe.tags': 'Étiquettes, séparées par des virgules',
+  'wardrobe.discard': 'Ignorer la pièce',
+  'wardrobe.saveDrafts': 'Enregistrer {count} dans la garde-robe',
+  'wardrobe.search': 'Rechercher par nom, couleur, marque ou étiquette...',
+  'wardrobe.all': 'Tout',
+  'wardrobe.category.top': 'Hauts',
+  'wardrobe.category.bottom': 'Bas',
+  'wardrobe.category.shoes': 'Chaussures',
+  'wardrobe.category.accessory': 'Accessoires',
+  'wardrobe.empty': 'Les pièces enregistrées ici restent disponibles d’une session à l’autre.',
+  'wardrobe.noMatches': 'Aucune pièce ne correspond à vos filtres.',
+  'wardrobe.inTryOn': 'Dans l’essayage',
+  'wardrobe.use': 'Utiliser dans l’essayage',
+  'wardrobe.loadFailed': 'Impossible de charger votre garde-robe.',
+  'wardrobe.saveFailed': 'Impossible d’enregistrer dans votre garde-robe.',
+  'wardrobe.deleteFailed': 'Impossible de supprimer la pièce.',
+
+  'chat.title': 'Demandez à votre styliste',
+  'chat.intro': 'Les questions et les retouches suggérées restent associées à ce look, même après les avoir appliquées.',
+  'chat.starter.shoes': 'Quelles chaussures iraient mieux ?',
+  'chat.starter.blackTie': 'Est-ce adapté à un mariage en tenue de soirée ?',
+  'chat.starter.casual': 'Comment rendre ce look plus décontracté ?',
+  'chat.apply': 'Appliquer : {label}',
+  'chat.thinking': 'Votre styliste réfléchit...',
+  'chat.placeholder': 'Posez une question sur ce look...',
+  'chat.inputLabel': 'Message à votre styliste',
+  'chat.send': 'Envoyer',
+
+  'export.title': 'Exporter le look',
+  'export.intro': 'Partagez le look avec vos clients ou conservez-en une trace reproductible.',
+  'export.close': 'Fermer l’export',
+  'export.imageAlt': 'Look à exporter',
+  'export.formats': 'Formats',
+  'export.pdf': 'Lookbook PDF',
+  'export.pdfDescription': 'Le look, sa scène, les pièces d’origine et l’analyse Pro sur des pages imprimables.',
+  'export.pdfUnavailable': 'Indisponible pour ce look : le PDF ne peut afficher que du texte en alphabet latin. Exportez plutôt la planche contact PNG.',
+  'export.png': 'Planche contact PNG',
+  'export.pngDescription': 'Une seule image avec le look, les miniatures d’origine et les points clés de l’analyse.',
+  'export.json': 'Fichier JSON annexe',
+  'export.jsonDescription': 'Tous les paramètres de génération, pour pouvoir reproduire le look plus tard.',
+  'export.contents': 'Contenu',
+  'export.includeAnalysis': 'Inclure l’analyse Pro',
+  'export.includeAnalysisUnavailable': 'Inclure l’analyse Pro (lancez d’abord une analyse)',
+  'export.includeItems': 'Inclure les miniatures des pièces d’origine',
+  'export.embedImages': 'Intégrer les images au fichier JSON annexe',
+  'export.submit': 'Exporter',
+  'export.exporting': 'Export...',
+  'export.failed': 'L’export a échoué.',
+  'lookbook.title': 'Lookbook StyleMix',
+  'lookbook.sheetTitle': 'Look StyleMix',
+  'lookbook.prompt': 'Prompt',
+  'lookbook.scene': 'Scène',
+  'lookbook.edits': 'Retouches',
+  'lookbook.sourceItems': 'Pièces d’origine',
+  'lookbook.modelPhoto': 'Photo du modèle',
+  'lookbook.readFailed': 'Impossible de lire le fichier.',
+  'lookbook.encodeFailed': 'Impossible d’encoder l’image pour le PDF.',
+  'lookbook.renderFailed': 'Impossible de générer la planche contact.',
+
+  'settings.title': 'Réglages de génération',
+  'settings.intro': 'Enregistrés dans ce navigateur et appliqués à chaque nouvelle requête.',
+  'settings.close': 'Fermer les réglages',
+  'settings.models': 'Modèles',
+  'settings.model.tryOn': 'Essayage virtuel',
+  'settings.model.edit': 'Retouche d’image',
+  'settings.model.textToImage': 'Texte vers image',
+  'settings.model.analysis': 'Analyse Pro, vérifications et discussion avec le styliste',
+  'settings.model.classify': 'Détection du type des pièces et texte alternatif',
+  'settings.analysis': 'Analyse',
+  'settings.thinkingBudget': 'Budget de réflexion (jetons)',
+  'settings.dynamicBudget': 'Laisser le modèle décider',
+  'settings.minBudget': 'Ce modèle ne peut pas désactiver la réflexion ; le plus petit budget accepté est de {count} jetons.',
+  'settings.localizedOutput': 'Rédiger l’analyse Pro, les réponses du styliste et le texte alternatif dans la langue de l’interface',
+  'settings.imageOutput': 'Sortie image',
+  'settings.outputFormat': 'Format de sortie',
+  'settings.outputFormatNote': 'Les modèles texte vers image l’appliquent directement ; les modèles d’essayage et de retouche peuvent l’ignorer.',
+  'settings.fixedSeed': 'Utiliser une graine fixe pour des résultats reproductibles',
+  'settings.seed': 'Graine',
+  'settings.randomize': 'Aléatoire',
+  'settings.seedNote': 'Les variantes restent différentes les unes des autres ; chacune reçoit son propre décalage de graine.',
+  'settings.negativePrompt': 'À éviter dans les images générées',
+  'settings.negativePromptPlaceholder': 'ex. « flou, filigrane, mains déformées »',
+  'settings.reset': 'Rétablir les valeurs par défaut',
+
+  'upload.chooseFile': 'Choisir un fichier',
+  'upload.chooseFiles': 'Choisir des fichiers',
+  'upload.dragAndDrop': 'ou glissez-déposez',
+  'upload.preparing': 'Préparation des images...',
+  'upload.processFailed': 'Impossible de traiter ce fichier.',
+  'upload.notImage': '{name} n’est pas une image.',
+  'upload.heicUnsupported': '{name} : ce navigateur ne peut pas ouvrir les photos HEIC. Ouvrez-la dans Safari ou exportez-la d’abord en JPEG (sur iPhone : Réglages › Appareil photo › Formats › Le plus compatible).',
+  'upload.typeUnsupported': '{name} : votre navigateur ne peut pas lire les images {type}. Convertissez-la d’abord en JPEG ou PNG.',
+  'upload.unknownType': 'inconnu',
+  'upload.encodeFailed': '{name} n’a pas pu être réencodée.',
+  'upload.downscaled': 'Réduite de {from} à {to}.',
+  'upload.converted': 'Convertie de {from} en {to}.',
+  'upload.backgroundReplaced': 'Arrière-plan remplacé par un blanc uni.',
+  'upload.backgroundKept': 'L’arrière-plan n’était pas assez uniforme pour être retiré automatiquement.',
+  'upload.exifRemoved': 'Métadonnées EXIF supprimées (informations de l’appareil et position GPS).',
+};
@@ -0,0 +1,52 @@
+import type { PromptTemplates } from './index';
+
+// English prompts, which every model call uses unless a translation is registered for the output
+// language. `{name}` marks a value filled in by the provider. Bump `version` whenever the wording
+// changes, so results can be traced back to the prompts that produced them.
+export const en: PromptTemplates = {
+  version: '2026-10-19.2',
+
+  tryOnScene: 'Generate a photorealistic image of a person in the following scene: "{scene}". ',
+  tryOnUserPhoto: 'The person in the image should be the person from the provided user photo, wearing the following items. Blend the items naturally onto the person.',
+  tryOnModel: 'The person should be an AI-generated model, wearing the following items. The items should look natural on the model.',
+  tryOnIdentity: " Preserve the person's identity exactly: keep the same face, facial features and expression, skin tone, hair, age, body shape and proportions. Do not beautify, slim, reshape or otherwise alter the person; only their clothing and the scene may change.",
+  tryOnIdentityReference: ' The user photo is followed by 1 more reference photo of the same person; use it only to get the likeness right, not for pose or clothing.',
+  tryOnIdentityReferences: ' The user photo is followed by {count} more reference photos of the same person; use them only to get the likeness right, not for pose or clothing.',
+  tryOnItemLabels: ' Each item image below is preceded by a label saying what the item is and how it is worn. Include every item, each in its labelled place, without swapping or leaving any out.',
+  avoid: ' Avoid the following: {terms}.',
+
+  itemLabel: 'Item {number}: {placement}.',
+  itemUnknownPlacement: 'a clothing item or accessory; work out where it is worn from the image',
+  itemStylingNotes: ' Styling notes: {notes}.',
+
+  analyzeLook: 'You are a world-class fashion stylist. Provide a detailed, professional fashion analysis of the outfit shown in the image, considering the described scene: "{scene}". Rate the overall look and each visible item, extract the outfit\'s color palette as hex codes, rate its suitability for a range of occasions including the described scene, and suggest categorized improvements or alternative accessories.',
+  analyzePalette: ' The wearer has a {undertone}-undertone {season} color palette. Colors that flatter them: {bestColors}. Colors that clash with their coloring: {avoidColors}. Judge the outfit\'s colors against this palette and suggest palette-friendly alternatives where they clash.',
+
+  compareLooks: 'You are a world-class fashion stylist. Compare the following {count} looks. Each image is preceded by its number and intended scene. Rank every look, pick the strongest one, and give a concise comparative verdict covering style, color coordination and suitability for each scene.',
+  compareLookLabel: 'Look {number} — scene: "{scene}"',
+  unspecifiedScene: 'unspecified',
+
+  verifyLook: 'You are checking a virtual try-on for fidelity. The first image is the generated look. It is followed by the {count} item images that were supposed to appear in it, each with a label. For every item, say whether it is visible in the generated look and whether its color, pattern and shape match the item image. Be strict: a similar but different garment does not count as present.',
+
+  checkIdentity: "You are checking whether a virtual try-on kept the person's likeness. The first image is a reference photo of a person; the last image is the generated try-on. Judge only identity — face, facial features, skin tone, hair, age and body shape — and ignore clothing, pose, lighting and background.",
+  checkIdentityMultiple: "You are checking whether a virtual try-on kept the person's likeness. The first {count} images are reference photos of a person; the last image is the generated try-on. Judge only identity — face, facial features, skin tone, hair, age and body shape — and ignore clothing, pose, lighting and background.",
+
+  stylistSystem: 'You are a world-class personal stylist chatting with a client about the outfit in their image. Answer their questions directly and specifically about this look, in a friendly tone and a few sentences. When a change to the image would help, propose it as an edit the client can apply; each edit prompt must stand on its own and say what to keep unchanged.',
+  stylistContext: 'This is the look we are discussing. The image below shows it as it is now; edits may have been applied since earlier messages.',
+  stylistContextScene: 'This is the look we are discussing, intended for: "{scene}". The image below shows it as it is now; edits may have been applied since earlier messages.',
+
+  recommendOutfit: 'You are a world-class personal stylist. Below is a pool of {itemCount} clothing items and accessories, each preceded by a numbered label. Put together the best outfit for this occasion: "{scene}". The outfit should be complete and coherent — wearable together, with at most one item per body area unless layering. Explain the choice.',
+  recommendOutfits: 'You are a world-class personal stylist. Below is a pool of {itemCount} clothing items and accessories, each preceded by a numbered label. Put together the {count} best outfits for this occasion: "{scene}". Each outfit should be complete and coherent — wearable together, with at most one item per body area unless layering — and the outfits should differ meaningfully from each other. Order them from best to least suitable and explain each choice.',
+
+  analyzeColors: "You are an expert personal color analyst. From the photo, identify the person's skin tone, hair color and eye color, their undertone, and which seasonal color palette they belong to. Then list the clothing colors that flatter them and the ones to avoid. Allow for the photo's lighting.",
+  analyzeColorsHint: ' Colors sampled from around the face, most common first, which may include background: {colors}.',
+
+  editMasked: 'The second image is a mask for the first. Apply the following edit ONLY inside the white area of the mask and keep everything in the black area exactly as it is: {instruction}',
+
+  classifyItems: 'Each of the following {count} product images shows a clothing item or accessory. For each image, in order, say which role it plays in an outfit, or "none" if it is not something that is worn or carried.',
+  classifyImageLabel: 'Image {number}',
+
+  describeImage: 'Write alt text for this fashion image for someone using a screen reader. In one or two sentences and under {maxLength} characters, describe the person\'s outfit (garments, colors, notable details) and the setting. Do not start with "Image of" or "Photo of". Return only the alt text.',
+
+  outputLanguage: ' Write all free text in your answer in {language}. Keep JSON field names, enum values, numbers and hex codes exactly as specified.',
+};
@@ -0,0 +1,75 @@
+import { en } from './en';
+import { localeInfo, type Locale } from '../i18n/locales';
+
+// Every prompt the providers send, kept out of the provider code so the wording can be reviewed,
+// translated and versioned on its own.
+export interface PromptTemplates {
+  version: string;
+
+  tryOnScene: string;
+  tryOnUserPhoto: string;
+  tryOnModel: string;
+  tryOnIdentity: string;
+  tryOnIdentityReference: string;
+  tryOnIdentityReferences: string;
+  tryOnItemLabels: string;
+  avoid: string;
+
+  itemLabel: string;
+  itemUnknownPlacement: string;
+  itemStylingNotes: string;
+
+  analyzeLook: string;
+  analyzePalette: string;
+
+  compareLooks: string;
+  compareLookLabel: string;
+  unspecifiedScene: string;
+
+  verifyLook: string;
+
+  checkIdentity: string;
+  checkIdentityMultiple: string;
+
+  stylistSystem: string;
+  stylistContext: string;
+  stylistContextScene: string;
+
+  recommendOutfit: string;
+  recommendOutfits: string;
+
+  analyzeColors: string;
+  analyzeColorsHint: string;
+
+  editMasked: string;
+
+  classifyItems: string;
+  classifyImageLabel: string;
+
+  describeImage: string;
+
+  // Appended to text-producing prompts when the answer should be in another language.
+  outputLanguage: string;
+}
+
+export type PromptKey = Exclude<keyof PromptTemplates, 'version'>;
+
+// Prompts written in the output language. Languages without one get the English prompts plus the
+// outputLanguage instruction, which the models follow well.
+const TRANSLATED_PROMPTS: Partial<Record<Locale, PromptTemplates>> = { en };
+
+export const promptsFor = (language?: Locale): PromptTemplates =>
+  (language && TRANSLATED_PROMPTS[language]) || en;
+
+export const PROMPTS_VERSION = en.version;
+
+// Fills `{name}` placeholders. Unknown placeholders are left in place so mistakes show up in the prompt.
+export const fillPrompt = (template: string, values: Record<string, string | number> = {}): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in values ? String(values[name]) : placeholder);
+
+// The outputLanguage instruction for `language`, or nothing for English and when no language was asked for.
+export const languageInstruction = (language?: Locale): string => {
+  if (!language || language === 'en') return '';
+  const templates = promptsFor(language);
+  return templates === en ? fillPrompt(en.outputLanguage, { language: localeInfo(language).englishName }) : '';
+};
@@ -0,0 +1,42 @@
+import { existsSync } from "node:fs";
+import { createGeminiProvider } from "../services/geminiProvider";
+import { createMockProvider } from "../services/mockProvider";
+import { createProxyServer, DEFAULT_MAX_BODY_BYTES } from "./proxyServer";
+import { DEFAULT_RATE_LIMIT } from "./rateLimiter";
+
+// Entry point for `npm run server`. Configuration comes from the environment, with
+// .env.local loaded first so the same file serves the app and the proxy.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// `--stub` (or PROXY_UPSTREAM=stub) serves deterministic placeholder results without calling Gemini.
+const useStub = process.argv.includes('--stub') || process.env.PROXY_UPSTREAM?.trim().toLowerCase() === 'stub';
+const upstream = useStub ? createMockProvider({ latencyMs: 0 }) : createGeminiProvider(process.env.GEMINI_API_KEY);
+const port = numberFromEnv('PORT', 8787);
+
+const server = createProxyServer({
+  upstream,
+  rateLimit: {
+    capacity: numberFromEnv('RATE_LIMIT_BURST', DEFAULT_RATE_LIMIT.capacity),
+    refillPerMinute: numberFromEnv('RATE_LIMIT_PER_MINUTE', DEFAULT_RATE_LIMIT.refillPerMinute),
+  },
+  maxBodyBytes: numberFromEnv('MAX_BODY_MB', DEFAULT_MAX_BODY_BYTES / (1024 * 1024)) * 1024 * 1024,
+  allowedOrigin: process.env.ALLOWED_ORIGIN || undefined,
+  trustProxy: process.env.TRUST_PROXY === 'true',
+  allowedModels: (process.env.ALLOWED_MODELS ?? '').split(',').map(model => model.trim()).filter(Boolean),
+});
+
+server.listen(port, () => {
+  console.log(`StyleMix proxy listening on http://localhost:${port} (upstream: ${useStub ? 'stub' : 'gemini'})`);
+  if (!useStub && !process.env.GEMINI_API_KEY) {
+    console.warn('GEMINI_API_KEY is not set; requests will fail until it is added to .env.local.');
+  }
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,204 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AnalyzeLookRequest, ImageProvider } from "../services/imageProvider";
+import { MAX_REQUEST_BYTES, PROXY_ROUTES, serializeError, type AnalysisStreamEvent } from "../services/proxyProtocol";
+import { InvalidRequestError, PayloadTooLargeError, RateLimitError } from "../services/errors";
+import { createRateLimiter, DEFAULT_RATE_LIMIT, type RateLimitOptions } from "./rateLimiter";
+import { PROMPTS_VERSION } from "../prompts";
+import { parseGenerateLook, parseEditImage, parseGenerateImages, parseAnalyzeLook, parseCompareLooks, parseVerifyLook, parseCheckIdentity, parseStylistChat, parseRecommendOutfits, parseAnalyzeColors, parseClassifyItems, parseDescribeImage } from "./validation";
+
+export interface ProxyServerOptions {
+  // Backend that actually serves the requests: Gemini in production, the mock for local testing.
+  upstream: ImageProvider;
+  rateLimit?: RateLimitOptions;
+  maxBodyBytes?: number;
+  // Origin allowed to call the proxy cross-site; unset when the app is served from the same origin.
+  allowedOrigin?: string;
+  // Identify clients by X-Forwarded-For, for deployments behind a reverse proxy.
+  trustProxy?: boolean;
+  // Models clients may select in their settings; empty allows any.
+  allowedModels?: string[];
+}
+
+export const DEFAULT_MAX_BODY_BYTES = MAX_REQUEST_BYTES;
+
+interface RouteContext {
+  upstream: ImageProvider;
+  signal: AbortSignal;
+  allowedModels: string[];
+}
+
+type RouteHandler = (body: unknown, context: RouteContext) => Promise<object>;
+
+const ROUTES: Record<string, RouteHandler> = {
+  [PROXY_ROUTES.generateLook]: async (body, { upstream, signal, allowedModels }) =>
+    ({ image: await upstream.generateLook({ ...parseGenerateLook(body, allowedModels), signal }) }),
+  [PROXY_ROUTES.editImage]: async (body, { upstream, signal, allowedModels }) =>
+    ({ image: await upstream.editImage({ ...parseEditImage(body, allowedModels), signal }) }),
+  [PROXY_ROUTES.generateImages]: async (body, { upstream, signal, allowedModels }) =>
+    ({ images: await upstream.generateImageFromText({ ...parseGenerateImages(body, allowedModels), signal }) }),
+  [PROXY_ROUTES.analyzeLook]: async (body, { upstream, signal, allowedModels }) =>
+    ({ analysis: await upstream.analyzeLook({ ...parseAnalyzeLook(body, allowedModels), signal }) }),
+  [PROXY_ROUTES.compareLooks]: async (body, { upstream, signal, allowedModels }) =>
+    ({ comparison: await upstream.compareLooks({ ...parseCompareLooks(body, allowedModels), signal }) }),
+  [PROXY_ROUTES.verifyLook]: async (body, { upstream, signal, allowedModels }) =>
+    ({ report: await upstream.verifyLook({ ...parseVerifyLook(body, allowedModels), signal }) }),
+  [PROXY_ROUTES.checkIdentity]: async (body, { upstream, signal, allowedModels }) =>
+    ({ check: await upstream.checkIdentity({ ...parseCheckIdentity(body, allowedModels), signal }) }),
+  [PROXY_ROUTES.stylistChat]: async (body, { upstream, signal, allowedModels }) =>
+    ({ reply: await upstream.chatWithStylist({ ...parseStylistChat(body, allowedModels), signal }) }),
+  [PROXY_ROUTES.recommendOutfits]: async (body, { upstream, signal, allowedModels }) =>
+    ({ outfits: await upstream.recommendOutfits({ ...parseRecommendOutfits(body, allowedModels), signal }) }),
+  [PROXY_ROUTES.analyzeColors]: async (body, { upstream, signal, allowedModels }) =>
+    ({ palette: await upstream.analyzeColors({ ...parseAnalyzeColors(body, allowedModels), signal }) }),
+  [PROXY_ROUTES.classifyItems]: async (body, { upstream, signal, allowedModels }) =>
+    ({ roles: await upstream.classifyItems({ ...parseClassifyItems(body, allowedModels), signal }) }),
+  [PROXY_ROUTES.describeImage]: async (body, { upstream, signal, allowedModels }) =>
+    ({ description: await upstream.describeImage({ ...parseDescribeImage(body, allowedModels), signal }) }),
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Streams a Pro analysis as newline-delimited JSON. The request is validated before this is
+// called, so anything that fails from here on is reported in-band.
+const streamAnalysis = async (res: ServerResponse, request: AnalyzeLookRequest, upstream: ImageProvider, signal: AbortSignal) => {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache', 'X-Accel-Buffering': 'no' });
+  const send = (event: AnalysisStreamEvent) => {
+    if (!res.destroyed) res.write(`${JSON.stringify(event)}\n`);
+  };
+  const sent = { thoughts: 0, answer: 0 };
+  try {
+    const analysis = await upstream.analyzeLook({
+      ...request,
+      signal,
+      onProgress: ({ thoughts, answer }) => {
+        send({ delta: { thoughts: thoughts.slice(sent.thoughts), answer: answer.slice(sent.answer) } });
+        sent.thoughts = thoughts.length;
+        sent.answer = answer.length;
+      },
+    });
+    send({ analysis });
+  } catch (e) {
+    const { status, body } = serializeError(e);
+    if (status >= 500) console.error(`POST ${PROXY_ROUTES.analyzeLookStream} failed:`, e);
+    send({ ...body, status });
+  }
+  res.end();
+};
+
+// Buffers the body, giving up as soon as it passes the limit instead of holding it all in memory.
+const readJson = (req: IncomingMessage, limitBytes: number) => new Promise<unknown>((resolve, reject) => {
+  if (Number(req.headers['content-length']) > limitBytes) {
+    req.resume();
+    reject(new PayloadTooLargeError(limitBytes));
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > limitBytes) {
+      req.off('data', onData);
+      req.resume();
+      reject(new PayloadTooLargeError(limitBytes));
+      return;
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('error', reject);
+  req.on('end', () => {
+    if (size > limitBytes) return;
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new InvalidRequestError('The request body is not valid JSON.'));
+    }
+  });
+});
+
+export const createProxyServer = ({
+  upstream,
+  rateLimit = DEFAULT_RATE_LIMIT,
+  maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+  allowedOrigin,
+  trustProxy = false,
+  allowedModels = [],
+}: ProxyServerOptions) => {
+  const limiter = createRateLimiter(rateLimit);
+  const pruneTimer = setInterval(limiter.prune, 60000);
+  pruneTimer.unref();
+
+  const clientId = (req: IncomingMessage) => {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+    return (trustProxy && first) || req.socket.remoteAddress || 'unknown';
+  };
+
+  const server = createServer(async (req, res) => {
+    if (allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+      res.setHeader('Vary', 'Origin');
+    }
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (req.method === 'OPTIONS' && allowedOrigin) {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Max-Age': '600',
+      });
+      res.end();
+      return;
+    }
+    if (req.method === 'GET' && path === '/api/health') {
+      sendJson(res, 200, { ok: true, upstream: upstream.name, prompts: PROMPTS_VERSION });
+      return;
+    }
+    const handler = ROUTES[path];
+    const isStream = path === PROXY_ROUTES.analyzeLookStream;
+    if (!handler && !isStream) {
+      sendJson(res, 404, serializeError(new InvalidRequestError(`Unknown endpoint ${req.method} ${path}.`)).body);
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, serializeError(new InvalidRequestError(`${path} only accepts POST.`)).body, { Allow: 'POST' });
+      return;
+    }
+
+    // Checked before reading the body so rejected clients cannot make us buffer uploads.
+    const waitMs = limiter.take(clientId(req));
+    if (waitMs > 0) {
+      const { status, body } = serializeError(new RateLimitError('Too many requests from this client.', waitMs));
+      sendJson(res, status, body, { 'Retry-After': String(Math.ceil(waitMs / 1000)) });
+      req.resume();
+      return;
+    }
+
+    // Stop the upstream call if the browser goes away (cancel button, closed tab, client timeout).
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+      const body = await readJson(req, maxBodyBytes);
+      if (isStream) {
+        await streamAnalysis(res, parseAnalyzeLook(body, allowedModels), upstream, controller.signal);
+        return;
+      }
+      sendJson(res, 200, await handler(body, { upstream, signal: controller.signal, allowedModels }));
+    } catch (e) {
+      const { status, body } = serializeError(e);
+      if (status >= 500) console.error(`${req.method} ${path} failed:`, e);
+      if (!res.destroyed) {
+        sendJson(res, status, body, status === 413 ? { Connection: 'close' } : {});
+      }
+    }
+  });
+
+  server.on('close', () => clearInterval(pruneTimer));
+  return server;
+};
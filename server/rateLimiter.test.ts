@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+// A limiter on a clock the test moves by hand.
+const setup = (capacity = 2, refillPerMinute = 6) => {
+  let time = 0;
+  const limiter = createRateLimiter({ capacity, refillPerMinute }, () => time);
+  return { limiter, advance: (ms: number) => { time += ms; } };
+};
+
+describe('createRateLimiter', () => {
+  it('allows a burst up to the capacity', () => {
+    const { limiter } = setup();
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBe(0);
+    // Six tokens a minute is one every ten seconds.
+    expect(limiter.take('a')).toBe(10000);
+  });
+
+  it('refills over time', () => {
+    const { limiter, advance } = setup();
+    limiter.take('a');
+    limiter.take('a');
+    advance(4000);
+    expect(limiter.take('a')).toBe(6000);
+    advance(6000);
+    expect(limiter.take('a')).toBe(0);
+  });
+
+  it('never refills beyond the capacity', () => {
+    const { limiter, advance } = setup();
+    advance(60 * 60000);
+    expect(limiter.take('a', 2)).toBe(0);
+    expect(limiter.take('a')).toBeGreaterThan(0);
+  });
+
+  it('keeps a bucket per client', () => {
+    const { limiter } = setup(1);
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBeGreaterThan(0);
+    expect(limiter.take('b')).toBe(0);
+  });
+
+  it('charges the given cost', () => {
+    const { limiter } = setup(4);
+    expect(limiter.take('a', 3)).toBe(0);
+    expect(limiter.take('a', 3)).toBe(20000);
+  });
+
+  it('keeps limiting clients across a prune', () => {
+    const { limiter, advance } = setup(1);
+    limiter.take('a');
+    limiter.prune();
+    expect(limiter.take('a')).toBe(10000);
+    advance(10000);
+    limiter.prune();
+    expect(limiter.take('a')).toBe(0);
+  });
+});
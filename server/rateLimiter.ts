@@ -0,0 +1,53 @@
+export interface RateLimitOptions {
+  // Requests a client may make in a burst.
+  capacity: number;
+  // Sustained rate once the burst is used up.
+  refillPerMinute: number;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimitOptions = {
+  capacity: 10,
+  refillPerMinute: 20,
+};
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Per-client token buckets. `take` returns 0 when the request may proceed, otherwise the
+// number of milliseconds until the client has a token again.
+export const createRateLimiter = ({ capacity, refillPerMinute }: RateLimitOptions, now: () => number = Date.now) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = refillPerMinute / 60000;
+
+  const refill = (bucket: Bucket, time: number) => {
+    bucket.tokens = Math.min(capacity, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = time;
+  };
+
+  const take = (clientId: string, cost = 1): number => {
+    const time = now();
+    const bucket = buckets.get(clientId) ?? { tokens: capacity, updatedAt: time };
+    buckets.set(clientId, bucket);
+    refill(bucket, time);
+    if (bucket.tokens >= cost) {
+      bucket.tokens -= cost;
+      return 0;
+    }
+    return Math.ceil((cost - bucket.tokens) / refillPerMs);
+  };
+
+  // Drops clients whose buckets have refilled completely, so idle clients do not accumulate.
+  const prune = () => {
+    const time = now();
+    for (const [clientId, bucket] of buckets) {
+      refill(bucket, time);
+      if (bucket.tokens >= capacity) buckets.delete(clientId);
+    }
+  };
+
+  return { take, prune };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
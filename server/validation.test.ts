@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidRequestError } from '../services/errors';
+import { parseAnalyzeColors, parseGenerateImages, parseGenerateLook, parseStylistChat } from './validation';
+
+const image = { data: 'iVBORw0KGgo=', mimeType: 'image/png' };
+
+const generateLook = (overrides: Record<string, unknown> = {}) => ({
+  itemImages: [image],
+  userImage: null,
+  sceneDescription: 'A sunny street.',
+  ...overrides,
+});
+
+describe('parseGenerateLook', () => {
+  it('accepts a minimal request', () => {
+    expect(parseGenerateLook(generateLook())).toEqual({
+      itemImages: [{ ...image, role: undefined, notes: undefined }],
+      userImage: null,
+      sceneDescription: 'A sunny street.',
+      variant: undefined,
+      preserveIdentity: undefined,
+      identityReferences: undefined,
+      options: undefined,
+    });
+  });
+
+  it('keeps item roles and notes', () => {
+    const { itemImages } = parseGenerateLook(generateLook({ itemImages: [{ ...image, role: 'top', notes: 'Tucked in' }] }));
+    expect(itemImages[0]).toMatchObject({ role: 'top', notes: 'Tucked in' });
+  });
+
+  it.each([
+    ['a non-object body', null, '"body" must be an object.'],
+    ['no item images', generateLook({ itemImages: [] }), '"itemImages" must be a list of 1 to 10 entries.'],
+    ['too many item images', generateLook({ itemImages: Array(11).fill(image) }), '"itemImages" must be a list of 1 to 10 entries.'],
+    ['a non-image MIME type', generateLook({ itemImages: [{ ...image, mimeType: 'text/html' }] }), '"itemImages[0].mimeType" must be an image MIME type.'],
+    ['data that is not base64', generateLook({ userImage: { ...image, data: 'not base64!' } }), '"userImage.data" must be base64 image data.'],
+    ['an unknown item role', generateLook({ itemImages: [{ ...image, role: 'cape' }] }), '"itemImages[0].role" is not a known item role.'],
+    ['a blank scene', generateLook({ sceneDescription: '   ' }), '"sceneDescription" must be a non-empty string.'],
+    ['an overlong scene', generateLook({ sceneDescription: 'x'.repeat(4001) }), '"sceneDescription" must be at most 4000 characters.'],
+    ['a variant out of range', generateLook({ variant: 4 }), '"variant" must be a whole number from 0 to 3.'],
+  ])('rejects %s', (_, body, message) => {
+    expect(() => parseGenerateLook(body)).toThrow(new InvalidRequestError(message));
+  });
+});
+
+describe('model options', () => {
+  const withOptions = (options: unknown, allowedModels?: string[]) =>
+    parseGenerateLook(generateLook({ options }), allowedModels).options;
+
+  it('passes valid overrides through', () => {
+    const options = { model: 'gemini-2.5-flash', thinkingBudget: 0, outputMimeType: 'image/png', seed: 42, negativePrompt: '', language: 'fr' };
+    expect(withOptions(options)).toEqual(options);
+  });
+
+  it('only allows the models enabled on the server', () => {
+    expect(withOptions({ model: 'gemini-2.5-flash' }, ['gemini-2.5-flash'])).toEqual({ model: 'gemini-2.5-flash' });
+    expect(() => withOptions({ model: 'gemini-2.5-pro' }, ['gemini-2.5-flash']))
+      .toThrow('The model "gemini-2.5-pro" is not enabled on this server.');
+  });
+
+  it('enforces the minimum thinking budget of models that cannot turn thinking off', () => {
+    expect(withOptions({ model: 'gemini-2.5-pro', thinkingBudget: -1 })).toEqual({ model: 'gemini-2.5-pro', thinkingBudget: -1 });
+    expect(() => withOptions({ model: 'gemini-2.5-pro', thinkingBudget: 0 }))
+      .toThrow('"options.thinkingBudget" must be -1 or at least 128 for this model.');
+    // Without a model, the budget is checked against the analysis model, which is a Pro model.
+    expect(() => withOptions({ thinkingBudget: 64 })).toThrow(InvalidRequestError);
+  });
+
+  it.each([
+    [{ model: 'bad model name' }, '"options.model" is not a valid model name.'],
+    [{ thinkingBudget: 1.5 }, '"options.thinkingBudget" must be a whole number from -1 to 32768.'],
+    [{ outputMimeType: 'image/gif' }, '"options.outputMimeType" must be image/jpeg or image/png.'],
+    [{ seed: -1 }, '"options.seed" must be a whole number from 0 to 2147483647.'],
+    [{ language: 'de' }, '"options.language" is not a supported language.'],
+  ])('rejects %j', (options, message) => {
+    expect(() => withOptions(options)).toThrow(new InvalidRequestError(message));
+  });
+});
+
+describe('parseGenerateImages', () => {
+  it('rejects unsupported aspect ratios', () => {
+    expect(() => parseGenerateImages({ prompt: 'A coat', aspectRatio: '2:1', numberOfImages: 1 }))
+      .toThrow('"aspectRatio" is not a supported aspect ratio.');
+  });
+
+  it('limits the number of images', () => {
+    expect(() => parseGenerateImages({ prompt: 'A coat', aspectRatio: '1:1', numberOfImages: 5 }))
+      .toThrow('"numberOfImages" must be a whole number from 1 to 4.');
+  });
+});
+
+describe('parseStylistChat', () => {
+  const chat = (messages: unknown[]) => ({ image, sceneDescription: '', messages });
+
+  it('defaults to no items', () => {
+    expect(parseStylistChat(chat([{ role: 'user', text: 'Does this work?' }])).items).toEqual([]);
+  });
+
+  it('requires the last message to be from the user', () => {
+    expect(() => parseStylistChat(chat([{ role: 'user', text: 'Hi' }, { role: 'stylist', text: 'Hello' }])))
+      .toThrow('The last of "messages" must be from the user.');
+  });
+
+  it('rejects unknown roles', () => {
+    expect(() => parseStylistChat(chat([{ role: 'system', text: 'Hi' }])))
+      .toThrow('"messages[0].role" must be "user" or "stylist".');
+  });
+});
+
+describe('parseAnalyzeColors', () => {
+  it('requires sampled colors to be hex codes', () => {
+    expect(parseAnalyzeColors({ image, sampledColors: ['#A1B2C3'] }).sampledColors).toEqual(['#A1B2C3']);
+    expect(() => parseAnalyzeColors({ image, sampledColors: ['red'] }))
+      .toThrow('"sampledColors[0]" must be a hex color such as "#A1B2C3".');
+  });
+});
@@ -0,0 +1,303 @@
+import type { AspectRatio, ChatTurn, ColorSeason, OutputMimeType, PersonalPalette, Undertone } from "../types";
+import type { InlineImage, ModelOptions, TryOnItemImage } from "../services/imageProvider";
+import { MAX_CHAT_TURNS, MAX_ITEM_IMAGES, MAX_POOL_ITEMS, MAX_PROMPT_LENGTH, type ProxyRequests } from "../services/proxyProtocol";
+import { InvalidRequestError } from "../services/errors";
+import { isItemRole } from "../services/itemRoles";
+import { GEMINI_MODELS, minThinkingBudget } from "../services/models";
+import { isLocale } from "../i18n/locales";
+
+// Request bodies arrive as untrusted JSON; these turn them into provider requests or throw
+// InvalidRequestError with a message naming the offending field.
+
+const MAX_RECOMMENDED_OUTFITS = 4;
+const MAX_COMPARED_LOOKS = 4;
+// The main user photo plus up to three more of the same person.
+const MAX_IDENTITY_REFERENCES = 4;
+const MAX_IMAGES_PER_REQUEST = 4;
+const IMAGE_MIME_TYPE = /^image\/[\w.+-]+$/;
+const ASPECT_RATIOS = new Set<AspectRatio>(['1:1', '3:4', '4:3', '9:16', '16:9']);
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+const MODEL_NAME = /^[\w./-]{1,128}$/;
+const OUTPUT_MIME_TYPES = new Set<OutputMimeType>(['image/jpeg', 'image/png']);
+const MAX_THINKING_BUDGET = 32768;
+const MAX_SEED = 2 ** 31 - 1;
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/;
+const COLOR_SEASONS = new Set<ColorSeason>(['spring', 'summer', 'autumn', 'winter']);
+const UNDERTONES = new Set<Undertone>(['warm', 'cool', 'neutral']);
+const MAX_SAMPLED_COLORS = 12;
+const MAX_PALETTE_COLORS = 16;
+
+type Json = Record<string, unknown>;
+
+const asObject = (value: unknown, field: string): Json => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new InvalidRequestError(`"${field}" must be an object.`);
+  }
+  return value as Json;
+};
+
+const asText = (value: unknown, field: string, { allowEmpty = false } = {}): string => {
+  if (typeof value !== 'string' || (!allowEmpty && !value.trim())) {
+    throw new InvalidRequestError(`"${field}" must be a non-empty string.`);
+  }
+  if (value.length > MAX_PROMPT_LENGTH) {
+    throw new InvalidRequestError(`"${field}" must be at most ${MAX_PROMPT_LENGTH} characters.`);
+  }
+  return value;
+};
+
+const asImage = (value: unknown, field: string): InlineImage => {
+  const { data, mimeType } = asObject(value, field);
+  if (typeof mimeType !== 'string' || !IMAGE_MIME_TYPE.test(mimeType)) {
+    throw new InvalidRequestError(`"${field}.mimeType" must be an image MIME type.`);
+  }
+  if (typeof data !== 'string' || !BASE64.test(data)) {
+    throw new InvalidRequestError(`"${field}.data" must be base64 image data.`);
+  }
+  return { data, mimeType };
+};
+
+const MAX_NOTES_LENGTH = 200;
+
+const asTryOnItem = (value: unknown, field: string): TryOnItemImage => {
+  const image = asImage(value, field);
+  const { role, notes } = value as Json;
+  if (role != null && !isItemRole(role)) throw new InvalidRequestError(`"${field}.role" is not a known item role.`);
+  if (notes != null && (typeof notes !== 'string' || notes.length > MAX_NOTES_LENGTH)) {
+    throw new InvalidRequestError(`"${field}.notes" must be a string of at most ${MAX_NOTES_LENGTH} characters.`);
+  }
+  return { ...image, role: isItemRole(role) ? role : undefined, notes: typeof notes === 'string' && notes ? notes : undefined };
+};
+
+const asArray = (value: unknown, field: string, min: number, max: number): unknown[] => {
+  if (!Array.isArray(value) || value.length < min || value.length > max) {
+    throw new InvalidRequestError(`"${field}" must be a list of ${min} to ${max} entries.`);
+  }
+  return value;
+};
+
+const asBoolean = (value: unknown, field: string): boolean => {
+  if (typeof value !== 'boolean') throw new InvalidRequestError(`"${field}" must be true or false.`);
+  return value;
+};
+
+const asCount = (value: unknown, field: string, max: number): number => {
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > max) {
+    throw new InvalidRequestError(`"${field}" must be a whole number from 1 to ${max}.`);
+  }
+  return value as number;
+};
+
+const asIndex = (value: unknown, field: string, size: number): number => {
+  if (!Number.isInteger(value) || (value as number) < 0 || (value as number) >= size) {
+    throw new InvalidRequestError(`"${field}" must be a whole number from 0 to ${size - 1}.`);
+  }
+  return value as number;
+};
+
+const asHexColor = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !HEX_COLOR.test(value)) throw new InvalidRequestError(`"${field}" must be a hex color such as "#A1B2C3".`);
+  return value;
+};
+
+const asSwatches = (value: unknown, field: string) =>
+  asArray(value, field, 0, MAX_PALETTE_COLORS).map((swatch, i) => {
+    const { name, hex } = asObject(swatch, `${field}[${i}]`);
+    return { name: asText(name, `${field}[${i}].name`), hex: asHexColor(hex, `${field}[${i}].hex`) };
+  });
+
+// A personal color analysis the client got from analyzeColors and sends back with later requests.
+const asPalette = (value: unknown): PersonalPalette => {
+  const json = asObject(value, 'palette');
+  if (!COLOR_SEASONS.has(json.season as ColorSeason)) throw new InvalidRequestError('"palette.season" is not a known season.');
+  if (!UNDERTONES.has(json.undertone as Undertone)) throw new InvalidRequestError('"palette.undertone" must be warm, cool or neutral.');
+  return {
+    season: json.season as ColorSeason,
+    undertone: json.undertone as Undertone,
+    skinTone: asHexColor(json.skinTone, 'palette.skinTone'),
+    hairColor: asHexColor(json.hairColor, 'palette.hairColor'),
+    eyeColor: asHexColor(json.eyeColor, 'palette.eyeColor'),
+    bestColors: asSwatches(json.bestColors, 'palette.bestColors'),
+    avoidColors: asSwatches(json.avoidColors, 'palette.avoidColors'),
+    summary: asText(json.summary, 'palette.summary', { allowEmpty: true }),
+  };
+};
+
+// Settings-panel overrides. `allowedModels`, when non-empty, restricts which models clients may pick.
+const asModelOptions = (value: unknown, allowedModels: string[]): ModelOptions | undefined => {
+  if (value == null) return undefined;
+  const { model, thinkingBudget, outputMimeType, seed, negativePrompt, language } = asObject(value, 'options');
+  const options: ModelOptions = {};
+  if (model != null) {
+    if (typeof model !== 'string' || !MODEL_NAME.test(model)) throw new InvalidRequestError('"options.model" is not a valid model name.');
+    if (allowedModels.length > 0 && !allowedModels.includes(model)) {
+      throw new InvalidRequestError(`The model "${model}" is not enabled on this server.`);
+    }
+    options.model = model;
+  }
+  if (thinkingBudget != null) {
+    if (!Number.isInteger(thinkingBudget) || (thinkingBudget as number) < -1 || (thinkingBudget as number) > MAX_THINKING_BUDGET) {
+      throw new InvalidRequestError(`"options.thinkingBudget" must be a whole number from -1 to ${MAX_THINKING_BUDGET}.`);
+    }
+    // Thinking budgets only apply to the analysis operations, so that is the model used when none is named.
+    const minBudget = minThinkingBudget(options.model ?? GEMINI_MODELS.analysis);
+    if (thinkingBudget !== -1 && (thinkingBudget as number) < minBudget) {
+      throw new InvalidRequestError(`"options.thinkingBudget" must be -1 or at least ${minBudget} for this model.`);
+    }
+    options.thinkingBudget = thinkingBudget as number;
+  }
+  if (outputMimeType != null) {
+    if (!OUTPUT_MIME_TYPES.has(outputMimeType as OutputMimeType)) throw new InvalidRequestError('"options.outputMimeType" must be image/jpeg or image/png.');
+    options.outputMimeType = outputMimeType as OutputMimeType;
+  }
+  if (seed != null) {
+    if (!Number.isInteger(seed) || (seed as number) < 0 || (seed as number) > MAX_SEED) {
+      throw new InvalidRequestError(`"options.seed" must be a whole number from 0 to ${MAX_SEED}.`);
+    }
+    options.seed = seed as number;
+  }
+  if (negativePrompt != null) options.negativePrompt = asText(negativePrompt, 'options.negativePrompt', { allowEmpty: true });
+  if (language != null) {
+    if (!isLocale(language)) throw new InvalidRequestError('"options.language" is not a supported language.');
+    options.language = language;
+  }
+  return options;
+};
+
+export const parseGenerateLook = (body: unknown, allowedModels: string[] = []): ProxyRequests['generateLook'] => {
+  const json = asObject(body, 'body');
+  return {
+    itemImages: asArray(json.itemImages, 'itemImages', 1, MAX_ITEM_IMAGES).map((image, i) => asTryOnItem(image, `itemImages[${i}]`)),
+    userImage: json.userImage == null ? null : asImage(json.userImage, 'userImage'),
+    sceneDescription: asText(json.sceneDescription, 'sceneDescription'),
+    variant: json.variant == null ? undefined : asIndex(json.variant, 'variant', MAX_IMAGES_PER_REQUEST),
+    preserveIdentity: json.preserveIdentity == null ? undefined : asBoolean(json.preserveIdentity, 'preserveIdentity'),
+    identityReferences: json.identityReferences == null
+      ? undefined
+      : asArray(json.identityReferences, 'identityReferences', 0, MAX_IDENTITY_REFERENCES - 1).map((image, i) => asImage(image, `identityReferences[${i}]`)),
+    options: asModelOptions(json.options, allowedModels),
+  };
+};
+
+export const parseEditImage = (body: unknown, allowedModels: string[] = []): ProxyRequests['editImage'] => {
+  const json = asObject(body, 'body');
+  return {
+    image: asImage(json.image, 'image'),
+    editPrompt: asText(json.editPrompt, 'editPrompt'),
+    mask: json.mask == null ? undefined : asImage(json.mask, 'mask'),
+    options: asModelOptions(json.options, allowedModels),
+  };
+};
+
+export const parseGenerateImages = (body: unknown, allowedModels: string[] = []): ProxyRequests['generateImages'] => {
+  const json = asObject(body, 'body');
+  if (!ASPECT_RATIOS.has(json.aspectRatio as AspectRatio)) {
+    throw new InvalidRequestError('"aspectRatio" is not a supported aspect ratio.');
+  }
+  return {
+    prompt: asText(json.prompt, 'prompt'),
+    aspectRatio: json.aspectRatio as AspectRatio,
+    numberOfImages: asCount(json.numberOfImages, 'numberOfImages', MAX_IMAGES_PER_REQUEST),
+    options: asModelOptions(json.options, allowedModels),
+  };
+};
+
+export const parseAnalyzeLook = (body: unknown, allowedModels: string[] = []): ProxyRequests['analyzeLook'] => {
+  const json = asObject(body, 'body');
+  return {
+    image: asImage(json.image, 'image'),
+    sceneDescription: asText(json.sceneDescription, 'sceneDescription', { allowEmpty: true }),
+    palette: json.palette == null ? undefined : asPalette(json.palette),
+    options: asModelOptions(json.options, allowedModels),
+  };
+};
+
+export const parseCompareLooks = (body: unknown, allowedModels: string[] = []): ProxyRequests['compareLooks'] => {
+  const json = asObject(body, 'body');
+  return {
+    looks: asArray(json.looks, 'looks', 2, MAX_COMPARED_LOOKS).map((look, i) => {
+      const entry = asObject(look, `looks[${i}]`);
+      return {
+        image: asImage(entry.image, `looks[${i}].image`),
+        sceneDescription: asText(entry.sceneDescription, `looks[${i}].sceneDescription`, { allowEmpty: true }),
+      };
+    }),
+    options: asModelOptions(json.options, allowedModels),
+  };
+};
+
+export const parseVerifyLook = (body: unknown, allowedModels: string[] = []): ProxyRequests['verifyLook'] => {
+  const json = asObject(body, 'body');
+  return {
+    image: asImage(json.image, 'image'),
+    items: asArray(json.items, 'items', 1, MAX_ITEM_IMAGES).map((item, i) => asTryOnItem(item, `items[${i}]`)),
+    options: asModelOptions(json.options, allowedModels),
+  };
+};
+
+export const parseCheckIdentity = (body: unknown, allowedModels: string[] = []): ProxyRequests['checkIdentity'] => {
+  const json = asObject(body, 'body');
+  return {
+    references: asArray(json.references, 'references', 1, MAX_IDENTITY_REFERENCES).map((image, i) => asImage(image, `references[${i}]`)),
+    image: asImage(json.image, 'image'),
+    options: asModelOptions(json.options, allowedModels),
+  };
+};
+
+const asChatTurn = (value: unknown, field: string): ChatTurn => {
+  const { role, text } = asObject(value, field);
+  if (role !== 'user' && role !== 'stylist') throw new InvalidRequestError(`"${field}.role" must be "user" or "stylist".`);
+  return { role, text: asText(text, `${field}.text`) };
+};
+
+export const parseStylistChat = (body: unknown, allowedModels: string[] = []): ProxyRequests['stylistChat'] => {
+  const json = asObject(body, 'body');
+  const messages = asArray(json.messages, 'messages', 1, MAX_CHAT_TURNS).map((message, i) => asChatTurn(message, `messages[${i}]`));
+  if (messages[messages.length - 1].role !== 'user') {
+    throw new InvalidRequestError('The last of "messages" must be from the user.');
+  }
+  return {
+    image: asImage(json.image, 'image'),
+    items: json.items == null ? [] : asArray(json.items, 'items', 0, MAX_ITEM_IMAGES).map((item, i) => asTryOnItem(item, `items[${i}]`)),
+    sceneDescription: asText(json.sceneDescription, 'sceneDescription', { allowEmpty: true }),
+    messages,
+    options: asModelOptions(json.options, allowedModels),
+  };
+};
+
+export const parseRecommendOutfits = (body: unknown, allowedModels: string[] = []): ProxyRequests['recommendOutfits'] => {
+  const json = asObject(body, 'body');
+  return {
+    items: asArray(json.items, 'items', 2, MAX_POOL_ITEMS).map((item, i) => asTryOnItem(item, `items[${i}]`)),
+    sceneDescription: asText(json.sceneDescription, 'sceneDescription'),
+    count: asCount(json.count, 'count', MAX_RECOMMENDED_OUTFITS),
+    options: asModelOptions(json.options, allowedModels),
+  };
+};
+
+export const parseAnalyzeColors = (body: unknown, allowedModels: string[] = []): ProxyRequests['analyzeColors'] => {
+  const json = asObject(body, 'body');
+  return {
+    image: asImage(json.image, 'image'),
+    sampledColors: json.sampledColors == null
+      ? []
+      : asArray(json.sampledColors, 'sampledColors', 0, MAX_SAMPLED_COLORS).map((color, i) => asHexColor(color, `sampledColors[${i}]`)),
+    options: asModelOptions(json.options, allowedModels),
+  };
+};
+
+export const parseClassifyItems = (body: unknown, allowedModels: string[] = []): ProxyRequests['classifyItems'] => {
+  const json = asObject(body, 'body');
+  return {
+    images: asArray(json.images, 'images', 1, MAX_ITEM_IMAGES).map((image, i) => asImage(image, `images[${i}]`)),
+    options: asModelOptions(json.options, allowedModels),
+  };
+};
+
+export const parseDescribeImage = (body: unknown, allowedModels: string[] = []): ProxyRequests['describeImage'] => {
+  const json = asObject(body, 'body');
+  return {
+    image: asImage(json.image, 'image'),
+    options: asModelOptions(json.options, allowedModels),
+  };
+};
@@ -0,0 +1,23 @@
+import { colorDistance } from '../utils/colorSampling';
+import type { ColorSeason, PersonalPalette } from '../types';
+import type { MessageKey } from '../i18n';
+
+export const SEASON_LABELS: Record<ColorSeason, MessageKey> = {
+  spring: 'season.spring',
+  summer: 'season.summer',
+  autumn: 'season.autumn',
+  winter: 'season.winter',
+};
+
+// How close (CIE76 ΔE) an item color must be to a color to avoid before it counts as clashing.
+const CLASH_DISTANCE = 25;
+
+// Colors that sit near one of the palette's colors to avoid, and nearer to it than to any flattering one.
+export const clashingColors = (colors: string[], palette: PersonalPalette): string[] => {
+  const nearest = (swatches: PersonalPalette['bestColors'], color: string) =>
+    Math.min(...swatches.map(swatch => colorDistance(color, swatch.hex)));
+  return colors.filter(color => {
+    const avoid = nearest(palette.avoidColors, color);
+    return avoid < CLASH_DISTANCE && avoid < nearest(palette.bestColors, color);
+  });
+};
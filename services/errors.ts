@@ -0,0 +1,170 @@
+// Typed failures surfaced by the service layer. Providers translate backend-specific
+// errors into these so the UI can react per kind instead of showing raw messages.
+
+import { t, type MessageKey, type MessageParams } from '../i18n';
+
+export type StudioErrorKind =
+  | 'missing-api-key'
+  | 'rate-limit'
+  | 'network'
+  | 'service-unavailable'
+  | 'safety-block'
+  | 'empty-response'
+  | 'malformed-response'
+  | 'timeout'
+  | 'cancelled'
+  | 'invalid-request'
+  | 'payload-too-large'
+  | 'unknown';
+
+// A standard message, translated where the error is raised. The key travels with the error so the
+// proxy's failures are shown in the browser's language rather than the server's.
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export class StudioError extends Error {
+  readonly kind: StudioErrorKind;
+  // Whether repeating the same request may succeed.
+  readonly retryable: boolean;
+  readonly localized?: LocalizedMessage;
+
+  constructor(kind: StudioErrorKind, message: string | LocalizedMessage, { retryable = false, cause }: { retryable?: boolean; cause?: unknown } = {}) {
+    super(typeof message === 'string' ? message : t(message.key, message.params), { cause });
+    this.name = 'StudioError';
+    this.kind = kind;
+    this.retryable = retryable;
+    if (typeof message !== 'string') this.localized = message;
+  }
+}
+
+export class MissingApiKeyError extends StudioError {
+  constructor(message: string | LocalizedMessage = { key: 'failure.missingApiKey.message' }, cause?: unknown) {
+    super('missing-api-key', message, { cause });
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class RateLimitError extends StudioError {
+  // Server-suggested wait before retrying, when known.
+  readonly retryAfterMs?: number;
+
+  constructor(message: string | LocalizedMessage = { key: 'failure.rateLimit.message' }, retryAfterMs?: number, cause?: unknown) {
+    super('rate-limit', message, { retryable: true, cause });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class NetworkError extends StudioError {
+  constructor(message: string | LocalizedMessage = { key: 'failure.network.message' }, cause?: unknown) {
+    super('network', message, { retryable: true, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class ServiceUnavailableError extends StudioError {
+  constructor(message: string | LocalizedMessage = { key: 'failure.serviceUnavailable.message' }, cause?: unknown) {
+    super('service-unavailable', message, { retryable: true, cause });
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+export class SafetyBlockError extends StudioError {
+  readonly blockReason: string;
+
+  constructor(blockReason: string, message: string | LocalizedMessage = { key: 'failure.safetyBlock.message', params: { reason: blockReason } }) {
+    super('safety-block', message);
+    this.name = 'SafetyBlockError';
+    this.blockReason = blockReason;
+  }
+}
+
+export class EmptyResponseError extends StudioError {
+  constructor(message: string | LocalizedMessage = { key: 'failure.emptyResponse.message' }) {
+    super('empty-response', message);
+    this.name = 'EmptyResponseError';
+  }
+}
+
+export class MalformedResponseError extends StudioError {
+  constructor(message: string | LocalizedMessage = { key: 'failure.malformedResponse.message' }, cause?: unknown) {
+    super('malformed-response', message, { retryable: true, cause });
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export class TimeoutError extends StudioError {
+  constructor(timeoutMs: number) {
+    super('timeout', { key: 'failure.timeout.message', params: { seconds: Math.round(timeoutMs / 1000) } }, { retryable: true });
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancelledError extends StudioError {
+  constructor() {
+    super('cancelled', { key: 'failure.cancelled.message' });
+    this.name = 'CancelledError';
+  }
+}
+
+export class InvalidRequestError extends StudioError {
+  constructor(message: string | LocalizedMessage = { key: 'failure.invalidRequest.message' }) {
+    super('invalid-request', message);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+export class PayloadTooLargeError extends StudioError {
+  constructor(limitBytes: number) {
+    super('payload-too-large', { key: 'failure.payloadTooLarge.message', params: { limit: Math.round(limitBytes / (1024 * 1024)) } });
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError' ||
+  error instanceof Error && error.name === 'AbortError';
+
+// Normalizes anything thrown by a provider or the browser into a StudioError.
+export const toStudioError = (error: unknown): StudioError => {
+  if (error instanceof StudioError) return error;
+  if (isAbortError(error)) return new CancelledError();
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) {
+    return new NetworkError(undefined, error);
+  }
+  if (error instanceof Error) return new StudioError('unknown', error.message, { cause: error });
+  return new StudioError('unknown', { key: 'failure.unknown.message' }, { cause: error });
+};
+
+export interface ErrorDescription {
+  title: MessageKey;
+  message: string;
+  // What the user can do about it.
+  action: MessageKey | null;
+}
+
+// Message keys for the user-facing copy of each kind of failure; the UI translates them.
+const FAILURE_COPY: Record<StudioErrorKind, Omit<ErrorDescription, 'message'>> = {
+  'missing-api-key': { title: 'failure.missingApiKey.title', action: 'failure.missingApiKey.action' },
+  'rate-limit': { title: 'failure.rateLimit.title', action: 'failure.rateLimit.action' },
+  'network': { title: 'failure.network.title', action: 'failure.network.action' },
+  'service-unavailable': { title: 'failure.serviceUnavailable.title', action: 'failure.serviceUnavailable.action' },
+  'safety-block': { title: 'failure.safetyBlock.title', action: 'failure.safetyBlock.action' },
+  'empty-response': { title: 'failure.emptyResponse.title', action: 'failure.emptyResponse.action' },
+  'malformed-response': { title: 'failure.malformedResponse.title', action: 'failure.malformedResponse.action' },
+  'timeout': { title: 'failure.timeout.title', action: 'failure.timeout.action' },
+  'cancelled': { title: 'failure.cancelled.title', action: null },
+  'invalid-request': { title: 'failure.invalidRequest.title', action: 'failure.invalidRequest.action' },
+  'payload-too-large': { title: 'failure.payloadTooLarge.title', action: 'failure.payloadTooLarge.action' },
+  'unknown': { title: 'failure.unknown.title', action: 'failure.unknown.action' },
+};
+
+export const describeError = (error: unknown): ErrorDescription => {
+  if (typeof error === 'string') {
+    return { title: 'failure.input.title', message: error, action: null };
+  }
+  const studioError = toStudioError(error);
+  return { ...FAILURE_COPY[studioError.kind], message: studioError.message };
+};
@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import { MalformedResponseError } from './errors';
+import {
+  InvalidAnalysisError,
+  parseFashionAnalysis,
+  parseFidelityReport,
+  parseIdentityCheck,
+  parseLookComparison,
+  parseOutfitProposals,
+  parsePersonalPalette,
+  parseStylistReply,
+} from './fashionAnalysis';
+
+describe('parseFashionAnalysis', () => {
+  const analysis = {
+    summary: ' A sharp look. ',
+    overallScore: 8,
+    items: [{ name: 'Blazer', notes: 'Well cut', score: 9 }],
+    colorPalette: [{ name: 'Navy', hex: '#1a2b3c' }],
+    occasionRatings: [{ occasion: 'Office', rating: 5, comment: 'Ideal' }],
+    improvements: [{ category: 'footwear', suggestion: 'Try loafers.' }],
+  };
+
+  it('parses a JSON string', () => {
+    expect(parseFashionAnalysis(JSON.stringify(analysis))).toEqual({
+      ...analysis,
+      summary: 'A sharp look.',
+      colorPalette: [{ name: 'Navy', hex: '#1A2B3C' }],
+    });
+  });
+
+  it('clamps scores and ratings into range', () => {
+    const parsed = parseFashionAnalysis({
+      ...analysis,
+      overallScore: 14,
+      items: [{ name: 'Blazer', notes: '', score: -3 }],
+      occasionRatings: [{ occasion: 'Office', rating: 0, comment: '' }],
+    });
+    expect(parsed.overallScore).toBe(10);
+    expect(parsed.items[0].score).toBe(0);
+    expect(parsed.occasionRatings[0].rating).toBe(1);
+  });
+
+  it('drops unusable entries instead of failing', () => {
+    const parsed = parseFashionAnalysis({
+      ...analysis,
+      items: [{ name: '', notes: 'Nameless', score: 5 }, 'not an object'],
+      colorPalette: [{ name: 'Bad', hex: 'blue' }, { hex: 'abc' }],
+      improvements: [{ category: 'posture', suggestion: 'Stand tall.' }, { category: 'fit', suggestion: '' }],
+    });
+    expect(parsed.items).toEqual([]);
+    expect(parsed.colorPalette).toEqual([{ name: '#AABBCC', hex: '#AABBCC' }]);
+    expect(parsed.improvements).toEqual([{ category: 'styling', suggestion: 'Stand tall.' }]);
+  });
+
+  it.each([
+    ['invalid JSON', '{', 'the response was not valid JSON.'],
+    ['a non-object', [], 'expected a JSON object.'],
+    ['a missing summary', { ...analysis, summary: ' ' }, '"summary" is missing.'],
+    ['a missing score', { ...analysis, overallScore: '8' }, '"overallScore" must be a number.'],
+    ['a list that is not an array', { ...analysis, items: {} }, '"items" must be an array.'],
+  ])('rejects %s', (_, raw, message) => {
+    expect(() => parseFashionAnalysis(raw)).toThrow(`The fashion analysis was malformed: ${message}`);
+  });
+
+  it('reports failures as retryable malformed responses', () => {
+    const error = new InvalidAnalysisError('"summary" is missing.');
+    expect(error).toBeInstanceOf(MalformedResponseError);
+    expect(error).toMatchObject({ kind: 'malformed-response', retryable: true });
+  });
+});
+
+describe('parseLookComparison', () => {
+  it('sorts rankings and drops those for looks that were not compared', () => {
+    const parsed = parseLookComparison({
+      verdict: 'Look 2 wins.',
+      winnerIndex: 1,
+      rankings: [
+        { index: 0, score: 6, reason: 'Fine' },
+        { index: 1, score: 9, reason: 'Great' },
+        { index: 2, score: 10, reason: 'Imagined' },
+      ],
+    }, 2);
+    expect(parsed.rankings.map(ranking => ranking.index)).toEqual([1, 0]);
+  });
+
+  it('rejects a winner that was not compared', () => {
+    expect(() => parseLookComparison({ verdict: 'Look 3.', winnerIndex: 2, rankings: [] }, 2))
+      .toThrow('"winnerIndex" does not refer to a compared look.');
+  });
+});
+
+describe('parseFidelityReport', () => {
+  it('reports skipped items as missing', () => {
+    const { checks } = parseFidelityReport({
+      checks: [{ itemNumber: 2, present: true, colorMatch: true, patternMatch: false, shapeMatch: true, confidence: 1.5, notes: 'Stripes lost' }],
+    }, 2);
+    expect(checks[0]).toMatchObject({ index: 0, present: false, confidence: 0, unreported: true });
+    expect(checks[1]).toEqual({ index: 1, present: true, colorMatch: true, patternMatch: false, shapeMatch: true, confidence: 1, notes: 'Stripes lost' });
+  });
+
+  it('does not count matches for items that are not present', () => {
+    const { checks } = parseFidelityReport({
+      checks: [{ itemNumber: 1, present: false, colorMatch: true, patternMatch: true, shapeMatch: true, confidence: 0.9, notes: '' }],
+    }, 1);
+    expect(checks[0]).toMatchObject({ colorMatch: false, patternMatch: false, shapeMatch: false });
+  });
+});
+
+describe('parseIdentityCheck', () => {
+  it('clamps the similarity and cleans up differences', () => {
+    expect(parseIdentityCheck({ faceVisible: true, similarity: 1.2, differences: [' hairline ', '', 3] }))
+      .toEqual({ faceVisible: true, similarity: 1, differences: ['hairline'] });
+  });
+
+  it('requires a similarity', () => {
+    expect(() => parseIdentityCheck({ faceVisible: true, differences: [] })).toThrow('"similarity" must be a number.');
+  });
+});
+
+describe('parseStylistReply', () => {
+  it('cuts overlong replies to the length a chat message may have', () => {
+    const { text } = parseStylistReply({ text: 'word '.repeat(1000), edits: [] });
+    expect(text).toHaveLength(4000);
+    expect(text.endsWith('word…')).toBe(true);
+  });
+
+  it('keeps at most three edits with instructions', () => {
+    const edits = [
+      { label: '', prompt: 'Swap the shoes.' },
+      { label: 'Nothing', prompt: '' },
+      { label: 'Belt', prompt: 'Add a belt.' },
+      { label: 'Hat', prompt: 'Add a hat.' },
+      { label: 'Scarf', prompt: 'Add a scarf.' },
+    ];
+    expect(parseStylistReply({ text: 'Try these.', edits }).edits).toEqual([
+      { label: 'Swap the shoes.', prompt: 'Swap the shoes.' },
+      { label: 'Belt', prompt: 'Add a belt.' },
+      { label: 'Hat', prompt: 'Add a hat.' },
+    ]);
+  });
+});
+
+describe('parseOutfitProposals', () => {
+  it('converts item numbers to indexes and drops empty or repeated outfits', () => {
+    const outfits = parseOutfitProposals({
+      outfits: [
+        { title: '', itemNumbers: [3, 1, 1], reasoning: 'Works' },
+        { title: 'Again', itemNumbers: [1, 3], reasoning: 'Same items' },
+        { title: 'Nothing', itemNumbers: [0, 9], reasoning: 'Out of range' },
+        { title: 'Casual', itemNumbers: [2], reasoning: 'Relaxed' },
+      ],
+    }, 3, 4);
+    expect(outfits).toEqual([
+      { title: '', itemIndexes: [0, 2], reasoning: 'Works' },
+      { title: 'Casual', itemIndexes: [1], reasoning: 'Relaxed' },
+    ]);
+  });
+
+  it('limits the number of outfits', () => {
+    const outfits = parseOutfitProposals({
+      outfits: [1, 2, 3].map(n => ({ title: `Look ${n}`, itemNumbers: [n], reasoning: '' })),
+    }, 3, 2);
+    expect(outfits).toHaveLength(2);
+  });
+
+  it('fails when no outfit is usable', () => {
+    expect(() => parseOutfitProposals({ outfits: [{ title: 'Empty', itemNumbers: [], reasoning: '' }] }, 3, 2))
+      .toThrow('no usable outfits were proposed.');
+  });
+});
+
+describe('parsePersonalPalette', () => {
+  const palette = {
+    season: 'autumn',
+    undertone: 'warm',
+    skinTone: '#c68642',
+    hairColor: '#3b2f2f',
+    eyeColor: '#634e34',
+    bestColors: [{ name: 'Olive', hex: '#808000' }],
+    avoidColors: [{ name: 'Icy blue', hex: 'not a color' }],
+    summary: 'Warm and deep.',
+  };
+
+  it('normalizes tones and drops unusable swatches', () => {
+    expect(parsePersonalPalette(palette)).toEqual({
+      ...palette,
+      skinTone: '#C68642',
+      hairColor: '#3B2F2F',
+      eyeColor: '#634E34',
+      avoidColors: [],
+    });
+  });
+
+  it('falls back to a neutral undertone', () => {
+    expect(parsePersonalPalette({ ...palette, undertone: 'olive' }).undertone).toBe('neutral');
+  });
+
+  it('requires a known season and valid tones', () => {
+    expect(() => parsePersonalPalette({ ...palette, season: 'monsoon' })).toThrow('"season" is not a known season.');
+    expect(() => parsePersonalPalette({ ...palette, eyeColor: 'brown' })).toThrow('"eyeColor" must be a hex color.');
+  });
+});
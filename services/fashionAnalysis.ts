@@ -0,0 +1,396 @@
+import { Type, type Schema } from "@google/genai";
+import type { FashionAnalysis, FidelityReport, IdentityCheck, ImprovementCategory, ItemFidelityCheck, LookComparison, OutfitProposal, PersonalPalette, StylistReply, ColorSeason, Undertone } from "../types";
+import { MalformedResponseError } from "./errors";
+import { MAX_PROMPT_LENGTH } from "./proxyProtocol";
+
+export const IMPROVEMENT_CATEGORIES: ImprovementCategory[] = ['fit', 'color', 'accessories', 'footwear', 'layering', 'grooming', 'styling'];
+
+// Response schema sent to the model so the analysis comes back as JSON.
+export const fashionAnalysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Two or three sentence overview of the look.' },
+    overallScore: { type: Type.NUMBER, description: 'Overall rating of the outfit from 0 to 10.' },
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          notes: { type: Type.STRING },
+          score: { type: Type.NUMBER, description: 'Rating of this item within the outfit from 0 to 10.' },
+        },
+        required: ['name', 'notes', 'score'],
+      },
+    },
+    colorPalette: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          hex: { type: Type.STRING, description: 'Hex color code such as #1A2B3C.' },
+        },
+        required: ['name', 'hex'],
+      },
+    },
+    occasionRatings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          occasion: { type: Type.STRING },
+          rating: { type: Type.NUMBER, description: 'Suitability from 1 (poor) to 5 (perfect).' },
+          comment: { type: Type.STRING },
+        },
+        required: ['occasion', 'rating', 'comment'],
+      },
+    },
+    improvements: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          category: { type: Type.STRING, enum: IMPROVEMENT_CATEGORIES },
+          suggestion: { type: Type.STRING },
+        },
+        required: ['category', 'suggestion'],
+      },
+    },
+  },
+  required: ['summary', 'overallScore', 'items', 'colorPalette', 'occasionRatings', 'improvements'],
+};
+
+export const lookComparisonSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    verdict: { type: Type.STRING, description: 'A short comparative verdict explaining which look works best and why.' },
+    winnerIndex: { type: Type.INTEGER, description: 'Zero-based index of the strongest look, so Look 1 is 0.' },
+    rankings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER, description: 'Zero-based index of the look, so Look 1 is 0.' },
+          score: { type: Type.NUMBER, description: 'Rating of the look from 0 to 10.' },
+          reason: { type: Type.STRING },
+        },
+        required: ['index', 'score', 'reason'],
+      },
+    },
+  },
+  required: ['verdict', 'winnerIndex', 'rankings'],
+};
+
+export const fidelityReportSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    checks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          itemNumber: { type: Type.INTEGER, description: 'The number of the item, as labelled.' },
+          present: { type: Type.BOOLEAN, description: 'Whether the item is visible in the generated look.' },
+          colorMatch: { type: Type.BOOLEAN },
+          patternMatch: { type: Type.BOOLEAN },
+          shapeMatch: { type: Type.BOOLEAN },
+          confidence: { type: Type.NUMBER, description: 'Confidence in this assessment from 0 to 1.' },
+          notes: { type: Type.STRING, description: 'What differs from the item image, if anything.' },
+        },
+        required: ['itemNumber', 'present', 'colorMatch', 'patternMatch', 'shapeMatch', 'confidence', 'notes'],
+      },
+    },
+  },
+  required: ['checks'],
+};
+
+export const identityCheckSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    faceVisible: { type: Type.BOOLEAN, description: 'Whether the face is clear enough in the reference photos and the generated image to compare.' },
+    similarity: { type: Type.NUMBER, description: 'How likely it is that the generated image shows the same person, from 0 to 1.' },
+    differences: {
+      type: Type.ARRAY,
+      description: 'Short names of traits that changed, e.g. "face shape", "skin tone", "body shape", "hairline". Empty if none.',
+      items: { type: Type.STRING },
+    },
+  },
+  required: ['faceVisible', 'similarity', 'differences'],
+};
+
+export const stylistReplySchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING, description: 'The reply to the user, conversational and specific to the look.' },
+    edits: {
+      type: Type.ARRAY,
+      description: 'Up to three concrete changes to the image that follow from the reply. Empty when none apply.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING, description: 'A short button label, e.g. "Swap to loafers".' },
+          prompt: { type: Type.STRING, description: 'A self-contained instruction for an image editor, e.g. "Replace the sneakers with brown leather loafers; keep everything else the same."' },
+        },
+        required: ['label', 'prompt'],
+      },
+    },
+  },
+  required: ['text', 'edits'],
+};
+
+export const outfitProposalsSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    outfits: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING, description: 'A short name for the outfit, e.g. "Relaxed Sunday brunch".' },
+          itemNumbers: { type: Type.ARRAY, description: 'The numbers of the items in this outfit, as labelled.', items: { type: Type.INTEGER } },
+          reasoning: { type: Type.STRING, description: 'Why these items work together for the occasion.' },
+        },
+        required: ['title', 'itemNumbers', 'reasoning'],
+      },
+    },
+  },
+  required: ['outfits'],
+};
+
+const COLOR_SEASONS: ColorSeason[] = ['spring', 'summer', 'autumn', 'winter'];
+const UNDERTONES: Undertone[] = ['warm', 'cool', 'neutral'];
+
+const namedColorList = (description: string): Schema => ({
+  type: Type.ARRAY,
+  description,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING },
+      hex: { type: Type.STRING, description: 'Hex code, e.g. "#8A9A5B".' },
+    },
+    required: ['name', 'hex'],
+  },
+});
+
+export const personalPaletteSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    season: { type: Type.STRING, enum: COLOR_SEASONS },
+    undertone: { type: Type.STRING, enum: UNDERTONES },
+    skinTone: { type: Type.STRING, description: 'Hex code of the skin tone.' },
+    hairColor: { type: Type.STRING, description: 'Hex code of the hair color.' },
+    eyeColor: { type: Type.STRING, description: 'Hex code of the eye color.' },
+    bestColors: namedColorList('Six to ten clothing colors that flatter this person.'),
+    avoidColors: namedColorList('Four to six clothing colors that clash with their coloring.'),
+    summary: { type: Type.STRING, description: 'Two or three sentences explaining the classification.' },
+  },
+  required: ['season', 'undertone', 'skinTone', 'hairColor', 'eyeColor', 'bestColors', 'avoidColors', 'summary'],
+};
+
+export class InvalidAnalysisError extends MalformedResponseError {
+  constructor(message: string) {
+    super(`The fashion analysis was malformed: ${message}`);
+    this.name = 'InvalidAnalysisError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clamp = (value: unknown, min: number, max: number) =>
+  Math.min(max, Math.max(min, typeof value === 'number' && Number.isFinite(value) ? value : min));
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const list = (value: unknown, field: string): Record<string, unknown>[] => {
+  if (!Array.isArray(value)) throw new InvalidAnalysisError(`"${field}" must be an array.`);
+  return value.filter(isRecord);
+};
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const normalizeHex = (value: string) => {
+  const hex = value.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+  return `#${full.toUpperCase()}`;
+};
+
+const parseJson = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new InvalidAnalysisError('the response was not valid JSON.');
+  }
+};
+
+const swatches = (value: unknown, field: string) => list(value, field)
+  .filter(color => HEX_COLOR.test(text(color.hex)))
+  .map(color => ({ name: text(color.name) || normalizeHex(text(color.hex)), hex: normalizeHex(text(color.hex)) }));
+
+// Validates untrusted model output and normalizes it into a FashionAnalysis.
+// Entries that are individually unusable are dropped rather than failing the whole analysis.
+export const parseFashionAnalysis = (raw: unknown): FashionAnalysis => {
+  const data = typeof raw === 'string' ? parseJson(raw) : raw;
+  if (!isRecord(data)) throw new InvalidAnalysisError('expected a JSON object.');
+
+  const summary = text(data.summary);
+  if (!summary) throw new InvalidAnalysisError('"summary" is missing.');
+  if (typeof data.overallScore !== 'number') throw new InvalidAnalysisError('"overallScore" must be a number.');
+
+  return {
+    summary,
+    overallScore: clamp(data.overallScore, 0, 10),
+    items: list(data.items, 'items')
+      .map(item => ({ name: text(item.name), notes: text(item.notes), score: clamp(item.score, 0, 10) }))
+      .filter(item => item.name),
+    colorPalette: swatches(data.colorPalette, 'colorPalette'),
+    occasionRatings: list(data.occasionRatings, 'occasionRatings')
+      .map(rating => ({ occasion: text(rating.occasion), rating: clamp(rating.rating, 1, 5), comment: text(rating.comment) }))
+      .filter(rating => rating.occasion),
+    improvements: list(data.improvements, 'improvements')
+      .map(improvement => ({
+        category: IMPROVEMENT_CATEGORIES.includes(improvement.category as ImprovementCategory)
+          ? improvement.category as ImprovementCategory
+          : 'styling',
+        suggestion: text(improvement.suggestion),
+      }))
+      .filter(improvement => improvement.suggestion),
+  };
+};
+
+// Validates a comparison of `lookCount` looks, dropping rankings for looks that do not exist.
+export const parseLookComparison = (raw: unknown, lookCount: number): LookComparison => {
+  const data = typeof raw === 'string' ? parseJson(raw) : raw;
+  if (!isRecord(data)) throw new InvalidAnalysisError('expected a JSON object.');
+
+  const verdict = text(data.verdict);
+  if (!verdict) throw new InvalidAnalysisError('"verdict" is missing.');
+  const inRange = (index: unknown): index is number =>
+    typeof index === 'number' && Number.isInteger(index) && index >= 0 && index < lookCount;
+  if (!inRange(data.winnerIndex)) throw new InvalidAnalysisError('"winnerIndex" does not refer to a compared look.');
+
+  return {
+    verdict,
+    winnerIndex: data.winnerIndex,
+    rankings: list(data.rankings, 'rankings')
+      .filter(ranking => inRange(ranking.index))
+      .map(ranking => ({ index: ranking.index as number, score: clamp(ranking.score, 0, 10), reason: text(ranking.reason) }))
+      .sort((a, b) => b.score - a.score),
+  };
+};
+
+// Validates a fidelity report for `itemCount` items. Items the model skipped are reported as
+// missing with zero confidence, so they are never silently counted as verified.
+export const parseFidelityReport = (raw: unknown, itemCount: number): FidelityReport => {
+  const data = typeof raw === 'string' ? parseJson(raw) : raw;
+  if (!isRecord(data)) throw new InvalidAnalysisError('expected a JSON object.');
+  const reported = list(data.checks, 'checks');
+
+  return {
+    checks: Array.from({ length: itemCount }, (_, index): ItemFidelityCheck => {
+      // Items are labelled from 1 in the prompt.
+      const check = reported.find(entry => entry.itemNumber === index + 1);
+      if (!check) {
+        return { index, present: false, colorMatch: false, patternMatch: false, shapeMatch: false, confidence: 0, notes: '', unreported: true };
+      }
+      const present = check.present === true;
+      return {
+        index,
+        present,
+        colorMatch: present && check.colorMatch === true,
+        patternMatch: present && check.patternMatch === true,
+        shapeMatch: present && check.shapeMatch === true,
+        confidence: clamp(check.confidence, 0, 1),
+        notes: text(check.notes),
+      };
+    }),
+  };
+};
+
+// Validates an identity comparison. Without a visible face the similarity cannot be judged, so it is kept
+// as reported but callers should not act on it.
+export const parseIdentityCheck = (raw: unknown): IdentityCheck => {
+  const data = typeof raw === 'string' ? parseJson(raw) : raw;
+  if (!isRecord(data)) throw new InvalidAnalysisError('expected a JSON object.');
+  if (typeof data.similarity !== 'number') throw new InvalidAnalysisError('"similarity" must be a number.');
+
+  return {
+    faceVisible: data.faceVisible === true,
+    similarity: clamp(data.similarity, 0, 1),
+    differences: Array.isArray(data.differences) ? data.differences.map(text).filter(Boolean) : [],
+  };
+};
+
+const MAX_SUGGESTED_EDITS = 3;
+
+// Validates a stylist chat reply. Edits without an instruction are dropped. Replies are sent back
+// as chat history, so overlong ones are cut to the length the proxy accepts for a message.
+export const parseStylistReply = (raw: unknown): StylistReply => {
+  const data = typeof raw === 'string' ? parseJson(raw) : raw;
+  if (!isRecord(data)) throw new InvalidAnalysisError('expected a JSON object.');
+  const reply = text(data.text);
+  if (!reply) throw new InvalidAnalysisError('"text" is missing.');
+
+  return {
+    text: reply.length > MAX_PROMPT_LENGTH ? `${reply.slice(0, MAX_PROMPT_LENGTH - 1).trimEnd()}…` : reply,
+    edits: (Array.isArray(data.edits) ? data.edits.filter(isRecord) : [])
+      .map(edit => ({ label: text(edit.label), prompt: text(edit.prompt) }))
+      .filter(edit => edit.prompt)
+      .map(edit => ({ label: edit.label || edit.prompt, prompt: edit.prompt }))
+      .slice(0, MAX_SUGGESTED_EDITS),
+  };
+};
+
+// Validates outfit proposals for a pool of `itemCount` items. Item numbers are 1-based as labelled in
+// the prompt and become 0-based indexes; outfits left empty, or repeating an earlier one, are dropped.
+// Untitled outfits keep an empty title for the UI to number in the reader's language.
+export const parseOutfitProposals = (raw: unknown, itemCount: number, maxOutfits: number): OutfitProposal[] => {
+  const data = typeof raw === 'string' ? parseJson(raw) : raw;
+  if (!isRecord(data)) throw new InvalidAnalysisError('expected a JSON object.');
+
+  const seen = new Set<string>();
+  const outfits = list(data.outfits, 'outfits')
+    .map(outfit => ({
+      title: text(outfit.title),
+      itemIndexes: [...new Set((Array.isArray(outfit.itemNumbers) ? outfit.itemNumbers : [])
+        .filter((n): n is number => Number.isInteger(n) && n >= 1 && n <= itemCount)
+        .map(n => n - 1))]
+        .sort((a, b) => a - b),
+      reasoning: text(outfit.reasoning),
+    }))
+    .filter(outfit => {
+      const key = outfit.itemIndexes.join(',');
+      if (outfit.itemIndexes.length === 0 || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, maxOutfits);
+  if (outfits.length === 0) throw new InvalidAnalysisError('no usable outfits were proposed.');
+  return outfits;
+};
+
+// Validates a personal color analysis. The season and the three tones are required; swatches
+// with unusable hex codes are dropped.
+export const parsePersonalPalette = (raw: unknown): PersonalPalette => {
+  const data = typeof raw === 'string' ? parseJson(raw) : raw;
+  if (!isRecord(data)) throw new InvalidAnalysisError('expected a JSON object.');
+  if (!COLOR_SEASONS.includes(data.season as ColorSeason)) throw new InvalidAnalysisError('"season" is not a known season.');
+  const tone = (field: 'skinTone' | 'hairColor' | 'eyeColor') => {
+    const hex = text(data[field]);
+    if (!HEX_COLOR.test(hex)) throw new InvalidAnalysisError(`"${field}" must be a hex color.`);
+    return normalizeHex(hex);
+  };
+
+  return {
+    season: data.season as ColorSeason,
+    undertone: UNDERTONES.includes(data.undertone as Undertone) ? data.undertone as Undertone : 'neutral',
+    skinTone: tone('skinTone'),
+    hairColor: tone('hairColor'),
+    eyeColor: tone('eyeColor'),
+    bestColors: swatches(data.bestColors, 'bestColors'),
+    avoidColors: swatches(data.avoidColors, 'avoidColors'),
+    summary: text(data.summary),
+  };
+};
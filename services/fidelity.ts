@@ -0,0 +1,14 @@
+import type { FidelityReport, ItemFidelityCheck } from '../types';
+
+// Extra try-ons attempted when the fidelity check finds items missing from the result.
+export const MAX_FIDELITY_RETRIES = 2;
+
+export type FidelityStatus = 'faithful' | 'partial' | 'missing';
+
+export const fidelityStatus = (check: ItemFidelityCheck): FidelityStatus => {
+  if (!check.present) return 'missing';
+  return check.colorMatch && check.patternMatch && check.shapeMatch ? 'faithful' : 'partial';
+};
+
+export const countMissingItems = (report: FidelityReport) =>
+  report.checks.filter(check => !check.present).length;
@@ -0,0 +1,22 @@
+import type { GalleryEntry } from "../types";
+import { withStore } from "./studioDb";
+
+export const saveGalleryEntry = (entry: GalleryEntry): Promise<IDBValidKey> =>
+  withStore('gallery', 'readwrite', store => store.put(entry));
+
+// Newest first.
+export const listGalleryEntries = async (): Promise<GalleryEntry[]> => {
+  const entries = await withStore<GalleryEntry[]>('gallery', 'readonly', store => store.index('createdAt').getAll());
+  return entries.reverse();
+};
+
+export const deleteGalleryEntry = (id: string): Promise<undefined> =>
+  withStore('gallery', 'readwrite', store => store.delete(id));
+
+export const searchGalleryEntries = (entries: GalleryEntry[], query: string): GalleryEntry[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter(entry =>
+    entry.sceneDescription.toLowerCase().includes(needle) || entry.prompt.toLowerCase().includes(needle)
+  );
+};
@@ -0,0 +1,499 @@
+import { GoogleGenAI, Modality, ApiError, Type, type GenerateContentResponse, type GenerateImagesResponse, type Schema } from "@google/genai";
+import type { ImageProvider, InlineImage, ModelOptions, TryOnItemImage } from "./imageProvider";
+import type { PersonalPalette } from "../types";
+import { GEMINI_MODELS } from "./models";
+import {
+  fashionAnalysisSchema,
+  parseFashionAnalysis,
+  lookComparisonSchema,
+  parseLookComparison,
+  fidelityReportSchema,
+  parseFidelityReport,
+  identityCheckSchema,
+  parseIdentityCheck,
+  stylistReplySchema,
+  parseStylistReply,
+  outfitProposalsSchema,
+  parseOutfitProposals,
+  personalPaletteSchema,
+  parsePersonalPalette,
+} from "./fashionAnalysis";
+import { ITEM_ROLES, itemRolePlacement, parseItemRoles } from "./itemRoles";
+import { promptsFor, fillPrompt, languageInstruction, type PromptTemplates } from "../prompts";
+import {
+  MissingApiKeyError,
+  RateLimitError,
+  ServiceUnavailableError,
+  SafetyBlockError,
+  EmptyResponseError,
+  MalformedResponseError,
+  toStudioError,
+} from "./errors";
+
+const toPart = (image: InlineImage) => ({
+  inlineData: {
+    data: image.data,
+    mimeType: image.mimeType,
+  },
+});
+
+// Finish reasons that mean the output was withheld by a policy filter.
+const BLOCKING_FINISH_REASONS = new Set([
+  'SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII',
+  'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'IMAGE_RECITATION',
+]);
+
+// Gemini quota errors carry a suggested delay such as "retryDelay": "12s".
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/i);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+const mapGeminiError = (error: unknown) => {
+  if (error instanceof ApiError) {
+    if (error.status === 429) return new RateLimitError(undefined, parseRetryDelay(error.message), error);
+    if (error.status === 401 || error.status === 403 || /api key/i.test(error.message)) {
+      return new MissingApiKeyError('The Gemini API key was rejected. Check that it is valid and enabled.', error);
+    }
+    if (error.status >= 500) return new ServiceUnavailableError(undefined, error);
+  }
+  return toStudioError(error);
+};
+
+// Returns the first candidate's parts, raising a typed error for blocked or empty responses.
+// Streamed chunks may legitimately carry no content (e.g. the final usage-only chunk).
+const candidateParts = (response: GenerateContentResponse, { streaming = false } = {}) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(blockReason, response.promptFeedback?.blockReasonMessage || `The prompt was blocked by the safety filter (${blockReason}).`);
+  }
+  const candidate = response.candidates?.[0];
+  if (!candidate) {
+    if (streaming) return [];
+    throw new EmptyResponseError('The model returned no candidates.');
+  }
+  if (candidate.finishReason && BLOCKING_FINISH_REASONS.has(candidate.finishReason)) {
+    throw new SafetyBlockError(candidate.finishReason);
+  }
+  if (!candidate.content?.parts) {
+    if (streaming) return [];
+    throw new MalformedResponseError('The model response had no content.');
+  }
+  return candidate.content.parts;
+};
+
+const extractImage = (response: GenerateContentResponse, emptyMessage: string): string => {
+  const parts = candidateParts(response);
+  for (const part of parts) {
+    if (part.inlineData?.data) {
+      return part.inlineData.data;
+    }
+  }
+  // When the model declines it usually explains why in a text part.
+  const explanation = parts.map(part => part.text).filter(Boolean).join(' ').trim();
+  throw new EmptyResponseError(explanation ? `${emptyMessage} The model said: "${explanation}"` : emptyMessage);
+};
+
+const extractText = (response: GenerateContentResponse): string => {
+  const text = candidateParts(response).map(part => part.thought ? '' : part.text ?? '').join('');
+  if (!text.trim()) throw new EmptyResponseError('The model returned an empty analysis.');
+  return text;
+};
+
+// Returns every image that made it through; only fails when all of them were filtered or empty.
+const extractGeneratedImages = (response: GenerateImagesResponse): string[] => {
+  const generated = response.generatedImages ?? [];
+  const images = generated.map(g => g.image?.imageBytes).filter((bytes): bytes is string => !!bytes);
+  if (images.length > 0) return images;
+  const filtered = generated.find(g => g.raiFilteredReason);
+  if (filtered) throw new SafetyBlockError('RAI_FILTERED', filtered.raiFilteredReason);
+  throw new EmptyResponseError('Image generation returned no image.');
+};
+
+// Negative prompts are phrased into the instruction; the image models have no separate field for them.
+const avoidClause = (prompts: PromptTemplates, options?: ModelOptions) =>
+  options?.negativePrompt ? fillPrompt(prompts.avoid, { terms: options.negativePrompt }) : '';
+
+// Labels each try-on item image so the model knows what it is and where it goes.
+const describeItem = (prompts: PromptTemplates, { role, notes }: TryOnItemImage, index: number) => {
+  const placement = role ? itemRolePlacement(role) : prompts.itemUnknownPlacement;
+  const styling = notes?.trim() ? fillPrompt(prompts.itemStylingNotes, { notes: notes.trim() }) : '';
+  return fillPrompt(prompts.itemLabel, { number: index + 1, placement }) + styling;
+};
+
+// Tells the analysis which colors suit the wearer, from their personal color analysis.
+const paletteClause = (prompts: PromptTemplates, palette?: PersonalPalette) => {
+  if (!palette) return '';
+  const names = (colors: PersonalPalette['avoidColors']) => colors.map(color => `${color.name} (${color.hex})`).join(', ');
+  return fillPrompt(prompts.analyzePalette, {
+    undertone: palette.undertone,
+    season: palette.season,
+    bestColors: names(palette.bestColors),
+    avoidColors: names(palette.avoidColors),
+  });
+};
+
+const itemRolesSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    roles: {
+      type: Type.ARRAY,
+      description: 'One entry per image, in the order the images were given.',
+      items: { type: Type.STRING, enum: [...ITEM_ROLES.map(({ role }) => role), 'none'] },
+    },
+  },
+  required: ['roles'],
+};
+
+// Screen readers read alt text in one go, so descriptions are kept short.
+const MAX_ALT_TEXT_LENGTH = 250;
+
+const DEFAULT_THINKING_BUDGET = 8192;
+
+export const createGeminiProvider = (apiKey: string | undefined): ImageProvider => {
+  let ai: GoogleGenAI | null = null;
+  // Created lazily so a missing key surfaces as a typed error on first use.
+  const client = () => {
+    if (!apiKey) throw new MissingApiKeyError();
+    return ai ??= new GoogleGenAI({ apiKey });
+  };
+
+  // Sends a request and translates SDK failures into StudioErrors.
+  const call = async <T>(request: (ai: GoogleGenAI) => Promise<T>): Promise<T> => {
+    try {
+      return await request(client());
+    } catch (e) {
+      throw mapGeminiError(e);
+    }
+  };
+
+  return {
+    name: 'gemini',
+
+    async generateLook({ itemImages, userImage, sceneDescription, preserveIdentity, identityReferences = [], options, signal }) {
+      // FIX: Use gemini-2.5-flash-image for image generation tasks.
+      const model = options?.model ?? GEMINI_MODELS.tryOn;
+      const prompts = promptsFor(options?.language);
+      const promptParts = [];
+
+      let textPrompt = fillPrompt(prompts.tryOnScene, { scene: sceneDescription });
+
+      if (userImage) {
+          textPrompt += prompts.tryOnUserPhoto;
+          promptParts.push(toPart(userImage));
+          if (preserveIdentity) {
+              textPrompt += prompts.tryOnIdentity;
+              if (identityReferences.length > 0) {
+                  textPrompt += identityReferences.length === 1
+                      ? prompts.tryOnIdentityReference
+                      : fillPrompt(prompts.tryOnIdentityReferences, { count: identityReferences.length });
+                  promptParts.push(...identityReferences.map(toPart));
+              }
+          }
+      } else {
+          textPrompt += prompts.tryOnModel;
+      }
+      textPrompt += prompts.tryOnItemLabels;
+      textPrompt += avoidClause(prompts, options);
+
+      promptParts.unshift({ text: textPrompt });
+      itemImages.forEach((item, index) => {
+          promptParts.push({ text: describeItem(prompts, item, index) }, toPart(item));
+      });
+
+      const response = await call(ai => ai.models.generateContent({
+          model: model,
+          contents: { parts: promptParts },
+          config: {
+              // FIX: responseModalities must be an array with a single Modality.IMAGE element.
+              responseModalities: [Modality.IMAGE],
+              seed: options?.seed,
+              abortSignal: signal,
+          },
+      }));
+
+      return extractImage(response, "No image was generated.");
+    },
+
+    async analyzeLook({ image, sceneDescription, palette, options, signal, onProgress }) {
+      // FIX: Use gemini-2.5-pro for complex text tasks.
+      const model = options?.model ?? GEMINI_MODELS.analysis;
+      const prompts = promptsFor(options?.language);
+      const textPart = {
+          text: fillPrompt(prompts.analyzeLook, { scene: sceneDescription }) + paletteClause(prompts, palette) + languageInstruction(options?.language),
+      };
+      const request = {
+          model: model,
+          contents: { parts: [textPart, toPart(image)] },
+          config: {
+              // FIX: Enable thinking for more detailed analysis.
+              // Thought summaries are only requested when someone is watching the stream.
+              thinkingConfig: { thinkingBudget: options?.thinkingBudget ?? DEFAULT_THINKING_BUDGET, includeThoughts: !!onProgress },
+              responseMimeType: 'application/json',
+              responseSchema: fashionAnalysisSchema,
+              abortSignal: signal,
+          }
+      };
+
+      if (!onProgress) {
+          const response = await call(ai => ai.models.generateContent(request));
+          return parseFashionAnalysis(extractText(response));
+      }
+
+      const progress = { thoughts: '', answer: '' };
+      await call(async ai => {
+          for await (const chunk of await ai.models.generateContentStream(request)) {
+              for (const part of candidateParts(chunk, { streaming: true })) {
+                  if (!part.text) continue;
+                  if (part.thought) progress.thoughts += part.text;
+                  else progress.answer += part.text;
+              }
+              onProgress({ ...progress });
+          }
+      });
+      if (!progress.answer.trim()) throw new EmptyResponseError('The model returned an empty analysis.');
+      return parseFashionAnalysis(progress.answer);
+    },
+
+    async compareLooks({ looks, options, signal }) {
+      const model = options?.model ?? GEMINI_MODELS.analysis;
+      const prompts = promptsFor(options?.language);
+      const parts = [
+          { text: fillPrompt(prompts.compareLooks, { count: looks.length }) + languageInstruction(options?.language) },
+          ...looks.flatMap((look, index) => [
+              { text: fillPrompt(prompts.compareLookLabel, { number: index + 1, scene: look.sceneDescription || prompts.unspecifiedScene }) },
+              toPart(look.image),
+          ]),
+      ];
+
+      const response = await call(ai => ai.models.generateContent({
+          model: model,
+          contents: { parts },
+          config: {
+              thinkingConfig: { thinkingBudget: options?.thinkingBudget ?? DEFAULT_THINKING_BUDGET },
+              responseMimeType: 'application/json',
+              responseSchema: lookComparisonSchema,
+              abortSignal: signal,
+          }
+      }));
+
+      return parseLookComparison(extractText(response), looks.length);
+    },
+
+    // Uses the analysis model, like analyzeLook: one image-to-text call with a JSON schema.
+    async verifyLook({ image, items, options, signal }) {
+      const model = options?.model ?? GEMINI_MODELS.analysis;
+      const prompts = promptsFor(options?.language);
+      const parts = [
+          { text: fillPrompt(prompts.verifyLook, { count: items.length }) + languageInstruction(options?.language) },
+          toPart(image),
+          ...items.flatMap((item, index) => [{ text: describeItem(prompts, item, index) }, toPart(item)]),
+      ];
+
+      const response = await call(ai => ai.models.generateContent({
+          model: model,
+          contents: { parts },
+          config: {
+              thinkingConfig: { thinkingBudget: options?.thinkingBudget ?? DEFAULT_THINKING_BUDGET },
+              responseMimeType: 'application/json',
+              responseSchema: fidelityReportSchema,
+              abortSignal: signal,
+          }
+      }));
+
+      return parseFidelityReport(extractText(response), items.length);
+    },
+
+    // Same image-to-text path as verifyLook, comparing the person rather than the items.
+    async checkIdentity({ references, image, options, signal }) {
+      const model = options?.model ?? GEMINI_MODELS.analysis;
+      const prompts = promptsFor(options?.language);
+      const instruction = references.length === 1
+          ? prompts.checkIdentity
+          : fillPrompt(prompts.checkIdentityMultiple, { count: references.length });
+      const parts = [
+          { text: instruction + languageInstruction(options?.language) },
+          ...references.map(toPart),
+          toPart(image),
+      ];
+
+      const response = await call(ai => ai.models.generateContent({
+          model: model,
+          contents: { parts },
+          config: {
+              thinkingConfig: { thinkingBudget: options?.thinkingBudget ?? DEFAULT_THINKING_BUDGET },
+              responseMimeType: 'application/json',
+              responseSchema: identityCheckSchema,
+              abortSignal: signal,
+          }
+      }));
+
+      return parseIdentityCheck(extractText(response));
+    },
+
+    // Multi-turn, with the look attached to the first turn so every reply can refer to it.
+    async chatWithStylist({ image, items, sceneDescription, messages, options, signal }) {
+      const model = options?.model ?? GEMINI_MODELS.analysis;
+      const prompts = promptsFor(options?.language);
+      const context = [
+          { text: sceneDescription ? fillPrompt(prompts.stylistContextScene, { scene: sceneDescription }) : prompts.stylistContext },
+          toPart(image),
+          ...items.flatMap((item, index) => [{ text: describeItem(prompts, item, index) }, toPart(item)]),
+      ];
+      const contents = messages.map((message, index) => ({
+          role: message.role === 'user' ? 'user' : 'model',
+          parts: index === 0 ? [...context, { text: message.text }] : [{ text: message.text }],
+      }));
+
+      const response = await call(ai => ai.models.generateContent({
+          model: model,
+          contents,
+          config: {
+              systemInstruction: prompts.stylistSystem + languageInstruction(options?.language),
+              thinkingConfig: { thinkingBudget: options?.thinkingBudget ?? DEFAULT_THINKING_BUDGET },
+              responseMimeType: 'application/json',
+              responseSchema: stylistReplySchema,
+              abortSignal: signal,
+          }
+      }));
+
+      return parseStylistReply(extractText(response));
+    },
+
+    async recommendOutfits({ items, sceneDescription, count, options, signal }) {
+      const model = options?.model ?? GEMINI_MODELS.analysis;
+      const prompts = promptsFor(options?.language);
+      const instruction = fillPrompt(count === 1 ? prompts.recommendOutfit : prompts.recommendOutfits, {
+          itemCount: items.length,
+          count,
+          scene: sceneDescription,
+      });
+      const parts = [
+          { text: instruction + languageInstruction(options?.language) },
+          ...items.flatMap((item, index) => [{ text: describeItem(prompts, item, index) }, toPart(item)]),
+      ];
+
+      const response = await call(ai => ai.models.generateContent({
+          model: model,
+          contents: { parts },
+          config: {
+              thinkingConfig: { thinkingBudget: options?.thinkingBudget ?? DEFAULT_THINKING_BUDGET },
+              responseMimeType: 'application/json',
+              responseSchema: outfitProposalsSchema,
+              abortSignal: signal,
+          }
+      }));
+
+      return parseOutfitProposals(extractText(response), items.length, count);
+    },
+
+    async analyzeColors({ image, sampledColors, options, signal }) {
+      const model = options?.model ?? GEMINI_MODELS.analysis;
+      const prompts = promptsFor(options?.language);
+      const hint = sampledColors.length > 0
+          ? fillPrompt(prompts.analyzeColorsHint, { colors: sampledColors.join(', ') })
+          : '';
+      const parts = [
+          { text: prompts.analyzeColors + hint + languageInstruction(options?.language) },
+          toPart(image),
+      ];
+
+      const response = await call(ai => ai.models.generateContent({
+          model: model,
+          contents: { parts },
+          config: {
+              thinkingConfig: { thinkingBudget: options?.thinkingBudget ?? DEFAULT_THINKING_BUDGET },
+              responseMimeType: 'application/json',
+              responseSchema: personalPaletteSchema,
+              abortSignal: signal,
+          }
+      }));
+
+      return parsePersonalPalette(extractText(response));
+    },
+
+    async editImage({ image, editPrompt, mask, options, signal }) {
+      // FIX: Use gemini-2.5-flash-image for image editing tasks.
+      const model = options?.model ?? GEMINI_MODELS.edit;
+      const prompts = promptsFor(options?.language);
+      const instruction = editPrompt + avoidClause(prompts, options);
+      const parts = mask
+          ? [
+              toPart(image),
+              toPart(mask),
+              { text: fillPrompt(prompts.editMasked, { instruction }) },
+            ]
+          : [toPart(image), { text: instruction }];
+
+      const response = await call(ai => ai.models.generateContent({
+          model: model,
+          contents: { parts },
+          config: {
+              // FIX: responseModalities must be an array with a single Modality.IMAGE element.
+              responseModalities: [Modality.IMAGE],
+              seed: options?.seed,
+              abortSignal: signal,
+          },
+      }));
+
+      return extractImage(response, "Could not edit the image.");
+    },
+
+    async generateImageFromText({ prompt, aspectRatio, numberOfImages, options, signal }) {
+      // FIX: Use imagen-4.0-generate-001 for high-quality image generation.
+      const model = options?.model ?? GEMINI_MODELS.textToImage;
+
+      const response = await call(ai => ai.models.generateImages({
+          model: model,
+          prompt: prompt + avoidClause(promptsFor(options?.language), options),
+          config: {
+            numberOfImages: numberOfImages,
+            aspectRatio: aspectRatio,
+            outputMimeType: options?.outputMimeType ?? 'image/jpeg',
+            seed: options?.seed,
+            abortSignal: signal,
+          },
+      }));
+
+      return extractGeneratedImages(response);
+    },
+
+    async classifyItems({ images, options, signal }) {
+      const model = options?.model ?? GEMINI_MODELS.classify;
+      const prompts = promptsFor(options?.language);
+      const parts = [
+          { text: fillPrompt(prompts.classifyItems, { count: images.length }) },
+          ...images.flatMap((image, index) => [{ text: fillPrompt(prompts.classifyImageLabel, { number: index + 1 }) }, toPart(image)]),
+      ];
+
+      const response = await call(ai => ai.models.generateContent({
+          model: model,
+          contents: { parts },
+          config: {
+              responseMimeType: 'application/json',
+              responseSchema: itemRolesSchema,
+              abortSignal: signal,
+          }
+      }));
+
+      return parseItemRoles(extractText(response), images.length);
+    },
+
+    async describeImage({ image, options, signal }) {
+      const model = options?.model ?? GEMINI_MODELS.classify;
+      const prompts = promptsFor(options?.language);
+      const response = await call(ai => ai.models.generateContent({
+          model: model,
+          contents: { parts: [
+              toPart(image),
+              { text: fillPrompt(prompts.describeImage, { maxLength: MAX_ALT_TEXT_LENGTH }) + languageInstruction(options?.language) },
+          ] },
+          config: { abortSignal: signal },
+      }));
+
+      // Models sometimes wrap the answer in quotes or run past the limit.
+      const text = extractText(response).replace(/\s+/g, ' ').trim().replace(/^["']|["']$/g, '');
+      return text.length > MAX_ALT_TEXT_LENGTH ? `${text.slice(0, MAX_ALT_TEXT_LENGTH - 1).trimEnd()}…` : text;
+    },
+  };
+};
@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createCanvas, Image } from '@napi-rs/canvas';
+import type { RequestStage } from '../types';
+import { CancelledError } from './errors';
+import { editImage, editImageRegion, generateImageFromText, generateLook } from './geminiService';
+import { setImageProvider } from './imageProvider';
+import { createMockProvider } from './mockProvider';
+
+// Enough of FileReader for the service to read uploads as data URLs.
+class TestFileReader {
+  result: string | null = null;
+  onloadend: (() => void) | null = null;
+
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then(buffer => {
+      this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`;
+      this.onloadend?.();
+    });
+  }
+}
+
+// Runs the full flows against the offline mock, drawing on a Skia-backed canvas.
+beforeAll(() => {
+  vi.stubGlobal('document', { createElement: () => createCanvas(1, 1) });
+  vi.stubGlobal('Image', Image);
+  vi.stubGlobal('FileReader', TestFileReader);
+  setImageProvider(createMockProvider({ latencyMs: 0 }));
+});
+
+afterAll(() => {
+  setImageProvider(null);
+  vi.unstubAllGlobals();
+});
+
+const solidPng = (color: string, width = 32, height = 32) => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, width, height);
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+const pngFile = (name: string, color: string) =>
+  new File([Buffer.from(solidPng(color), 'base64')], name, { type: 'image/png' });
+
+const decode = async (base64: string) => {
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = reject;
+    image.src = Buffer.from(base64, 'base64');
+  });
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  const { data } = ctx.getImageData(0, 0, image.width, image.height);
+  return {
+    width: image.width,
+    height: image.height,
+    pixel: (x: number, y: number) => Array.from(data.subarray((y * image.width + x) * 4, (y * image.width + x) * 4 + 4)),
+  };
+};
+
+describe('geminiService with the mock provider', () => {
+  it('runs a try-on from uploaded files', async () => {
+    const stages: RequestStage[] = [];
+    const result = await generateLook(
+      [{ file: pngFile('shirt.png', '#336699'), role: 'top' }],
+      pngFile('me.png', '#c68642'),
+      'A sunny street.',
+      { onStage: stage => stages.push(stage) }
+    );
+    expect(stages).toEqual(['uploading', 'generating']);
+    expect(result.startsWith('/9j/')).toBe(true);
+    expect(await decode(result)).toMatchObject({ width: 672, height: 896 });
+  });
+
+  it('generates images from text at the requested aspect ratio', async () => {
+    const images = await generateImageFromText('A camel coat on a hanger', '16:9', 2);
+    expect(images).toHaveLength(2);
+    expect(await decode(images[1])).toMatchObject({ width: 1024, height: 576 });
+  });
+
+  it('edits an image at its own size', async () => {
+    const edited = await editImage(solidPng('#ff0000', 40, 20), 'Make it blue');
+    expect(await decode(edited)).toMatchObject({ width: 40, height: 20 });
+  });
+
+  it('keeps pixels outside the mask of a region edit', async () => {
+    const original = solidPng('#ff0000');
+    const maskCanvas = createCanvas(32, 32);
+    const maskCtx = maskCanvas.getContext('2d');
+    maskCtx.fillStyle = '#ffffff';
+    maskCtx.fillRect(8, 8, 16, 16);
+    const mask = maskCanvas.toDataURL('image/png').split(',')[1];
+
+    const { pixel } = await decode(await editImageRegion(original, mask, 'Add a pocket'));
+    expect(pixel(0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixel(31, 16)).toEqual([255, 0, 0, 255]);
+    // The mock tints what it edits, so the masked area differs from the original.
+    expect(pixel(16, 16)).not.toEqual([255, 0, 0, 255]);
+  });
+
+  it('stops when the request is cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(editImage(solidPng('#ff0000'), 'Make it blue', { signal: controller.signal }))
+      .rejects.toBeInstanceOf(CancelledError);
+  });
+});
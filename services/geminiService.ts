@@ -1,13 +1,39 @@
+import type { AspectRatio, ChatTurn, StylistReply, OutfitProposal, PersonalPalette, FashionAnalysis, FidelityReport, IdentityCheck, LookComparison, GenerationSettings, ModelOperation, RequestStage, AnalysisProgress, ItemRole, LookItem } from "../types";
+import { getImageProvider, type InlineImage, type ModelOptions, type TryOnItemImage } from "./imageProvider";
+import { toBinaryMask, compositeMaskedEdit } from "../utils/imageCompositing";
+import { detectImageMimeType } from "../utils/download";
+import { dominantColors, type SampleRegion } from "../utils/colorSampling";
+import { withRetry, type RequestOptions } from "./requestPolicy";
+import { MAX_CHAT_TURNS } from "./proxyProtocol";
+import { getGenerationSettings, toModelOptions } from "./generationSettings";
+import { getLocale } from "../i18n";
 
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { AspectRatio } from "../types";
+export interface ServiceOptions extends RequestOptions {
+  // Overrides the settings saved in the settings panel for this call.
+  settings?: GenerationSettings;
+  // Reports what the call is currently doing, for progress indicators.
+  onStage?: (stage: RequestStage) => void;
+}
 
-// FIX: Initialize the GoogleGenAI client.
-// This assumes API_KEY is set in the environment.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+export interface AnalysisOptions extends ServiceOptions {
+  // Streams the analysis text as the model produces it. Restarts from empty on a retry.
+  onProgress?: (progress: AnalysisProgress) => void;
+  // The wearer's personal color analysis, so the outfit's colors are judged against it.
+  palette?: PersonalPalette | null;
+}
+
+// Try-ons on the user's own photo can ask for the person's likeness to be kept.
+export interface TryOnOptions extends ServiceOptions {
+  preserveIdentity?: boolean;
+  // Further photos of the person in the user image; only sent when preserveIdentity is set.
+  identityReferences?: File[];
+}
+
+const modelOptions = (operation: ModelOperation, { settings }: ServiceOptions): ModelOptions =>
+  toModelOptions(settings ?? getGenerationSettings(), operation, getLocale());
 
 // Helper function to convert a File object to a base64 string for the API
-const fileToGenerativePart = async (file: File) => {
+const fileToGenerativePart = async (file: File): Promise<InlineImage> => {
   const base64EncodedDataPromise = new Promise<string>((resolve) => {
     const reader = new FileReader();
     reader.onloadend = () => {
@@ -23,136 +49,294 @@ const fileToGenerativePart = async (file: File) => {
     reader.readAsDataURL(file);
   });
   return {
-    inlineData: {
-      data: await base64EncodedDataPromise,
-      mimeType: file.type,
-    },
+    data: await base64EncodedDataPromise,
+    mimeType: file.type,
   };
 };
 
-// Helper function to convert a base64 string to a part for the API
-const base64ToGenerativePart = (base64Data: string, mimeType: string = 'image/jpeg') => {
+// Encodes a try-on item together with its placement hints.
+const itemToGenerativePart = async ({ file, role, notes }: LookItem): Promise<TryOnItemImage> => ({
+  ...await fileToGenerativePart(file),
+  role,
+  notes: notes?.trim() || undefined,
+});
+
+// Helper function to wrap a base64 string for the provider
+const base64ToGenerativePart = (base64Data: string, mimeType: string = detectImageMimeType(base64Data)): InlineImage => {
   return {
-    inlineData: {
-      data: base64Data,
-      mimeType,
-    },
+    data: base64Data,
+    mimeType,
   };
 };
 
+// The identity fields of a try-on request. References are dropped without a user photo to anchor them.
+const identityParts = async (userImage: File | null, { preserveIdentity, identityReferences = [] }: TryOnOptions) =>
+  userImage && preserveIdentity
+    ? { preserveIdentity, identityReferences: await Promise.all(identityReferences.map(fileToGenerativePart)) }
+    : {};
+
+// Thinking-mode analyses can run considerably longer than image calls.
+const ANALYSIS_TIMEOUT_MS = 180000;
+
 export const generateLook = async (
-  itemImages: File[],
+  itemImages: LookItem[],
   userImage: File | null,
-  sceneDescription: string
+  sceneDescription: string,
+  options: TryOnOptions = {}
 ): Promise<string> => {
-    // FIX: Use gemini-2.5-flash-image for image generation tasks.
-    const model = 'gemini-2.5-flash-image';
-    const itemImageParts = await Promise.all(itemImages.map(fileToGenerativePart));
+    options.onStage?.('uploading');
+    const itemImageParts = await Promise.all(itemImages.map(itemToGenerativePart));
+    const userImagePart = userImage ? await fileToGenerativePart(userImage) : null;
+    const identity = await identityParts(userImage, options);
+    options.onStage?.('generating');
 
-    const promptParts = [];
+    return withRetry(signal => getImageProvider().generateLook({
+        itemImages: itemImageParts,
+        userImage: userImagePart,
+        sceneDescription,
+        ...identity,
+        options: modelOptions('tryOn', options),
+        signal,
+    }), options);
+};
 
-    let textPrompt = `Generate a photorealistic image of a person in the following scene: "${sceneDescription}". `;
+// Runs `count` independent try-on generations in parallel. Variations that fail are
+// dropped; the call only fails if none of them succeed.
+export const generateLookVariations = async (
+  itemImages: LookItem[],
+  userImage: File | null,
+  sceneDescription: string,
+  count: number,
+  options: TryOnOptions = {}
+): Promise<string[]> => {
+    options.onStage?.('uploading');
+    const itemImageParts = await Promise.all(itemImages.map(itemToGenerativePart));
+    const userImagePart = userImage ? await fileToGenerativePart(userImage) : null;
+    const identity = await identityParts(userImage, options);
+    options.onStage?.('generating');
+    const baseOptions = modelOptions('tryOn', options);
 
-    if (userImage) {
-        textPrompt += "The person in the image should be the person from the provided user photo, wearing the following items. Blend the items naturally onto the person.";
-        const userImagePart = await fileToGenerativePart(userImage);
-        promptParts.push(userImagePart);
-    } else {
-        textPrompt += "The person should be an AI-generated model, wearing the following items. The items should look natural on the model.";
+    const results = await Promise.allSettled(Array.from({ length: count }, (_, variant) =>
+        withRetry(signal => getImageProvider().generateLook({
+            itemImages: itemImageParts,
+            userImage: userImagePart,
+            sceneDescription,
+            variant,
+            ...identity,
+            // A fixed seed would make every variation identical, so each one gets its own.
+            options: baseOptions.seed === undefined ? baseOptions : { ...baseOptions, seed: (baseOptions.seed + variant) % 2 ** 31 },
+            signal,
+        }), options)
+    ));
+    const images = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    if (images.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
     }
-    
-    promptParts.unshift({ text: textPrompt });
-    promptParts.push(...itemImageParts);
-
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: { parts: promptParts },
-        config: {
-            // FIX: responseModalities must be an array with a single Modality.IMAGE element.
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        return part.inlineData.data;
-      }
-    }
-    throw new Error("No image was generated.");
+    return images;
 };
 
 
 export const analyzeLookWithThinking = async (
   imageBase64: string,
-  sceneDescription: string
-): Promise<string> => {
-    // FIX: Use gemini-2.5-pro for complex text tasks.
-    const model = 'gemini-2.5-pro';
-    const imagePart = base64ToGenerativePart(imageBase64, 'image/jpeg');
-    const textPart = {
-        text: `You are a world-class fashion stylist. Provide a detailed, professional fashion analysis of the outfit shown in the image, considering the described scene: "${sceneDescription}". Focus on style, color coordination, suitability for the occasion, and suggest potential improvements or alternative accessories.`
-    };
+  sceneDescription: string,
+  options: AnalysisOptions = {}
+): Promise<FashionAnalysis> => {
+    options.onStage?.('analyzing');
+    return withRetry(signal => getImageProvider().analyzeLook({
+        image: base64ToGenerativePart(imageBase64),
+        sceneDescription,
+        palette: options.palette ?? undefined,
+        options: modelOptions('analysis', options),
+        signal,
+        onProgress: options.onProgress,
+    }), options, { timeoutMs: ANALYSIS_TIMEOUT_MS });
+};
+
+export const compareLooks = async (
+  looks: { imageBase64: string; sceneDescription: string }[],
+  options: ServiceOptions = {}
+): Promise<LookComparison> => {
+    options.onStage?.('comparing');
+    return withRetry(signal => getImageProvider().compareLooks({
+        looks: looks.map(look => ({
+            image: base64ToGenerativePart(look.imageBase64),
+            sceneDescription: look.sceneDescription,
+        })),
+        options: modelOptions('analysis', options),
+        signal,
+    }), options, { timeoutMs: ANALYSIS_TIMEOUT_MS });
+};
+
+// Checks that every item sent to the try-on appears, faithfully, in the result.
+export const verifyLookFidelity = async (
+  imageBase64: string,
+  items: LookItem[],
+  options: ServiceOptions = {}
+): Promise<FidelityReport> => {
+    options.onStage?.('verifying');
+    const itemParts = await Promise.all(items.map(itemToGenerativePart));
+    return withRetry(signal => getImageProvider().verifyLook({
+        image: base64ToGenerativePart(imageBase64),
+        items: itemParts,
+        options: modelOptions('analysis', options),
+        signal,
+    }), options, { timeoutMs: ANALYSIS_TIMEOUT_MS });
+};
+
+// Compares the person in a try-on result with their photos, the main one first.
+export const checkIdentity = async (
+  imageBase64: string,
+  photos: File[],
+  options: ServiceOptions = {}
+): Promise<IdentityCheck> => {
+    options.onStage?.('matching');
+    const references = await Promise.all(photos.map(fileToGenerativePart));
+    return withRetry(signal => getImageProvider().checkIdentity({
+        references,
+        image: base64ToGenerativePart(imageBase64),
+        options: modelOptions('analysis', options),
+        signal,
+    }), options, { timeoutMs: ANALYSIS_TIMEOUT_MS });
+};
+
+// The latest turns that fit in one request, starting with a user turn as the models expect.
+// The look itself is sent with every request, so older turns are not needed to stay on topic.
+const recentTurns = (messages: ChatTurn[]): ChatTurn[] => {
+    const recent = messages.slice(-MAX_CHAT_TURNS);
+    const start = recent.findIndex(message => message.role === 'user');
+    return start === -1 ? recent : recent.slice(start);
+};
+
+// Sends the conversation about a look, ending with the user's new message, to the stylist.
+export const askStylist = async (
+  look: { imageBase64: string; items: LookItem[]; sceneDescription: string },
+  messages: ChatTurn[],
+  options: ServiceOptions = {}
+): Promise<StylistReply> => {
+    options.onStage?.('chatting');
+    const items = await Promise.all(look.items.map(itemToGenerativePart));
+    return withRetry(signal => getImageProvider().chatWithStylist({
+        image: base64ToGenerativePart(look.imageBase64),
+        items,
+        sceneDescription: look.sceneDescription,
+        messages: recentTurns(messages),
+        options: modelOptions('analysis', options),
+        signal,
+    }), options, { timeoutMs: ANALYSIS_TIMEOUT_MS });
+};
 
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: { parts: [textPart, imagePart] },
-        config: {
-            // FIX: Enable thinking for more detailed analysis.
-            thinkingConfig: { thinkingBudget: 8192 }
-        }
-    });
+// Asks the stylist to put together up to `count` outfits from a pool of items, best first.
+export const recommendOutfits = async (
+  pool: LookItem[],
+  sceneDescription: string,
+  count: number,
+  options: ServiceOptions = {}
+): Promise<OutfitProposal[]> => {
+    options.onStage?.('styling');
+    const items = await Promise.all(pool.map(itemToGenerativePart));
+    return withRetry(signal => getImageProvider().recommendOutfits({
+        items,
+        sceneDescription,
+        count,
+        options: modelOptions('analysis', options),
+        signal,
+    }), options, { timeoutMs: ANALYSIS_TIMEOUT_MS });
+};
+
+// Where the face usually is in a portrait or full-body photo.
+const FACE_REGION: SampleRegion = { x: 0.25, y: 0, width: 0.5, height: 0.35 };
 
-    // FIX: Extract text directly from the response.
-    return response.text;
+// Classifies the user's seasonal palette. Tones sampled in the browser are sent along as hints;
+// if sampling fails the model works from the photo alone.
+export const analyzePersonalColors = async (
+  photo: File,
+  options: ServiceOptions = {}
+): Promise<PersonalPalette> => {
+    options.onStage?.('coloring');
+    const [image, sampledColors] = await Promise.all([
+        fileToGenerativePart(photo),
+        dominantColors(photo, 6, FACE_REGION).catch(() => []),
+    ]);
+    return withRetry(signal => getImageProvider().analyzeColors({
+        image,
+        sampledColors,
+        options: modelOptions('analysis', options),
+        signal,
+    }), options, { timeoutMs: ANALYSIS_TIMEOUT_MS });
 };
 
 export const editImage = async (
   imageBase64: string,
-  editPrompt: string
+  editPrompt: string,
+  options: ServiceOptions = {}
 ): Promise<string> => {
-    // FIX: Use gemini-2.5-flash-image for image editing tasks.
-    const model = 'gemini-2.5-flash-image';
-    const imagePart = base64ToGenerativePart(imageBase64, 'image/jpeg');
-    const textPart = { text: editPrompt };
-
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: { parts: [imagePart, textPart] },
-        config: {
-            // FIX: responseModalities must be an array with a single Modality.IMAGE element.
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        return part.inlineData.data;
-      }
-    }
-    throw new Error("Could not edit the image.");
+    options.onStage?.('editing');
+    return withRetry(signal => getImageProvider().editImage({
+        image: base64ToGenerativePart(imageBase64),
+        editPrompt,
+        options: modelOptions('edit', options),
+        signal,
+    }), options);
+};
+
+// Edits only the painted region of the image. The provider receives the mask as a
+// hint, and the result is composited back so pixels outside the mask stay unchanged.
+export const editImageRegion = async (
+  imageBase64: string,
+  maskBase64: string,
+  editPrompt: string,
+  options: ServiceOptions = {}
+): Promise<string> => {
+    options.onStage?.('editing');
+    const mask = base64ToGenerativePart(await toBinaryMask(maskBase64), 'image/png');
+    const editedBase64 = await withRetry(signal => getImageProvider().editImage({
+        image: base64ToGenerativePart(imageBase64),
+        mask,
+        editPrompt,
+        options: modelOptions('edit', options),
+        signal,
+    }), options);
+    return compositeMaskedEdit(imageBase64, editedBase64, maskBase64);
 };
 
 export const generateImageFromText = async (
   prompt: string,
-  aspectRatio: AspectRatio
+  aspectRatio: AspectRatio,
+  numberOfImages: number = 1,
+  options: ServiceOptions = {}
+): Promise<string[]> => {
+    options.onStage?.('generating');
+    return withRetry(signal => getImageProvider().generateImageFromText({
+        prompt,
+        aspectRatio,
+        numberOfImages,
+        options: modelOptions('textToImage', options),
+        signal,
+    }), options);
+};
+
+// Detects what each item is (top, shoes, bag...) so unlabeled items can still be placed correctly.
+export const classifyItemRoles = async (
+  files: File[],
+  options: ServiceOptions = {}
+): Promise<(ItemRole | null)[]> => {
+    options.onStage?.('classifying');
+    const images = await Promise.all(files.map(fileToGenerativePart));
+    return withRetry(signal => getImageProvider().classifyItems({
+        images,
+        options: modelOptions('classify', options),
+        signal,
+    }), options);
+};
+
+// Descriptive alt text for a generated image. Runs in the background, so it reports no stage.
+export const describeImage = async (
+  imageBase64: string,
+  options: ServiceOptions = {}
 ): Promise<string> => {
-    // FIX: Use imagen-4.0-generate-001 for high-quality image generation.
-    const model = 'imagen-4.0-generate-001';
-    
-    const response = await ai.models.generateImages({
-        model: model,
-        prompt: prompt,
-        config: {
-          numberOfImages: 1,
-          aspectRatio: aspectRatio,
-          outputMimeType: 'image/jpeg',
-        },
-    });
-    
-    // FIX: Extract image bytes from the response.
-    const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-    if (!base64ImageBytes) {
-        throw new Error("Image generation failed.");
-    }
-    return base64ImageBytes;
+    return withRetry(signal => getImageProvider().describeImage({
+        image: base64ToGenerativePart(imageBase64),
+        options: modelOptions('classify', options),
+        signal,
+    }), options);
 };
@@ -0,0 +1,89 @@
+import type { GenerationSettings, ModelOperation, OutputMimeType } from "../types";
+import type { ModelOptions } from "./imageProvider";
+import type { Locale } from "../i18n/locales";
+import type { MessageKey } from "../i18n";
+import { GEMINI_MODELS, minThinkingBudget } from "./models";
+
+const STORAGE_KEY = 'stylemix-generation-settings';
+
+export const MODEL_OPERATIONS: { operation: ModelOperation; label: MessageKey; suggestions: string[] }[] = [
+  { operation: 'tryOn', label: 'settings.model.tryOn', suggestions: ['gemini-2.5-flash-image', 'gemini-2.5-flash-image-preview'] },
+  { operation: 'edit', label: 'settings.model.edit', suggestions: ['gemini-2.5-flash-image', 'gemini-2.5-flash-image-preview'] },
+  { operation: 'textToImage', label: 'settings.model.textToImage', suggestions: ['imagen-4.0-generate-001', 'imagen-4.0-ultra-generate-001', 'imagen-4.0-fast-generate-001', 'imagen-3.0-generate-002'] },
+  { operation: 'analysis', label: 'settings.model.analysis', suggestions: ['gemini-2.5-pro', 'gemini-2.5-flash'] },
+  { operation: 'classify', label: 'settings.model.classify', suggestions: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'] },
+];
+
+export const OUTPUT_MIME_TYPES: OutputMimeType[] = ['image/jpeg', 'image/png'];
+
+// Matches the Gemini API limits for the 2.5 models.
+export const MAX_THINKING_BUDGET = 32768;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  models: { ...GEMINI_MODELS },
+  thinkingBudget: 8192,
+  outputMimeType: 'image/jpeg',
+  seed: null,
+  negativePrompt: '',
+  localizedOutput: true,
+};
+
+// Keeps valid stored values and fills everything else from the defaults, so settings saved
+// by an older version never break the app.
+const sanitize = (value: unknown): GenerationSettings => {
+  const stored = (value && typeof value === 'object' ? value : {}) as Partial<GenerationSettings>;
+  const models = { ...DEFAULT_GENERATION_SETTINGS.models };
+  for (const { operation } of MODEL_OPERATIONS) {
+    const model = stored.models?.[operation];
+    if (typeof model === 'string' && model.trim()) models[operation] = model.trim();
+  }
+  const budget = stored.thinkingBudget;
+  const thinkingBudget = Number.isInteger(budget) && budget! >= -1 && budget! <= MAX_THINKING_BUDGET ? budget! : DEFAULT_GENERATION_SETTINGS.thinkingBudget;
+  return {
+    models,
+    thinkingBudget: thinkingBudget === -1 ? -1 : Math.max(thinkingBudget, minThinkingBudget(models.analysis)),
+    outputMimeType: OUTPUT_MIME_TYPES.includes(stored.outputMimeType!) ? stored.outputMimeType! : DEFAULT_GENERATION_SETTINGS.outputMimeType,
+    seed: Number.isInteger(stored.seed) && stored.seed! >= 0 ? stored.seed! : null,
+    negativePrompt: typeof stored.negativePrompt === 'string' ? stored.negativePrompt : '',
+    localizedOutput: typeof stored.localizedOutput === 'boolean' ? stored.localizedOutput : DEFAULT_GENERATION_SETTINGS.localizedOutput,
+  };
+};
+
+let current: GenerationSettings | null = null;
+
+export const getGenerationSettings = (): GenerationSettings => {
+  if (!current) {
+    try {
+      const raw = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
+      current = sanitize(raw ? JSON.parse(raw) : null);
+    } catch {
+      current = { ...DEFAULT_GENERATION_SETTINGS };
+    }
+  }
+  return current;
+};
+
+export const saveGenerationSettings = (settings: GenerationSettings): GenerationSettings => {
+  current = sanitize(settings);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  } catch (e) {
+    // Still applies for this session when storage is unavailable (e.g. private browsing).
+    console.error(e);
+  }
+  return current;
+};
+
+// The subset of the settings that applies to one operation. `locale` is the interface language,
+// which text-producing operations answer in when localizedOutput is on.
+export const toModelOptions = (settings: GenerationSettings, operation: ModelOperation, locale?: Locale): ModelOptions => {
+  const producesImages = operation !== 'analysis' && operation !== 'classify';
+  return {
+    model: settings.models[operation],
+    thinkingBudget: operation === 'analysis' ? settings.thinkingBudget : undefined,
+    outputMimeType: producesImages ? settings.outputMimeType : undefined,
+    seed: producesImages ? settings.seed ?? undefined : undefined,
+    negativePrompt: producesImages && settings.negativePrompt.trim() ? settings.negativePrompt.trim() : undefined,
+    language: !producesImages && settings.localizedOutput && locale && locale !== 'en' ? locale : undefined,
+  };
+};
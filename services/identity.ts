@@ -0,0 +1,14 @@
+import type { IdentityCheck } from '../types';
+
+// Extra photos of the person accepted on top of the main user photo.
+export const MAX_IDENTITY_REFERENCES = 3;
+
+// Below this similarity the result is treated as no longer looking like the person.
+export const MIN_IDENTITY_SIMILARITY = 0.75;
+
+// Extra try-ons attempted when the likeness drifts.
+export const MAX_IDENTITY_RETRIES = 2;
+
+// A check without a visible face says nothing either way, so it never counts as drift.
+export const hasIdentityDrift = (check: IdentityCheck) =>
+  check.faceVisible && check.similarity < MIN_IDENTITY_SIMILARITY;
@@ -0,0 +1,246 @@
+// Client-side preparation of uploads before they are sent to the model:
+// decode, auto-orient, downscale, re-encode (which drops EXIF/GPS metadata)
+// and optionally clear plain backgrounds from product shots.
+
+import { t } from '../i18n';
+
+export type OutputMimeType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface PreprocessOptions {
+  maxDimension: number;
+  outputMimeType: OutputMimeType;
+  quality: number;
+  removeBackground: boolean;
+}
+
+export interface PreprocessResult {
+  file: File;
+  warnings: string[];
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: 2048,
+  outputMimeType: 'image/jpeg',
+  quality: 0.92,
+  removeBackground: false,
+};
+
+// Types the model accepts as-is; anything else is converted.
+const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const EXTENSIONS: Record<OutputMimeType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export class ImagePreprocessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImagePreprocessingError';
+  }
+}
+
+const describeType = (file: File) =>
+  file.type ? file.type.replace('image/', '').toUpperCase() : file.name.split('.').pop()?.toUpperCase() ?? t('upload.unknownType');
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// Items of a HEIF file that hold EXIF data, found via meta > iinf > infe boxes.
+const hasHeifExifItem = (bytes: Uint8Array, view: DataView): boolean => {
+  // ISO BMFF boxes: 32-bit size (1 = 64-bit size follows, 0 = up to the end), then the type.
+  const children = (start: number, end: number) => {
+    const boxes: { type: string; start: number; end: number }[] = [];
+    for (let offset = start; offset + 8 <= end;) {
+      let size = view.getUint32(offset);
+      let header = 8;
+      if (size === 1 && offset + 16 <= end) {
+        size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header) break;
+      boxes.push({ type: ascii(bytes, offset + 4, 4), start: offset + header, end: Math.min(offset + size, end) });
+      offset += size;
+    }
+    return boxes;
+  };
+
+  // meta, iinf and infe are full boxes: one version byte and three flag bytes precede the content.
+  const meta = children(0, bytes.length).find(box => box.type === 'meta');
+  const iinf = meta && children(meta.start + 4, meta.end).find(box => box.type === 'iinf');
+  if (!iinf) return false;
+  const entriesStart = iinf.start + 4 + (bytes[iinf.start] === 0 ? 2 : 4);
+  return children(entriesStart, iinf.end).some(infe => {
+    const version = bytes[infe.start];
+    if (infe.type !== 'infe' || version < 2) return false;
+    const itemType = infe.start + 4 + (version === 2 ? 2 : 4) + 2;
+    return ascii(bytes, itemType, 4) === 'Exif';
+  });
+};
+
+// Walks the container structure for an embedded EXIF block: a JPEG APP1 "Exif" segment, a PNG
+// eXIf chunk, a WebP EXIF chunk or a HEIF Exif item. Only headers are read, so pixel data that
+// happens to contain the bytes "Exif" does not count.
+const hasExifMetadata = async (file: File): Promise<boolean> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    // JPEG: length-prefixed marker segments up to the start of the compressed scan.
+    for (let offset = 2; offset + 4 <= bytes.length && bytes[offset] === 0xff;) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xff) {
+        offset++; // fill byte
+        continue;
+      }
+      if (marker === 0xda || marker === 0xd9) return false;
+      if (marker === 0xe1 && ascii(bytes, offset + 4, 6) === 'Exif\0\0') return true;
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return false;
+  }
+
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') {
+    // PNG: length, type, data and CRC per chunk after the 8-byte signature.
+    for (let offset = 8; offset + 8 <= bytes.length;) {
+      const type = ascii(bytes, offset + 4, 4);
+      if (type === 'eXIf') return true;
+      if (type === 'IEND') return false;
+      offset += 12 + view.getUint32(offset);
+    }
+    return false;
+  }
+
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    // WebP: FourCC and little-endian size per chunk, padded to an even length.
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+      if (ascii(bytes, offset, 4) === 'EXIF') return true;
+      const size = view.getUint32(offset + 4, true);
+      offset += 8 + size + (size % 2);
+    }
+    return false;
+  }
+
+  return ascii(bytes, 4, 4) === 'ftyp' && hasHeifExifItem(bytes, view);
+};
+
+// Only WebKit (Safari, and every browser on iOS) decodes HEIC/HEIF photos; elsewhere they
+// cannot be read, so the file picker does not offer them.
+export const canDecodeHeic = (): boolean => {
+  if (typeof navigator === 'undefined') return false;
+  const { userAgent } = navigator;
+  return /iPhone|iPad|iPod/.test(userAgent)
+    || (/Safari\//.test(userAgent) && !/Chrome\/|Chromium\/|Edg\/|Android/.test(userAgent));
+};
+
+// Flood-fills from the image border over pixels close to the border's average colour
+// and paints them white. Only runs when the border is near-uniform, as on studio product shots.
+const removeUniformBackground = (ctx: CanvasRenderingContext2D, width: number, height: number, tolerance: number = 32): boolean => {
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+  for (let y = 1; y < height - 1; y++) border.push(y * width, y * width + width - 1);
+
+  const mean = [0, 0, 0];
+  border.forEach(p => { for (let c = 0; c < 3; c++) mean[c] += data[p * 4 + c]; });
+  for (let c = 0; c < 3; c++) mean[c] /= border.length;
+
+  const distance = (p: number) => Math.max(
+    Math.abs(data[p * 4] - mean[0]),
+    Math.abs(data[p * 4 + 1] - mean[1]),
+    Math.abs(data[p * 4 + 2] - mean[2])
+  );
+  const uniformShare = border.filter(p => distance(p) <= tolerance).length / border.length;
+  if (uniformShare < 0.9) return false;
+
+  const visited = new Uint8Array(width * height);
+  const stack = border.filter(p => distance(p) <= tolerance);
+  stack.forEach(p => { visited[p] = 1; });
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    data[p * 4] = data[p * 4 + 1] = data[p * 4 + 2] = 255;
+    const x = p % width;
+    const neighbours = [p - width, p + width, x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1];
+    for (const n of neighbours) {
+      if (n >= 0 && n < visited.length && !visited[n] && distance(n) <= tolerance) {
+        visited[n] = 1;
+        stack.push(n);
+      }
+    }
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return true;
+};
+
+export const preprocessImage = async (
+  file: File,
+  options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<PreprocessResult> => {
+  const warnings: string[] = [];
+  const isHeic = /\.(heic|heif)$/i.test(file.name) || /heic|heif/.test(file.type);
+  if (!file.type.startsWith('image/') && !isHeic) {
+    throw new ImagePreprocessingError(t('upload.notImage', { name: file.name }));
+  }
+
+  // Checked on the original upload, before re-encoding drops the metadata.
+  const hadExif = await hasExifMetadata(file);
+
+  let bitmap: ImageBitmap;
+  try {
+    // Applies the EXIF orientation so phone photos are upright after re-encoding.
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImagePreprocessingError(isHeic
+      ? t('upload.heicUnsupported', { name: file.name })
+      : t('upload.typeUnsupported', { name: file.name, type: describeType(file) })
+    );
+  }
+
+  const scale = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  if (scale < 1) {
+    warnings.push(t('upload.downscaled', { from: `${bitmap.width}×${bitmap.height}`, to: `${width}×${height}` }));
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: options.removeBackground })!;
+  if (options.outputMimeType === 'image/jpeg') {
+    // JPEG has no alpha; transparent areas would otherwise turn black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  if (options.removeBackground) {
+    warnings.push(removeUniformBackground(ctx, width, height)
+      ? t('upload.backgroundReplaced')
+      : t('upload.backgroundKept'));
+  }
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, options.outputMimeType, options.quality));
+  if (!blob) {
+    throw new ImagePreprocessingError(t('upload.encodeFailed', { name: file.name }));
+  }
+
+  if (!SUPPORTED_MIME_TYPES.includes(file.type)) {
+    warnings.push(t('upload.converted', { from: describeType(file), to: EXTENSIONS[options.outputMimeType].toUpperCase() }));
+  }
+  if (hadExif) {
+    warnings.push(t('upload.exifRemoved'));
+  }
+
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  return {
+    file: new File([blob], `${baseName}.${EXTENSIONS[options.outputMimeType]}`, { type: options.outputMimeType, lastModified: file.lastModified }),
+    warnings,
+  };
+};
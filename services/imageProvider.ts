@@ -0,0 +1,163 @@
+import type { AnalysisProgress, AspectRatio, ChatTurn, FashionAnalysis, FidelityReport, IdentityCheck, ItemRole, LookComparison, OutfitProposal, OutputMimeType, PersonalPalette, StylistReply } from "../types";
+import { createProxyProvider } from "./proxyProvider";
+import { createMockProvider } from "./mockProvider";
+import type { Locale } from "../i18n/locales";
+
+// An image already encoded for transport: raw base64 (no data URL prefix) plus its MIME type.
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+// Per-request overrides from the settings panel. Anything unset, or unsupported by the
+// operation, falls back to the provider's defaults.
+export interface ModelOptions {
+  model?: string;
+  thinkingBudget?: number;
+  outputMimeType?: OutputMimeType;
+  seed?: number;
+  negativePrompt?: string;
+  // Language for the free text in analyses, chat replies and alt text; English when unset.
+  language?: Locale;
+}
+
+// Common to every request; providers should abort in-flight work when the signal fires.
+interface ProviderRequest {
+  signal?: AbortSignal;
+  options?: ModelOptions;
+}
+
+// A try-on item with the placement hints the prompt refers to it by.
+export interface TryOnItemImage extends InlineImage {
+  role?: ItemRole;
+  notes?: string;
+}
+
+export interface GenerateLookRequest extends ProviderRequest {
+  itemImages: TryOnItemImage[];
+  userImage: InlineImage | null;
+  sceneDescription: string;
+  // Index when several variations are requested; deterministic backends use it to vary output.
+  variant?: number;
+  // Asks for the person's face, body shape and skin tone to be kept exactly. Needs a user image.
+  preserveIdentity?: boolean;
+  // Further photos of the person in userImage, e.g. other angles, to help keep their likeness.
+  identityReferences?: InlineImage[];
+}
+
+export interface EditImageRequest extends ProviderRequest {
+  image: InlineImage;
+  editPrompt: string;
+  // Optional black/white PNG; white marks the only region the edit may touch.
+  mask?: InlineImage;
+}
+
+export interface TextToImageRequest extends ProviderRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  numberOfImages: number;
+}
+
+export interface AnalyzeLookRequest extends ProviderRequest {
+  image: InlineImage;
+  sceneDescription: string;
+  // The wearer's personal color analysis, so colors are judged against it.
+  palette?: PersonalPalette;
+  // When set, the provider streams the response and reports the text received so far.
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export interface CompareLooksRequest extends ProviderRequest {
+  looks: { image: InlineImage; sceneDescription: string }[];
+}
+
+export interface VerifyLookRequest extends ProviderRequest {
+  // The try-on result to check.
+  image: InlineImage;
+  // The items that were sent to the try-on, in the same order.
+  items: TryOnItemImage[];
+}
+
+export interface CheckIdentityRequest extends ProviderRequest {
+  // Photos of the person, the main one first.
+  references: InlineImage[];
+  // The try-on result that should show the same person.
+  image: InlineImage;
+}
+
+export interface StylistChatRequest extends ProviderRequest {
+  // The look as it is now; earlier turns may have been about it before edits were applied.
+  image: InlineImage;
+  // The try-on items the look was made from, if any.
+  items: TryOnItemImage[];
+  sceneDescription: string;
+  // The conversation so far, oldest first, ending with the user's new message.
+  messages: ChatTurn[];
+}
+
+export interface RecommendOutfitsRequest extends ProviderRequest {
+  // The pool to pick from.
+  items: TryOnItemImage[];
+  sceneDescription: string;
+  // How many outfits to propose, best first.
+  count: number;
+}
+
+export interface AnalyzeColorsRequest extends ProviderRequest {
+  // A photo of the person.
+  image: InlineImage;
+  // Dominant colors sampled from the photo in the browser, most common first, as hints.
+  sampledColors: string[];
+}
+
+export interface ClassifyItemsRequest extends ProviderRequest {
+  images: InlineImage[];
+}
+
+export interface DescribeImageRequest extends ProviderRequest {
+  image: InlineImage;
+}
+
+// Every backend the studio can talk to implements these operations.
+// Image results are returned as base64 data, JPEG unless another output type was requested.
+export interface ImageProvider {
+  readonly name: ImageProviderName;
+  generateLook(request: GenerateLookRequest): Promise<string>;
+  editImage(request: EditImageRequest): Promise<string>;
+  generateImageFromText(request: TextToImageRequest): Promise<string[]>;
+  analyzeLook(request: AnalyzeLookRequest): Promise<FashionAnalysis>;
+  compareLooks(request: CompareLooksRequest): Promise<LookComparison>;
+  verifyLook(request: VerifyLookRequest): Promise<FidelityReport>;
+  checkIdentity(request: CheckIdentityRequest): Promise<IdentityCheck>;
+  chatWithStylist(request: StylistChatRequest): Promise<StylistReply>;
+  recommendOutfits(request: RecommendOutfitsRequest): Promise<OutfitProposal[]>;
+  analyzeColors(request: AnalyzeColorsRequest): Promise<PersonalPalette>;
+  // One role per image, in order; null where the image is not a recognizable item.
+  classifyItems(request: ClassifyItemsRequest): Promise<(ItemRole | null)[]>;
+  // Alt text for a generated image: what the person is wearing and the setting, for screen readers.
+  describeImage(request: DescribeImageRequest): Promise<string>;
+}
+
+// 'gemini' talks to the API directly and only runs inside the proxy server, which holds the key.
+export type ImageProviderName = 'gemini' | 'proxy' | 'mock';
+
+// The browser never sees the API key, so it either goes through the proxy or stays offline.
+const resolveProviderName = (): ImageProviderName =>
+  process.env.IMAGE_PROVIDER?.trim().toLowerCase() === 'mock' ? 'mock' : 'proxy';
+
+let activeProvider: ImageProvider | null = null;
+
+export const getImageProvider = (): ImageProvider => {
+  if (!activeProvider) {
+    activeProvider = resolveProviderName() === 'mock'
+      ? createMockProvider()
+      : createProxyProvider(process.env.API_BASE_URL);
+  }
+  return activeProvider;
+};
+
+// Swaps the backend used by geminiService, e.g. to run flows against the mock in tests.
+// Passing null resets to the configured provider.
+export const setImageProvider = (provider: ImageProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,38 @@
+import type { ItemRole, WardrobeCategory } from "../types";
+import { MalformedResponseError } from "./errors";
+import type { MessageKey } from "../i18n";
+
+// `placement` is how the role is described to the try-on model.
+export const ITEM_ROLES: { role: ItemRole; label: MessageKey; placement: string }[] = [
+  { role: 'top', label: 'role.top', placement: 'a top, worn on the upper body' },
+  { role: 'bottom', label: 'role.bottom', placement: 'bottoms (trousers, skirt or shorts), worn on the lower body' },
+  { role: 'dress', label: 'role.dress', placement: 'a dress, worn as the main garment' },
+  { role: 'outerwear', label: 'role.outerwear', placement: 'outerwear (a jacket or coat), worn over the other clothes' },
+  { role: 'shoes', label: 'role.shoes', placement: 'shoes, worn on the feet' },
+  { role: 'bag', label: 'role.bag', placement: 'a bag, carried in the hand or over the shoulder' },
+  { role: 'jewelry', label: 'role.jewelry', placement: 'jewelry, worn where this kind of piece is normally worn' },
+  { role: 'hat', label: 'role.hat', placement: 'a hat, worn on the head' },
+];
+
+export const isItemRole = (value: unknown): value is ItemRole =>
+  ITEM_ROLES.some(({ role }) => role === value);
+
+export const itemRolePlacement = (role: ItemRole) =>
+  ITEM_ROLES.find(entry => entry.role === role)!.placement;
+
+// Wardrobe categories are coarser; accessories are left for the user or detection to decide.
+export const roleForWardrobeCategory = (category: WardrobeCategory): ItemRole | undefined =>
+  category === 'accessory' ? undefined : category;
+
+// Validates the classifier's answer: one entry per image, with anything unrecognized treated as
+// "no role" rather than failing the whole request.
+export const parseItemRoles = (raw: string, imageCount: number): (ItemRole | null)[] => {
+  let roles: unknown;
+  try {
+    roles = (JSON.parse(raw) as { roles?: unknown })?.roles;
+  } catch {
+    throw new MalformedResponseError('The item classification was not valid JSON.');
+  }
+  if (!Array.isArray(roles)) throw new MalformedResponseError('The item classification had no "roles" list.');
+  return Array.from({ length: imageCount }, (_, i) => isItemRole(roles[i]) ? roles[i] : null);
+};
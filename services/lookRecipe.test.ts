@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { createLookRecipe, parseLookRecipe } from './lookRecipe';
+import { setImageProvider } from './imageProvider';
+import { createMockProvider } from './mockProvider';
+
+setImageProvider(createMockProvider({ latencyMs: 0 }));
+
+describe('createLookRecipe', () => {
+  it('records the prompt and aspect ratio the look was generated from', async () => {
+    const recipe = await createLookRecipe({
+      generation: { prompt: 'A red coat in the snow', aspectRatio: '16:9' },
+      lineage: [{ source: 'generate', prompt: 'A red coat in the snow' }, { source: 'edit', prompt: 'Make it blue' }],
+    }, [], null, { embedImages: true });
+    expect(recipe).toMatchObject({ source: 'generate', prompt: 'A red coat in the snow', aspectRatio: '16:9', edits: [{ prompt: 'Make it blue' }] });
+    expect(parseLookRecipe(JSON.stringify(recipe))).toMatchObject({ prompt: 'A red coat in the snow', aspectRatio: '16:9' });
+  });
+
+  it('falls back to the first prompt of a look without a recorded generation', async () => {
+    const recipe = await createLookRecipe({ lineage: [{ source: 'tryon', prompt: 'On a sandy beach' }] }, [], null, { embedImages: true });
+    expect(recipe).toMatchObject({ source: 'tryon', prompt: 'On a sandy beach', aspectRatio: null });
+  });
+});
@@ -0,0 +1,178 @@
+import type { AspectRatio, ItemRole, LookExportData, LookGeneration, LookRecipe, RecipeImage } from "../types";
+import { getImageProvider } from "./imageProvider";
+import { getGenerationSettings } from "./generationSettings";
+import { listWardrobeItems } from "./wardrobeStore";
+import { isItemRole } from "./itemRoles";
+import { t } from "../i18n";
+
+export const LOOK_RECIPE_FORMAT = 'stylemix-look-recipe';
+export const LOOK_RECIPE_VERSION = 1;
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+export class InvalidRecipeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRecipeError';
+  }
+}
+
+export interface RecipeInput {
+  file: File;
+  // Set when the item was added from the wardrobe, so the recipe can reference it.
+  wardrobeId?: string;
+  role?: ItemRole;
+  notes?: string;
+}
+
+const fileToBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+  reader.onerror = () => reject(reader.error ?? new Error(t('recipe.readFailed', { name: file.name })));
+  reader.readAsDataURL(file);
+});
+
+const base64ToFile = (data: string, name: string, mimeType: string) =>
+  new File([Uint8Array.from(atob(data), c => c.charCodeAt(0))], name, { type: mimeType });
+
+// Wardrobe items are always referenced; other images can only be reproduced when embedded.
+const toRecipeImage = async ({ file, wardrobeId, role, notes }: RecipeInput, embed: boolean): Promise<RecipeImage> => ({
+  name: file.name,
+  mimeType: file.type,
+  data: embed || !wardrobeId ? await fileToBase64(file) : undefined,
+  wardrobeId,
+  role,
+  notes: notes?.trim() || undefined,
+});
+
+// The prompt and aspect ratio come from the look's own generation; a look opened from an edit in
+// the gallery has none recorded, so its first prompt stands in.
+export const createLookRecipe = async (
+  look: Pick<LookExportData, 'lineage'> & { generation?: LookGeneration },
+  itemImages: RecipeInput[],
+  userImage: RecipeInput | null,
+  { embedImages }: { embedImages: boolean }
+): Promise<LookRecipe> => {
+  const [root, ...edits] = look.lineage;
+  const isGenerate = root.source === 'generate';
+  const generation = look.generation ?? { prompt: root.prompt, aspectRatio: null };
+  const { models } = getGenerationSettings();
+  return {
+    format: LOOK_RECIPE_FORMAT,
+    version: LOOK_RECIPE_VERSION,
+    createdAt: new Date().toISOString(),
+    source: isGenerate ? 'generate' : 'tryon',
+    prompt: generation.prompt,
+    aspectRatio: isGenerate ? generation.aspectRatio : null,
+    models: {
+      provider: getImageProvider().name,
+      generation: isGenerate ? models.textToImage : models.tryOn,
+      edit: models.edit,
+    },
+    itemImages: isGenerate ? [] : await Promise.all(itemImages.map(item => toRecipeImage(item, embedImages))),
+    userImage: !isGenerate && userImage ? await toRecipeImage(userImage, embedImages) : null,
+    edits: edits.map(edit => edit.mask ? { prompt: edit.prompt, mask: edit.mask } : { prompt: edit.prompt }),
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const parseRecipeImage = (value: unknown, field: string): RecipeImage => {
+  if (!isRecord(value) || typeof value.name !== 'string' || typeof value.mimeType !== 'string') {
+    throw new InvalidRecipeError(t('recipe.imageUnnamed', { field }));
+  }
+  const data = typeof value.data === 'string' && value.data ? value.data : undefined;
+  const wardrobeId = typeof value.wardrobeId === 'string' && value.wardrobeId ? value.wardrobeId : undefined;
+  if (!data && !wardrobeId) {
+    throw new InvalidRecipeError(t('recipe.imageMissing', { field }));
+  }
+  return {
+    name: value.name,
+    mimeType: value.mimeType,
+    data,
+    wardrobeId,
+    role: isItemRole(value.role) ? value.role : undefined,
+    notes: typeof value.notes === 'string' && value.notes.trim() ? value.notes.trim() : undefined,
+  };
+};
+
+// Validates a recipe file. Recipes from newer versions of the app are rejected rather than
+// half-applied.
+export const parseLookRecipe = (text: string): LookRecipe => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new InvalidRecipeError(t('recipe.notJson'));
+  }
+  if (!isRecord(json) || json.format !== LOOK_RECIPE_FORMAT) {
+    throw new InvalidRecipeError(t('recipe.notRecipe'));
+  }
+  if (typeof json.version !== 'number' || json.version > LOOK_RECIPE_VERSION) {
+    throw new InvalidRecipeError(t('recipe.newerVersion', { version: String(json.version) }));
+  }
+  const source = json.source === 'generate' ? 'generate' : 'tryon';
+  if (typeof json.prompt !== 'string' || !json.prompt.trim()) {
+    throw new InvalidRecipeError(t('recipe.noPrompt'));
+  }
+  const itemImages = Array.isArray(json.itemImages) ? json.itemImages.map((item, i) => parseRecipeImage(item, t('recipe.itemField', { number: i + 1 }))) : [];
+  if (source === 'tryon' && itemImages.length === 0) {
+    throw new InvalidRecipeError(t('recipe.noItems'));
+  }
+  const models = isRecord(json.models) ? json.models : {};
+  return {
+    format: LOOK_RECIPE_FORMAT,
+    version: json.version,
+    createdAt: typeof json.createdAt === 'string' ? json.createdAt : new Date().toISOString(),
+    source,
+    prompt: json.prompt,
+    aspectRatio: ASPECT_RATIOS.includes(json.aspectRatio as AspectRatio) ? json.aspectRatio as AspectRatio : null,
+    models: {
+      provider: String(models.provider ?? 'unknown'),
+      generation: String(models.generation ?? 'unknown'),
+      edit: String(models.edit ?? 'unknown'),
+    },
+    itemImages,
+    userImage: json.userImage == null ? null : parseRecipeImage(json.userImage, t('recipe.modelPhotoField')),
+    edits: Array.isArray(json.edits)
+      ? json.edits.filter(isRecord).filter(edit => typeof edit.prompt === 'string' && edit.prompt.trim()).map(edit => ({
+          prompt: edit.prompt as string,
+          mask: typeof edit.mask === 'string' && edit.mask ? edit.mask : undefined,
+        }))
+      : [],
+  };
+};
+
+export interface ResolvedRecipeImages {
+  itemImages: { id: string; file: File; fromWardrobe: boolean; role?: ItemRole; notes?: string }[];
+  userImage: File | null;
+  // Images that could not be restored, by name.
+  missing: string[];
+}
+
+// Turns recipe images back into files, loading referenced items from the local wardrobe.
+export const resolveRecipeImages = async (recipe: LookRecipe): Promise<ResolvedRecipeImages> => {
+  const referenced = [...recipe.itemImages, recipe.userImage].some(image => image?.wardrobeId);
+  const wardrobe = referenced ? await listWardrobeItems() : [];
+  const missing: string[] = [];
+
+  const resolve = (image: RecipeImage): ResolvedRecipeImages['itemImages'][number] | null => {
+    const item = image.wardrobeId ? wardrobe.find(w => w.id === image.wardrobeId) : undefined;
+    const placement = { role: image.role, notes: image.notes };
+    if (item) return { id: item.id, file: item.file, fromWardrobe: true, ...placement };
+    if (image.data) {
+      try {
+        return { id: crypto.randomUUID(), file: base64ToFile(image.data, image.name, image.mimeType), fromWardrobe: false, ...placement };
+      } catch {
+        // Corrupt base64; reported as missing below.
+      }
+    }
+    missing.push(image.name);
+    return null;
+  };
+
+  const itemImages = recipe.itemImages.flatMap(image => resolve(image) ?? []);
+  const userImage = recipe.userImage ? resolve(recipe.userImage)?.file ?? null : null;
+  return { itemImages, userImage, missing };
+};
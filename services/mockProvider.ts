@@ -0,0 +1,331 @@
+import type { AspectRatio, ColorSeason, FashionAnalysis, PersonalPalette } from "../types";
+import type { ImageProvider, InlineImage, ModelOptions } from "./imageProvider";
+import { CancelledError } from "./errors";
+import { ITEM_ROLES } from "./itemRoles";
+
+// Smallest valid JPEG, used where no canvas is available (e.g. tests running outside a browser).
+const FALLBACK_JPEG = '/9j/4AAQSkZJRgABAQEASABIAAD/2wBDAP//////////////////////////////////////////////////////////////////////////////////////wgALCAABAAEBAREA/8QAFBABAAAAAAAAAAAAAAAAAAAAAP/aAAgBAQABPxA=';
+
+const DIMENSIONS: Record<AspectRatio, [number, number]> = {
+  '1:1': [768, 768],
+  '3:4': [672, 896],
+  '4:3': [896, 672],
+  '9:16': [576, 1024],
+  '16:9': [1024, 576],
+};
+
+interface MockProviderOptions {
+  // Artificial latency so loading states can be exercised; 0 disables it.
+  latencyMs?: number;
+}
+
+// FNV-1a, so the same inputs always produce the same colours.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new CancelledError());
+    return;
+  }
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  }, { once: true });
+});
+
+const MOCK_THOUGHTS = [
+  '**Reading the outfit**\nIdentifying the visible garments and how they layer.\n\n',
+  '**Checking the palette**\nThe colors stay within a narrow, neutral range with one accent.\n\n',
+  '**Weighing the occasion**\nComparing the formality of the pieces with the described scene.\n\n',
+];
+
+// Backdrops for the offline image descriptions.
+const MOCK_SETTINGS = ['against a plain studio backdrop', 'on a city street', 'in a softly lit interior', 'outdoors in daylight'];
+
+const MOCK_STYLIST_TOPICS = [
+  {
+    keywords: ['shoe', 'sneaker', 'boot', 'heel'],
+    advice: 'a sleeker shoe would sharpen the silhouette. Loafers keep it polished without feeling formal.',
+    edit: { label: 'Swap to loafers', prompt: 'Replace the shoes with brown leather loafers; keep everything else the same.' },
+  },
+  {
+    keywords: ['wedding', 'black-tie', 'black tie', 'formal', 'gala'],
+    advice: 'this reads as smart casual, so it would be under-dressed for black tie. A tailored dark layer gets it closer.',
+    edit: { label: 'Add a tuxedo jacket', prompt: 'Add a black tailored tuxedo jacket over the outfit; keep the person, pose and background the same.' },
+  },
+  {
+    keywords: ['casual', 'relaxed', 'weekend'],
+    advice: 'rolling the sleeves and switching to a simple tote would relax it instantly.',
+    edit: { label: 'Add a canvas tote', prompt: 'Add a natural canvas tote bag on one shoulder; keep everything else the same.' },
+  },
+];
+
+const MOCK_PALETTES: Record<ColorSeason, Pick<PersonalPalette, 'undertone' | 'bestColors' | 'avoidColors'>> = {
+  spring: {
+    undertone: 'warm',
+    bestColors: [{ name: 'Coral', hex: '#FF7F50' }, { name: 'Peach', hex: '#FFCBA4' }, { name: 'Warm turquoise', hex: '#30D5C8' }, { name: 'Camel', hex: '#C19A6B' }],
+    avoidColors: [{ name: 'Black', hex: '#111111' }, { name: 'Icy grey', hex: '#D6DCE4' }, { name: 'Burgundy', hex: '#800020' }],
+  },
+  summer: {
+    undertone: 'cool',
+    bestColors: [{ name: 'Powder blue', hex: '#B0E0E6' }, { name: 'Dusty rose', hex: '#DCAE96' }, { name: 'Lavender', hex: '#B57EDC' }, { name: 'Soft navy', hex: '#3B4A6B' }],
+    avoidColors: [{ name: 'Orange', hex: '#FF8C00' }, { name: 'Mustard', hex: '#E1AD01' }, { name: 'Black', hex: '#111111' }],
+  },
+  autumn: {
+    undertone: 'warm',
+    bestColors: [{ name: 'Olive', hex: '#708238' }, { name: 'Rust', hex: '#B7410E' }, { name: 'Mustard', hex: '#E1AD01' }, { name: 'Chocolate', hex: '#5C3317' }],
+    avoidColors: [{ name: 'Fuchsia', hex: '#FF00FF' }, { name: 'Icy blue', hex: '#A5F2F3' }, { name: 'Pure white', hex: '#FFFFFF' }],
+  },
+  winter: {
+    undertone: 'cool',
+    bestColors: [{ name: 'True red', hex: '#D0021B' }, { name: 'Emerald', hex: '#009B77' }, { name: 'Royal blue', hex: '#4169E1' }, { name: 'Black', hex: '#111111' }],
+    avoidColors: [{ name: 'Camel', hex: '#C19A6B' }, { name: 'Peach', hex: '#FFCBA4' }, { name: 'Olive', hex: '#708238' }],
+  },
+};
+
+const canDraw = () => typeof document !== 'undefined';
+
+const loadImage = (image: InlineImage) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const element = new Image();
+  element.onload = () => resolve(element);
+  element.onerror = () => reject(new Error('Mock provider could not decode the source image.'));
+  element.src = `data:${image.mimeType};base64,${image.data}`;
+});
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.slice(0, 6);
+};
+
+const renderPlaceholder = async (
+  title: string,
+  caption: string,
+  [width, height]: [number, number],
+  base?: InlineImage,
+  options?: ModelOptions
+): Promise<string> => {
+  if (!canDraw()) {
+    return FALLBACK_JPEG;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  // A seed changes the colours the same way it would change a real model's output.
+  const hue = hashString(`${title}|${caption}|${options?.seed ?? ''}`) % 360;
+
+  if (base) {
+    const source = await loadImage(base);
+    canvas.width = source.naturalWidth;
+    canvas.height = source.naturalHeight;
+    ctx.drawImage(source, 0, 0);
+    ctx.fillStyle = `hsla(${hue}, 70%, 50%, 0.25)`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  } else {
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 45%, 82%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 45%, 62%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  const padding = Math.round(canvas.width * 0.06);
+  ctx.fillStyle = 'rgba(17, 17, 17, 0.75)';
+  ctx.fillRect(0, canvas.height - canvas.height * 0.32, canvas.width, canvas.height * 0.32);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `600 ${Math.round(canvas.width / 22)}px Inter, sans-serif`;
+  ctx.fillText(title, padding, canvas.height - canvas.height * 0.32 + padding * 1.2);
+  ctx.font = `300 ${Math.round(canvas.width / 34)}px Inter, sans-serif`;
+  wrapText(ctx, caption, canvas.width - padding * 2).forEach((line, index) => {
+    ctx.fillText(line, padding, canvas.height - canvas.height * 0.32 + padding * 2.2 + index * canvas.width / 26);
+  });
+
+  return canvas.toDataURL(options?.outputMimeType ?? 'image/jpeg', 0.9).split(',')[1];
+};
+
+// A deterministic, fully offline backend. It never touches the network, so the
+// whole try-on / generate / edit / analyze flow can be developed and tested without a key.
+export const createMockProvider = ({ latencyMs = 600 }: MockProviderOptions = {}): ImageProvider => ({
+  name: 'mock',
+
+  async generateLook({ itemImages, userImage, sceneDescription, variant = 0, preserveIdentity, options, signal }) {
+    await delay(latencyMs, signal);
+    const subject = userImage ? (preserveIdentity ? 'your photo (likeness kept)' : 'your photo') : 'an AI model';
+    return renderPlaceholder(
+      variant > 0 ? `Mock try-on #${variant + 1}` : 'Mock try-on',
+      `${itemImages.map(item => item.role ?? 'item').join(', ')} on ${subject} — ${sceneDescription}`,
+      DIMENSIONS['3:4'],
+      undefined,
+      options
+    );
+  },
+
+  async editImage({ image, editPrompt, options, signal }) {
+    await delay(latencyMs, signal);
+    return renderPlaceholder('Mock edit', editPrompt, DIMENSIONS['1:1'], image, options);
+  },
+
+  async generateImageFromText({ prompt, aspectRatio, numberOfImages, options, signal }) {
+    await delay(latencyMs, signal);
+    return Promise.all(Array.from({ length: numberOfImages }, (_, index) =>
+      renderPlaceholder(index > 0 ? `Mock image #${index + 1}` : 'Mock image', prompt, DIMENSIONS[aspectRatio], undefined, options)
+    ));
+  },
+
+  async compareLooks({ looks, signal }) {
+    await delay(latencyMs, signal);
+    // Rank by a hash of each image so the verdict is stable for the same inputs.
+    const rankings = looks
+      .map((look, index) => ({ index, score: 5 + (hashString(look.image.data) % 50) / 10, reason: `Look ${index + 1} scores well on cohesion for "${look.sceneDescription || 'its scene'}".` }))
+      .sort((a, b) => b.score - a.score);
+    return {
+      verdict: `Offline comparison: look ${rankings[0].index + 1} is the most cohesive of the ${looks.length} pinned looks.`,
+      winnerIndex: rankings[0].index,
+      rankings,
+    };
+  },
+
+  async verifyLook({ image, items, signal }) {
+    await delay(latencyMs, signal);
+    // Roughly one item in five is reported missing, chosen by hash so results are repeatable.
+    return {
+      checks: items.map((item, index) => {
+        const hash = hashString(image.data + item.data);
+        const present = hash % 5 !== 0;
+        return {
+          index,
+          present,
+          colorMatch: present,
+          patternMatch: present && hash % 7 !== 0,
+          shapeMatch: present,
+          confidence: (60 + hash % 40) / 100,
+          notes: present ? 'Offline check: the item appears in the look.' : 'Offline check: the item could not be found in the look.',
+        };
+      }),
+    };
+  },
+
+  async checkIdentity({ references, image, signal }) {
+    await delay(latencyMs, signal);
+    // Spread from 0.55 to 0.99 by hash, so some results fall below the drift threshold.
+    const hash = hashString(references.map(reference => reference.data).join('') + image.data);
+    const similarity = (55 + hash % 45) / 100;
+    return {
+      faceVisible: true,
+      similarity,
+      differences: similarity < 0.75 ? ['face shape', 'skin tone'].slice(0, 1 + hash % 2) : [],
+    };
+  },
+
+  async chatWithStylist({ sceneDescription, messages, signal }) {
+    await delay(latencyMs, signal);
+    // Picks a canned suggestion by topic so the one-click edit flow can be exercised offline.
+    const question = messages[messages.length - 1].text.toLowerCase();
+    const topic = MOCK_STYLIST_TOPICS.find(({ keywords }) => keywords.some(keyword => question.includes(keyword)))
+      ?? MOCK_STYLIST_TOPICS[hashString(question) % MOCK_STYLIST_TOPICS.length];
+    return {
+      text: `Offline stylist: for ${sceneDescription ? `"${sceneDescription}"` : 'this look'}, ${topic.advice}`,
+      edits: [topic.edit],
+    };
+  },
+
+  async recommendOutfits({ items, sceneDescription, count, signal }) {
+    await delay(latencyMs, signal);
+    // Interleaves the pool so each outfit gets different items, up to three apiece.
+    const outfitCount = Math.min(count, items.length);
+    return Array.from({ length: outfitCount }, (_, outfit) => ({
+      title: `Offline outfit ${outfit + 1}`,
+      itemIndexes: items.map((_, index) => index).filter(index => index % outfitCount === outfit).slice(0, 3),
+      reasoning: `Picked offline for "${sceneDescription}": these pieces share a palette and suit the setting.`,
+    }));
+  },
+
+  async analyzeColors({ image, sampledColors, signal }) {
+    await delay(latencyMs, signal);
+    const seasons = Object.keys(MOCK_PALETTES) as ColorSeason[];
+    const season = seasons[hashString(sampledColors.join('') || image.data) % seasons.length];
+    return {
+      season,
+      ...MOCK_PALETTES[season],
+      skinTone: sampledColors[0] ?? '#D1A38A',
+      hairColor: sampledColors[1] ?? '#4B3621',
+      eyeColor: sampledColors[2] ?? '#5B4636',
+      summary: `Offline analysis: the sampled tones point to a ${season} palette.`,
+    };
+  },
+
+  async classifyItems({ images, signal }) {
+    await delay(latencyMs, signal);
+    // Stable per image, so the same upload is always given the same role.
+    return images.map(image => ITEM_ROLES[hashString(image.data) % ITEM_ROLES.length].role);
+  },
+
+  async describeImage({ image, signal }) {
+    await delay(latencyMs, signal);
+    const setting = MOCK_SETTINGS[hashString(image.data) % MOCK_SETTINGS.length];
+    return `A model wearing a coordinated outfit, photographed ${setting}.`;
+  },
+
+  async analyzeLook({ sceneDescription, palette, signal, onProgress }) {
+    const analysis: FashionAnalysis = {
+      summary: `This analysis was produced offline for the scene "${sceneDescription}". The look has balanced proportions and a restrained palette anchored by one accent tone.${palette ? ` Judged against your ${palette.season} palette.` : ''}`,
+      overallScore: 7.5,
+      items: [
+        { name: 'Top', notes: 'Clean lines that frame the upper body well.', score: 8 },
+        { name: 'Bottom', notes: 'Balances the silhouette; length works for the setting.', score: 7 },
+        { name: 'Shoes', notes: 'Practical, though a lighter pair would lift the look.', score: 6.5 },
+      ],
+      colorPalette: [
+        { name: 'Charcoal', hex: '#36454F' },
+        { name: 'Ivory', hex: '#FFFFF0' },
+        { name: 'Camel', hex: '#C19A6B' },
+      ],
+      occasionRatings: [
+        { occasion: sceneDescription || 'Described scene', rating: 4, comment: 'Appropriate for the described occasion.' },
+        { occasion: 'Office', rating: 3, comment: 'Works with a tailored layer on top.' },
+        { occasion: 'Evening event', rating: 2, comment: 'Needs dressier accessories.' },
+      ],
+      improvements: [
+        { category: 'accessories', suggestion: 'Add a structured bag to sharpen the look.' },
+        { category: 'footwear', suggestion: 'Swap to a lighter shoe for daytime settings.' },
+      ],
+    };
+    if (!onProgress) {
+      await delay(latencyMs, signal);
+      return analysis;
+    }
+    // Replays a canned thought process and then the JSON answer in slices, like a streamed response.
+    const answer = JSON.stringify(analysis, null, 2);
+    const steps = [
+      ...MOCK_THOUGHTS.map(thought => ({ thought, answer: 0 })),
+      ...Array.from({ length: 4 }, (_, i) => ({ thought: '', answer: Math.ceil(answer.length * (i + 1) / 4) })),
+    ];
+    const progress = { thoughts: '', answer: '' };
+    for (const step of steps) {
+      await delay(latencyMs / steps.length, signal);
+      progress.thoughts += step.thought;
+      if (step.answer) progress.answer = answer.slice(0, step.answer);
+      onProgress({ ...progress });
+    }
+    return analysis;
+  },
+});
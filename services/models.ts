@@ -0,0 +1,13 @@
+// Model used by the Gemini backend for each operation. Shared with the browser so
+// exports and recipes can record what produced a look.
+export const GEMINI_MODELS = {
+  tryOn: 'gemini-2.5-flash-image',
+  edit: 'gemini-2.5-flash-image',
+  textToImage: 'imagen-4.0-generate-001',
+  analysis: 'gemini-2.5-pro',
+  classify: 'gemini-2.5-flash',
+} as const;
+
+// Smallest thinking budget a model accepts other than -1 (dynamic). The Pro models cannot
+// turn thinking off, so 0 is rejected for them.
+export const minThinkingBudget = (model: string): number => /-pro\b/.test(model) ? 128 : 0;
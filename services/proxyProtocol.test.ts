@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { deserializeError, serializeError } from './proxyProtocol';
+import { InvalidRequestError, TimeoutError } from './errors';
+
+describe('error serialization', () => {
+  it('keeps the key of a standard message so the browser can translate it', () => {
+    const { status, body } = serializeError(new TimeoutError(30_000));
+    const error = deserializeError(status, JSON.parse(JSON.stringify(body)));
+    expect(error.kind).toBe('timeout');
+    expect(error.localized).toEqual({ key: 'failure.timeout.message', params: { seconds: 30 } });
+    expect(error.message).toBe('The request did not finish within 30 seconds.');
+  });
+
+  it('shows other messages as the server wrote them', () => {
+    const { status, body } = serializeError(new InvalidRequestError('"prompt" must be a non-empty string.'));
+    expect(deserializeError(status, body).message).toBe('"prompt" must be a non-empty string.');
+    const forged = { error: { ...body.error, localized: { key: 'not.a.key' } } };
+    expect(deserializeError(status, forged).message).toBe('"prompt" must be a non-empty string.');
+  });
+});
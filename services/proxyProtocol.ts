@@ -0,0 +1,162 @@
+import type { AnalysisProgress, FashionAnalysis, FidelityReport, IdentityCheck, ItemRole, LookComparison, OutfitProposal, PersonalPalette, StylistReply } from "../types";
+import type {
+  GenerateLookRequest,
+  EditImageRequest,
+  TextToImageRequest,
+  AnalyzeLookRequest,
+  CompareLooksRequest,
+  VerifyLookRequest,
+  CheckIdentityRequest,
+  StylistChatRequest,
+  RecommendOutfitsRequest,
+  AnalyzeColorsRequest,
+  ClassifyItemsRequest,
+  DescribeImageRequest,
+} from "./imageProvider";
+import {
+  StudioError,
+  RateLimitError,
+  SafetyBlockError,
+  toStudioError,
+  type LocalizedMessage,
+  type StudioErrorKind,
+} from "./errors";
+import { isMessageKey } from "../i18n";
+
+// Wire format shared by the proxy server (server/) and the browser's proxy provider.
+// Request bodies are the provider requests without the abort signal and callbacks.
+
+// Most chat messages one stylist request may carry; clients send only the most recent ones.
+export const MAX_CHAT_TURNS = 40;
+// Longest text field, including each chat message, a request may carry.
+export const MAX_PROMPT_LENGTH = 4000;
+
+// Most item images one try-on, verification or classification request may carry.
+export const MAX_ITEM_IMAGES = 10;
+// "Style me" picks outfits from a larger pool than a single try-on takes.
+export const MAX_POOL_ITEMS = 20;
+
+// Gemini rejects inline payloads above ~20 MB, so the proxy accepts no more by default.
+export const MAX_REQUEST_BYTES = 20 * 1024 * 1024;
+
+export const PROXY_ROUTES = {
+  generateLook: '/api/generate-look',
+  editImage: '/api/edit-image',
+  generateImages: '/api/generate-images',
+  analyzeLook: '/api/analyze-look',
+  // Same request as analyzeLook; responds with newline-delimited AnalysisStreamEvents.
+  analyzeLookStream: '/api/analyze-look/stream',
+  compareLooks: '/api/compare-looks',
+  verifyLook: '/api/verify-look',
+  checkIdentity: '/api/check-identity',
+  stylistChat: '/api/stylist-chat',
+  recommendOutfits: '/api/recommend-outfits',
+  analyzeColors: '/api/analyze-colors',
+  classifyItems: '/api/classify-items',
+  describeImage: '/api/describe-image',
+} as const;
+
+type WireRequest<T> = Omit<T, 'signal' | 'onProgress'>;
+
+export interface ProxyRequests {
+  generateLook: WireRequest<GenerateLookRequest>;
+  editImage: WireRequest<EditImageRequest>;
+  generateImages: WireRequest<TextToImageRequest>;
+  analyzeLook: WireRequest<AnalyzeLookRequest>;
+  compareLooks: WireRequest<CompareLooksRequest>;
+  verifyLook: WireRequest<VerifyLookRequest>;
+  checkIdentity: WireRequest<CheckIdentityRequest>;
+  stylistChat: WireRequest<StylistChatRequest>;
+  recommendOutfits: WireRequest<RecommendOutfitsRequest>;
+  analyzeColors: WireRequest<AnalyzeColorsRequest>;
+  classifyItems: WireRequest<ClassifyItemsRequest>;
+  describeImage: WireRequest<DescribeImageRequest>;
+}
+
+export interface ProxyResponses {
+  generateLook: { image: string };
+  editImage: { image: string };
+  generateImages: { images: string[] };
+  analyzeLook: { analysis: FashionAnalysis };
+  compareLooks: { comparison: LookComparison };
+  verifyLook: { report: FidelityReport };
+  checkIdentity: { check: IdentityCheck };
+  stylistChat: { reply: StylistReply };
+  recommendOutfits: { outfits: OutfitProposal[] };
+  analyzeColors: { palette: PersonalPalette };
+  classifyItems: { roles: (ItemRole | null)[] };
+  describeImage: { description: string };
+}
+
+export interface ProxyErrorBody {
+  error: {
+    kind: StudioErrorKind;
+    message: string;
+    retryable: boolean;
+    retryAfterMs?: number;
+    blockReason?: string;
+    // Present for standard messages, so the browser can show them in its own language.
+    localized?: LocalizedMessage;
+  };
+}
+
+// One line of the analysis stream. Deltas carry only the text added since the previous event;
+// the stream ends with either the parsed analysis or an error (the HTTP status is already 200 by then).
+export type AnalysisStreamEvent =
+  | { delta: AnalysisProgress }
+  | { analysis: FashionAnalysis }
+  | ProxyErrorBody & { status: number };
+
+const STATUS_BY_KIND: Record<StudioErrorKind, number> = {
+  'missing-api-key': 500,
+  'rate-limit': 429,
+  'network': 502,
+  'service-unavailable': 503,
+  'safety-block': 422,
+  'empty-response': 502,
+  'malformed-response': 502,
+  'timeout': 504,
+  'cancelled': 499,
+  'invalid-request': 400,
+  'payload-too-large': 413,
+  'unknown': 500,
+};
+
+export const serializeError = (error: unknown): { status: number; body: ProxyErrorBody } => {
+  const studioError = toStudioError(error);
+  return {
+    status: STATUS_BY_KIND[studioError.kind],
+    body: {
+      error: {
+        kind: studioError.kind,
+        message: studioError.message,
+        retryable: studioError.retryable,
+        retryAfterMs: studioError instanceof RateLimitError ? studioError.retryAfterMs : undefined,
+        blockReason: studioError instanceof SafetyBlockError ? studioError.blockReason : undefined,
+        localized: studioError.localized,
+      },
+    },
+  };
+};
+
+// Standard messages are translated again on this side; anything else is shown as the server wrote it.
+const messageOf = ({ message, localized }: ProxyErrorBody['error']): string | LocalizedMessage =>
+  localized && isMessageKey(localized.key)
+    ? { key: localized.key, params: localized.params && typeof localized.params === 'object' ? localized.params : undefined }
+    : message;
+
+// Rebuilds the typed error the server reported, so the UI treats proxied failures like direct ones.
+export const deserializeError = (status: number, body: unknown): StudioError => {
+  const error = (body as Partial<ProxyErrorBody> | null)?.error;
+  if (!error || typeof error.kind !== 'string' || typeof error.message !== 'string') {
+    return new StudioError(status >= 500 ? 'service-unavailable' : 'unknown', { key: 'failure.proxyStatus', params: { status } }, { retryable: status >= 500 });
+  }
+  switch (error.kind) {
+    case 'rate-limit':
+      return new RateLimitError(messageOf(error), error.retryAfterMs);
+    case 'safety-block':
+      return new SafetyBlockError(error.blockReason ?? 'UNKNOWN', messageOf(error));
+    default:
+      return new StudioError(error.kind, messageOf(error), { retryable: error.retryable });
+  }
+};
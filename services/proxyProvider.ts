@@ -0,0 +1,122 @@
+import type { AnalysisProgress } from "../types";
+import type { ImageProvider } from "./imageProvider";
+import { PROXY_ROUTES, deserializeError, type AnalysisStreamEvent, type ProxyRequests, type ProxyResponses } from "./proxyProtocol";
+import { MalformedResponseError, toStudioError } from "./errors";
+
+// Talks to the StyleMix proxy server (see server/), which holds the API key and calls Gemini.
+// `baseUrl` is empty when the app and the proxy share an origin.
+export const createProxyProvider = (baseUrl = ''): ImageProvider => {
+  const post = async <K extends keyof ProxyRequests>(route: K, body: ProxyRequests[K], signal?: AbortSignal): Promise<ProxyResponses[K]> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${PROXY_ROUTES[route]}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (e) {
+      throw toStudioError(e);
+    }
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) throw deserializeError(response.status, payload);
+    if (!payload || typeof payload !== 'object') {
+      throw new MalformedResponseError('The proxy server returned an unreadable response.');
+    }
+    return payload as ProxyResponses[K];
+  };
+
+  // Reads the newline-delimited analysis stream, reporting the accumulated text after every delta.
+  const streamAnalysis = async (body: ProxyRequests['analyzeLook'], onProgress: (progress: AnalysisProgress) => void, signal?: AbortSignal) => {
+    try {
+      const response = await fetch(`${baseUrl}${PROXY_ROUTES.analyzeLookStream}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+      if (!response.ok || !response.body) {
+        throw deserializeError(response.status, await response.json().catch(() => null));
+      }
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      const progress = { thoughts: '', answer: '' };
+      let buffered = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += value;
+        const lines = buffered.split('\n');
+        buffered = lines.pop()!;
+        for (const line of lines.filter(Boolean)) {
+          const event = JSON.parse(line) as AnalysisStreamEvent;
+          if ('delta' in event) {
+            progress.thoughts += event.delta.thoughts;
+            progress.answer += event.delta.answer;
+            onProgress({ ...progress });
+          } else if ('analysis' in event) {
+            return event.analysis;
+          } else {
+            throw deserializeError(event.status, event);
+          }
+        }
+      }
+    } catch (e) {
+      if (e instanceof SyntaxError) throw new MalformedResponseError('The proxy server sent an unreadable analysis stream.');
+      throw toStudioError(e);
+    }
+    throw new MalformedResponseError('The analysis stream ended before the result arrived.');
+  };
+
+  return {
+    name: 'proxy',
+
+    async generateLook({ signal, ...request }) {
+      return (await post('generateLook', request, signal)).image;
+    },
+
+    async editImage({ signal, ...request }) {
+      return (await post('editImage', request, signal)).image;
+    },
+
+    async generateImageFromText({ signal, ...request }) {
+      return (await post('generateImages', request, signal)).images;
+    },
+
+    async analyzeLook({ signal, onProgress, ...request }) {
+      if (onProgress) return streamAnalysis(request, onProgress, signal);
+      return (await post('analyzeLook', request, signal)).analysis;
+    },
+
+    async compareLooks({ signal, ...request }) {
+      return (await post('compareLooks', request, signal)).comparison;
+    },
+
+    async verifyLook({ signal, ...request }) {
+      return (await post('verifyLook', request, signal)).report;
+    },
+
+    async checkIdentity({ signal, ...request }) {
+      return (await post('checkIdentity', request, signal)).check;
+    },
+
+    async chatWithStylist({ signal, ...request }) {
+      return (await post('stylistChat', request, signal)).reply;
+    },
+
+    async recommendOutfits({ signal, ...request }) {
+      return (await post('recommendOutfits', request, signal)).outfits;
+    },
+
+    async analyzeColors({ signal, ...request }) {
+      return (await post('analyzeColors', request, signal)).palette;
+    },
+
+    async classifyItems({ signal, ...request }) {
+      return (await post('classifyItems', request, signal)).roles;
+    },
+
+    async describeImage({ signal, ...request }) {
+      return (await post('describeImage', request, signal)).description;
+    },
+  };
+};
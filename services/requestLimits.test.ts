@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_REQUEST_BYTES } from './proxyProtocol';
+import { tryOnLimitProblem } from './requestLimits';
+
+const files = (count: number, size = 1024) => Array.from({ length: count }, () => new Blob([new Uint8Array(size)]));
+
+describe('tryOnLimitProblem', () => {
+  it('accepts a try-on within the limits', () => {
+    expect(tryOnLimitProblem(files(10), files(1))).toBeNull();
+  });
+
+  it('rejects more items than the request takes', () => {
+    expect(tryOnLimitProblem(files(11), [])).toBe('Use at most 10 items here. Remove some to continue.');
+    expect(tryOnLimitProblem(files(11), [], 20)).toBeNull();
+  });
+
+  it('counts the base64 overhead against the body limit', () => {
+    // Under the limit on disk, but over it once base64 adds a third.
+    const photo = new Blob([new Uint8Array(MAX_REQUEST_BYTES * 0.8)]);
+    expect(tryOnLimitProblem(files(1), [photo])).toBe(
+      'These photos add up to more than the 20 MB one request can carry. Remove some or use smaller photos.'
+    );
+  });
+});
@@ -0,0 +1,20 @@
+import { t } from '../i18n';
+import { MAX_ITEM_IMAGES, MAX_REQUEST_BYTES } from './proxyProtocol';
+
+// Checks in the browser for the limits the proxy enforces, so users get a specific message
+// up front instead of the proxy's generic 400 or 413 after uploading everything.
+
+// Images travel base64-encoded inside the JSON body, which makes them a third larger.
+const encodedSize = (files: Blob[]) => files.reduce((sum, file) => sum + Math.ceil(file.size / 3) * 4, 0);
+
+// Why a try-on of `items` together with `photos` (the user photo and any identity references)
+// would be rejected, or null if it fits.
+export const tryOnLimitProblem = (items: Blob[], photos: Blob[], maxItems: number = MAX_ITEM_IMAGES): string | null => {
+  if (items.length > maxItems) {
+    return t('limits.tooManyItems', { max: maxItems });
+  }
+  if (encodedSize([...items, ...photos]) > MAX_REQUEST_BYTES) {
+    return t('limits.tooLarge', { max: MAX_REQUEST_BYTES / (1024 * 1024) });
+  }
+  return null;
+};
@@ -0,0 +1,84 @@
+import { CancelledError, RateLimitError, TimeoutError, toStudioError } from "./errors";
+
+export interface RequestOptions {
+  // Aborts the request (and any pending retries) when signalled.
+  signal?: AbortSignal;
+}
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Per-attempt limit; 0 disables the timeout.
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  timeoutMs: 120000,
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new CancelledError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs one attempt with its own abort signal that fires on the caller's signal or on timeout.
+const attempt = async <T>(operation: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  // An abort event has already fired on a signal that is aborted, so listening would never catch it.
+  if (signal?.aborted) throw new CancelledError();
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = timeoutMs > 0 ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs) : undefined;
+
+  // Not every backend honours the signal, so race it as well.
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(timedOut ? new TimeoutError(timeoutMs) : new CancelledError()), { once: true });
+  });
+
+  try {
+    return await Promise.race([operation(controller.signal), aborted]);
+  } catch (e) {
+    if (timedOut) throw new TimeoutError(timeoutMs);
+    if (signal?.aborted) throw new CancelledError();
+    throw toStudioError(e);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Retries transient failures with exponential backoff and jitter.
+export const withRetry = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  { signal }: RequestOptions = {},
+  policy: Partial<RetryPolicy> = {}
+): Promise<T> => {
+  const { retries, baseDelayMs, maxDelayMs, timeoutMs } = { ...DEFAULT_RETRY_POLICY, ...policy };
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    try {
+      return await attempt(operation, timeoutMs, signal);
+    } catch (e) {
+      const error = toStudioError(e);
+      if (!error.retryable || attemptNumber >= retries || signal?.aborted) throw error;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attemptNumber) * (0.75 + Math.random() * 0.5);
+      const wait = error instanceof RateLimitError && error.retryAfterMs ? Math.max(error.retryAfterMs, backoff) : backoff;
+      await sleep(wait, signal);
+    }
+  }
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_SCENE, InvalidPresetFileError, parseScenePresetFile, SCENE_PRESET_FORMAT, SCENE_PRESET_VERSION } from './scenePresets';
+
+const file = (presets: unknown[], version = SCENE_PRESET_VERSION) =>
+  JSON.stringify({ format: SCENE_PRESET_FORMAT, version, presets });
+
+describe('parseScenePresetFile', () => {
+  it('keeps known settings and gives each preset a fresh id', () => {
+    const [preset] = parseScenePresetFile(file([{ name: ' Beach ', settings: { location: 'On a sandy beach', extra: 'dropped' } }]));
+    expect(preset.name).toBe('Beach');
+    expect(preset.settings).toEqual({ ...EMPTY_SCENE, location: 'On a sandy beach' });
+    expect(preset.id).toEqual(expect.any(String));
+  });
+
+  it('skips presets without a name or settings', () => {
+    const presets = parseScenePresetFile(file([
+      { name: 'No settings', settings: null },
+      { name: '', settings: {} },
+      null,
+      { name: 'Kept', settings: {} },
+    ]));
+    expect(presets.map(preset => preset.name)).toEqual(['Kept']);
+  });
+
+  it('rejects files that are not presets or come from a newer version', () => {
+    expect(() => parseScenePresetFile('not json')).toThrow(InvalidPresetFileError);
+    expect(() => parseScenePresetFile(JSON.stringify({ format: 'other', presets: [] }))).toThrow(InvalidPresetFileError);
+    expect(() => parseScenePresetFile(file([], SCENE_PRESET_VERSION + 1))).toThrow(InvalidPresetFileError);
+  });
+});
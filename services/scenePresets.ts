@@ -0,0 +1,235 @@
+import type { SceneAspect, ScenePreset, SceneSettings } from "../types";
+import { withStore } from "./studioDb";
+import { t, type MessageKey } from "../i18n";
+
+export const SCENE_PRESET_FORMAT = 'stylemix-scene-presets';
+export const SCENE_PRESET_VERSION = 1;
+
+// Option values are phrased so they read naturally when composed into the scene prompt, which
+// stays in English for the model; the labels are what the builder shows.
+export const SCENE_ASPECTS: { aspect: SceneAspect; label: MessageKey; options: { value: string; label: MessageKey }[] }[] = [
+  {
+    aspect: 'location',
+    label: 'scene.aspect.location',
+    options: [
+      { value: 'In a photo studio against a seamless white backdrop', label: 'scene.option.location.studioWhite' },
+      { value: 'In a photo studio against a seamless light grey backdrop', label: 'scene.option.location.studioGrey' },
+      { value: 'On a busy city street', label: 'scene.option.location.cityStreet' },
+      { value: 'On a cobblestone street in an old European town', label: 'scene.option.location.oldTown' },
+      { value: 'In a minimalist modern interior', label: 'scene.option.location.interior' },
+      { value: 'In a cosy café', label: 'scene.option.location.cafe' },
+      { value: 'On a rooftop terrace overlooking the city', label: 'scene.option.location.rooftop' },
+      { value: 'In a lush public park', label: 'scene.option.location.park' },
+      { value: 'On a sandy beach', label: 'scene.option.location.beach' },
+      { value: 'At an elegant evening venue', label: 'scene.option.location.eveningVenue' },
+      { value: 'On a fashion show runway', label: 'scene.option.location.runway' },
+    ],
+  },
+  {
+    aspect: 'timeOfDay',
+    label: 'scene.aspect.timeOfDay',
+    options: [
+      { value: 'in the early morning', label: 'scene.option.timeOfDay.earlyMorning' },
+      { value: 'at midday', label: 'scene.option.timeOfDay.midday' },
+      { value: 'during golden hour', label: 'scene.option.timeOfDay.goldenHour' },
+      { value: 'at blue hour', label: 'scene.option.timeOfDay.blueHour' },
+      { value: 'at night', label: 'scene.option.timeOfDay.night' },
+    ],
+  },
+  {
+    aspect: 'lighting',
+    label: 'scene.aspect.lighting',
+    options: [
+      { value: 'Even, shadowless studio lighting', label: 'scene.option.lighting.studio' },
+      { value: 'Soft, diffused natural light', label: 'scene.option.lighting.natural' },
+      { value: 'Dramatic side lighting with deep shadows', label: 'scene.option.lighting.side' },
+      { value: 'Warm backlight with a gentle rim glow', label: 'scene.option.lighting.backlight' },
+      { value: 'Bright, high-key lighting', label: 'scene.option.lighting.highKey' },
+      { value: 'Moody, low-key lighting', label: 'scene.option.lighting.lowKey' },
+      { value: 'Neon and city lights', label: 'scene.option.lighting.neon' },
+    ],
+  },
+  {
+    aspect: 'framing',
+    label: 'scene.aspect.framing',
+    options: [
+      { value: 'Full-body shot, head to toe in frame', label: 'scene.option.framing.fullBody' },
+      { value: 'Three-quarter shot from the knees up', label: 'scene.option.framing.threeQuarter' },
+      { value: 'Waist-up shot', label: 'scene.option.framing.waistUp' },
+      { value: 'Close-up on the outfit details', label: 'scene.option.framing.closeUp' },
+      { value: 'Wide shot showing the surroundings', label: 'scene.option.framing.wide' },
+    ],
+  },
+  {
+    aspect: 'pose',
+    label: 'scene.aspect.pose',
+    options: [
+      { value: 'Standing straight and facing the camera', label: 'scene.option.pose.facingCamera' },
+      { value: 'Standing in a relaxed three-quarter turn', label: 'scene.option.pose.threeQuarterTurn' },
+      { value: 'Walking towards the camera', label: 'scene.option.pose.walking' },
+      { value: 'Mid-stride, caught in motion', label: 'scene.option.pose.midStride' },
+      { value: 'Seated casually', label: 'scene.option.pose.seated' },
+      { value: 'Leaning against a wall', label: 'scene.option.pose.leaning' },
+      { value: 'Looking over the shoulder', label: 'scene.option.pose.overShoulder' },
+    ],
+  },
+  {
+    aspect: 'style',
+    label: 'scene.aspect.style',
+    options: [
+      { value: 'Clean e-commerce catalog photography', label: 'scene.option.style.catalog' },
+      { value: 'Editorial fashion magazine photography', label: 'scene.option.style.editorial' },
+      { value: 'Candid street-style photography', label: 'scene.option.style.streetStyle' },
+      { value: 'Cinematic film still with shallow depth of field', label: 'scene.option.style.cinematic' },
+      { value: 'Vintage 35mm film look', label: 'scene.option.style.vintage' },
+      { value: 'Luxury campaign photography', label: 'scene.option.style.luxury' },
+    ],
+  },
+];
+
+export const EMPTY_SCENE: SceneSettings = {
+  location: '',
+  timeOfDay: '',
+  lighting: '',
+  framing: '',
+  pose: '',
+  style: '',
+  details: '',
+};
+
+const builtIn = (id: string, name: string, settings: Partial<SceneSettings>): ScenePreset => ({
+  id: `builtin-${id}`,
+  name,
+  settings: { ...EMPTY_SCENE, ...settings },
+  createdAt: 0,
+  builtIn: true,
+});
+
+export const BUILT_IN_PRESETS: ScenePreset[] = [
+  builtIn('catalog-white', 'Catalog – white', {
+    location: 'In a photo studio against a seamless white backdrop',
+    lighting: 'Even, shadowless studio lighting',
+    framing: 'Full-body shot, head to toe in frame',
+    pose: 'Standing straight and facing the camera',
+    style: 'Clean e-commerce catalog photography',
+    details: 'No props. True-to-life fabric colors.',
+  }),
+  builtIn('catalog-detail', 'Catalog – detail', {
+    location: 'In a photo studio against a seamless light grey backdrop',
+    lighting: 'Bright, high-key lighting',
+    framing: 'Close-up on the outfit details',
+    style: 'Clean e-commerce catalog photography',
+  }),
+  builtIn('street-style', 'Street style', {
+    location: 'On a busy city street',
+    timeOfDay: 'at midday',
+    lighting: 'Soft, diffused natural light',
+    framing: 'Full-body shot, head to toe in frame',
+    pose: 'Mid-stride, caught in motion',
+    style: 'Candid street-style photography',
+  }),
+  builtIn('golden-hour', 'Golden hour editorial', {
+    location: 'On a rooftop terrace overlooking the city',
+    timeOfDay: 'during golden hour',
+    lighting: 'Warm backlight with a gentle rim glow',
+    framing: 'Three-quarter shot from the knees up',
+    pose: 'Standing in a relaxed three-quarter turn',
+    style: 'Editorial fashion magazine photography',
+  }),
+  builtIn('evening', 'Evening event', {
+    location: 'At an elegant evening venue',
+    timeOfDay: 'at night',
+    lighting: 'Moody, low-key lighting',
+    framing: 'Full-body shot, head to toe in frame',
+    pose: 'Looking over the shoulder',
+    style: 'Luxury campaign photography',
+  }),
+  builtIn('resort', 'Resort', {
+    location: 'On a sandy beach',
+    timeOfDay: 'in the early morning',
+    lighting: 'Soft, diffused natural light',
+    framing: 'Wide shot showing the surroundings',
+    pose: 'Walking towards the camera',
+    style: 'Cinematic film still with shallow depth of field',
+  }),
+];
+
+const sentence = (text: string) => {
+  const trimmed = text.trim();
+  if (!trimmed) return '';
+  const capitalized = trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+  return /[.!?]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+};
+
+// Turns the builder's choices into the scene description passed to generateLook.
+export const composeScenePrompt = (settings: SceneSettings): string =>
+  [
+    `${settings.location} ${settings.timeOfDay}`,
+    settings.lighting,
+    settings.framing,
+    settings.pose,
+    settings.style,
+    settings.details,
+  ].map(sentence).filter(Boolean).join(' ');
+
+export const isEmptyScene = (settings: SceneSettings) =>
+  Object.values(settings).every(value => !value.trim());
+
+// Newest first.
+export const listScenePresets = async (): Promise<ScenePreset[]> => {
+  const presets = await withStore<ScenePreset[]>('scenePresets', 'readonly', store => store.index('createdAt').getAll());
+  return presets.reverse();
+};
+
+export const saveScenePreset = (preset: ScenePreset): Promise<IDBValidKey> =>
+  withStore('scenePresets', 'readwrite', store => store.put(preset));
+
+export const deleteScenePreset = (id: string): Promise<undefined> =>
+  withStore('scenePresets', 'readwrite', store => store.delete(id));
+
+export class InvalidPresetFileError extends Error {
+  constructor(message = t('scene.invalidFile')) {
+    super(message);
+    this.name = 'InvalidPresetFileError';
+  }
+}
+
+export interface ScenePresetFile {
+  format: typeof SCENE_PRESET_FORMAT;
+  version: number;
+  presets: { name: string; settings: SceneSettings }[];
+}
+
+export const toScenePresetFile = (presets: ScenePreset[]): ScenePresetFile => ({
+  format: SCENE_PRESET_FORMAT,
+  version: SCENE_PRESET_VERSION,
+  presets: presets.map(({ name, settings }) => ({ name, settings })),
+});
+
+// Reads a shared preset file. Imported presets get fresh ids so they never overwrite local ones;
+// unknown fields are dropped.
+export const parseScenePresetFile = (text: string): ScenePreset[] => {
+  let json: Partial<ScenePresetFile>;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new InvalidPresetFileError(t('scene.notJson'));
+  }
+  if (json?.format !== SCENE_PRESET_FORMAT || !Array.isArray(json.presets)) {
+    throw new InvalidPresetFileError();
+  }
+  if (typeof json.version !== 'number' || json.version > SCENE_PRESET_VERSION) {
+    throw new InvalidPresetFileError(t('scene.newerVersion'));
+  }
+  const now = Date.now();
+  return json.presets.flatMap((preset, i) => {
+    if (!preset || typeof preset.name !== 'string' || !preset.name.trim()
+      || typeof preset.settings !== 'object' || preset.settings === null) return [];
+    const settings = { ...EMPTY_SCENE };
+    for (const key of Object.keys(EMPTY_SCENE) as (keyof SceneSettings)[]) {
+      const value = (preset.settings as Partial<SceneSettings>)[key];
+      if (typeof value === 'string') settings[key] = value;
+    }
+    return [{ id: crypto.randomUUID(), name: preset.name.trim(), settings, createdAt: now + i }];
+  });
+};
@@ -0,0 +1,107 @@
+// Thin promise wrapper around the studio's IndexedDB database.
+// Bump DB_VERSION and add the store to STORES when a feature needs a new one.
+
+import { t } from '../i18n';
+
+const DB_NAME = 'stylemix-studio';
+const DB_VERSION = 3;
+
+export type StoreName = 'gallery' | 'wardrobe' | 'scenePresets';
+
+const STORES: Record<StoreName, { keyPath: string; indexes?: string[] }> = {
+  gallery: { keyPath: 'id', indexes: ['createdAt'] },
+  wardrobe: { keyPath: 'id', indexes: ['createdAt', 'category'] },
+  scenePresets: { keyPath: 'id', indexes: ['createdAt'] },
+};
+
+// Raised when the browser refuses a write because the origin is out of storage.
+export class StorageQuotaError extends Error {
+  constructor(message = t('error.storageFull')) {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+// Raised when another tab holds an older version of the database open, so it cannot be upgraded.
+export class StorageBlockedError extends Error {
+  constructor(message = t('error.storageBlocked')) {
+    super(message);
+    this.name = 'StorageBlockedError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openStudioDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error(t('error.storageUnavailable')));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const [name, { keyPath, indexes = [] }] of Object.entries(STORES)) {
+          if (db.objectStoreNames.contains(name)) continue;
+          const store = db.createObjectStore(name, { keyPath });
+          indexes.forEach(index => store.createIndex(index, index));
+        }
+      };
+      // Fires instead of upgradeneeded while other connections stay open; without a rejection
+      // the open would wait until those tabs close.
+      request.onblocked = () => reject(new StorageBlockedError());
+      request.onsuccess = () => {
+        const db = request.result;
+        // Lets a newer version in another tab upgrade; the next call here reopens.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing).
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Runs `action` inside a transaction and resolves with its request's result once the transaction commits.
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openStudioDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    let result: T;
+    const fail = (error: unknown) => reject(isQuotaError(error) ? new StorageQuotaError() : error);
+    try {
+      const request = action(transaction.objectStore(storeName));
+      request.onsuccess = () => { result = request.result; };
+    } catch (e) {
+      fail(e);
+      return;
+    }
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => fail(transaction.error);
+    transaction.onabort = () => fail(transaction.error);
+  });
+};
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
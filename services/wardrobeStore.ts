@@ -0,0 +1,34 @@
+import type { WardrobeCategory, WardrobeItem } from "../types";
+import { withStore } from "./studioDb";
+
+export const WARDROBE_CATEGORIES: WardrobeCategory[] = ['top', 'bottom', 'shoes', 'accessory'];
+
+export const saveWardrobeItem = (item: WardrobeItem): Promise<IDBValidKey> =>
+  withStore('wardrobe', 'readwrite', store => store.put(item));
+
+// Newest first.
+export const listWardrobeItems = async (): Promise<WardrobeItem[]> => {
+  const items = await withStore<WardrobeItem[]>('wardrobe', 'readonly', store => store.index('createdAt').getAll());
+  return items.reverse();
+};
+
+export const deleteWardrobeItem = (id: string): Promise<undefined> =>
+  withStore('wardrobe', 'readwrite', store => store.delete(id));
+
+export interface WardrobeFilter {
+  query: string;
+  category: WardrobeCategory | 'all';
+}
+
+// Matches the query against name, color, brand and tags; every word must match somewhere.
+export const filterWardrobeItems = (items: WardrobeItem[], { query, category }: WardrobeFilter): WardrobeItem[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return items.filter(item => {
+    if (category !== 'all' && item.category !== category) return false;
+    const haystack = [item.name, item.color, item.brand, ...item.tags].join(' ').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+};
+
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
@@ -1,10 +1,307 @@
 
+// What a try-on item is and where it is worn, so the prompt can place each image correctly.
+export type ItemRole = 'top' | 'bottom' | 'dress' | 'outerwear' | 'shoes' | 'bag' | 'jewelry' | 'hat';
+
 export interface UploadedFile {
   id: string;
   file: File;
   preview: string;
+  // Try-on items only; unset until the user picks a role or it is detected.
+  role?: ItemRole;
+  // Free-form styling notes for this item, e.g. "worn open" or "tucked in".
+  notes?: string;
 }
 
-export type AppTab = 'tryon' | 'generate' | 'edit';
+// An item as sent to the try-on, with its placement hints.
+export type LookItem = Pick<UploadedFile, 'file' | 'role' | 'notes'>;
+
+export type AppTab = 'tryon' | 'generate' | 'edit' | 'gallery' | 'wardrobe';
+
+// Looks up the model-written alt text for a generated image, or returns `fallback` until there is one.
+export type AltTextFor = (image: string, fallback: string) => string;
+
+// Ref callback factory that has a thumbnail of `image` described once it scrolls into view.
+export type DescribeOnView = (image: string) => (element: HTMLElement | null) => void | (() => void);
 
 export type AspectRatio = "1:1" | "3:4" | "4:3" | "9:16" | "16:9";
+
+export type ImageVersionSource = 'tryon' | 'generate' | 'edit';
+
+// One node in the edit history tree. Roots come from a generation; every edit
+// becomes a child of the version it was applied to, so editing an older
+// version starts a new branch instead of discarding later ones.
+export interface ImageVersion {
+  id: string;
+  parentId: string | null;
+  image: string;
+  prompt: string;
+  source: ImageVersionSource;
+  // Painted region of a region edit (PNG base64), kept so the edit can be replayed.
+  mask?: string;
+  // Set on generations: what they were made from, whatever the form holds by now.
+  generation?: LookGeneration;
+  createdAt: number;
+}
+
+export interface LookGeneration {
+  // The try-on scene or the text-to-image prompt.
+  prompt: string;
+  aspectRatio: AspectRatio | null;
+}
+
+export type ImprovementCategory = 'fit' | 'color' | 'accessories' | 'footwear' | 'layering' | 'grooming' | 'styling';
+
+// Structured output of the Pro fashion analysis.
+export interface FashionAnalysis {
+  summary: string;
+  // 0–10
+  overallScore: number;
+  items: { name: string; notes: string; score: number }[];
+  colorPalette: { name: string; hex: string }[];
+  // 1–5 per occasion
+  occasionRatings: { occasion: string; rating: number; comment: string }[];
+  improvements: { category: ImprovementCategory; suggestion: string }[];
+}
+
+// Text streamed while a Pro analysis is produced: the model's thought summaries, then the
+// raw JSON answer as it arrives. Both accumulate from the start of the attempt.
+export interface AnalysisProgress {
+  thoughts: string;
+  answer: string;
+}
+
+// Whether one uploaded item made it into a try-on result, as judged by a vision model.
+export interface ItemFidelityCheck {
+  // Index of the item in the order it was sent to the try-on.
+  index: number;
+  present: boolean;
+  colorMatch: boolean;
+  patternMatch: boolean;
+  shapeMatch: boolean;
+  // 0–1
+  confidence: number;
+  notes: string;
+  // Set when the verifier skipped the item, which then counts as missing.
+  unreported?: boolean;
+}
+
+// One check per uploaded item, in item order.
+export interface FidelityReport {
+  checks: ItemFidelityCheck[];
+}
+
+// How closely the person in a try-on result resembles their reference photos, as judged by a vision model.
+export interface IdentityCheck {
+  // Whether a face was clear enough in both the photos and the result to compare.
+  faceVisible: boolean;
+  // 0–1
+  similarity: number;
+  // Traits that drifted from the reference photos, e.g. 'face shape', 'skin tone'.
+  differences: string[];
+}
+
+export type ColorSeason = 'spring' | 'summer' | 'autumn' | 'winter';
+
+export type Undertone = 'warm' | 'cool' | 'neutral';
+
+// Seasonal color analysis of the user's photo. Tones and swatches are hex colors.
+export interface PersonalPalette {
+  season: ColorSeason;
+  undertone: Undertone;
+  skinTone: string;
+  hairColor: string;
+  eyeColor: string;
+  bestColors: { name: string; hex: string }[];
+  avoidColors: { name: string; hex: string }[];
+  summary: string;
+}
+
+// One outfit assembled from a pool of items. Indexes refer to the pool in upload order.
+export interface OutfitProposal {
+  // Empty when the model gave the outfit no title.
+  title: string;
+  itemIndexes: number[];
+  reasoning: string;
+}
+
+// A proposal in the "Style me" flow, with the try-on generated for it once it has been run.
+export interface StyledOutfit extends OutfitProposal {
+  id: string;
+  selected: boolean;
+  image: string | null;
+  error: string | null;
+}
+
+export type ChatRole = 'user' | 'stylist';
+
+// A concrete change the stylist proposes, phrased as an instruction for the image editor.
+export interface SuggestedEdit {
+  // Short button text, e.g. 'Swap to loafers'.
+  label: string;
+  prompt: string;
+}
+
+export interface StylistReply {
+  text: string;
+  edits: SuggestedEdit[];
+}
+
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  text: string;
+  // Only stylist messages carry edits.
+  edits: SuggestedEdit[];
+  // Prompts of the edits already applied from this message.
+  appliedEdits: string[];
+  createdAt: number;
+}
+
+// What is sent to the model for each earlier turn.
+export type ChatTurn = Pick<ChatMessage, 'role' | 'text'>;
+
+// Comparative verdict across several looks. Indexes refer to the order the looks were sent in.
+export interface LookComparison {
+  verdict: string;
+  winnerIndex: number;
+  rankings: { index: number; score: number; reason: string }[];
+}
+
+// A result pinned for side-by-side comparison, with the inputs that produced it.
+export interface PinnedLook {
+  id: string;
+  image: string;
+  prompt: string;
+  sceneDescription: string;
+  source: ImageVersionSource;
+  analysis: FashionAnalysis | null;
+}
+
+// A saved look in the local gallery, including everything needed to reopen it.
+export interface GalleryEntry {
+  id: string;
+  createdAt: number;
+  source: ImageVersionSource;
+  image: string;
+  prompt: string;
+  sceneDescription: string;
+  aspectRatio: AspectRatio | null;
+  analysis: FashionAnalysis | null;
+  itemImages: File[];
+  userImage: File | null;
+}
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// One outfit × scene combination in a batch try-on run.
+export interface BatchJob {
+  id: string;
+  outfitIndex: number;
+  scene: string;
+  status: BatchJobStatus;
+  image?: string;
+  error?: string;
+}
+
+export type WardrobeCategory = 'top' | 'bottom' | 'shoes' | 'accessory';
+
+// A clothing item saved to the wardrobe. The preview URL is recreated on load,
+// so only the file itself is persisted.
+export interface WardrobeItem extends Omit<UploadedFile, 'preview'> {
+  name: string;
+  category: WardrobeCategory;
+  color: string;
+  brand: string;
+  tags: string[];
+  createdAt: number;
+}
+
+// Everything needed to present or reproduce the active look outside the app.
+export interface LookExportData {
+  image: string;
+  source: ImageVersionSource;
+  prompt: string;
+  sceneDescription: string;
+  aspectRatio: AspectRatio | null;
+  itemImages: File[];
+  userImage: File | null;
+  analysis: FashionAnalysis | null;
+  // Generation followed by every edit that led to `image`, oldest first.
+  lineage: { source: ImageVersionSource; prompt: string; mask?: string }[];
+  createdAt: number;
+}
+
+// An input image in a look recipe, embedded, referenced, or both.
+export interface RecipeImage {
+  name: string;
+  mimeType: string;
+  // Base64 without the data URL prefix; absent when the image is only referenced.
+  data?: string;
+  // Wardrobe item holding the image; preferred over `data` when it exists locally.
+  wardrobeId?: string;
+  // Placement hints for try-on items.
+  role?: ItemRole;
+  notes?: string;
+}
+
+// Versioned, shareable description of how a look was made, replayable from scratch.
+export interface LookRecipe {
+  format: 'stylemix-look-recipe';
+  version: number;
+  createdAt: string;
+  source: 'tryon' | 'generate';
+  // Scene description for try-ons, text prompt for generations.
+  prompt: string;
+  aspectRatio: AspectRatio | null;
+  // Models the look was originally made with; replays use the current ones.
+  models: { provider: string; generation: string; edit: string };
+  itemImages: RecipeImage[];
+  userImage: RecipeImage | null;
+  edits: { prompt: string; mask?: string }[];
+}
+
+export type SceneAspect = 'location' | 'timeOfDay' | 'lighting' | 'framing' | 'pose' | 'style';
+
+// Structured scene choices for the prompt builder. Empty strings leave an aspect to the model.
+export type SceneSettings = Record<SceneAspect, string> & {
+  // Free-form additions appended after the structured choices.
+  details: string;
+};
+
+export interface ScenePreset {
+  id: string;
+  name: string;
+  settings: SceneSettings;
+  createdAt: number;
+  // Curated presets ship with the app and cannot be deleted.
+  builtIn?: boolean;
+}
+
+export type ModelOperation = 'tryOn' | 'edit' | 'textToImage' | 'analysis' | 'classify';
+
+export type OutputMimeType = 'image/jpeg' | 'image/png';
+
+// User-tunable generation settings from the settings panel, persisted per browser.
+export interface GenerationSettings {
+  models: Record<ModelOperation, string>;
+  // Thinking tokens for analyses and comparisons; -1 lets the model decide.
+  thinkingBudget: number;
+  outputMimeType: OutputMimeType;
+  // Fixed seed for repeatable results where the model supports it; null for random.
+  seed: number | null;
+  // Things the image models should avoid, e.g. "text, watermarks, extra fingers".
+  negativePrompt: string;
+  // Writes analyses, stylist replies and alt text in the interface language instead of English.
+  localizedOutput: boolean;
+}
+
+// What an in-flight request is currently doing, shown next to the loading indicator.
+export type RequestStage = 'classifying' | 'uploading' | 'generating' | 'verifying' | 'matching' | 'editing' | 'analyzing' | 'comparing' | 'chatting' | 'styling' | 'coloring';
+
+export interface ActiveRequest {
+  key: string;
+  label: string;
+  stage: RequestStage;
+  startedAt: number;
+  analysisProgress: AnalysisProgress | null;
+}
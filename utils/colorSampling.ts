@@ -0,0 +1,87 @@
+// Canvas helpers for the personal color analysis: dominant colors of photos and items, and
+// perceptual distances between colors.
+
+// Images are downscaled to this many pixels on the long side before sampling.
+const SAMPLE_SIZE = 96;
+
+// Colors closer than this (CIE76 ΔE) are reported as one.
+const MERGE_DISTANCE = 12;
+
+// Part of an image to sample, as fractions of its width and height.
+export interface SampleRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const FULL_IMAGE: SampleRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+const toHex = (r: number, g: number, b: number) =>
+    `#${[r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+
+const fromHex = (hex: string): [number, number, number] => {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// sRGB (D65) to CIE Lab, so distances roughly match how different two colors look.
+const toLab = ([r, g, b]: [number, number, number]): [number, number, number] => {
+    const linear = [r, g, b].map(channel => {
+        const c = channel / 255;
+        return c > 0.04045 ? ((c + 0.055) / 1.055) ** 2.4 : c / 12.92;
+    });
+    const x = (linear[0] * 0.4124 + linear[1] * 0.3576 + linear[2] * 0.1805) / 0.95047;
+    const y = linear[0] * 0.2126 + linear[1] * 0.7152 + linear[2] * 0.0722;
+    const z = (linear[0] * 0.0193 + linear[1] * 0.1192 + linear[2] * 0.9505) / 1.08883;
+    const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+    return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+// CIE76 ΔE between two hex colors; around 2 is barely noticeable, above 40 clearly different colors.
+export const colorDistance = (a: string, b: string): number => {
+    const [l1, a1, b1] = toLab(fromHex(a));
+    const [l2, a2, b2] = toLab(fromHex(b));
+    return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+};
+
+// Returns up to `count` dominant colors as hex, most common first. Transparent pixels and the
+// near-white backdrop of product shots are ignored.
+export const dominantColors = async (file: File, count: number = 3, region: SampleRegion = FULL_IMAGE): Promise<string[]> => {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const sx = bitmap.width * region.x;
+    const sy = bitmap.height * region.y;
+    const sw = bitmap.width * region.width;
+    const sh = bitmap.height * region.height;
+    const scale = Math.min(1, SAMPLE_SIZE / Math.max(sw, sh));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(sw * scale));
+    canvas.height = Math.max(1, Math.round(sh * scale));
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(bitmap, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    // Buckets of 4 bits per channel, each keeping the sum of its pixels for an average color.
+    const buckets = new Map<number, { r: number; g: number; b: number; n: number }>();
+    for (let i = 0; i < data.length; i += 4) {
+        const [r, g, b, a] = [data[i], data[i + 1], data[i + 2], data[i + 3]];
+        if (a < 128 || (r > 240 && g > 240 && b > 240)) continue;
+        const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+        const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, n: 0 };
+        bucket.r += r;
+        bucket.g += g;
+        bucket.b += b;
+        bucket.n += 1;
+        buckets.set(key, bucket);
+    }
+
+    const colors: string[] = [];
+    for (const bucket of [...buckets.values()].sort((a, b) => b.n - a.n)) {
+        const hex = toHex(bucket.r / bucket.n, bucket.g / bucket.n, bucket.b / bucket.n);
+        if (colors.some(color => colorDistance(color, hex) < MERGE_DISTANCE)) continue;
+        colors.push(hex);
+        if (colors.length === count) break;
+    }
+    return colors;
+};
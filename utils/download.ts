@@ -0,0 +1,32 @@
+// Image services return JPEG unless another output format was chosen in the settings; PNG and
+// WebP (RIFF) data always start with the same signatures.
+export const detectImageMimeType = (base64: string): 'image/jpeg' | 'image/png' | 'image/webp' =>
+    base64.startsWith('iVBORw0KGgo') ? 'image/png' : base64.startsWith('UklGR') ? 'image/webp' : 'image/jpeg';
+
+// The file extension matching a base64 image's format, for download names.
+export const imageExtension = (base64: string) => detectImageMimeType(base64).replace('image/', '');
+
+// Triggers a browser download for a base64 image returned by the image services.
+export const downloadBase64Image = (base64: string, filename?: string) => {
+    const link = document.createElement('a');
+    link.href = `data:${detectImageMimeType(base64)};base64,${base64}`;
+    link.download = filename ?? `stylemix-studio-${Date.now()}.${imageExtension(base64)}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export const downloadJson = (data: unknown, filename: string) => {
+    downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
+};
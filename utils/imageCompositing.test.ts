@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createCanvas, Image, type SKRSContext2D } from '@napi-rs/canvas';
+import { compositeMaskedEdit, toBinaryMask } from './imageCompositing';
+
+// The helpers draw on DOM canvases; a Skia-backed canvas stands in for the browser's.
+beforeAll(() => {
+    vi.stubGlobal('document', { createElement: () => createCanvas(1, 1) });
+    vi.stubGlobal('Image', Image);
+});
+
+afterAll(() => {
+    vi.unstubAllGlobals();
+});
+
+const SIZE = 32;
+
+// A PNG of the given size, painted by `paint`, as base64.
+const png = (paint: (ctx: SKRSContext2D) => void, size = SIZE) => {
+    const canvas = createCanvas(size, size);
+    paint(canvas.getContext('2d'));
+    return canvas.toDataURL('image/png').split(',')[1];
+};
+
+const solid = (color: string, size = SIZE) => png(ctx => {
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, size, size);
+}, size);
+
+// A 16×16 painted square in the middle of an otherwise transparent mask.
+const squareMask = png(ctx => {
+    ctx.fillStyle = '#ff0000';
+    ctx.fillRect(8, 8, 16, 16);
+});
+
+const pixels = async (base64: string) => {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+        image.onload = () => resolve();
+        image.onerror = reject;
+        image.src = `data:image/png;base64,${base64}`;
+    });
+    const canvas = createCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(image, 0, 0);
+    const { data } = ctx.getImageData(0, 0, image.width, image.height);
+    return (x: number, y: number) => Array.from(data.subarray((y * image.width + x) * 4, (y * image.width + x) * 4 + 4));
+};
+
+describe('toBinaryMask', () => {
+    it('turns painted pixels white and everything else opaque black', async () => {
+        const pixel = await pixels(await toBinaryMask(squareMask));
+        expect(pixel(16, 16)).toEqual([255, 255, 255, 255]);
+        expect(pixel(0, 0)).toEqual([0, 0, 0, 255]);
+        expect(pixel(31, 31)).toEqual([0, 0, 0, 255]);
+    });
+});
+
+describe('compositeMaskedEdit', () => {
+    const original = solid('#ff0000');
+    const edited = solid('#0000ff');
+
+    it('takes the edit inside the mask and the original outside it', async () => {
+        const pixel = await pixels(await compositeMaskedEdit(original, edited, squareMask, 0));
+        expect(pixel(16, 16)).toEqual([0, 0, 255, 255]);
+        expect(pixel(8, 8)).toEqual([0, 0, 255, 255]);
+        expect(pixel(7, 7)).toEqual([255, 0, 0, 255]);
+        expect(pixel(24, 16)).toEqual([255, 0, 0, 255]);
+    });
+
+    it('keeps the feathered edge inside the mask', async () => {
+        const pixel = await pixels(await compositeMaskedEdit(original, edited, squareMask, 2));
+        for (let i = 0; i < SIZE; i++) {
+            expect(pixel(i, 7)).toEqual([255, 0, 0, 255]);
+            expect(pixel(7, i)).toEqual([255, 0, 0, 255]);
+            expect(pixel(i, 24)).toEqual([255, 0, 0, 255]);
+            expect(pixel(24, i)).toEqual([255, 0, 0, 255]);
+        }
+        expect(pixel(16, 16)).toEqual([0, 0, 255, 255]);
+    });
+
+    it('scales the edit to the original size and returns a PNG', async () => {
+        const result = await compositeMaskedEdit(original, solid('#0000ff', SIZE * 2), squareMask, 0);
+        expect(result.startsWith('iVBORw0KGgo')).toBe(true);
+        const pixel = await pixels(result);
+        expect(pixel(16, 16)).toEqual([0, 0, 255, 255]);
+        expect(pixel(31, 31)).toEqual([255, 0, 0, 255]);
+    });
+});
@@ -0,0 +1,87 @@
+import { detectImageMimeType } from './download';
+import { t } from '../i18n';
+
+// Canvas helpers for region-targeted edits. Masks are PNGs where painted pixels
+// are opaque and everything else is transparent.
+
+export const loadBase64Image = (base64: string, mimeType: string = detectImageMimeType(base64)) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(t('error.imageDecode')));
+    image.src = `data:${mimeType};base64,${base64}`;
+});
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+// Converts a painted mask into the opaque black/white form image models expect:
+// white where edits are allowed, black everywhere else.
+export const toBinaryMask = async (maskBase64: string): Promise<string> => {
+    const mask = await loadBase64Image(maskBase64, 'image/png');
+    const { canvas, ctx } = createCanvas(mask.naturalWidth, mask.naturalHeight);
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    const { canvas: white, ctx: whiteCtx } = createCanvas(canvas.width, canvas.height);
+    whiteCtx.drawImage(mask, 0, 0);
+    whiteCtx.globalCompositeOperation = 'source-in';
+    whiteCtx.fillStyle = '#ffffff';
+    whiteCtx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(white, 0, 0);
+    return canvas.toDataURL('image/png').split(',')[1];
+};
+
+// Shrinks the painted area of a mask by `radius` pixels: a pixel stays painted only if
+// every pixel within the radius is painted too.
+const erodeMask = (mask: CanvasImageSource, width: number, height: number, radius: number) => {
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(mask, 0, 0, width, height);
+    ctx.globalCompositeOperation = 'destination-in';
+    for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+            if ((dx !== 0 || dy !== 0) && dx * dx + dy * dy <= radius * radius) {
+                ctx.drawImage(mask, dx, dy, width, height);
+            }
+        }
+    }
+    return canvas;
+};
+
+// Pastes the masked region of `editedBase64` onto `originalBase64`. Pixels outside the
+// mask are copied from the original, so the model cannot alter them. The edge is
+// feathered by `featherPx` inside the painted area to hide the seam, and the result is
+// a lossless PNG so the copied pixels stay exactly as they were.
+export const compositeMaskedEdit = async (
+    originalBase64: string,
+    editedBase64: string,
+    maskBase64: string,
+    featherPx: number = 2
+): Promise<string> => {
+    const [original, edited, mask] = await Promise.all([
+        loadBase64Image(originalBase64),
+        loadBase64Image(editedBase64),
+        loadBase64Image(maskBase64, 'image/png'),
+    ]);
+    const width = original.naturalWidth;
+    const height = original.naturalHeight;
+
+    // The edited region, scaled to the original's size and cut out by the feathered mask.
+    // Clipping to the unfeathered mask afterwards keeps the blur's tail from reaching past it.
+    const { canvas: region, ctx: regionCtx } = createCanvas(width, height);
+    regionCtx.drawImage(edited, 0, 0, width, height);
+    regionCtx.globalCompositeOperation = 'destination-in';
+    if (featherPx > 0) {
+        regionCtx.filter = `blur(${featherPx}px)`;
+        regionCtx.drawImage(erodeMask(mask, width, height, featherPx), 0, 0);
+        regionCtx.filter = 'none';
+    }
+    regionCtx.drawImage(mask, 0, 0, width, height);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(original, 0, 0);
+    ctx.drawImage(region, 0, 0);
+    return canvas.toDataURL('image/png').split(',')[1];
+};
@@ -0,0 +1,372 @@
+import type { FashionAnalysis, LookExportData } from '../types';
+import { getImageProvider, type ImageProviderName } from '../services/imageProvider';
+import { canEncodePdfText, createPdfDocument, wrapPdfText, type PdfJpeg, type PdfPage } from './pdf';
+import { getLocale, t } from '../i18n';
+
+// Builders for the export dialog: a lookbook PDF, a contact-sheet PNG and a JSON
+// sidecar that records how the look was made.
+
+export interface ExportContentOptions {
+    includeAnalysis: boolean;
+    includeItems: boolean;
+}
+
+interface SidecarImage {
+    name: string;
+    mimeType: string;
+    size: number;
+    // Base64 without the data URL prefix; only present when images are embedded.
+    data?: string;
+}
+
+export interface LookSidecar {
+    format: 'stylemix-look';
+    version: 1;
+    exportedAt: string;
+    createdAt: string;
+    provider: ImageProviderName;
+    source: LookExportData['source'];
+    prompt: string;
+    sceneDescription: string;
+    aspectRatio: LookExportData['aspectRatio'];
+    lineage: LookExportData['lineage'];
+    itemImages: SidecarImage[];
+    userImage: SidecarImage | null;
+    analysis: FashionAnalysis | null;
+    image?: string;
+}
+
+export const exportBaseName = (data: LookExportData) => `stylemix-look-${data.createdAt}`;
+
+const readAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error(t('lookbook.readFailed')));
+    reader.readAsDataURL(file);
+});
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(t('error.imageDecode')));
+    image.src = src;
+});
+
+const describeFile = async (file: File, embed: boolean): Promise<SidecarImage> => ({
+    name: file.name,
+    mimeType: file.type,
+    size: file.size,
+    data: embed ? (await readAsDataUrl(file)).split(',')[1] : undefined,
+});
+
+export const buildLookSidecar = async (data: LookExportData, embedImages: boolean): Promise<LookSidecar> => ({
+    format: 'stylemix-look',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    createdAt: new Date(data.createdAt).toISOString(),
+    provider: getImageProvider().name,
+    source: data.source,
+    prompt: data.prompt,
+    sceneDescription: data.sceneDescription,
+    aspectRatio: data.aspectRatio,
+    lineage: data.lineage,
+    itemImages: await Promise.all(data.itemImages.map(file => describeFile(file, embedImages))),
+    userImage: data.userImage ? await describeFile(data.userImage, embedImages) : null,
+    analysis: data.analysis,
+    image: embedImages ? data.image : undefined,
+});
+
+const lookSrc = (data: LookExportData) => `data:image/jpeg;base64,${data.image}`;
+
+// Items first, then the model photo, each with a caption.
+const sourceImages = async (data: LookExportData) => {
+    const files = [...data.itemImages.map(file => ({ file, caption: file.name })), ...(data.userImage ? [{ file: data.userImage, caption: t('lookbook.modelPhoto') }] : [])];
+    return Promise.all(files.map(async ({ file, caption }) => ({ image: await loadImage(await readAsDataUrl(file)), caption })));
+};
+
+// Re-encodes any image as a JPEG on white (PDF has no transparency here), downscaled to `maxDimension`.
+const toPdfJpeg = async (image: HTMLImageElement, maxDimension: number): Promise<PdfJpeg> => {
+    const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+    if (!blob) throw new Error(t('lookbook.encodeFailed'));
+    return { bytes: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+};
+
+const fit = (width: number, height: number, maxWidth: number, maxHeight: number) => {
+    const scale = Math.min(maxWidth / width, maxHeight / height);
+    return { width: width * scale, height: height * scale };
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(getLocale(), { year: 'numeric', month: 'long', day: 'numeric' });
+
+const describePrompt = (data: LookExportData) => data.source === 'generate'
+    ? { label: t('lookbook.prompt'), text: data.prompt }
+    : { label: t('lookbook.scene'), text: data.sceneDescription || data.prompt };
+
+// Every piece of text the lookbook would draw, for checking it against the PDF fonts.
+const lookbookText = (data: LookExportData, { includeAnalysis, includeItems }: ExportContentOptions): string[] => {
+    const prompt = describePrompt(data);
+    const text = [t('lookbook.title'), formatDate(data.createdAt), prompt.label, prompt.text, t('lookbook.edits'), ...data.lineage.slice(1).map(edit => edit.prompt)];
+    if (includeItems) {
+        text.push(t('lookbook.sourceItems'), t('lookbook.modelPhoto'), ...data.itemImages.map(file => file.name));
+    }
+    const analysis = data.analysis;
+    if (includeAnalysis && analysis) {
+        text.push(t('output.analysisTitle'), t('analysis.palette'), t('analysis.items'), t('analysis.occasions'), t('analysis.improvements'), analysis.summary);
+        analysis.colorPalette.forEach(color => text.push(color.name));
+        analysis.items.forEach(item => text.push(item.name, item.notes));
+        analysis.occasionRatings.forEach(rating => text.push(rating.occasion, rating.comment));
+        analysis.improvements.forEach(improvement => text.push(t(`analysis.category.${improvement.category}`), improvement.suggestion));
+    }
+    return text;
+};
+
+// False when the lookbook would contain text the PDF cannot show, such as an Arabic interface
+// or analysis; the contact sheet draws with the browser's fonts and has no such limit.
+export const canBuildLookbookPdf = (data: LookExportData, content: ExportContentOptions): boolean =>
+    lookbookText(data, content).every(canEncodePdfText);
+
+export const buildLookbookPdf = async (data: LookExportData, { includeAnalysis, includeItems }: ExportContentOptions): Promise<Blob> => {
+    const pdf = createPdfDocument();
+    const margin = 40;
+    let page: PdfPage = pdf.addPage();
+    const contentWidth = page.width - margin * 2;
+    let top = margin;
+
+    const ensureSpace = (height: number) => {
+        if (top + height > page.height - margin) {
+            page = pdf.addPage();
+            top = margin;
+        }
+    };
+    const heading = (text: string, size = 13) => {
+        ensureSpace(size + 24);
+        top += 10;
+        page.drawText(text, margin, top, size, { font: 'bold' });
+        top += size + 8;
+    };
+    const paragraph = (text: string, size = 10, color = '#374151', indent = 0) => {
+        for (const line of wrapPdfText(text, size, contentWidth - indent)) {
+            ensureSpace(size * 1.45);
+            page.drawText(line, margin + indent, top, size, { color });
+            top += size * 1.45;
+        }
+    };
+
+    page.drawText(t('lookbook.title'), margin, top, 22, { font: 'bold' });
+    page.drawText(formatDate(data.createdAt), margin, top + 28, 10, { color: '#6b7280' });
+    top += 52;
+
+    const look = await loadImage(lookSrc(data));
+    const lookJpeg = await toPdfJpeg(look, 1600);
+    const lookSize = fit(lookJpeg.width, lookJpeg.height, contentWidth, 460);
+    page.drawImage(lookJpeg, margin + (contentWidth - lookSize.width) / 2, top, lookSize.width, lookSize.height);
+    top += lookSize.height + 8;
+
+    const prompt = describePrompt(data);
+    heading(prompt.label);
+    paragraph(prompt.text);
+    const edits = data.lineage.slice(1);
+    if (edits.length > 0) {
+        heading(t('lookbook.edits'));
+        edits.forEach((edit, i) => paragraph(`${i + 1}. ${edit.prompt}`));
+    }
+
+    if (includeItems) {
+        const sources = await sourceImages(data);
+        if (sources.length > 0) {
+            heading(t('lookbook.sourceItems'));
+            const thumb = 88;
+            const gap = 12;
+            const perRow = Math.floor((contentWidth + gap) / (thumb + gap));
+            for (let row = 0; row * perRow < sources.length; row++) {
+                ensureSpace(thumb + 20);
+                for (const [col, source] of sources.slice(row * perRow, (row + 1) * perRow).entries()) {
+                    const jpeg = await toPdfJpeg(source.image, 400);
+                    const size = fit(jpeg.width, jpeg.height, thumb, thumb);
+                    const x = margin + col * (thumb + gap);
+                    page.drawRect(x, top, thumb, thumb, '#f3f4f6');
+                    page.drawImage(jpeg, x + (thumb - size.width) / 2, top + (thumb - size.height) / 2, size.width, size.height);
+                    const caption = wrapPdfText(source.caption, 7, thumb)[0];
+                    page.drawText(caption, x, top + thumb + 4, 7, { color: '#6b7280' });
+                }
+                top += thumb + 20;
+            }
+        }
+    }
+
+    const analysis = data.analysis;
+    if (includeAnalysis && analysis) {
+        page = pdf.addPage();
+        top = margin;
+        page.drawText(t('output.analysisTitle'), margin, top, 20, { font: 'bold' });
+        page.drawText(`${analysis.overallScore.toFixed(1)} / 10`, page.width - margin - 70, top + 2, 18, { font: 'bold' });
+        top += 36;
+        paragraph(analysis.summary, 11);
+
+        if (analysis.colorPalette.length > 0) {
+            heading(t('analysis.palette'));
+            const swatchWidth = contentWidth / Math.min(6, analysis.colorPalette.length);
+            analysis.colorPalette.slice(0, 6).forEach((color, i) => {
+                const x = margin + i * swatchWidth;
+                page.drawRect(x, top, swatchWidth - 8, 36, color.hex);
+                page.drawText(wrapPdfText(color.name, 8, swatchWidth - 8)[0], x, top + 42, 8);
+                page.drawText(color.hex, x, top + 53, 8, { color: '#6b7280' });
+            });
+            top += 68;
+        }
+        if (analysis.items.length > 0) {
+            heading(t('analysis.items'));
+            analysis.items.forEach(item => {
+                ensureSpace(30);
+                page.drawText(`${item.name} — ${item.score.toFixed(1)}/10`, margin, top, 10, { font: 'bold' });
+                top += 14;
+                paragraph(item.notes, 9, '#4b5563', 8);
+                top += 4;
+            });
+        }
+        if (analysis.occasionRatings.length > 0) {
+            heading(t('analysis.occasions'));
+            analysis.occasionRatings.forEach(rating => paragraph(`${rating.occasion} (${rating.rating}/5): ${rating.comment}`, 9));
+        }
+        if (analysis.improvements.length > 0) {
+            heading(t('analysis.improvements'));
+            analysis.improvements.forEach(improvement => paragraph(`• ${t(`analysis.category.${improvement.category}`)}: ${improvement.suggestion}`, 9));
+        }
+    }
+
+    return pdf.toBlob();
+};
+
+// Canvas text drawing is queued while laying out, so the final height is known before the
+// canvas is created.
+type DrawOp = (ctx: CanvasRenderingContext2D) => void;
+
+const wrapCanvasText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(candidate).width > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+};
+
+export const buildContactSheet = async (data: LookExportData, { includeAnalysis, includeItems }: ExportContentOptions): Promise<Blob> => {
+    const padding = 64;
+    const lookBox = 1100;
+    const columnX = padding * 2 + lookBox;
+    const columnWidth = 720;
+    const width = columnX + columnWidth + padding;
+    const fontFamily = 'Inter, Helvetica, Arial, sans-serif';
+
+    const look = await loadImage(lookSrc(data));
+    const lookSize = fit(look.naturalWidth, look.naturalHeight, lookBox, lookBox * 1.4);
+    const sources = includeItems ? await sourceImages(data) : [];
+
+    const measure = document.createElement('canvas').getContext('2d')!;
+    const ops: DrawOp[] = [];
+    let top = padding;
+
+    const text = (value: string, size: number, { weight = 400, color = '#111111', maxLines = Infinity } = {}) => {
+        measure.font = `${weight} ${size}px ${fontFamily}`;
+        const lines = wrapCanvasText(measure, value, columnWidth).slice(0, maxLines);
+        const y = top;
+        ops.push(ctx => {
+            ctx.font = `${weight} ${size}px ${fontFamily}`;
+            ctx.fillStyle = color;
+            ctx.textBaseline = 'top';
+            lines.forEach((line, i) => ctx.fillText(line, columnX, y + i * size * 1.4));
+        });
+        top += lines.length * size * 1.4;
+    };
+    const label = (value: string) => {
+        top += 28;
+        text(value.toUpperCase(), 18, { weight: 600, color: '#6b7280' });
+        top += 8;
+    };
+
+    text(t('lookbook.sheetTitle'), 48, { weight: 700 });
+    text(formatDate(data.createdAt), 22, { color: '#6b7280' });
+
+    const prompt = describePrompt(data);
+    label(prompt.label);
+    text(prompt.text, 24, { color: '#374151', maxLines: 8 });
+
+    if (sources.length > 0) {
+        label(t('lookbook.sourceItems'));
+        const thumb = 164;
+        const gap = 16;
+        const perRow = Math.floor((columnWidth + gap) / (thumb + gap));
+        sources.forEach((source, i) => {
+            const x = columnX + (i % perRow) * (thumb + gap);
+            const y = top + Math.floor(i / perRow) * (thumb + 40);
+            const size = fit(source.image.naturalWidth, source.image.naturalHeight, thumb, thumb);
+            measure.font = `400 16px ${fontFamily}`;
+            const caption = wrapCanvasText(measure, source.caption, thumb)[0] ?? '';
+            ops.push(ctx => {
+                ctx.fillStyle = '#f3f4f6';
+                ctx.fillRect(x, y, thumb, thumb);
+                ctx.drawImage(source.image, x + (thumb - size.width) / 2, y + (thumb - size.height) / 2, size.width, size.height);
+                ctx.font = `400 16px ${fontFamily}`;
+                ctx.fillStyle = '#6b7280';
+                ctx.fillText(caption, x, y + thumb + 8);
+            });
+        });
+        top += Math.ceil(sources.length / perRow) * (thumb + 40);
+    }
+
+    const analysis = data.analysis;
+    if (includeAnalysis && analysis) {
+        label(t('output.analysisTitle'));
+        text(`${analysis.overallScore.toFixed(1)} / 10`, 56, { weight: 700 });
+        top += 8;
+        text(analysis.summary, 22, { color: '#374151', maxLines: 10 });
+        if (analysis.colorPalette.length > 0) {
+            top += 20;
+            const swatch = 56;
+            const y = top;
+            analysis.colorPalette.slice(0, 8).forEach((color, i) => {
+                ops.push(ctx => {
+                    ctx.fillStyle = color.hex;
+                    ctx.fillRect(columnX + i * (swatch + 12), y, swatch, swatch);
+                });
+            });
+            top += swatch;
+        }
+        if (analysis.improvements.length > 0) {
+            label(t('analysis.improvements'));
+            analysis.improvements.slice(0, 4).forEach(improvement => {
+                text(`• ${improvement.suggestion}`, 20, { color: '#374151', maxLines: 3 });
+                top += 6;
+            });
+        }
+    }
+
+    const height = Math.ceil(Math.max(top, padding + lookSize.height) + padding);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(look, padding + (lookBox - lookSize.width) / 2, padding, lookSize.width, lookSize.height);
+    ops.forEach(op => op(ctx));
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error(t('lookbook.renderFailed'));
+    return blob;
+};
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { canEncodePdfText } from './pdf';
+
+describe('canEncodePdfText', () => {
+    it('accepts Latin-1 and the typographic characters WinAnsi adds', () => {
+        expect(canEncodePdfText('Café crème – “golden hour” …')).toBe(true);
+    });
+
+    it('rejects scripts the built-in fonts cannot draw', () => {
+        expect(canEncodePdfText('إطلالة مسائية')).toBe(false);
+        expect(canEncodePdfText('Look ✨')).toBe(false);
+    });
+});
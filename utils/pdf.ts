@@ -0,0 +1,171 @@
+// Minimal PDF writer for exports: JPEG images, filled rectangles and text in the
+// built-in Helvetica fonts. Coordinates are in points with the origin at the top left
+// (converted to PDF's bottom-left origin on output).
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfJpeg {
+    bytes: Uint8Array;
+    width: number;
+    height: number;
+}
+
+// Advance widths of Helvetica for ASCII 32–126, in 1/1000 em. Bold is slightly wider;
+// the regular metrics are close enough for wrapping.
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Typographic characters outside Latin-1 that WinAnsiEncoding still covers.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+    '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97,
+    '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '€': 0x80,
+};
+
+export const measurePdfText = (text: string, size: number, font: PdfFont = 'regular'): number => {
+    let width = 0;
+    for (const char of text) {
+        const code = char.charCodeAt(0);
+        width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+    }
+    return (width * size / 1000) * (font === 'bold' ? 1.05 : 1);
+};
+
+// Greedy word wrap; words longer than the line are left to overflow.
+export const wrapPdfText = (text: string, size: number, maxWidth: number, font: PdfFont = 'regular'): string[] => {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && measurePdfText(candidate, size, font) > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        lines.push(line);
+    }
+    return lines;
+};
+
+// The built-in fonts only cover WinAnsiEncoding, so other scripts (Arabic, Cyrillic, CJK…) cannot be drawn.
+export const canEncodePdfText = (text: string): boolean =>
+    [...text].every(char => char in WIN_ANSI_EXTRAS || char.charCodeAt(0) <= 255);
+
+const encodeText = (text: string): string => {
+    let out = '';
+    for (const char of text) {
+        const code = WIN_ANSI_EXTRAS[char] ?? char.charCodeAt(0);
+        const byte = code > 255 ? 0x3f : code;
+        const c = String.fromCharCode(byte);
+        out += c === '(' || c === ')' || c === '\\' ? `\\${c}` : byte < 32 || byte > 126 ? `\\${byte.toString(8).padStart(3, '0')}` : c;
+    }
+    return out;
+};
+
+const toRgb = (hex: string): string => {
+    const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+    const value = match ? parseInt(match[1], 16) : 0;
+    return [value >> 16, (value >> 8) & 0xff, value & 0xff].map(c => (c / 255).toFixed(3)).join(' ');
+};
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+export const createPdfDocument = () => {
+    const pages: { width: number; height: number; commands: string[]; images: Set<number> }[] = [];
+    const images: PdfJpeg[] = [];
+    const imageIds = new Map<PdfJpeg, number>();
+
+    const addPage = (width = 595, height = 842) => {
+        const page = { width, height, commands: [] as string[], images: new Set<number>() };
+        pages.push(page);
+        const y = (top: number, boxHeight = 0) => height - top - boxHeight;
+
+        return {
+            width,
+            height,
+            drawImage(image: PdfJpeg, x: number, top: number, drawWidth: number, drawHeight: number) {
+                let id = imageIds.get(image);
+                if (id === undefined) {
+                    id = images.push(image) - 1;
+                    imageIds.set(image, id);
+                }
+                page.images.add(id);
+                page.commands.push(`q ${num(drawWidth)} 0 0 ${num(drawHeight)} ${num(x)} ${num(y(top, drawHeight))} cm /Im${id} Do Q`);
+            },
+            drawRect(x: number, top: number, rectWidth: number, rectHeight: number, color: string) {
+                page.commands.push(`${toRgb(color)} rg ${num(x)} ${num(y(top, rectHeight))} ${num(rectWidth)} ${num(rectHeight)} re f`);
+            },
+            // `top` is the top of the line box; the baseline sits at roughly 80% of the size.
+            drawText(text: string, x: number, top: number, size: number, { font = 'regular', color = '#111111' }: { font?: PdfFont; color?: string } = {}) {
+                page.commands.push(`BT /${font === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf ${toRgb(color)} rg ${num(x)} ${num(y(top + size * 0.8))} Td (${encodeText(text)}) Tj ET`);
+            },
+        };
+    };
+
+    const toBlob = (): Blob => {
+        const encoder = new TextEncoder();
+        const chunks: Uint8Array[] = [];
+        const offsets: number[] = [];
+        let length = 0;
+        const write = (chunk: string | Uint8Array) => {
+            const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+            chunks.push(bytes);
+            length += bytes.length;
+        };
+        const object = (id: number, body: string, stream?: Uint8Array) => {
+            offsets[id] = length;
+            write(`${id} 0 obj\n${body}\n`);
+            if (stream) {
+                write('stream\n');
+                write(stream);
+                write('\nendstream\n');
+            }
+            write('endobj\n');
+        };
+
+        // Fixed objects: 1 catalog, 2 page tree, 3–4 fonts. Images follow, then page/content pairs.
+        const firstImageId = 5;
+        const firstPageId = firstImageId + images.length;
+        const pageIds = pages.map((_, i) => firstPageId + i * 2);
+
+        write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+        object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+        object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+        object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+        object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+        images.forEach((image, i) => {
+            object(firstImageId + i,
+                `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>`,
+                image.bytes);
+        });
+        pages.forEach((page, i) => {
+            const content = encoder.encode(page.commands.join('\n'));
+            const xObjects = [...page.images].map(id => `/Im${id} ${firstImageId + id} 0 R`).join(' ');
+            object(pageIds[i],
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] /Contents ${pageIds[i] + 1} 0 R ` +
+                `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> >>`);
+            object(pageIds[i] + 1, `<< /Length ${content.length} >>`, content);
+        });
+
+        const xrefOffset = length;
+        const objectCount = firstPageId + pages.length * 2;
+        write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+        for (let id = 1; id < objectCount; id++) {
+            write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+        }
+        write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+        return new Blob(chunks, { type: 'application/pdf' });
+    };
+
+    return { addPage, toBlob };
+};
+
+export type PdfPage = ReturnType<ReturnType<typeof createPdfDocument>['addPage']>;
@@ -8,11 +8,16 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Forward API calls to the proxy server started with `npm run server`.
+        proxy: {
+          '/api': env.PROXY_TARGET || 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Never define GEMINI_API_KEY here: anything in `define` is inlined into the client bundle.
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL ?? '')
       },
       resolve: {
         alias: {